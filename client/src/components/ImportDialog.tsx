@@ -0,0 +1,341 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, FileSpreadsheet, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type {
+  ImportEntityType,
+  ImportJob,
+  ImportPreview,
+  ImportRequest,
+  ImportRowAction,
+  ImportRowResult,
+} from "@shared/schema";
+
+type Step = "upload" | "mapping" | "preview" | "progress";
+
+const STEP_TITLES: Record<Step, string> = {
+  upload: "Choose a file",
+  mapping: "Map columns",
+  preview: "Review",
+  progress: "Import",
+};
+
+const ACTION_STYLES: Record<ImportRowAction, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-green-100 text-green-800" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-800" },
+  skip: { label: "Skip", className: "bg-gray-100 text-gray-800" },
+  error: { label: "Error", className: "bg-red-100 text-red-800" },
+};
+
+// Select items cannot have an empty value, so ignored columns use a placeholder
+const IGNORE_COLUMN = "__ignore";
+// How often a running import is polled
+const POLL_INTERVAL_MS = 1000;
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const isFinished = (job?: ImportJob) => job?.status === "completed" || job?.status === "failed";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultEntityType?: ImportEntityType;
+}
+
+const ImportDialog = ({ open, onOpenChange, defaultEntityType = "customers" }: ImportDialogProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [request, setRequest] = useState<ImportRequest>({
+    entityType: defaultEntityType,
+    fileName: "",
+    content: "",
+    duplicateStrategy: "skip",
+  });
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [jobId, setJobId] = useState<number | null>(null);
+
+  // Every time the dialog opens it starts over
+  useEffect(() => {
+    if (open) {
+      setStep("upload");
+      setRequest({ entityType: defaultEntityType, fileName: "", content: "", duplicateStrategy: "skip" });
+      setPreview(null);
+      setJobId(null);
+    }
+  }, [open, defaultEntityType]);
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const previewImport = useMutation({
+    mutationFn: (body: ImportRequest) => apiRequest<ImportPreview>("POST", "/api/commercial/imports/preview", body),
+    onSuccess: (result, body) => {
+      setPreview(result);
+      setRequest({ ...body, mapping: result.mapping });
+      setStep(body.mapping ? "preview" : "mapping");
+    },
+    onError: showError("Could not read the file"),
+  });
+
+  const startImport = useMutation({
+    mutationFn: (body: ImportRequest) => apiRequest<ImportJob>("POST", "/api/commercial/imports", body),
+    onSuccess: (job) => {
+      queryClient.setQueryData([`/api/commercial/imports/${job.id}`], job);
+      setJobId(job.id);
+      setStep("progress");
+    },
+    onError: showError("Could not start the import"),
+  });
+
+  const { data: job } = useQuery<ImportJob>({
+    queryKey: [`/api/commercial/imports/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => (isFinished(query.state.data) ? false : POLL_INTERVAL_MS),
+  });
+
+  useEffect(() => {
+    if (job?.status === "completed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/commercial/${job.entityType}`] });
+    }
+  }, [job?.status, job?.entityType, queryClient]);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const content = await readAsBase64(file);
+    // Without a mapping the server infers one from the headers
+    previewImport.mutate({ ...request, fileName: file.name, content, mapping: undefined });
+  };
+
+  const setColumn = (header: string, field: string) =>
+    setRequest({ ...request, mapping: { ...request.mapping, [header]: field === IGNORE_COLUMN ? null : field } });
+
+  const mappedFields = Object.values(request.mapping ?? {});
+  const missingFields = preview?.fields.filter((field) => field.required && !mappedFields.includes(field.name)) ?? [];
+  const importableRows = preview ? preview.summary.create + preview.summary.update : 0;
+  const progress = job && job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+  const jobErrors = (job?.errors ?? []) as ImportRowResult[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import {request.entityType}: {STEP_TITLES[step]}</DialogTitle>
+          <DialogDescription>
+            Upload a .csv or .xlsx file. The first row must contain the column headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Import into</Label>
+              <Select
+                value={request.entityType}
+                onValueChange={(value) => setRequest({ ...request, entityType: value as ImportEntityType })}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="leads">Leads</SelectItem>
+                  <SelectItem value="customers">Customers</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                disabled={previewImport.isPending}
+                onChange={handleFile}
+              />
+              {previewImport.isPending && <p className="text-sm text-gray-500">Reading file...</p>}
+            </div>
+          </div>
+        )}
+
+        {step === "mapping" && preview && (
+          <div className="space-y-4">
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column in file</TableHead>
+                    <TableHead>Field</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.headers.map((header) => (
+                    <TableRow key={header}>
+                      <TableCell className="font-medium">{header}</TableCell>
+                      <TableCell>
+                        <Select value={request.mapping?.[header] ?? IGNORE_COLUMN} onValueChange={(field) => setColumn(header, field)}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE_COLUMN}>Don't import</SelectItem>
+                            {preview.fields.map((field) => (
+                              <SelectItem key={field.name} value={field.name}>
+                                {field.name}{field.required ? " *" : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex items-center gap-4">
+              <Label>When the email already exists</Label>
+              <Select
+                value={request.duplicateStrategy}
+                onValueChange={(value) => setRequest({ ...request, duplicateStrategy: value as ImportRequest["duplicateStrategy"] })}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip">Skip the row</SelectItem>
+                  <SelectItem value="update">Update the record</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map a column to {missingFields.map((field) => field.name).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              {(Object.keys(ACTION_STYLES) as ImportRowAction[]).map((action) => (
+                <Badge key={action} className={ACTION_STYLES[action].className}>
+                  {ACTION_STYLES[action].label}: {preview.summary[action]}
+                </Badge>
+              ))}
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{String(row.data.email ?? "")}</TableCell>
+                      <TableCell>
+                        <Badge className={ACTION_STYLES[row.action].className}>{ACTION_STYLES[row.action].label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {row.errors.map((error) => `${error.field}: ${error.message}`).join("; ") || row.reason}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {preview.totalRows > preview.rows.length && (
+              <p className="text-sm text-gray-500">
+                Showing the first {preview.rows.length} of {preview.totalRows} rows.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "progress" && job && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              {job.status === "completed" && <CheckCircle2 className="h-5 w-5 text-green-600" />}
+              {job.status === "failed" && <XCircle className="h-5 w-5 text-red-600" />}
+              {!isFinished(job) && <FileSpreadsheet className="h-5 w-5 text-gray-500" />}
+              <span className="font-medium">
+                {job.status === "failed"
+                  ? `Import failed: ${job.failureReason}`
+                  : `${job.processedRows} of ${job.totalRows} rows processed`}
+              </span>
+            </div>
+            <Progress value={progress} />
+            <p className="text-sm text-gray-600">
+              {job.createdCount} created, {job.updatedCount} updated, {job.skippedCount} skipped, {job.errorCount} failed
+            </p>
+            {jobErrors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto rounded border p-2 text-sm text-red-700">
+                {jobErrors.map((row) => (
+                  <p key={row.row}>
+                    Row {row.row}: {row.errors.map((error) => `${error.field}: ${error.message}`).join("; ")}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>Back</Button>
+              <Button
+                disabled={missingFields.length > 0 || previewImport.isPending}
+                onClick={() => previewImport.mutate(request)}
+              >
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")}>Back</Button>
+              <Button disabled={importableRows === 0 || startImport.isPending} onClick={() => startImport.mutate(request)}>
+                Import {importableRows} rows
+              </Button>
+            </>
+          )}
+          {step === "progress" && (
+            <Button onClick={() => onOpenChange(false)}>{isFinished(job) ? "Done" : "Continue in background"}</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
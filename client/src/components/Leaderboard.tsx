@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { PieChart, Pie, Cell, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Leaderboard as LeaderboardData, LeaderboardMetric } from "@shared/schema";
+
+const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  revenue: "Revenue",
+  dealsWon: "Deals won",
+  winRate: "Win rate",
+  activities: "Activities",
+};
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// The gauge fills up to 100%; attainment above that is shown in the label only
+const QuotaGauge = ({ leaderboard }: { leaderboard: LeaderboardData }) => {
+  const { quota, revenue, attainment } = leaderboard.team;
+  if (quota === null || attainment === null) {
+    return <p className="text-sm text-gray-500">No team quota set for {leaderboard.key}.</p>;
+  }
+  const filled = Math.min(attainment, 100);
+  return (
+    <div className="relative">
+      <ResponsiveContainer width="100%" height={180}>
+        <PieChart>
+          <Pie
+            data={[{ value: filled }, { value: 100 - filled }]}
+            dataKey="value"
+            startAngle={180}
+            endAngle={0}
+            cy="100%"
+            innerRadius="120%"
+            outerRadius="160%"
+            stroke="none"
+            isAnimationActive={false}
+          >
+            <Cell fill={attainment >= 100 ? "#10b981" : "#3b82f6"} />
+            <Cell fill="#e5e7eb" />
+          </Pie>
+        </PieChart>
+      </ResponsiveContainer>
+      <div className="absolute inset-x-0 bottom-0 text-center">
+        <div className="text-3xl font-bold text-gray-900">{attainment}%</div>
+        <div className="text-sm text-gray-500">{formatCurrency(revenue)} of {formatCurrency(quota)}</div>
+      </div>
+    </div>
+  );
+};
+
+// Quota attainment and rep ranking for the current month
+const Leaderboard = () => {
+  const [sort, setSort] = useState<LeaderboardMetric>("revenue");
+  const { data: leaderboard, isLoading } = useQuery<LeaderboardData>({
+    queryKey: [`/api/commercial/leaderboard?period=month&sort=${sort}`],
+  });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Quota Attainment{leaderboard ? ` (${leaderboard.key})` : ""}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !leaderboard ? <p className="text-sm text-gray-500">Loading...</p> : <QuotaGauge leaderboard={leaderboard} />}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Leaderboard</CardTitle>
+          <Select value={sort} onValueChange={(value) => setSort(value as LeaderboardMetric)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as LeaderboardMetric[]).map((metric) => (
+                <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !leaderboard ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Rep</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Won</TableHead>
+                  <TableHead className="text-right">Win rate</TableHead>
+                  <TableHead className="text-right">Activities</TableHead>
+                  <TableHead className="text-right">Quota</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaderboard.entries.map((entry) => (
+                  <TableRow key={entry.userId}>
+                    <TableCell>{entry.rank}</TableCell>
+                    <TableCell className="font-medium">{entry.name}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.revenue)}</TableCell>
+                    <TableCell className="text-right">{entry.dealsWon}</TableCell>
+                    <TableCell className="text-right">{entry.winRate === null ? "–" : `${entry.winRate}%`}</TableCell>
+                    <TableCell className="text-right">{entry.activities}</TableCell>
+                    <TableCell className="text-right">{entry.attainment === null ? "–" : `${entry.attainment}%`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getAccessToken } from "@/lib/api";
+import type {
+  Notification,
+  NotificationMessage,
+  NotificationPreferences,
+  NotificationType,
+  Page,
+} from "@shared/schema";
+
+const NOTIFICATIONS_QUERY_KEY = ["/api/commercial/notifications?limit=20"];
+const UNREAD_COUNT_QUERY_KEY = ["/api/commercial/notifications/unread-count"];
+const PREFERENCES_QUERY_KEY = ["/api/commercial/users/me/notification-preferences"];
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  lead_assigned: "Lead assigned to me",
+  deal_stage_changed: "My deal changed stage",
+  activity_due: "Activity due soon",
+  activity_overdue: "Activity overdue",
+  activity_digest: "Daily activity digest",
+};
+
+// The socket is the fast path; the count is still polled in case it is down
+const UNREAD_POLL_MS = 60 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+const timeAgo = (value: Date | string | null) => {
+  if (!value) return "";
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(value).toLocaleDateString();
+};
+
+// Keeps the bell current: refreshes the notification queries on every pushed message and pops
+// up new notifications. Reconnects after a drop, picking up a refreshed access token.
+const useNotificationSocket = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let reconnect: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      const token = getAccessToken();
+      if (!token) return;
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/commercial/notifications/socket?token=${encodeURIComponent(token)}`);
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as NotificationMessage;
+        queryClient.invalidateQueries({ queryKey: UNREAD_COUNT_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+        if (message.type === "notification") {
+          toast({ title: message.notification.title, description: message.notification.body ?? undefined });
+        }
+      };
+      socket.onclose = () => {
+        if (!stopped) reconnect = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnect);
+      socket?.close();
+    };
+  }, [queryClient, toast]);
+};
+
+interface PreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PreferencesDialog = ({ open, onOpenChange }: PreferencesDialogProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: preferences } = useQuery<NotificationPreferences>({ queryKey: PREFERENCES_QUERY_KEY, enabled: open });
+
+  const savePreferences = useMutation({
+    mutationFn: (body: NotificationPreferences) =>
+      apiRequest<NotificationPreferences>("PUT", "/api/commercial/users/me/notification-preferences", body),
+    onSuccess: (saved) => queryClient.setQueryData(PREFERENCES_QUERY_KEY, saved),
+    onError: (error: Error) => toast({ title: "Could not save preferences", description: error.message, variant: "destructive" }),
+  });
+
+  const toggle = (type: NotificationType, channel: "inApp" | "realtime", enabled: boolean) => {
+    if (!preferences) return;
+    savePreferences.mutate({ ...preferences, [type]: { ...preferences[type], [channel]: enabled } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Notification preferences</DialogTitle>
+          <DialogDescription>
+            Choose which events appear in your notifications and which pop up as they happen.
+          </DialogDescription>
+        </DialogHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead className="text-center">In app</TableHead>
+              <TableHead className="text-center">Real time</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(Object.keys(TYPE_LABELS) as NotificationType[]).map((type) => (
+              <TableRow key={type}>
+                <TableCell>{TYPE_LABELS[type]}</TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={preferences?.[type].inApp ?? true}
+                    disabled={!preferences}
+                    onCheckedChange={(checked) => toggle(type, "inApp", checked)}
+                  />
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={(preferences?.[type].inApp ?? true) && (preferences?.[type].realtime ?? true)}
+                    disabled={!preferences?.[type].inApp}
+                    onCheckedChange={(checked) => toggle(type, "realtime", checked)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const NotificationBell = () => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  useNotificationSocket();
+
+  const { data: unread } = useQuery<{ count: number }>({ queryKey: UNREAD_COUNT_QUERY_KEY, refetchInterval: UNREAD_POLL_MS });
+  const { data: notificationsPage, isLoading } = useQuery<Page<Notification>>({ queryKey: NOTIFICATIONS_QUERY_KEY, enabled: open });
+  const notifications = notificationsPage?.data ?? [];
+  const unreadCount = unread?.count ?? 0;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: UNREAD_COUNT_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+  };
+  const markRead = useMutation({
+    mutationFn: (id: number) => apiRequest<Notification>("POST", `/api/commercial/notifications/${id}/read`),
+    onSuccess: refresh,
+  });
+  const markAllRead = useMutation({
+    mutationFn: () => apiRequest<{ updated: number }>("POST", "/api/commercial/notifications/read-all"),
+    onSuccess: refresh,
+  });
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="icon" className="relative" aria-label={`Notifications (${unreadCount} unread)`}>
+            <Bell className="h-4 w-4" />
+            {unreadCount > 0 && (
+              <span className="absolute -right-1.5 -top-1.5 min-w-5 rounded-full bg-red-600 px-1 text-center text-xs font-medium leading-5 text-white">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 p-0">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <span className="font-medium">Notifications</span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={unreadCount === 0 || markAllRead.isPending}
+                onClick={() => markAllRead.mutate()}
+              >
+                Mark all read
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Notification preferences" onClick={() => setPreferencesOpen(true)}>
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <ScrollArea className="max-h-96">
+            {isLoading ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">Loading...</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up.</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  className={`flex w-full flex-col items-start gap-0.5 border-b px-4 py-3 text-left last:border-b-0 hover:bg-gray-50 ${notification.readAt ? "" : "bg-blue-50"}`}
+                  onClick={() => !notification.readAt && markRead.mutate(notification.id)}
+                >
+                  <span className="text-sm font-medium text-gray-900">{notification.title}</span>
+                  {notification.body && <span className="whitespace-pre-line text-xs text-gray-600">{notification.body}</span>}
+                  <span className="text-xs text-gray-400">{timeAgo(notification.createdAt)}</span>
+                </button>
+              ))
+            )}
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+      <PreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,162 @@
+import { useState, type DragEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { Deal, Page, PipelineStage, PipelineWithStages } from "@shared/schema";
+
+// The board shows the most recently updated deals, one page at the largest page size
+export const DEALS_QUERY_KEY = ["/api/commercial/deals?limit=100&sort=-updatedAt"];
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const summarizeStage = (deals: Deal[]) =>
+  deals.reduce(
+    (totals, deal) => {
+      const value = parseFloat(deal.value);
+      totals.total += value;
+      totals.weighted += value * ((deal.probability ?? 0) / 100);
+      return totals;
+    },
+    { total: 0, weighted: 0 }
+  );
+
+const PipelineBoard = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [dragOverStage, setDragOverStage] = useState<string | null>(null);
+  const [selectedPipelineId, setSelectedPipelineId] = useState<number | null>(null);
+
+  const { data: dealsPage, isLoading } = useQuery<Page<Deal>>({
+    queryKey: DEALS_QUERY_KEY,
+  });
+  const deals = dealsPage?.data ?? [];
+
+  const { data: pipelines = [], isLoading: pipelinesLoading } = useQuery<PipelineWithStages[]>({
+    queryKey: ["/api/commercial/pipelines"],
+  });
+
+  // The default pipeline is listed first and also holds deals without a pipeline
+  const defaultPipeline = pipelines[0];
+  const pipeline = pipelines.find((p) => p.id === selectedPipelineId) ?? defaultPipeline;
+  const pipelineDeals = deals.filter((deal) => (deal.pipelineId ?? defaultPipeline?.id) === pipeline?.id);
+
+  const moveDeal = useMutation({
+    mutationFn: ({ id, stage, stageReason }: { id: number; stage: string; stageReason?: string }) =>
+      apiRequest<Deal>("PATCH", `/api/commercial/deals/${id}`, { stage, stageReason }),
+    onMutate: async ({ id, stage }) => {
+      await queryClient.cancelQueries({ queryKey: DEALS_QUERY_KEY });
+      const previousDeals = queryClient.getQueryData<Page<Deal>>(DEALS_QUERY_KEY);
+      queryClient.setQueryData<Page<Deal>>(DEALS_QUERY_KEY, (current) =>
+        current && { ...current, data: current.data.map((deal) => (deal.id === id ? { ...deal, stage } : deal)) }
+      );
+      return { previousDeals };
+    },
+    onError: (error, _variables, context) => {
+      // Roll the card back to where it was before the drop
+      queryClient.setQueryData(DEALS_QUERY_KEY, context?.previousDeals);
+      toast({
+        title: "Could not move deal",
+        description: error instanceof Error ? error.message : "The server rejected the change",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: DEALS_QUERY_KEY });
+    },
+  });
+
+  const handleDrop = (event: DragEvent, stage: PipelineStage) => {
+    event.preventDefault();
+    setDragOverStage(null);
+    const id = Number(event.dataTransfer.getData("text/plain"));
+    const deal = deals.find((d) => d.id === id);
+    if (!deal || deal.stage === stage.key) {
+      return;
+    }
+    if (stage.isLost) {
+      const stageReason = window.prompt(`Why was "${deal.title}" lost?`);
+      if (stageReason === null) return;
+      moveDeal.mutate({ id, stage: stage.key, stageReason });
+    } else {
+      moveDeal.mutate({ id, stage: stage.key });
+    }
+  };
+
+  if (isLoading || pipelinesLoading || !pipeline) {
+    return <div className="text-gray-600">Loading pipeline...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {pipelines.length > 1 && (
+        <Select value={String(pipeline.id)} onValueChange={(value) => setSelectedPipelineId(Number(value))}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pipelines.map((p) => (
+              <SelectItem key={p.id} value={String(p.id)}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {pipeline.stages.map((stage) => {
+          const stageDeals = pipelineDeals.filter((deal) => deal.stage === stage.key);
+          const { total, weighted } = summarizeStage(stageDeals);
+
+          return (
+            <Card
+              key={stage.key}
+              className={cn(
+                "w-72 shrink-0 bg-gray-50 transition-colors",
+                dragOverStage === stage.key && "ring-2 ring-blue-400"
+              )}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDragOverStage(stage.key);
+              }}
+              onDragLeave={() => setDragOverStage(null)}
+              onDrop={(event) => handleDrop(event, stage)}
+            >
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-sm font-medium text-gray-700">{stage.name}</CardTitle>
+                  <Badge variant="secondary">{stageDeals.length}</Badge>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatCurrency(total)} total · {formatCurrency(weighted)} weighted
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 min-h-[120px]">
+                {stageDeals.map((deal) => (
+                  <div
+                    key={deal.id}
+                    draggable
+                    onDragStart={(event) => event.dataTransfer.setData("text/plain", String(deal.id))}
+                    className="rounded-md border bg-white p-3 shadow-sm cursor-grab active:cursor-grabbing"
+                  >
+                    <div className="font-medium text-gray-900">{deal.title}</div>
+                    <div className="flex justify-between text-sm text-gray-600 mt-1">
+                      <span>{formatCurrency(parseFloat(deal.value))}</span>
+                      <span>{deal.probability ?? 0}%</span>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBoard;
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Activity, Briefcase, User, UserPlus, type LucideIcon } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import type { SearchEntityType, SearchResponse, SearchResult } from "@shared/schema";
+
+const GROUPS: Record<SearchEntityType, { heading: string; icon: LucideIcon }> = {
+  lead: { heading: "Leads", icon: UserPlus },
+  customer: { heading: "Customers", icon: User },
+  deal: { heading: "Deals", icon: Briefcase },
+  activity: { heading: "Activities", icon: Activity },
+};
+
+// Wait for a pause in typing before hitting the search endpoint
+const SEARCH_DELAY_MS = 200;
+
+const Highlighted = ({ text, ranges }: { text: string; ranges: [number, number][] }) => {
+  const parts = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (result: SearchResult) => void;
+  initialQuery?: string; // e.g. what was typed into a page's search box
+}
+
+const SearchPalette = ({ open, onOpenChange, onSelect, initialQuery = "" }: SearchPaletteProps) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    if (open) setQuery(initialQuery);
+  }, [open, initialQuery]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  // Cmd+K / Ctrl+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: [`/api/commercial/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && debouncedQuery.length >= 2,
+  });
+  const groups = debouncedQuery.length >= 2 ? data?.groups ?? [] : [];
+
+  return (
+    // Results are already ranked by the server, so cmdk's own filtering is turned off
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput placeholder="Search leads, customers, deals and activities..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        <CommandEmpty>
+          {query.trim().length < 2 ? "Type at least 2 characters" : isFetching ? "Searching..." : "No results found."}
+        </CommandEmpty>
+        {groups.map((group) => {
+          const { heading, icon: Icon } = GROUPS[group.entityType];
+          return (
+            <CommandGroup key={group.entityType} heading={`${heading} (${group.total})`}>
+              {group.results.map((result) => (
+                <CommandItem
+                  key={`${result.entityType}-${result.id}`}
+                  value={`${result.entityType}-${result.id}`}
+                  onSelect={() => {
+                    onSelect(result);
+                    onOpenChange(false);
+                  }}
+                >
+                  <Icon className="mr-2 h-4 w-4 text-gray-500" />
+                  <div className="flex flex-col">
+                    <span>
+                      <Highlighted text={result.title} ranges={result.highlights.title} />
+                    </span>
+                    {result.subtitle && (
+                      <span className="text-xs text-gray-500">
+                        <Highlighted text={result.subtitle} ranges={result.highlights.subtitle} />
+                      </span>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+      <div className="border-t px-3 py-2 text-xs text-gray-500">
+        Open search anywhere with <CommandShortcut className="ml-1">⌘K</CommandShortcut>
+      </div>
+    </CommandDialog>
+  );
+};
+
+export default SearchPalette;
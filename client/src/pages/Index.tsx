@@ -27,35 +27,81 @@ import {
   Target,
   Plus,
   Search,
-  Filter
+  Filter,
+  Upload,
+  Download
 } from "lucide-react";
-import type { Customer, SalesData } from "@shared/schema";
+import PipelineBoard, { DEALS_QUERY_KEY } from "@/components/PipelineBoard";
+import SearchPalette from "@/components/SearchPalette";
+import ImportDialog from "@/components/ImportDialog";
+import NotificationBell from "@/components/NotificationBell";
+import Leaderboard from "@/components/Leaderboard";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/api";
+import type { Customer, SalesData, Deal, Page, SearchResult, ExportFormat } from "@shared/schema";
+
+// Tab showing each kind of search result
+const RESULT_TABS: Partial<Record<SearchResult["entityType"], string>> = {
+  customer: "customers",
+  deal: "sales",
+};
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (.xlsx)" },
+  { format: "ndjson", label: "JSON (one record per line)" },
+];
 
 const Dashboard = () => {
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState("dashboard");
+  const [importOpen, setImportOpen] = useState(false);
 
   // Fetch customers from API
-  const { data: customers = [], isLoading: customersLoading } = useQuery<Customer[]>({
+  const { data: customersPage, isLoading: customersLoading } = useQuery<Page<Customer>>({
     queryKey: ['/api/customers'],
   });
+  const customers = customersPage?.data ?? [];
+
+  // Only the total is needed, so a single record is requested
+  const { data: activeCustomersPage } = useQuery<Page<Customer>>({
+    queryKey: ['/api/customers?status=active&limit=1'],
+  });
 
   // Fetch sales data from API
   const { data: salesData = [], isLoading: salesLoading } = useQuery<SalesData[]>({
     queryKey: ['/api/sales-data'],
   });
 
+  // Fetch deals from API (shared with the pipeline board)
+  const { data: dealsPage } = useQuery<Page<Deal>>({
+    queryKey: DEALS_QUERY_KEY,
+  });
+  const deals = dealsPage?.data ?? [];
+
   const pipelineData = [
-    { name: 'Prospects', value: 45, color: '#8884d8' },
-    { name: 'Qualified', value: 32, color: '#82ca9d' },
-    { name: 'Proposal', value: 18, color: '#ffc658' },
-    { name: 'Closed Won', value: 12, color: '#ff7c7c' }
-  ];
+    { name: 'Prospects', stages: ['prospecting'], color: '#8884d8' },
+    { name: 'Qualified', stages: ['qualification'], color: '#82ca9d' },
+    { name: 'Proposal', stages: ['proposal', 'negotiation'], color: '#ffc658' },
+    { name: 'Closed Won', stages: ['closed_won'], color: '#ff7c7c' }
+  ].map(({ stages, ...segment }) => ({
+    ...segment,
+    value: deals.filter(deal => stages.includes(deal.stage)).length
+  }));
 
   // Calculate metrics from real data
-  const totalCustomers = customers.length;
+  const totalCustomers = customersPage?.page.total ?? 0;
   const totalRevenue = salesData.reduce((sum, item) => sum + parseFloat(item.revenue), 0);
   const totalDeals = salesData.reduce((sum, item) => sum + item.deals, 0);
-  const activeCustomers = customers.filter(c => c.status === 'active').length;
+  const activeCustomers = activeCustomersPage?.page.total ?? 0;
+
+  const exportCustomers = (format: ExportFormat) =>
+    downloadFile(`/api/commercial/customers/export?format=${format}`, `customers.${format}`).catch((error) =>
+      toast({ title: "Export failed", description: error.message, variant: "destructive" })
+    );
 
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
@@ -76,16 +122,32 @@ const Dashboard = () => {
               <h1 className="text-3xl font-bold text-gray-900">CRM Dashboard</h1>
               <p className="text-gray-600">Manage your customers and grow your business</p>
             </div>
-            <Button className="gap-2">
-              <Plus className="h-4 w-4" />
-              Add Customer
-            </Button>
+            <div className="flex gap-2">
+              <NotificationBell />
+              <Button variant="outline" className="gap-2 text-gray-600" onClick={() => setSearchOpen(true)}>
+                <Search className="h-4 w-4" />
+                Search
+                <kbd className="ml-2 rounded border bg-gray-50 px-1.5 text-xs">⌘K</kbd>
+              </Button>
+              <Button className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Customer
+              </Button>
+            </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="dashboard" className="space-y-6">
+        <SearchPalette
+          open={searchOpen}
+          onOpenChange={setSearchOpen}
+          initialQuery={searchTerm}
+          onSelect={(result) => setActiveTab(RESULT_TABS[result.entityType] ?? activeTab)}
+        />
+        <ImportDialog open={importOpen} onOpenChange={setImportOpen} />
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="customers">Customers</TabsTrigger>
@@ -210,13 +272,35 @@ const Dashboard = () => {
                       <Input
                         placeholder="Search customers..."
                         value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
+                        onChange={(e) => {
+                          setSearchTerm(e.target.value);
+                          setSearchOpen(true);
+                        }}
                         className="pl-10 w-64"
                       />
                     </div>
                     <Button variant="outline" size="icon">
                       <Filter className="h-4 w-4" />
                     </Button>
+                    <Button variant="outline" className="gap-2" onClick={() => setImportOpen(true)}>
+                      <Upload className="h-4 w-4" />
+                      Import
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" className="gap-2">
+                          <Download className="h-4 w-4" />
+                          Export
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {EXPORT_FORMATS.map(({ format, label }) => (
+                          <DropdownMenuItem key={format} onSelect={() => exportCustomers(format)}>
+                            {label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </div>
               </CardHeader>
@@ -261,6 +345,15 @@ const Dashboard = () => {
           </TabsContent>
 
           <TabsContent value="sales" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Deal Pipeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PipelineBoard />
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Sales Pipeline Overview</CardTitle>
@@ -280,6 +373,8 @@ const Dashboard = () => {
           </TabsContent>
 
           <TabsContent value="analytics" className="space-y-6">
+            <Leaderboard />
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { asAuditedOrganization, auditCreate, auditDelete, auditPurge, auditTrash, auditUpdate, diffRecords, REDACTED } from '../audit';
+
+const lead = {
+  id: 7,
+  organizationId: 1,
+  firstName: 'Ann',
+  email: 'ann@example.com',
+  status: 'new',
+  assignedTo: null as number | null,
+  customFields: { budget: 1000, region: 'EMEA' } as Record<string, unknown>,
+  score: 10,
+  createdAt: new Date('2026-03-01T09:00:00Z'),
+  updatedAt: new Date('2026-03-01T09:00:00Z'),
+};
+
+describe('Audit log', () => {
+  it('should record only the fields that changed, with custom fields key by key', () => {
+    const changes = diffRecords(lead, {
+      ...lead,
+      status: 'contacted',
+      assignedTo: 3,
+      customFields: { budget: 5000, region: 'EMEA', source: 'fair' },
+      score: 40,
+      updatedAt: new Date('2026-03-02T09:00:00Z'),
+    });
+
+    expect(changes).toEqual({
+      status: { from: 'new', to: 'contacted' },
+      assignedTo: { from: null, to: 3 },
+      'customFields.budget': { from: 1000, to: 5000 },
+      'customFields.source': { from: null, to: 'fair' },
+    });
+  });
+
+  it('should compare dates by value and store them as ISO strings', () => {
+    const due = { id: 1, organizationId: 1, dueDate: new Date('2026-03-05T10:00:00Z') };
+    expect(diffRecords(due, { ...due, dueDate: new Date('2026-03-05T10:00:00Z') })).toEqual({});
+    expect(diffRecords(due, { ...due, dueDate: new Date('2026-03-06T10:00:00Z') })).toEqual({
+      dueDate: { from: '2026-03-05T10:00:00.000Z', to: '2026-03-06T10:00:00.000Z' },
+    });
+  });
+
+  it('should never log passwords or secrets', () => {
+    const user = { id: 3, organizationId: 1, username: 'carol', password: '$2b$10$hash' };
+    expect(auditCreate('user', user, 1).changes).toEqual({
+      username: { from: null, to: 'carol' },
+      password: { from: null, to: REDACTED },
+    });
+    expect(diffRecords(user, { ...user, password: '$2b$10$other' })).toEqual({ password: { from: REDACTED, to: REDACTED } });
+  });
+
+  it('should build entries for creates, updates and deletes', () => {
+    expect(auditCreate('lead', lead)).toMatchObject({
+      entityType: 'lead', entityId: 7, action: 'create', actorId: null, organizationId: 1,
+      changes: { firstName: { from: null, to: 'Ann' }, 'customFields.region': { from: null, to: 'EMEA' } },
+    });
+    expect(auditUpdate('lead', lead, { ...lead, status: 'lost' }, 3)).toMatchObject({
+      action: 'update', actorId: 3, changes: { status: { from: 'new', to: 'lost' } },
+    });
+    expect(auditDelete('lead', lead, 3)).toMatchObject({
+      action: 'delete', changes: { email: { from: 'ann@example.com', to: null } },
+    });
+  });
+
+  it('should log moves to and from the trash by their deletion fields, and purges in full', () => {
+    const live = { ...lead, deletedAt: null as Date | null, deletedBy: null as number | null };
+    const trashed = { ...live, deletedAt: new Date('2026-03-05T09:00:00Z'), deletedBy: 3 };
+    expect(auditTrash('lead', 'delete', live, trashed, 3)).toMatchObject({
+      action: 'delete', actorId: 3,
+      changes: { deletedAt: { from: null, to: '2026-03-05T09:00:00.000Z' }, deletedBy: { from: null, to: 3 } },
+    });
+    expect(Object.keys(auditTrash('lead', 'restore', trashed, live, 1).changes)).toEqual(['deletedAt', 'deletedBy']);
+    expect(auditPurge('lead', trashed)).toMatchObject({
+      action: 'purge', actorId: null, changes: { email: { from: 'ann@example.com', to: null } },
+    });
+  });
+
+  it('should skip updates that changed nothing worth logging', () => {
+    expect(auditUpdate('lead', lead, { ...lead, score: 80, updatedAt: new Date() }, 3)).toBeUndefined();
+  });
+
+  it('should file organization changes under the organization itself', () => {
+    const org = { id: 2, name: 'Acme', subscriptionPlan: 'starter' };
+    expect(auditUpdate('organization', asAuditedOrganization(org), asAuditedOrganization({ ...org, subscriptionPlan: 'professional' }), 5))
+      .toMatchObject({ entityType: 'organization', entityId: 2, organizationId: 2, changes: { subscriptionPlan: { from: 'starter', to: 'professional' } } });
+  });
+});
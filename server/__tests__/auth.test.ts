@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import bcrypt from 'bcrypt';
+import type { RefreshToken, User } from '@shared/schema';
+
+const refreshTokenStore: RefreshToken[] = [];
+const userStore: User[] = [];
+
+const storeRefreshToken = (token: any) => {
+  const stored = { ...token, id: refreshTokenStore.length + 1, revokedAt: null, replacedBy: null, createdAt: new Date() };
+  refreshTokenStore.push(stored);
+  return stored;
+};
+
+jest.mock('../commercial-storage', () => ({
+  commercialStorage: {
+    getUser: async (id: number) => userStore.find(user => user.id === id),
+    getUserByEmail: async (email: string) => userStore.find(user => user.email === email),
+    recordUserLogin: async () => undefined,
+    createRefreshToken: async (token: any) => storeRefreshToken(token),
+    getRefreshTokenByHash: async (tokenHash: string) => refreshTokenStore.find(token => token.tokenHash === tokenHash),
+    // Checks and revokes without yielding, like the conditional update of the real storage
+    rotateRefreshToken: async (id: number, replacement: any) => {
+      const token = refreshTokenStore.find(t => t.id === id);
+      if (!token || token.revokedAt) return undefined;
+      token.revokedAt = new Date();
+      const stored = storeRefreshToken(replacement);
+      token.replacedBy = stored.id;
+      return stored;
+    },
+    revokeRefreshTokenFamily: async (familyId: string) => {
+      refreshTokenStore
+        .filter(token => token.familyId === familyId && !token.revokedAt)
+        .forEach(token => { token.revokedAt = new Date(); });
+    },
+  },
+}));
+
+import { AuthService, signAccessToken, verifyAccessToken, hashRefreshToken } from '../auth';
+import { authLimiter } from '../middleware/rateLimiter';
+
+describe('Token Authentication', () => {
+  let authService: AuthService;
+
+  beforeEach(async () => {
+    refreshTokenStore.length = 0;
+    userStore.length = 0;
+    userStore.push({
+      id: 7,
+      username: 'jane.rep',
+      email: 'jane@techcorp.com',
+      password: await bcrypt.hash('correct-horse', 4),
+      firstName: 'Jane',
+      lastName: 'Rep',
+      role: 'sales_rep',
+      organizationId: 3,
+      isActive: true,
+      settings: {},
+      lastLoginAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    authService = new AuthService();
+  });
+
+  describe('Access tokens', () => {
+    it('should round-trip user identity, role and organization', () => {
+      const token = signAccessToken(userStore[0]);
+      const payload = verifyAccessToken(token);
+
+      expect(payload.sub).toBe(7);
+      expect(payload.role).toBe('sales_rep');
+      expect(payload.organizationId).toBe(3);
+    });
+
+    it('should reject tampered tokens', () => {
+      const token = signAccessToken(userStore[0]);
+      const [header, , signature] = token.split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({ sub: '1', role: 'admin', organizationId: 1 })).toString('base64url');
+
+      expect(() => verifyAccessToken(`${header}.${forgedPayload}.${signature}`)).toThrow();
+    });
+  });
+
+  describe('Login', () => {
+    it('should issue an access and refresh token for valid credentials', async () => {
+      const { user, tokens } = await authService.login('jane@techcorp.com', 'correct-horse');
+
+      expect(user.id).toBe(7);
+      expect(tokens.tokenType).toBe('Bearer');
+      expect(verifyAccessToken(tokens.accessToken).sub).toBe(7);
+      expect(refreshTokenStore).toHaveLength(1);
+      expect(refreshTokenStore[0].tokenHash).toBe(hashRefreshToken(tokens.refreshToken));
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(authService.login('jane@techcorp.com', 'wrong')).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject unknown and inactive users', async () => {
+      await expect(authService.login('nobody@techcorp.com', 'correct-horse')).rejects.toMatchObject({ statusCode: 401 });
+
+      userStore[0].isActive = false;
+      await expect(authService.login('jane@techcorp.com', 'correct-horse')).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('Refresh token rotation', () => {
+    it('should rotate the refresh token and revoke the old one', async () => {
+      const { tokens } = await authService.login('jane@techcorp.com', 'correct-horse');
+      const rotated = await authService.refresh(tokens.refreshToken);
+
+      expect(rotated.refreshToken).not.toBe(tokens.refreshToken);
+      expect(refreshTokenStore[0].revokedAt).not.toBeNull();
+      expect(refreshTokenStore[0].replacedBy).toBe(refreshTokenStore[1].id);
+    });
+
+    it('should reject a revoked refresh token and revoke its whole family', async () => {
+      const { tokens } = await authService.login('jane@techcorp.com', 'correct-horse');
+      const rotated = await authService.refresh(tokens.refreshToken);
+
+      await expect(authService.refresh(tokens.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+      await expect(authService.refresh(rotated.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should let only one of two concurrent refreshes rotate a token', async () => {
+      const { tokens } = await authService.login('jane@techcorp.com', 'correct-horse');
+      const results = await Promise.allSettled([authService.refresh(tokens.refreshToken), authService.refresh(tokens.refreshToken)]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      // The race counts as reuse, so the winner's token is revoked too
+      expect(refreshTokenStore.every(token => token.revokedAt)).toBe(true);
+    });
+
+    it('should reject refresh tokens after logout', async () => {
+      const { tokens } = await authService.login('jane@techcorp.com', 'correct-horse');
+      await authService.logout(tokens.refreshToken);
+
+      await expect(authService.refresh(tokens.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      await expect(authService.refresh('not-a-real-token')).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
+
+  describe('Login rate limit', () => {
+    const attempt = () => {
+      const res: any = { statusCode: 200, set: () => res, status: (code: number) => { res.statusCode = code; return res; }, json: () => res };
+      let passed = false;
+      authLimiter({ ip: '10.0.0.9', originalUrl: '/api/commercial/auth/login' } as any, res, () => { passed = true; });
+      return passed;
+    };
+
+    it('should allow 5 attempts per 15 minutes', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 2, 1, 9, 0));
+      try {
+        expect(Array.from({ length: 6 }, attempt)).toEqual([true, true, true, true, true, false]);
+        now.mockReturnValue(Date.UTC(2026, 2, 1, 9, 5));
+        expect(attempt()).toBe(false);
+        now.mockReturnValue(Date.UTC(2026, 2, 1, 9, 16));
+        expect(attempt()).toBe(true);
+      } finally {
+        now.mockRestore();
+      }
+    });
+  });
+});
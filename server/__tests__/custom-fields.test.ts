@@ -0,0 +1,142 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { leadListQuerySchema, leads, type CustomFieldDefinition } from '@shared/schema';
+import {
+  assertValidDefinition, customFieldConditions, customFieldSortColumns, parseCustomFieldCell, validateCustomFields
+} from '../custom-fields';
+import { csvChunks, EXPORT_COLUMNS, withCustomFieldColumns } from '../exports';
+import { importFields, inferMapping } from '../imports';
+import { planIncludes } from '../billing';
+
+// billing.ts imports the storage singleton, which needs a database
+jest.mock('../commercial-storage', () => ({ commercialStorage: {} }));
+
+const field = (key: string, type: string, extra: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition => ({
+  id: 1,
+  entityType: 'lead',
+  key,
+  label: key.charAt(0).toUpperCase() + key.slice(1),
+  type,
+  options: [],
+  currency: null,
+  required: false,
+  position: 0,
+  organizationId: 1,
+  createdAt: null,
+  updatedAt: null,
+  ...extra,
+});
+
+const definitions = [
+  field('region', 'text', { required: true }),
+  field('employees', 'number'),
+  field('renewal', 'date'),
+  field('tier', 'picklist', { options: ['Gold', 'Silver'] }),
+  field('products', 'multiselect', { options: ['CRM', 'Billing', 'Support'] }),
+  field('budget', 'currency', { currency: 'EUR' }),
+];
+
+describe('Custom fields', () => {
+  describe('Definitions', () => {
+    it('should require options for picklists and a currency for currency fields only', () => {
+      expect(() => assertValidDefinition({ type: 'picklist', options: [], currency: null })).toThrow('at least one option');
+      expect(() => assertValidDefinition({ type: 'text', options: ['A'], currency: null })).toThrow('Only picklist');
+      expect(() => assertValidDefinition({ type: 'multiselect', options: ['A', 'A'], currency: null })).toThrow('unique');
+      expect(() => assertValidDefinition({ type: 'currency', options: [], currency: null })).toThrow('currency code');
+      expect(() => assertValidDefinition({ type: 'number', options: [], currency: 'USD' })).toThrow('Only currency');
+      expect(() => assertValidDefinition({ type: 'currency', options: [], currency: 'USD' })).not.toThrow();
+    });
+
+    it('should be part of the professional and enterprise plans only', () => {
+      expect(planIncludes('starter', 'custom_fields')).toBe(false);
+      expect(planIncludes('professional', 'custom_fields')).toBe(true);
+      expect(planIncludes('enterprise', 'custom_fields')).toBe(true);
+      expect(planIncludes('unknown', 'custom_fields')).toBe(false);
+    });
+  });
+
+  describe('Value validation', () => {
+    it('should accept and normalize values of every type', () => {
+      expect(validateCustomFields(definitions, {
+        region: ' EMEA ',
+        employees: 250,
+        renewal: '2026-03-31',
+        tier: 'Gold',
+        products: ['CRM', 'Support', 'CRM'],
+        budget: 1234.567,
+      })).toEqual({
+        region: 'EMEA',
+        employees: 250,
+        renewal: '2026-03-31',
+        tier: 'Gold',
+        products: ['CRM', 'Support'],
+        budget: 1234.57,
+      });
+    });
+
+    it('should reject unknown keys, wrong types and missing required fields on create', () => {
+      expect(() => validateCustomFields(definitions, { region: 'EMEA', color: 'red' })).toThrow('Unknown custom field "color"');
+      expect(() => validateCustomFields(definitions, { region: 'EMEA', employees: '250' })).toThrow('Employees: Expected number');
+      expect(() => validateCustomFields(definitions, { region: 'EMEA', renewal: '2026-02-30' })).toThrow('Renewal: Invalid date');
+      expect(() => validateCustomFields(definitions, { region: 'EMEA', tier: 'Bronze' })).toThrow('Tier: Expected one of Gold, Silver');
+      expect(() => validateCustomFields(definitions, {})).toThrow('Region is required');
+    });
+
+    it('should merge updates into the current values and clear blank ones', () => {
+      const current = { region: 'EMEA', employees: 10, tier: 'Gold' };
+      expect(validateCustomFields(definitions, { employees: 20, tier: null }, current)).toEqual({ region: 'EMEA', employees: 20 });
+      expect(() => validateCustomFields(definitions, { region: '' }, current)).toThrow('Region is required');
+    });
+  });
+
+  describe('Queries', () => {
+    it('should accept custom field sort fields in list queries', () => {
+      const query = leadListQuerySchema.parse({ sort: '-cf.employees,lastName', cf: { tier: 'Gold,Silver' } });
+      expect(query.sort).toEqual([{ field: 'cf.employees', direction: 'desc' }, { field: 'lastName', direction: 'asc' }]);
+      expect(leadListQuerySchema.safeParse({ sort: 'cf.Not-A-Key' }).success).toBe(false);
+    });
+
+    it('should only sort by defined, single-valued fields', () => {
+      const sort = [{ field: 'cf.budget', direction: 'asc' as const }];
+      expect(customFieldSortColumns(leads.customFields, definitions, sort)['cf.budget']).toMatchObject({ kind: 'numeric' });
+      expect(() => customFieldSortColumns(leads.customFields, definitions, [{ field: 'cf.products', direction: 'asc' }])).toThrow('not sortable');
+      expect(() => customFieldSortColumns(leads.customFields, definitions, [{ field: 'cf.missing', direction: 'asc' }])).toThrow('Unknown custom field');
+    });
+
+    it('should check filter values against the field type', () => {
+      expect(customFieldConditions(leads.customFields, definitions, { tier: 'Gold', employees: { min: '10' } })).toHaveLength(2);
+      expect(() => customFieldConditions(leads.customFields, definitions, { employees: 'many' })).toThrow('Invalid value "many"');
+      expect(() => customFieldConditions(leads.customFields, definitions, { renewal: { max: '31/03/2026' } })).toThrow('Invalid value');
+      expect(() => customFieldConditions(leads.customFields, definitions, { tier: { min: 'A' } })).toThrow('cannot be filtered by range');
+    });
+  });
+
+  describe('Import and export', () => {
+    it('should offer custom fields as import fields matched by key or label', () => {
+      expect(importFields('leads', definitions)).toEqual(expect.arrayContaining([{ name: 'customFields.region', required: true }]));
+      expect(inferMapping('leads', ['Email', 'Tier', 'customFields.budget', 'Employees'], definitions)).toEqual({
+        Email: 'email',
+        Tier: 'customFields.tier',
+        'customFields.budget': 'customFields.budget',
+        Employees: 'customFields.employees',
+      });
+    });
+
+    it('should convert spreadsheet cells to field values', () => {
+      expect(parseCustomFieldCell(definitions[1], '1,250')).toBe(1250);
+      expect(parseCustomFieldCell(definitions[1], 'n/a')).toBe('n/a');
+      expect(parseCustomFieldCell(definitions[4], 'CRM; Support')).toEqual(['CRM', 'Support']);
+    });
+
+    it('should export one column per field, in the format the import reads back', async () => {
+      const columns = withCustomFieldColumns(EXPORT_COLUMNS.leads, [definitions[3], definitions[4]]);
+      expect(columns.map(column => column.key)).not.toContain('customFields');
+      let text = '';
+      const records = [{ id: 1, customFields: { tier: 'Gold', products: ['CRM', 'Support'] } }];
+      for await (const chunk of csvChunks(columns.filter(column => column.key === 'id' || column.key.startsWith('customFields.')),
+        (async function* () { yield records; })())) {
+        text += chunk;
+      }
+      expect(text).toBe('id,customFields.tier,customFields.products\r\n1,Gold,CRM; Support\r\n');
+    });
+  });
+});
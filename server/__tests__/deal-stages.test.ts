@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_PIPELINE_STAGES, insertDealSchema, insertPipelineSchema } from '@shared/schema';
+import {
+  DEFAULT_DEAL_STAGE_RULES, findStage, getDealStageRules, isClosedStage, validateStageTransition, withStageDurations
+} from '../deal-stages';
+
+describe('Deal Stage Rules', () => {
+  describe('Rule configuration', () => {
+    it('should fall back to the defaults when an organization has no rules', () => {
+      expect(getDealStageRules({})).toEqual(DEFAULT_DEAL_STAGE_RULES);
+      expect(getDealStageRules(null)).toEqual(DEFAULT_DEAL_STAGE_RULES);
+    });
+
+    it('should read rules stored in organization settings', () => {
+      const rules = getDealStageRules({ dealStageRules: { requireReason: ['closed_won'], allowReopen: false } });
+      expect(rules.requireReason).toEqual(['closed_won']);
+      expect(rules.requireLostReason).toBe(true);
+      expect(rules.allowReopen).toBe(false);
+      expect(rules.blockedTransitions).toEqual(DEFAULT_DEAL_STAGE_RULES.blockedTransitions);
+    });
+
+    it('should ignore malformed stored rules', () => {
+      expect(getDealStageRules({ dealStageRules: { requireReason: 'closed_won' } })).toEqual(DEFAULT_DEAL_STAGE_RULES);
+    });
+  });
+
+  describe('Transition validation', () => {
+    const rules = DEFAULT_DEAL_STAGE_RULES;
+    const stages = DEFAULT_PIPELINE_STAGES;
+    const renewalStages = [
+      { key: 'renewal_due', isWon: false, isLost: false },
+      { key: 'renewed', isWon: true, isLost: false },
+      { key: 'churned', isWon: false, isLost: true },
+    ];
+
+    it('should allow ordinary moves', () => {
+      expect(() => validateStageTransition(rules, stages, 'prospecting', 'qualification')).not.toThrow();
+      expect(() => validateStageTransition(rules, stages, 'negotiation', 'closed_won')).not.toThrow();
+    });
+
+    it('should require a reason to lose a deal', () => {
+      expect(() => validateStageTransition(rules, stages, 'proposal', 'closed_lost')).toThrow('reason is required');
+      expect(() => validateStageTransition(rules, stages, 'proposal', 'closed_lost', '  ')).toThrow('reason is required');
+      expect(() => validateStageTransition(rules, stages, 'proposal', 'closed_lost', 'Budget cut')).not.toThrow();
+    });
+
+    it('should block skipping from prospecting to closed_won', () => {
+      expect(() => validateStageTransition(rules, stages, 'prospecting', 'closed_won')).toThrow('cannot move');
+    });
+
+    it('should reject stages outside the deal\'s pipeline', () => {
+      expect(() => validateStageTransition(rules, stages, 'prospecting', 'won')).toThrow('does not exist');
+      expect(() => validateStageTransition(rules, renewalStages, 'renewal_due', 'closed_won')).toThrow('does not exist');
+    });
+
+    it('should require a reason for any lost stage of a custom pipeline', () => {
+      expect(() => validateStageTransition(rules, renewalStages, 'renewal_due', 'churned')).toThrow('reason is required');
+      expect(() => validateStageTransition(rules, renewalStages, 'renewal_due', 'renewed')).not.toThrow();
+      expect(() => validateStageTransition({ ...rules, requireLostReason: false }, renewalStages, 'renewal_due', 'churned'))
+        .not.toThrow();
+    });
+
+    it('should only reopen closed deals when allowed', () => {
+      expect(() => validateStageTransition(rules, stages, 'closed_lost', 'negotiation')).not.toThrow();
+      expect(() => validateStageTransition({ ...rules, allowReopen: false }, stages, 'closed_lost', 'negotiation'))
+        .toThrow('cannot be reopened');
+    });
+
+    it('should identify closed stages by their won/lost flags', () => {
+      expect(isClosedStage(findStage(stages, 'closed_won'))).toBe(true);
+      expect(isClosedStage(findStage(stages, 'closed_lost'))).toBe(true);
+      expect(isClosedStage(findStage(stages, 'negotiation'))).toBe(false);
+      expect(isClosedStage(findStage(renewalStages, 'churned'))).toBe(true);
+    });
+  });
+
+  describe('Pipeline definitions', () => {
+    const pipeline = (stages: unknown[]) => insertPipelineSchema.safeParse({ name: 'Renewals', organizationId: 1, stages });
+
+    it('should accept the default stages', () => {
+      expect(pipeline(DEFAULT_PIPELINE_STAGES).success).toBe(true);
+    });
+
+    it('should reject duplicate stage keys', () => {
+      expect(pipeline([DEFAULT_PIPELINE_STAGES[0], DEFAULT_PIPELINE_STAGES[0]]).success).toBe(false);
+    });
+
+    it('should reject stages flagged as both won and lost', () => {
+      expect(pipeline([
+        { key: 'open', name: 'Open', probability: 10 },
+        { key: 'done', name: 'Done', probability: 100, isWon: true, isLost: true },
+      ]).success).toBe(false);
+    });
+
+    it('should require an open stage', () => {
+      expect(pipeline([{ key: 'won', name: 'Won', probability: 100, isWon: true }]).success).toBe(false);
+    });
+
+    it('should reject malformed stage keys on deals', () => {
+      expect(insertDealSchema.safeParse({ title: 'Deal', value: '10', stage: 'Closed Won', organizationId: 1 }).success).toBe(false);
+      expect(insertDealSchema.safeParse({ title: 'Deal', value: '10', stage: 'renewed', organizationId: 1 }).success).toBe(true);
+    });
+  });
+
+  describe('Stage durations', () => {
+    it('should measure time spent in each stage', () => {
+      const entry = (id: number, toStage: string, changedAt: string) => ({
+        id, dealId: 1, fromStage: null, toStage, reason: null, changedBy: 1, organizationId: 1, changedAt: new Date(changedAt)
+      });
+      const history = [
+        entry(1, 'prospecting', '2024-01-01T00:00:00Z'),
+        entry(2, 'negotiation', '2024-01-03T00:00:00Z'),
+      ];
+
+      const timeline = withStageDurations(history, new Date('2024-01-04T00:00:00Z'));
+
+      expect(timeline[0].durationMs).toBe(2 * 24 * 60 * 60 * 1000);
+      expect(timeline[1].durationMs).toBe(24 * 60 * 60 * 1000);
+    });
+  });
+});
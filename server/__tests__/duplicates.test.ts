@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { findPossibleDuplicates, nameSimilarity, normalizeCompany, normalizePhone } from '../duplicates';
+
+describe('Duplicate Detection', () => {
+  const existing = [
+    { id: 1, firstName: 'Jane', lastName: 'Doe', email: 'jane@acme.com', phone: '+1 (555) 010-2000', company: 'Acme Inc.' },
+    { id: 2, firstName: 'John', lastName: 'Smith', email: 'john@globex.com', phone: null, company: 'Globex' },
+  ];
+
+  describe('Normalization', () => {
+    it('should compare phone numbers on their trailing digits', () => {
+      expect(normalizePhone('+1 (555) 010-2000')).toBe('5550102000');
+      expect(normalizePhone('555.010.2000')).toBe('5550102000');
+      expect(normalizePhone('12')).toBeNull();
+      expect(normalizePhone(null)).toBeNull();
+    });
+
+    it('should ignore legal suffixes and punctuation in company names', () => {
+      expect(normalizeCompany('Acme Inc.')).toBe(normalizeCompany('ACME'));
+      expect(normalizeCompany('Globex, LLC')).toBe('globex');
+    });
+
+    it('should score similar names close to 1', () => {
+      expect(nameSimilarity('jane doe', 'jane doe')).toBe(1);
+      expect(nameSimilarity('jane doe', 'jayne doe')).toBeGreaterThan(0.85);
+      expect(nameSimilarity('jane doe', 'john smith')).toBeLessThan(0.5);
+    });
+  });
+
+  describe('Matching', () => {
+    it('should match on email regardless of case', () => {
+      const [match] = findPossibleDuplicates({ firstName: 'J', lastName: 'D', email: 'JANE@acme.com' }, existing);
+      expect(match).toEqual({ id: 1, matchedOn: ['email'], confidence: 0.95 });
+    });
+
+    it('should match on a normalized phone number', () => {
+      const [match] = findPossibleDuplicates({ firstName: 'X', lastName: 'Y', email: 'x@y.com', phone: '555-010-2000' }, existing);
+      expect(match.matchedOn).toEqual(['phone']);
+    });
+
+    it('should match a misspelled name at the same company', () => {
+      const [match] = findPossibleDuplicates({ firstName: 'Jayne', lastName: 'Doe', email: 'jd@other.com', company: 'ACME' }, existing);
+      expect(match.id).toBe(1);
+      expect(match.matchedOn).toEqual(['name_company']);
+    });
+
+    it('should not match the same name at another company', () => {
+      expect(findPossibleDuplicates({ firstName: 'Jane', lastName: 'Doe', email: 'jd@other.com', company: 'Initech' }, existing))
+        .toHaveLength(0);
+    });
+
+    it('should rank records matching on several signals first', () => {
+      const matches = findPossibleDuplicates(
+        { firstName: 'Jane', lastName: 'Doe', email: 'jane@acme.com', phone: '5550102000', company: 'Acme' },
+        [...existing, { id: 3, firstName: 'Janet', lastName: 'Dole', email: 'janet@acme.com', phone: '555 010 2000', company: null }]
+      );
+      expect(matches.map(match => match.id)).toEqual([1, 3]);
+      expect(matches[0].matchedOn).toEqual(['email', 'phone', 'name_company']);
+      expect(matches[0].confidence).toBe(1);
+    });
+  });
+});
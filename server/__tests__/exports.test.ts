@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { csvCell, csvChunks, exportColumns, ndjsonChunks, writeXlsx, type ExportColumn } from '../exports';
+import { crc32, readZip, ZipWriter } from '../zip';
+import { readSheet } from '../spreadsheet';
+import { users } from '@shared/schema';
+
+async function* batches(...groups: Record<string, unknown>[][]) {
+  for (const group of groups) yield group;
+}
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of chunks) text += chunk;
+  return text;
+};
+
+// Runs a writer against an in-memory stream and returns everything it wrote
+const capture = async (write: (output: PassThrough) => Promise<void>) => {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await write(output);
+  return Buffer.concat(chunks);
+};
+
+const columns: ExportColumn[] = [
+  { key: 'id', kind: 'number' },
+  { key: 'name', kind: 'text' },
+  { key: 'value', kind: 'number' },
+  { key: 'createdAt', kind: 'date' },
+  { key: 'tags', kind: 'json' },
+];
+
+describe('Exports', () => {
+  it('should derive columns and kinds from the table, leaving out secrets', () => {
+    const userColumns = exportColumns(users, ['password']);
+    expect(userColumns.map(column => column.key)).not.toContain('password');
+    expect(userColumns).toEqual(expect.arrayContaining([
+      { key: 'id', kind: 'number' },
+      { key: 'email', kind: 'text' },
+      { key: 'isActive', kind: 'boolean' },
+      { key: 'lastLoginAt', kind: 'date' },
+    ]));
+  });
+
+  describe('CSV', () => {
+    it('should quote fields with delimiters, quotes, line breaks or surrounding spaces', () => {
+      expect(csvCell('Acme, Inc.', 'text')).toBe('"Acme, Inc."');
+      expect(csvCell('say "hi"', 'text')).toBe('"say ""hi"""');
+      expect(csvCell('two\nlines', 'text')).toBe('"two\nlines"');
+      expect(csvCell(' padded', 'text')).toBe('" padded"');
+      expect(csvCell(null, 'text')).toBe('');
+    });
+
+    it('should defuse spreadsheet formulas in text but not negative numbers', () => {
+      expect(csvCell('=HYPERLINK("x")', 'text')).toBe(`"'=HYPERLINK(""x"")"`);
+      expect(csvCell('@SUM(A1)', 'text')).toBe("'@SUM(A1)");
+      expect(csvCell('-12.5', 'number')).toBe('-12.5');
+    });
+
+    it('should write a header and one line per record across batches', async () => {
+      const createdAt = new Date('2026-01-02T03:04:05.000Z');
+      const text = await collect(csvChunks(columns, batches(
+        [{ id: 1, name: 'Jane', value: '10.50', createdAt, tags: ['a'] }],
+        [{ id: 2, name: null, value: null, createdAt: null, tags: null }]
+      )));
+      expect(text).toBe(
+        'id,name,value,createdAt,tags\r\n' +
+        '1,Jane,10.50,2026-01-02T03:04:05.000Z,"[""a""]"\r\n' +
+        '2,,,,\r\n'
+      );
+    });
+  });
+
+  it('should write one JSON object per line with every column', async () => {
+    const text = await collect(ndjsonChunks(columns, batches([{ id: 1, name: 'Jane', secret: 'x' }])));
+    expect(text).toBe('{"id":1,"name":"Jane","value":null,"createdAt":null,"tags":null}\n');
+  });
+
+  describe('ZIP and XLSX', () => {
+    it('should compute standard CRC-32 checksums', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+      expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926);
+    });
+
+    it('should stream entries that read back unchanged', async () => {
+      const archive = await capture(async output => {
+        const zip = new ZipWriter(output);
+        await zip.addFile('a.txt', 'hello');
+        await zip.addFile('b/c.txt', (async function* () { yield 'wor'; yield Buffer.from('ld'); })());
+        await zip.finish();
+      });
+      const files = readZip(archive);
+      expect(files.get('a.txt')!.toString()).toBe('hello');
+      expect(files.get('b/c.txt')!.toString()).toBe('world');
+    });
+
+    it('should write a workbook the import reader understands', async () => {
+      const workbook = await capture(output => writeXlsx(new ZipWriter(output), 'Leads', columns, batches(
+        [{ id: 1, name: '<Jane> & "Co"', value: '10.5', createdAt: new Date('2026-01-02T00:00:00.000Z'), tags: null }]
+      )));
+      expect(readSheet('leads.xlsx', workbook)).toEqual({
+        headers: ['id', 'name', 'value', 'createdAt', 'tags'],
+        rows: [{ row: 2, cells: ['1', '<Jane> & "Co"', '10.5', '2026-01-02T00:00:00.000Z'] }],
+      });
+    });
+  });
+});
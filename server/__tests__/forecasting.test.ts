@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import type { ForecastSnapshot } from '@shared/schema';
+import {
+  buildForecast, compareForecasts, forecastCategory, forecastPeriods, forecastSettingsSchema, periodOf,
+  DEFAULT_FORECAST_SETTINGS, type ForecastDeal
+} from '../forecasting';
+
+const now = new Date('2026-03-18T10:00:00Z');
+
+const deal = (extra: Partial<ForecastDeal>): ForecastDeal => ({
+  value: '1000.00',
+  probability: 50,
+  expectedCloseDate: new Date('2026-03-25T00:00:00Z'),
+  actualCloseDate: null,
+  assignedTo: 3,
+  won: false,
+  ...extra,
+});
+
+const forecastFor = (deals: ForecastDeal[], salesData = [{ periodStart: new Date('2026-03-01T00:00:00Z'), revenue: '700.00', assignedTo: 3 }]) =>
+  buildForecast({
+    period: 'month',
+    periods: forecastPeriods({ period: 'month', periods: 2 }, now),
+    deals,
+    salesData,
+    settings: DEFAULT_FORECAST_SETTINGS,
+  }, now);
+
+const snapshot = (id: number, createdAt: string, forecast: ReturnType<typeof forecastFor>): ForecastSnapshot => ({
+  id, name: null, period: 'month', assignedTo: null, pipelineId: null, forecast, createdBy: 1, organizationId: 1, createdAt: new Date(createdAt),
+});
+
+describe('Forecasting', () => {
+  it('should bucket dates into calendar months and quarters', () => {
+    expect(periodOf(now, 'month')).toEqual({ key: '2026-03', start: new Date('2026-03-01T00:00:00Z'), end: new Date('2026-04-01T00:00:00Z') });
+    expect(periodOf(now, 'quarter', 3)).toEqual({ key: '2026-Q4', start: new Date('2026-10-01T00:00:00Z'), end: new Date('2027-01-01T00:00:00Z') });
+    expect(forecastPeriods({ period: 'month', periods: 3, from: new Date('2026-11-05') }).map(period => period.key))
+      .toEqual(['2026-11', '2026-12', '2027-01']);
+  });
+
+  it('should categorize open deals by probability', () => {
+    expect([95, 90, 60, 50, 10].map(probability => forecastCategory(probability, DEFAULT_FORECAST_SETTINGS)))
+      .toEqual(['commit', 'commit', 'bestCase', 'bestCase', 'pipeline']);
+    expect(forecastSettingsSchema.safeParse({ commitProbability: 40, bestCaseProbability: 60 }).success).toBe(false);
+  });
+
+  it('should roll up weighted pipeline, won deals and recorded revenue per period and rep', () => {
+    const forecast = forecastFor([
+      deal({ value: '1000.00', probability: 90 }),
+      deal({ value: '2000.00', probability: 50, expectedCloseDate: new Date('2026-04-10T00:00:00Z'), assignedTo: 4 }),
+      deal({ value: '400.00', probability: 10, expectedCloseDate: new Date('2026-01-15T00:00:00Z'), assignedTo: null }),
+      deal({ value: '500.00', actualCloseDate: new Date('2026-03-02T00:00:00Z'), won: true }),
+      deal({ value: '800.00', actualCloseDate: new Date('2026-03-03T00:00:00Z'), won: false }),
+      deal({ value: '300.00', expectedCloseDate: null }),
+    ]);
+
+    const [march, april] = forecast.periods;
+    expect(march.key).toBe('2026-03');
+    // The deal expected in January has slipped into the current month
+    expect(march.team).toEqual({
+      closedWon: 500, commit: 1000, bestCase: 0, pipeline: 400, weighted: 940, forecast: 1440, attainment: 700, openDeals: 2,
+    });
+    expect(march.reps.map(rep => rep.userId)).toEqual([3, null]);
+    expect(april.reps).toEqual([expect.objectContaining({ userId: 4, bestCase: 2000, weighted: 1000, forecast: 1000 })]);
+    expect(forecast.total.team).toMatchObject({ closedWon: 500, weighted: 1940, forecast: 2440, openDeals: 3 });
+    expect(forecast.undated).toEqual({ deals: 1, value: 300 });
+  });
+
+  it('should compare snapshots period by period and rep by rep', () => {
+    const lastWeek = snapshot(1, '2026-03-11T10:00:00Z', forecastFor([deal({ probability: 50 })]));
+    const thisWeek = snapshot(2, '2026-03-18T10:00:00Z', forecastFor([deal({ probability: 90 }), deal({ assignedTo: 4, value: '200.00' })]));
+
+    const comparison = compareForecasts(lastWeek, thisWeek);
+    expect(comparison.previous).toEqual({ id: 1, createdAt: new Date('2026-03-11T10:00:00Z') });
+    expect(comparison.periods[0].team.change).toMatchObject({ commit: 1000, bestCase: -800, weighted: 500, openDeals: 1 });
+    expect(comparison.periods[0].reps.find(rep => rep.userId === 4)).toMatchObject({
+      previous: { weighted: 0 }, current: { weighted: 100 }, change: { weighted: 100 },
+    });
+    expect(comparison.total.change.forecast).toBe(500);
+
+    const quarterly = { ...thisWeek, forecast: { ...thisWeek.forecast, period: 'quarter' as const } };
+    expect(() => compareForecasts(lastWeek, quarterly)).toThrow('Only snapshots of the same period, rep and pipeline can be compared');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from '@jest/globals';
+import { deflateRawSync } from 'zlib';
+import { parseCsv, readSheet } from '../spreadsheet';
+import { inferMapping, planRows, resolveMapping, summarizeRows, validateRows } from '../imports';
+
+// Builds a minimal .xlsx package (deflated entries plus central directory)
+const buildZip = (files: Record<string, string>): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBuffer = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+describe('Imports', () => {
+  describe('Spreadsheet parsing', () => {
+    it('should handle quoted fields, escaped quotes and line breaks', () => {
+      expect(parseCsv('a,b\r\n"x, y","say ""hi""\nagain"\n')).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"\nagain'],
+      ]);
+    });
+
+    it('should detect semicolon and tab delimiters', () => {
+      expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+      expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should keep file row numbers and drop blank rows', () => {
+      const sheet = readSheet('people.csv', Buffer.from('\uFEFFName, Email \n\n Jane ,jane@acme.com\n,\n'));
+      expect(sheet.headers).toEqual(['Name', 'Email']);
+      expect(sheet.rows).toEqual([{ row: 3, cells: ['Jane', 'jane@acme.com'] }]);
+    });
+
+    it('should reject empty files', () => {
+      expect(() => readSheet('empty.csv', Buffer.from('\n\n'))).toThrow('The file is empty');
+    });
+
+    it('should read the first worksheet of an .xlsx workbook', () => {
+      const workbook = buildZip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="People" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/people.xml"/></Relationships>',
+        'xl/sharedStrings.xml': '<sst><si><t>Email</t></si><si><r><t>Jane</t></r><r><t xml:space="preserve"> &amp; Co</t></r></si></sst>',
+        'xl/worksheets/people.xml':
+          '<worksheet><sheetData>' +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Active</t></is></c></row>' +
+          '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2"><v>42</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+          '</sheetData></worksheet>',
+      });
+      expect(readSheet('people.xlsx', workbook)).toEqual({
+        headers: ['Email', '', 'Active'],
+        rows: [{ row: 2, cells: ['Jane & Co', '42', 'TRUE'] }],
+      });
+    });
+
+    it('should reject files that are not workbooks', () => {
+      expect(() => readSheet('people.xlsx', Buffer.from('not a zip file at all, just text'))).toThrow('not a valid .xlsx');
+    });
+  });
+
+  describe('Column mapping', () => {
+    it('should infer fields from common header spellings', () => {
+      expect(inferMapping('leads', ['E-mail Address', 'Given Name', 'Surname', 'Mobile', 'Organisation', 'Favourite colour'])).toEqual({
+        'E-mail Address': 'email',
+        'Given Name': 'firstName',
+        Surname: 'lastName',
+        Mobile: 'phone',
+        Organisation: 'company',
+        'Favourite colour': null,
+      });
+    });
+
+    it('should map each field to one column only', () => {
+      expect(inferMapping('customers', ['Email', 'Work Email'])).toEqual({ Email: 'email', 'Work Email': null });
+    });
+
+    it('should validate a requested mapping', () => {
+      const headers = ['First', 'Last', 'Mail'];
+      expect(resolveMapping('leads', headers, { First: 'firstName', Last: 'lastName', Mail: 'email' }))
+        .toEqual({ First: 'firstName', Last: 'lastName', Mail: 'email' });
+      expect(() => resolveMapping('leads', headers, { First: 'firstName', Last: 'lastName', Mail: 'organizationId' }))
+        .toThrow('Unknown field');
+      expect(() => resolveMapping('leads', headers, { First: 'firstName', Last: 'firstName', Mail: 'email' }))
+        .toThrow('more than one column');
+      expect(() => resolveMapping('leads', headers, { First: 'firstName', Mail: 'email' }))
+        .toThrow('Required fields are not mapped: lastName');
+    });
+  });
+
+  describe('Row validation and planning', () => {
+    const sheet = readSheet('leads.csv', Buffer.from(
+      'First Name,Last Name,Email,Status\n' +
+      'Jane,Doe,jane@acme.com,\n' +
+      'John,,not-an-email,new\n' +
+      'Janet,Doe,JANE@acme.com,new\n' +
+      'Ann,Lee,ann@acme.com,qualified\n'
+    ));
+    const validated = validateRows('leads', sheet, inferMapping('leads', sheet.headers));
+
+    it('should report zod errors per row and treat empty cells as missing', () => {
+      expect(validated[0]).toEqual({ row: 2, data: { firstName: 'Jane', lastName: 'Doe', email: 'jane@acme.com' }, errors: [] });
+      expect(validated[1].row).toBe(3);
+      expect(validated[1].errors.map(error => error.field).sort()).toEqual(['email', 'lastName']);
+    });
+
+    it('should create new emails and skip repeats within the file', () => {
+      const planned = planRows(validated, new Map(), 'skip');
+      expect(planned.map(row => row.action)).toEqual(['create', 'error', 'skip', 'create']);
+      expect(planned[2].reason).toBe('Email appears earlier in the file');
+    });
+
+    it('should skip or update existing records by email', () => {
+      const existing = new Map([['ann@acme.com', { id: 7, assignedTo: 3 }]]);
+      expect(planRows(validated, existing, 'skip')[3]).toMatchObject({ action: 'skip' });
+      expect(planRows(validated, existing, 'update')[3]).toMatchObject({ action: 'update', existingId: 7 });
+      expect(planRows(validated, existing, 'update', record => record.assignedTo === 4)[3]).toMatchObject({
+        action: 'skip',
+        reason: 'The existing record is assigned to someone else',
+      });
+    });
+
+    it('should summarize actions', () => {
+      expect(summarizeRows(planRows(validated, new Map(), 'skip'))).toEqual({ create: 2, update: 0, skip: 1, error: 1 });
+    });
+  });
+});
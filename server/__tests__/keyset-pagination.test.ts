@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, jest } from '@jest/globals';
+import { sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import * as schema from '@shared/schema';
+import { leadListQuerySchema } from '@shared/schema';
+
+// Postgres itself rather than an in-memory stand-in: timestamps there have microseconds
+jest.mock('../db', () => jest.requireActual('./support/pglite-db.cjs'));
+
+import { db } from '../db';
+import { commercialStorage } from '../commercial-storage';
+
+// Leads created a few microseconds apart, so several share each millisecond
+const seedLeads = async (count: number) => {
+  await db.execute(sql`truncate leads restart identity cascade`);
+  await db.execute(sql`
+    insert into leads (first_name, last_name, email, organization_id, created_at)
+    select 'Lead', n::text, 'lead' || n || '@example.com', 1,
+      timestamp '2026-03-01 09:00:00' + (n * 333) * interval '1 microsecond'
+    from generate_series(1, ${count}) as n
+  `);
+};
+
+const walk = async (sort: string, limit: number) => {
+  const ids: number[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await commercialStorage.listLeads(1, leadListQuerySchema.parse({ sort, limit, cursor }));
+    ids.push(...page.data.map(lead => lead.id));
+    cursor = page.page.nextCursor ?? undefined;
+  } while (cursor);
+  return ids;
+};
+
+const range = (from: number, to: number) =>
+  Array.from({ length: Math.abs(to - from) + 1 }, (_, index) => (from < to ? from + index : from - index));
+
+describe('Keyset pagination', () => {
+  beforeAll(async () => {
+    const migration = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of migration) {
+      await db.execute(sql.raw(statement));
+    }
+    await db.execute(sql`insert into organizations (name, slug) values ('Org One', 'org-one')`);
+  }, 60000);
+
+  afterAll(() => {
+    (jest.requireMock('../db') as { server: import('child_process').ChildProcess }).server.kill();
+  });
+
+  beforeEach(async () => {
+    await seedLeads(45);
+  });
+
+  it('should page through leads created within the same millisecond', async () => {
+    expect(await walk('-createdAt', 10)).toEqual(range(45, 1));
+    expect(await walk('createdAt', 10)).toEqual(range(1, 45));
+  });
+
+  it('should export every lead once across batches', async () => {
+    await seedLeads(1203);
+    for (const [sort, expected] of [['-createdAt', range(1203, 1)], ['createdAt', range(1, 1203)]] as const) {
+      const batches = await commercialStorage.exportLeads(1, { sort: leadListQuerySchema.parse({ sort }).sort });
+      const ids: number[] = [];
+      for await (const batch of batches) {
+        ids.push(...batch.map(lead => lead.id));
+      }
+      expect(ids).toEqual(expected);
+    }
+  });
+});
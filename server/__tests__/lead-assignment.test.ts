@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_LEAD_ASSIGNMENT_CONFIG, decideAssignment, getLeadAssignmentConfig, recordDecision, type AssignmentContext
+} from '../lead-assignment';
+
+describe('Lead Assignment', () => {
+  const lead = { source: 'website', company: 'Acme', country: 'DE' };
+  const context = (overrides: Partial<AssignmentContext> = {}): AssignmentContext => ({
+    salesReps: [3, 5, 7],
+    activeUserIds: new Set([1, 3, 5, 7]),
+    openLeadCounts: new Map([[3, 4], [5, 1], [7, 2]]),
+    lastRoundRobinUserId: null,
+    ...overrides,
+  });
+
+  it('should round-robin by default', () => {
+    expect(getLeadAssignmentConfig({})).toEqual(DEFAULT_LEAD_ASSIGNMENT_CONFIG);
+    expect(DEFAULT_LEAD_ASSIGNMENT_CONFIG.mode).toBe('round_robin');
+  });
+
+  describe('Round-robin', () => {
+    const config = { ...DEFAULT_LEAD_ASSIGNMENT_CONFIG, mode: 'round_robin' as const };
+
+    it('should rotate through sales reps and wrap around', () => {
+      const state = context({ lastRoundRobinUserId: 5 });
+      const assignees = [1, 2, 3].map(() => {
+        const decision = decideAssignment(lead, config, state)!;
+        recordDecision(state, decision);
+        return decision.assignedTo;
+      });
+      expect(assignees).toEqual([7, 3, 5]);
+    });
+
+    it('should restart the rotation when the last rep is no longer active', () => {
+      expect(decideAssignment(lead, config, context({ lastRoundRobinUserId: 9 }))!.assignedTo).toBe(3);
+    });
+
+    it('should not assign when the organization has no sales reps', () => {
+      expect(decideAssignment(lead, config, context({ salesReps: [] }))).toBeNull();
+    });
+  });
+
+  describe('Least-loaded', () => {
+    const config = { ...DEFAULT_LEAD_ASSIGNMENT_CONFIG, mode: 'least_loaded' as const };
+
+    it('should pick the rep with the fewest open leads and track new load', () => {
+      const state = context();
+      const first = decideAssignment(lead, config, state)!;
+      expect(first).toMatchObject({ assignedTo: 5, method: 'least_loaded' });
+
+      recordDecision(state, first);
+      recordDecision(state, decideAssignment(lead, config, state)!);
+      expect(state.openLeadCounts.get(5)).toBe(3);
+      expect(decideAssignment(lead, config, state)!.assignedTo).toBe(7);
+    });
+
+    it('should free up capacity on the previous assignee', () => {
+      const state = context();
+      recordDecision(state, { assignedTo: 5, method: 'least_loaded', reason: '' }, 3);
+      expect(state.openLeadCounts.get(3)).toBe(3);
+    });
+  });
+
+  describe('Territory rules', () => {
+    const config = {
+      ...DEFAULT_LEAD_ASSIGNMENT_CONFIG,
+      mode: 'rules' as const,
+      rules: [
+        { field: 'country' as const, value: 'de', assignTo: 1 },
+        { field: 'source' as const, value: 'Website', assignTo: 7 },
+      ],
+    };
+
+    it('should use the first matching rule', () => {
+      expect(decideAssignment(lead, config, context())).toEqual({ assignedTo: 1, method: 'rule', reason: 'country is de' });
+    });
+
+    it('should skip rules that target inactive users', () => {
+      expect(decideAssignment(lead, config, context({ activeUserIds: new Set([3, 5, 7]) }))!.assignedTo).toBe(7);
+    });
+
+    it('should fall back when no rule matches', () => {
+      const other = { source: 'referral', company: null, country: 'FR' };
+      expect(decideAssignment(other, config, context())!.method).toBe('round_robin');
+      expect(decideAssignment(other, { ...config, fallback: 'none' }, context())).toBeNull();
+    });
+  });
+
+  it('should never assign in manual mode', () => {
+    expect(decideAssignment(lead, { ...DEFAULT_LEAD_ASSIGNMENT_CONFIG, mode: 'none' }, context())).toBeNull();
+  });
+});
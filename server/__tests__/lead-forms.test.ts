@@ -0,0 +1,110 @@
+import { describe, it, expect } from '@jest/globals';
+import type { CustomFieldDefinition, Lead } from '@shared/schema';
+import { assertValidFieldMapping, isOriginAllowed, isSpam, mapSubmission, mergeSubmission, requestOrigin } from '../lead-forms';
+
+const definition = (key: string, type: string, extra: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition => ({
+  id: 1,
+  entityType: 'lead',
+  key,
+  label: key,
+  type,
+  options: [],
+  required: false,
+  currency: null,
+  position: 0,
+  organizationId: 1,
+  createdAt: null,
+  updatedAt: null,
+  ...extra,
+});
+
+const definitions = [
+  definition('budget', 'currency', { currency: 'USD' }),
+  definition('interests', 'multiselect', { options: ['crm', 'billing'] }),
+];
+
+const form = {
+  fieldMapping: {
+    first_name: 'firstName',
+    last_name: 'lastName',
+    email: 'email',
+    message: 'notes',
+    budget: 'customFields.budget',
+    interests: 'customFields.interests',
+  },
+  allowedOrigins: ['https://www.example.com'],
+  honeypotField: 'website_url',
+};
+
+describe('Web-to-lead forms', () => {
+  it('should require names and email to be mapped to known fields, once each', () => {
+    expect(() => assertValidFieldMapping(form.fieldMapping, definitions)).not.toThrow();
+    expect(() => assertValidFieldMapping({ email: 'email', name: 'firstName' }, definitions)).toThrow('Required fields are not mapped: lastName');
+    expect(() => assertValidFieldMapping({ ...form.fieldMapping, score: 'score' }, definitions)).toThrow('Unknown lead fields: score');
+    expect(() => assertValidFieldMapping({ ...form.fieldMapping, mail: 'email' }, definitions)).toThrow('Each lead field can only be mapped once');
+    expect(() => assertValidFieldMapping(form.fieldMapping, [...definitions, definition('region', 'text', { required: true })]))
+      .toThrow('Required fields are not mapped: customFields.region');
+  });
+
+  it('should accept submissions from the allowed origins, falling back to the referer', () => {
+    expect(isOriginAllowed(form, requestOrigin('https://www.example.com', undefined))).toBe(true);
+    expect(isOriginAllowed(form, requestOrigin(undefined, 'https://www.example.com/contact?ref=ad'))).toBe(true);
+    expect(isOriginAllowed(form, requestOrigin('https://example.com', undefined))).toBe(false);
+    expect(isOriginAllowed(form, requestOrigin('null', undefined))).toBe(false);
+    expect(isOriginAllowed(form, requestOrigin(undefined, undefined))).toBe(false);
+    expect(isOriginAllowed({ allowedOrigins: ['*'] }, undefined)).toBe(true);
+  });
+
+  it('should treat any value in the honeypot field as spam', () => {
+    expect(isSpam(form, { email: 'ann@example.com' })).toBe(false);
+    expect(isSpam(form, { email: 'ann@example.com', website_url: '  ' })).toBe(false);
+    expect(isSpam(form, { email: 'ann@example.com', website_url: 'http://spam.example.com' })).toBe(true);
+  });
+
+  it('should build the lead from the mapped fields, parsing custom field values', () => {
+    const { data, errors } = mapSubmission(form, {
+      first_name: ' Ann ',
+      last_name: 'Lee',
+      email: 'ann@example.com',
+      message: '',
+      budget: '12,500.50',
+      interests: ['crm', 'billing'],
+      organizationId: 2,
+      status: 'qualified',
+    }, definitions);
+
+    expect(errors).toEqual([]);
+    expect(data).toEqual({
+      firstName: 'Ann',
+      lastName: 'Lee',
+      email: 'ann@example.com',
+      customFields: { budget: 12500.5, interests: ['crm', 'billing'] },
+    });
+  });
+
+  it('should report errors under the form\'s field names', () => {
+    const { data, errors } = mapSubmission(form, { first_name: 'Ann', email: 'ann@', interests: 'sales' }, definitions);
+    expect(data).toBeUndefined();
+    expect(errors).toEqual([
+      { field: 'last_name', message: 'Required' },
+      { field: 'email', message: 'Invalid email' },
+      { field: 'interests', message: 'Expected one of crm, billing' },
+    ]);
+  });
+
+  it('should only fill blank fields when merging into an existing lead', () => {
+    const existing = {
+      firstName: 'Ann', lastName: 'Lee', email: 'ann@example.com', phone: null, company: 'Acme',
+      notes: 'Met at the fair', customFields: { budget: 1000 },
+    } as unknown as Lead;
+
+    expect(mergeSubmission(existing, {
+      firstName: 'Annie', lastName: 'Lee', email: 'ANN@example.com', phone: '555-0100', company: 'Other Co',
+      notes: 'Please call me', customFields: { budget: 5000, interests: ['crm'] },
+    })).toEqual({
+      phone: '555-0100',
+      notes: 'Met at the fair\n\nPlease call me',
+      customFields: { interests: ['crm'] },
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_LEAD_SCORING_RULES, getLeadScoringRules, scoreLead } from '../lead-scoring';
+
+describe('Lead Scoring', () => {
+  const now = new Date('2024-06-30T12:00:00Z');
+  const rules = DEFAULT_LEAD_SCORING_RULES;
+  const lead = (overrides: Record<string, any> = {}) => ({
+    source: null,
+    jobTitle: null,
+    email: 'someone@gmail.com',
+    ...overrides,
+  });
+  const completedOn = (date: string) => ({ status: 'completed', completedAt: new Date(date), updatedAt: new Date(date) });
+
+  describe('Rule configuration', () => {
+    it('should fall back to the defaults when an organization has no rules', () => {
+      expect(getLeadScoringRules({})).toEqual(DEFAULT_LEAD_SCORING_RULES);
+    });
+
+    it('should merge stored rules with the defaults', () => {
+      const stored = getLeadScoringRules({ leadScoring: { sources: { partner: 30 } } });
+      expect(stored.sources).toEqual({ partner: 30 });
+      expect(stored.recency).toEqual(DEFAULT_LEAD_SCORING_RULES.recency);
+    });
+  });
+
+  describe('Scoring', () => {
+    it('should give no points to a bare lead', () => {
+      expect(scoreLead(lead(), [], rules, now)).toEqual({ score: 0, breakdown: [] });
+    });
+
+    it('should award points for source, job title and business domain', () => {
+      const result = scoreLead(lead({ source: 'Referral', jobTitle: 'Sales Director', email: 'jane@acme.com' }), [], rules, now);
+
+      expect(result.breakdown.map(entry => [entry.rule, entry.points])).toEqual([
+        ['source', 20],
+        ['jobTitle', 15],
+        ['companyDomain', 10],
+      ]);
+      expect(result.score).toBe(45);
+    });
+
+    it('should match job title keywords as whole words', () => {
+      const result = scoreLead(lead({ jobTitle: 'Account Executive' }), [], { ...rules, jobTitleKeywords: [{ keyword: 'cco', points: 10 }] }, now);
+      expect(result.breakdown).toHaveLength(0);
+    });
+
+    it('should prefer target account points over the business email bonus', () => {
+      const targeted = { ...rules, companyDomain: { ...rules.companyDomain, targetDomains: [{ domain: 'acme.com', points: 30 }] } };
+      const result = scoreLead(lead({ email: 'jane@ACME.com' }), [], targeted, now);
+      expect(result.breakdown).toEqual([{ rule: 'companyDomain', reason: 'Target account acme.com', points: 30 }]);
+    });
+
+    it('should cap completed activity points and ignore pending ones', () => {
+      const activities = [
+        ...Array.from({ length: 8 }, () => completedOn('2024-01-01T00:00:00Z')),
+        { status: 'pending', completedAt: null, updatedAt: new Date('2024-06-29T00:00:00Z') },
+      ];
+      const result = scoreLead(lead(), activities, rules, now);
+      expect(result.breakdown.find(entry => entry.rule === 'completedActivities')?.points).toBe(25);
+      expect(result.breakdown.find(entry => entry.rule === 'recency')).toBeUndefined();
+    });
+
+    it('should reward recent contact using the tightest matching window', () => {
+      expect(scoreLead(lead(), [completedOn('2024-06-27T00:00:00Z')], rules, now).breakdown[1])
+        .toEqual({ rule: 'recency', reason: 'Contacted within 7 days', points: 20 });
+      expect(scoreLead(lead(), [completedOn('2024-06-10T00:00:00Z')], rules, now).breakdown[1].points).toBe(10);
+    });
+
+    it('should keep scores between 0 and 100', () => {
+      const generous = { ...rules, sources: { referral: 500 } };
+      const harsh = { ...rules, sources: { cold: -50 } };
+      expect(scoreLead(lead({ source: 'referral' }), [], generous, now).score).toBe(100);
+      expect(scoreLead(lead({ source: 'cold' }), [], harsh, now).score).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { customerListQuerySchema, dealListQuerySchema, leadListQuerySchema } from '@shared/schema';
+import { decodeCursor, encodeCursor, paginateRecords } from '../list-query';
+
+describe('List Queries', () => {
+  describe('Query parameters', () => {
+    it('should default to 25 newest records', () => {
+      expect(leadListQuerySchema.parse({})).toEqual({ limit: 25, sort: [{ field: 'createdAt', direction: 'desc' }] });
+    });
+
+    it('should parse multi-field sorts and typed filters', () => {
+      const query = dealListQuerySchema.parse({
+        sort: '-value,title', stage: 'proposal, negotiation', assignedTo: 'unassigned', valueMin: '1000', createdFrom: '2024-01-01',
+      });
+      expect(query.sort).toEqual([{ field: 'value', direction: 'desc' }, { field: 'title', direction: 'asc' }]);
+      expect(query.stage).toEqual(['proposal', 'negotiation']);
+      expect(query.assignedTo).toBe('unassigned');
+      expect(query.valueMin).toBe(1000);
+      expect(query.createdFrom).toEqual(new Date('2024-01-01'));
+    });
+
+    it('should reject unknown or repeated sort fields', () => {
+      expect(leadListQuerySchema.safeParse({ sort: 'password' }).success).toBe(false);
+      expect(leadListQuerySchema.safeParse({ sort: 'score,-score' }).success).toBe(false);
+    });
+
+    it('should reject inverted ranges and oversized pages', () => {
+      expect(customerListQuerySchema.safeParse({ valueMin: '10', valueMax: '5' }).success).toBe(false);
+      expect(customerListQuerySchema.safeParse({ createdFrom: '2024-02-01', createdTo: '2024-01-01' }).success).toBe(false);
+      expect(customerListQuerySchema.safeParse({ limit: '0' }).success).toBe(false);
+      expect(customerListQuerySchema.safeParse({ limit: '101' }).success).toBe(false);
+    });
+  });
+
+  describe('Cursors', () => {
+    const sort = [{ field: 'value', direction: 'desc' as const }];
+
+    it('should round-trip the sort values and id of a record', () => {
+      const cursor = decodeCursor(encodeCursor({ id: 7, value: '150.00' } as any, sort), sort);
+      expect(cursor).toEqual({ sort: '-value', values: ['150.00'], id: 7 });
+    });
+
+    it('should reject tampered cursors and cursors of another sort order', () => {
+      expect(() => decodeCursor('not-a-cursor', sort)).toThrow('Invalid cursor');
+      expect(() => decodeCursor(encodeCursor({ id: 7 }, sort), [{ field: 'value', direction: 'asc' }])).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('In-memory pagination', () => {
+    const records = [
+      { id: 1, value: '500', lastContact: new Date('2024-03-01') },
+      { id: 2, value: '1500', lastContact: null },
+      { id: 3, value: '500', lastContact: new Date('2024-01-01') },
+      { id: 4, value: '90', lastContact: new Date('2024-02-01') },
+    ];
+
+    const walk = (sort: string) => {
+      const ids: number[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = paginateRecords(records, customerListQuerySchema.parse({ limit: '1', sort, cursor }) as any);
+        expect(page.page.total).toBe(records.length);
+        ids.push(...page.data.map(record => record.id));
+        cursor = page.page.nextCursor ?? undefined;
+      } while (cursor);
+      return ids;
+    };
+
+    it('should visit every record once in sort order, ties broken by id', () => {
+      expect(walk('-value')).toEqual([2, 3, 1, 4]);
+      expect(walk('value,lastContact')).toEqual([4, 3, 1, 2]);
+    });
+
+    it('should sort missing values first', () => {
+      expect(walk('lastContact')).toEqual([2, 3, 4, 1]);
+    });
+  });
+});
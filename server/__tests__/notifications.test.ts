@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import type { Deal, Lead, Notification } from '@shared/schema';
+import {
+  dealStageNotification, getNotificationPreferences, leadAssignedNotification, wantsNotification, DEFAULT_NOTIFICATION_PREFERENCES
+} from '../notifications';
+import { publish, publishNotifications, subscribe } from '../notification-hub';
+
+const users = [
+  { id: 7, username: 'rep', role: 'sales_rep', organizationId: 1, isActive: true },
+  { id: 8, username: 'gone', role: 'sales_rep', organizationId: 1, isActive: false },
+];
+
+// The socket re-reads the user on connect, like authenticateToken
+jest.mock('../commercial-storage', () => ({
+  commercialStorage: { getUser: async (id: number) => users.find(user => user.id === id) },
+}));
+
+import { attachNotificationSocket, NOTIFICATION_SOCKET_PATH } from '../notification-socket';
+import { signAccessToken } from '../auth';
+
+const notification = (id: number, userId: number): Notification => ({
+  id,
+  userId,
+  type: 'lead_assigned',
+  title: 'Lead assigned to you: Jane Doe',
+  body: 'Acme',
+  entityType: 'lead',
+  entityId: 3,
+  readAt: null,
+  organizationId: 1,
+  createdAt: null,
+});
+
+describe('Notifications', () => {
+  describe('Preferences', () => {
+    it('should default every event type and channel to on', () => {
+      expect(getNotificationPreferences(null)).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+      expect(DEFAULT_NOTIFICATION_PREFERENCES.lead_assigned).toEqual({ inApp: true, realtime: true });
+      expect(getNotificationPreferences({ notifications: { lead_assigned: { inApp: 'no' } } })).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+    });
+
+    it('should look up one cell of the matrix', () => {
+      const settings = { notifications: { deal_stage_changed: { realtime: false } } };
+      expect(wantsNotification(settings, 'deal_stage_changed', 'inApp')).toBe(true);
+      expect(wantsNotification(settings, 'deal_stage_changed', 'realtime')).toBe(false);
+      expect(wantsNotification(settings, 'something_new', 'realtime')).toBe(true);
+    });
+  });
+
+  it('should describe assignments and stage changes', () => {
+    const lead = { id: 3, firstName: 'Jane', lastName: 'Doe', company: 'Acme', organizationId: 1 } as Lead;
+    expect(leadAssignedNotification(lead, 7)).toEqual({
+      userId: 7, type: 'lead_assigned', title: 'Lead assigned to you: Jane Doe', body: 'Acme', entityType: 'lead', entityId: 3, organizationId: 1,
+    });
+    const deal = { id: 5, title: 'Acme renewal', organizationId: 1 } as Deal;
+    expect(dealStageNotification(deal, 7, 'Proposal', 'Negotiation')).toMatchObject({
+      userId: 7, type: 'deal_stage_changed', title: 'Acme renewal moved to Negotiation', body: 'Previously Proposal', entityId: 5,
+    });
+  });
+
+  it('should publish to every open session of the recipient only', () => {
+    const first = { send: jest.fn() };
+    const second = { send: jest.fn() };
+    const other = { send: jest.fn() };
+    const unsubscribe = subscribe(7, first);
+    subscribe(7, second);
+    subscribe(9, other);
+
+    publishNotifications([notification(1, 7)]);
+    expect(first.send).toHaveBeenCalledWith(JSON.stringify({ type: 'notification', notification: notification(1, 7) }));
+    expect(second.send).toHaveBeenCalledTimes(1);
+    expect(other.send).not.toHaveBeenCalled();
+
+    unsubscribe();
+    publish(7, { type: 'read', ids: 'all' });
+    expect(first.send).toHaveBeenCalledTimes(1);
+    expect(second.send).toHaveBeenCalledTimes(2);
+  });
+
+  describe('Socket', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise(resolve => server?.close(resolve));
+    });
+
+    const listen = async () => {
+      server = createServer();
+      attachNotificationSocket(server);
+      await new Promise<void>(resolve => server!.listen(0, resolve));
+      return `ws://127.0.0.1:${(server.address() as AddressInfo).port}${NOTIFICATION_SOCKET_PATH}`;
+    };
+
+    const refusal = (url: string) => new Promise<number | undefined>((resolve) => {
+      const socket = new WebSocket(url);
+      socket.on('unexpected-response', (req, res) => resolve(res.statusCode));
+      socket.on('error', () => resolve(undefined));
+    });
+
+    it('should push notifications to the signed-in user', async () => {
+      const url = await listen();
+      const socket = new WebSocket(`${url}?token=${signAccessToken(users[0])}`);
+      await new Promise(resolve => socket.on('open', resolve));
+      const received = new Promise(resolve => socket.on('message', data => resolve(JSON.parse(String(data)))));
+
+      publishNotifications([notification(2, 8), notification(1, 7)]);
+      await expect(received).resolves.toEqual({ type: 'notification', notification: notification(1, 7) });
+      socket.close();
+      await new Promise(resolve => socket.on('close', resolve));
+    });
+
+    it('should refuse missing, invalid and deactivated users\' tokens', async () => {
+      const url = await listen();
+      await expect(refusal(url)).resolves.toBe(401);
+      await expect(refusal(`${url}?token=not-a-token`)).resolves.toBe(401);
+      await expect(refusal(`${url}?token=${signAccessToken(users[1])}`)).resolves.toBe(401);
+    });
+  });
+});
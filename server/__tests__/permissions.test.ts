@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { PERMISSION_MATRIX, ROLES, can, canAccessRecord, getPermissionScope, isRole } from '../permissions';
+
+describe('Role-Based Permissions', () => {
+  describe('Permission matrix', () => {
+    it('should define permissions for every role', () => {
+      ROLES.forEach(role => {
+        expect(PERMISSION_MATRIX[role]).toBeDefined();
+      });
+    });
+
+    it('should reserve role management and billing for admins', () => {
+      expect(can('admin', 'users', 'manage')).toBe(true);
+      expect(can('manager', 'users', 'manage')).toBe(false);
+      expect(can('sales_rep', 'users', 'manage')).toBe(false);
+      expect(can('user', 'users', 'manage')).toBe(false);
+
+      expect(can('admin', 'billing', 'manage')).toBe(true);
+      expect(can('manager', 'billing', 'manage')).toBe(false);
+    });
+
+    it('should let managers reassign records across the organization', () => {
+      expect(getPermissionScope('manager', 'leads', 'reassign')).toBe('all');
+      expect(getPermissionScope('manager', 'deals', 'update')).toBe('all');
+    });
+
+    it('should limit sales reps to editing their assigned records', () => {
+      expect(getPermissionScope('sales_rep', 'leads', 'update')).toBe('assigned');
+      expect(getPermissionScope('sales_rep', 'deals', 'update')).toBe('assigned');
+      expect(can('sales_rep', 'leads', 'reassign')).toBe(false);
+      expect(can('sales_rep', 'leads', 'delete')).toBe(false);
+    });
+
+    it('should keep plain users read-only outside of their own activities', () => {
+      expect(getPermissionScope('user', 'customers', 'read')).toBe('assigned');
+      expect(can('user', 'customers', 'update')).toBe(false);
+      expect(can('user', 'activities', 'create')).toBe(true);
+    });
+
+    it('should deny everything to unknown roles', () => {
+      expect(isRole('superuser')).toBe(false);
+      expect(can('superuser', 'leads', 'read')).toBe(false);
+    });
+  });
+
+  describe('Record access', () => {
+    const rep = { id: 5 };
+
+    it('should allow any record with an organization-wide scope', () => {
+      expect(canAccessRecord(rep, 'all', { assignedTo: 9 })).toBe(true);
+    });
+
+    it('should allow only assigned or created records with an assigned scope', () => {
+      expect(canAccessRecord(rep, 'assigned', { assignedTo: 5 })).toBe(true);
+      expect(canAccessRecord(rep, 'assigned', { assignedTo: 9, createdBy: 5 })).toBe(true);
+      expect(canAccessRecord(rep, 'assigned', { assignedTo: 9 })).toBe(false);
+      expect(canAccessRecord(rep, 'assigned', { assignedTo: null })).toBe(false);
+    });
+
+    it('should deny access without a scope', () => {
+      expect(canAccessRecord(rep, undefined, { assignedTo: 5 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Quota } from '@shared/schema';
+import { buildLeaderboard, withAttainment, type ClosedDeal } from '../quotas';
+import { periodOf } from '../forecasting';
+
+const march = periodOf(new Date('2026-03-18T10:00:00Z'), 'month');
+
+const quota = (id: number, userId: number | null, target: string, extra: Partial<Quota> = {}): Quota => ({
+  id, userId, period: 'month', periodStart: march.start, target, createdBy: 1, organizationId: 1,
+  createdAt: new Date(), updatedAt: new Date(), ...extra,
+});
+
+const closed = (assignedTo: number | null, value: string, won: boolean, day = 10): ClosedDeal => ({
+  assignedTo, value, won, actualCloseDate: new Date(Date.UTC(2026, 2, day)),
+});
+
+const users = [
+  { id: 3, firstName: 'Sam', lastName: 'Rep', username: 'sam' },
+  { id: 4, firstName: null, lastName: null, username: 'alex' },
+  { id: 5, firstName: 'Bo', lastName: null, username: 'bo' },
+];
+
+describe('Quotas', () => {
+  it('should compute attainment from the deals won in the quota period', () => {
+    const [rep, team, quarter] = withAttainment([
+      quota(1, 3, '2000.00'),
+      quota(2, null, '4000.00'),
+      quota(3, 3, '10000.00', { period: 'quarter', periodStart: new Date('2026-01-01T00:00:00Z') }),
+    ], [
+      closed(3, '1500.00', true),
+      closed(3, '900.00', false),
+      closed(null, '500.00', true),
+      { ...closed(3, '1000.00', true), actualCloseDate: new Date('2026-02-10T00:00:00Z') },
+    ]);
+
+    expect(rep).toMatchObject({ closedWon: 1500, dealsWon: 1, attainment: 75, periodEnd: march.end });
+    // Team quotas count unassigned deals too
+    expect(team).toMatchObject({ closedWon: 2000, dealsWon: 2, attainment: 50 });
+    expect(quarter).toMatchObject({ closedWon: 2500, attainment: 25 });
+  });
+
+  it('should rank reps on the chosen metric, sharing ranks on ties', () => {
+    const input = {
+      period: 'month' as const,
+      bounds: march,
+      users,
+      closedDeals: [closed(3, '1500.00', true), closed(3, '900.00', false), closed(4, '1500.00', true), closed(null, '200.00', true)],
+      activityCounts: [{ userId: 5, count: 12 }, { userId: 3, count: 4 }],
+      quotas: [quota(1, 3, '3000.00'), quota(2, null, '10000.00')],
+    };
+
+    const byRevenue = buildLeaderboard({ ...input, sort: 'revenue' });
+    expect(byRevenue.entries.map(entry => [entry.rank, entry.name])).toEqual([[1, 'alex'], [1, 'Sam Rep'], [3, 'Bo']]);
+    expect(byRevenue.entries[1]).toMatchObject({ dealsWon: 1, dealsLost: 1, winRate: 50, activities: 4, quota: 3000, attainment: 50 });
+    expect(byRevenue.team).toEqual({ quota: 10000, revenue: 3200, attainment: 32 });
+
+    // Reps without a closed deal have no win rate and rank last
+    const byWinRate = buildLeaderboard({ ...input, sort: 'winRate' });
+    expect(byWinRate.entries.map(entry => [entry.name, entry.winRate])).toEqual([['alex', 100], ['Sam Rep', 50], ['Bo', null]]);
+    expect(buildLeaderboard({ ...input, sort: 'activities' }).entries[0].name).toBe('Bo');
+  });
+});
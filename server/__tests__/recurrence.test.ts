@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { recurrenceRuleSchema, type RecurrenceRule } from '@shared/schema';
+import { nextOccurrence, normalizeRecurrence } from '../recurrence';
+
+const rule = (input: Record<string, unknown>): RecurrenceRule => recurrenceRuleSchema.parse(input);
+const iso = (date: Date | undefined) => date?.toISOString();
+
+describe('Recurrence', () => {
+  it('should validate rules like RRULE does', () => {
+    expect(rule({ frequency: 'weekly' })).toEqual({ frequency: 'weekly', interval: 1 });
+    expect(recurrenceRuleSchema.safeParse({ frequency: 'daily', count: 3, until: '2026-12-31' }).success).toBe(false);
+    expect(recurrenceRuleSchema.safeParse({ frequency: 'daily', byWeekday: ['MO'] }).success).toBe(false);
+    expect(recurrenceRuleSchema.safeParse({ frequency: 'monthly', byMonthDay: 32 }).success).toBe(false);
+    expect(recurrenceRuleSchema.safeParse({ frequency: 'yearly' }).success).toBe(false);
+  });
+
+  it('should repeat daily and weekly at the same time of day', () => {
+    const due = new Date('2026-03-10T09:30:00.000Z'); // a Tuesday
+    expect(iso(nextOccurrence(rule({ frequency: 'daily', interval: 2 }), due, 1))).toBe('2026-03-12T09:30:00.000Z');
+    expect(iso(nextOccurrence(rule({ frequency: 'weekly' }), due, 1))).toBe('2026-03-17T09:30:00.000Z');
+  });
+
+  it('should move through the listed weekdays before skipping ahead by the interval', () => {
+    const everyOtherMondayAndThursday = rule({ frequency: 'weekly', interval: 2, byWeekday: ['TH', 'MO'] });
+    const tuesday = new Date('2026-03-10T09:30:00.000Z');
+    const thursday = nextOccurrence(everyOtherMondayAndThursday, tuesday, 1)!;
+    expect(iso(thursday)).toBe('2026-03-12T09:30:00.000Z');
+    expect(iso(nextOccurrence(everyOtherMondayAndThursday, thursday, 2))).toBe('2026-03-23T09:30:00.000Z');
+  });
+
+  it('should keep monthly series on their day of the month', () => {
+    const monthly = normalizeRecurrence(rule({ frequency: 'monthly' }), new Date('2026-01-31T08:00:00.000Z'));
+    expect(monthly.byMonthDay).toBe(31);
+    const february = nextOccurrence(monthly, new Date('2026-01-31T08:00:00.000Z'), 1)!;
+    expect(iso(february)).toBe('2026-02-28T08:00:00.000Z');
+    expect(iso(nextOccurrence(monthly, february, 2))).toBe('2026-03-31T08:00:00.000Z');
+    expect(iso(nextOccurrence(rule({ frequency: 'monthly', interval: 3, byMonthDay: 15 }), new Date('2026-11-15T08:00:00.000Z'), 1)))
+      .toBe('2027-02-15T08:00:00.000Z');
+  });
+
+  it('should end after the given count or date', () => {
+    const due = new Date('2026-03-10T09:30:00.000Z');
+    const threeTimes = rule({ frequency: 'daily', count: 3 });
+    expect(nextOccurrence(threeTimes, due, 2)).toBeDefined();
+    expect(nextOccurrence(threeTimes, due, 3)).toBeUndefined();
+    expect(nextOccurrence(rule({ frequency: 'daily', until: '2026-03-11' }), due, 1)).toBeDefined();
+    expect(nextOccurrence(rule({ frequency: 'daily', until: '2026-03-10' }), due, 1)).toBeUndefined();
+  });
+
+  it('should require a due date', () => {
+    expect(() => normalizeRecurrence(rule({ frequency: 'daily' }), null)).toThrow('need a due date');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Activity } from '@shared/schema';
+import {
+  buildDigest, getReminderPreferences, isDigestDue, localTime, planActivityReminders, DEFAULT_REMINDER_PREFERENCES
+} from '../reminders';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+const activity = (id: number, dueDate: Date | null, extra: Partial<Activity> = {}): Activity => ({
+  id,
+  type: 'call',
+  subject: `Call ${id}`,
+  description: null,
+  status: 'pending',
+  dueDate,
+  completedAt: null,
+  reminderSentAt: null,
+  overdueNotifiedAt: null,
+  recurrence: null,
+  seriesId: null,
+  occurrence: 1,
+  enrollmentId: null,
+  customerId: null,
+  leadId: null,
+  dealId: null,
+  assignedTo: 7,
+  createdBy: 1,
+  organizationId: 1,
+  deletedAt: null,
+  deletedBy: null,
+  createdAt: null,
+  updatedAt: null,
+  ...extra,
+});
+
+describe('Activity reminders', () => {
+  it('should fall back to the defaults for missing or invalid preferences', () => {
+    expect(getReminderPreferences(null)).toEqual(DEFAULT_REMINDER_PREFERENCES);
+    expect(getReminderPreferences({ reminders: { minutesBefore: -5 } })).toEqual(DEFAULT_REMINDER_PREFERENCES);
+    expect(getReminderPreferences({ reminders: { minutesBefore: 15 } }).minutesBefore).toBe(15);
+  });
+
+  it('should remind the assignee before the due date and report overdue activities once', () => {
+    const plan = planActivityReminders([
+      { activity: activity(1, minutesFromNow(30)), recipientSettings: {} },
+      { activity: activity(2, minutesFromNow(90)), recipientSettings: {} },
+      { activity: activity(3, minutesFromNow(-5), { assignedTo: null }), recipientSettings: {} },
+      { activity: activity(4, minutesFromNow(-5), { overdueNotifiedAt: now }), recipientSettings: {} },
+      { activity: activity(5, minutesFromNow(10), { reminderSentAt: now }), recipientSettings: {} },
+      { activity: activity(6, minutesFromNow(10), { status: 'completed' }), recipientSettings: {} },
+    ], now);
+
+    expect(plan.remindedIds).toEqual([1]);
+    expect(plan.overdueIds).toEqual([3]);
+    expect(plan.notifications).toEqual([
+      expect.objectContaining({ userId: 7, type: 'activity_due', title: 'Call due in 30 minutes', entityType: 'activity', entityId: 1 }),
+      expect.objectContaining({ userId: 1, type: 'activity_overdue', title: 'Overdue call', entityId: 3 }),
+    ]);
+  });
+
+  it('should settle reminders turned off by the user or long overdue without notifying', () => {
+    const plan = planActivityReminders([
+      { activity: activity(1, minutesFromNow(5)), recipientSettings: { reminders: { upcomingReminders: false } } },
+      { activity: activity(2, minutesFromNow(-30 * 24 * 60)), recipientSettings: {} },
+      { activity: activity(3, minutesFromNow(200)), recipientSettings: { reminders: { minutesBefore: 240 } } },
+    ], now);
+
+    expect(plan.remindedIds).toEqual([1, 3]);
+    expect(plan.overdueIds).toEqual([2]);
+    expect(plan.notifications.map(notification => notification.title)).toEqual(['Call due in 3 hours']);
+  });
+
+  describe('Daily digest', () => {
+    const preferences = { ...DEFAULT_REMINDER_PREFERENCES, dailyDigest: true, digestHour: 9, timezone: 'America/New_York' };
+
+    it('should read the local date and hour in the preferred time zone', () => {
+      expect(localTime(now, 'America/New_York')).toEqual({ date: '2026-03-10', hour: 8 });
+      expect(localTime(now, 'Asia/Tokyo')).toEqual({ date: '2026-03-10', hour: 21 });
+    });
+
+    it('should be sent once per local day after the preferred hour', () => {
+      expect(isDigestDue(preferences, now)).toBe(false);
+      expect(isDigestDue(preferences, minutesFromNow(60))).toBe(true);
+      expect(isDigestDue(preferences, minutesFromNow(60), minutesFromNow(-24 * 60))).toBe(true);
+      expect(isDigestDue(preferences, minutesFromNow(120), minutesFromNow(61))).toBe(false);
+      expect(isDigestDue({ ...preferences, dailyDigest: false }, minutesFromNow(60))).toBe(false);
+    });
+
+    it('should summarize overdue activities and those due within a day', () => {
+      const digest = buildDigest(7, 1, [
+        activity(1, minutesFromNow(120)),
+        activity(2, minutesFromNow(-60)),
+        activity(3, minutesFromNow(3 * 24 * 60)),
+      ], now);
+      expect(digest).toMatchObject({
+        userId: 7,
+        type: 'activity_digest',
+        title: 'Your activities: 1 overdue, 1 due in the next 24 hours',
+        body: '- Call 2\n- Call 1',
+      });
+      expect(buildDigest(7, 1, [activity(3, minutesFromNow(3 * 24 * 60))], now)).toBeUndefined();
+    });
+  });
+});
@@ -27,16 +27,23 @@ describe('API Routes', () => {
         .get('/api/customers')
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body.length).toBeGreaterThan(0);
+      expect(Array.isArray(response.body.data)).toBe(true);
+      expect(response.body.data.length).toBeGreaterThan(0);
+      expect(response.body.page.total).toBeGreaterThanOrEqual(response.body.data.length);
       
-      const customer = response.body[0];
+      const customer = response.body.data[0];
       expect(customer).toHaveProperty('id');
       expect(customer).toHaveProperty('name');
       expect(customer).toHaveProperty('email');
       expect(customer).toHaveProperty('status');
       expect(customer).toHaveProperty('value');
     });
+
+    it('should reject invalid list parameters', async () => {
+      await request(app)
+        .get('/api/customers?sort=email')
+        .expect(400);
+    });
   });
 
   describe('GET /api/customers/:id', () => {
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { dealSalesData, rollUpSalesData, salesDataBucket, type SalesDataDeal } from '../sales-data';
+
+const deal = (extra: Partial<SalesDataDeal>): SalesDataDeal => ({
+  id: 42,
+  value: '1200.00',
+  actualCloseDate: new Date('2026-03-31T23:30:00Z'),
+  assignedTo: 3,
+  organizationId: 1,
+  won: true,
+  ...extra,
+});
+
+const month = (periodStart: string, revenue: string, deals: number, source = 'deal') =>
+  ({ periodStart: new Date(periodStart), source, revenue, deals, newCustomers: source === 'deal' ? 0 : 1 });
+
+describe('Sales data', () => {
+  it('should bucket a won deal in the month it closed', () => {
+    expect(salesDataBucket(new Date('2026-12-15T08:00:00Z'))).toEqual({ periodStart: new Date('2026-12-01T00:00:00Z'), month: 'Dec', year: 2026 });
+    expect(dealSalesData(deal({}))).toEqual({
+      periodStart: new Date('2026-03-01T00:00:00Z'), month: 'Mar', year: 2026,
+      source: 'deal', revenue: '1200.00', deals: 1, dealId: 42, assignedTo: 3, organizationId: 1,
+    });
+  });
+
+  it('should leave out lost and open deals', () => {
+    expect(dealSalesData(deal({ won: false }))).toBeUndefined();
+    expect(dealSalesData(deal({ actualCloseDate: null }))).toBeUndefined();
+  });
+
+  it('should roll months up into quarters, keeping adjustments apart', () => {
+    const rows = [
+      month('2026-04-01T00:00:00Z', '500.00', 1),
+      month('2026-01-01T00:00:00Z', '1000.00', 2),
+      month('2026-03-01T00:00:00Z', '-200.50', -1, 'adjustment'),
+      month('2026-02-01T00:00:00Z', '300.25', 1),
+    ];
+
+    expect(rollUpSalesData(rows, 'quarter')).toEqual([
+      { key: '2026-Q1', start: '2026-01-01T00:00:00.000Z', end: '2026-04-01T00:00:00.000Z', revenue: 1099.75, deals: 2, newCustomers: 1, adjustments: -200.5 },
+      { key: '2026-Q2', start: '2026-04-01T00:00:00.000Z', end: '2026-07-01T00:00:00.000Z', revenue: 500, deals: 1, newCustomers: 0, adjustments: 0 },
+    ]);
+    expect(rollUpSalesData(rows, 'month').map(rollup => rollup.key)).toEqual(['2026-01', '2026-02', '2026-03', '2026-04']);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { findMatches, orderGroups, searchTerms, toPrefixQuery, toResultGroup } from '../search';
+
+describe('Search', () => {
+  describe('Query parsing', () => {
+    it('should split queries into lowercase words', () => {
+      expect(searchTerms('  Jane   DOE ')).toEqual(['jane', 'doe']);
+      expect(searchTerms('jane@acme.com')).toEqual(['jane', 'acme', 'com']);
+      expect(searchTerms('Müller')).toEqual(['müller']);
+    });
+
+    it('should build a prefix query from words only', () => {
+      expect(toPrefixQuery('acme co')).toBe('acme:* & co:*');
+      expect(toPrefixQuery("o'brien & | ! :*")).toBe('o:* & brien:*');
+      expect(toPrefixQuery('!!!')).toBeNull();
+    });
+  });
+
+  describe('Highlighting', () => {
+    it('should mark the matched start of each word', () => {
+      expect(findMatches('Acme Corporation', ['acme', 'corp'])).toEqual([[0, 4], [5, 9]]);
+    });
+
+    it('should prefer the longest matching term', () => {
+      expect(findMatches('Janet', ['j', 'jan'])).toEqual([[0, 3]]);
+    });
+
+    it('should not match inside words', () => {
+      expect(findMatches('Macme', ['acme'])).toEqual([]);
+      expect(findMatches(null, ['acme'])).toEqual([]);
+    });
+  });
+
+  describe('Grouping', () => {
+    const row = (id: number, rank: number) => ({ id, title: `Acme ${id}`, subtitle: null, rank, total: 7 });
+
+    it('should carry the total matches and highlights of a group', () => {
+      const group = toResultGroup('customer', [row(1, 0.5)], ['acme']);
+      expect(group.total).toBe(7);
+      expect(group.results[0]).toMatchObject({ entityType: 'customer', highlights: { title: [[0, 4]], subtitle: [] } });
+    });
+
+    it('should drop empty groups and put the best match first', () => {
+      const groups = orderGroups([
+        toResultGroup('lead', [row(1, 0.2)], ['acme']),
+        toResultGroup('deal', [], ['acme']),
+        toResultGroup('activity', [row(2, 0.9)], ['acme']),
+      ]);
+      expect(groups.map(group => group.entityType)).toEqual(['activity', 'lead']);
+    });
+  });
+});
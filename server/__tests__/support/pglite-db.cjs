@@ -0,0 +1,37 @@
+// Stands in for server/db.ts with Postgres itself (PGlite in a child process), for behaviour an
+// in-memory storage cannot show, e.g. microsecond timestamps. Tests install it with
+// jest.mock('../db', () => jest.requireActual('./support/pglite-db.cjs')) and kill `server` when done
+const { fork } = require('child_process');
+const { drizzle } = require('drizzle-orm/pglite');
+const schema = require('../../../shared/schema');
+
+const server = fork(`${__dirname}/pglite-server.mjs`, [], { execArgv: [] });
+const pending = new Map();
+let nextId = 0;
+server.on('message', ({ id, error, ...result }) => {
+  const request = pending.get(id);
+  pending.delete(id);
+  error ? request.reject(new Error(error)) : request.resolve(result);
+});
+
+// The child holds a single connection and queries run one at a time, so a transaction is
+// simply everything sent between BEGIN and COMMIT
+const client = {
+  query: (sql, params = [], options = {}) => new Promise((resolve, reject) => {
+    pending.set(++nextId, { resolve, reject });
+    server.send({ id: nextId, sql, params, rowMode: options.rowMode });
+  }),
+  transaction: async (callback) => {
+    await client.query('begin');
+    try {
+      const result = await callback(client);
+      await client.query('commit');
+      return result;
+    } catch (error) {
+      await client.query('rollback');
+      throw error;
+    }
+  },
+};
+
+module.exports = { server, db: drizzle({ client, schema }) };
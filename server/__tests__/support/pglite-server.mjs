@@ -0,0 +1,15 @@
+// Runs PGlite outside the jest sandbox, which cannot load its wasm build, and answers queries from the parent
+import { PGlite } from '@electric-sql/pglite';
+
+// Dates and intervals stay text, as drizzle's PGlite driver asks for, and drizzle parses them
+const TEXT_TYPES = [1082, 1114, 1184, 1186, 1115, 1182, 1185, 1187]; // date, timestamp, timestamptz, interval and their arrays
+const client = new PGlite({ parsers: Object.fromEntries(TEXT_TYPES.map(type => [type, value => value])) });
+
+process.on('message', async ({ id, sql, params, rowMode }) => {
+  try {
+    const { rows, affectedRows } = await client.query(sql, params, { rowMode });
+    process.send({ id, rows, affectedRows });
+  } catch (error) {
+    process.send({ id, error: error.message });
+  }
+});
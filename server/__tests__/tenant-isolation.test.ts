@@ -0,0 +1,1202 @@
+import request from 'supertest';
+import express from 'express';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+type Row = Record<string, any> & { id: number; organizationId: number };
+
+// In-memory stand-in for DatabaseCommercialStorage with the same org-scoping contract
+const db: Record<string, Row[]> = {};
+
+// A one-month forecast with everything in the weighted pipeline
+const forecastOf = (weighted: number) => {
+  const team = { closedWon: 0, commit: 0, bestCase: 0, pipeline: weighted, weighted, forecast: weighted, attainment: 0, openDeals: 1 };
+  return {
+    period: 'month', assignedTo: null, pipelineId: null, generatedAt: '2026-03-01T00:00:00.000Z', commitProbability: 90, bestCaseProbability: 50,
+    periods: [{ key: '2026-03', start: '2026-03-01T00:00:00.000Z', end: '2026-04-01T00:00:00.000Z', team, reps: [{ userId: 3, ...team }] }],
+    total: { team, reps: [{ userId: 3, ...team }] },
+    undated: { deals: 0, value: 0 },
+  };
+};
+
+const resetDb = () => {
+  db.organizations = [
+    { id: 1, organizationId: 1, name: 'Org One', subscriptionPlan: 'professional' },
+    { id: 2, organizationId: 2, name: 'Org Two', subscriptionPlan: 'starter' },
+  ];
+  db.users = [
+    { id: 1, organizationId: 1, username: 'alice', email: 'alice@one.com', password: 'x', role: 'admin', isActive: true },
+    { id: 2, organizationId: 2, username: 'bob', email: 'bob@two.com', password: 'x', role: 'admin', isActive: true },
+    { id: 3, organizationId: 1, username: 'carol', email: 'carol@one.com', password: 'x', role: 'sales_rep', isActive: true },
+  ];
+  db.refreshTokens = [];
+  db.recordMerges = [];
+  db.leads = [
+    { id: 10, organizationId: 1, firstName: 'Own', lastName: 'Lead', email: 'own@lead.com', status: 'new' },
+    { id: 11, organizationId: 1, firstName: 'Rep', lastName: 'Lead', email: 'rep@lead.com', status: 'new', assignedTo: 3 },
+    { id: 20, organizationId: 2, firstName: 'Other', lastName: 'Lead', email: 'other@lead.com', status: 'new' },
+  ];
+  db.customers = [
+    { id: 10, organizationId: 1, firstName: 'Own', lastName: 'Customer', email: 'own@customer.com', status: 'active' },
+    { id: 20, organizationId: 2, firstName: 'Other', lastName: 'Customer', email: 'other@customer.com', status: 'active' },
+  ];
+  db.deals = [
+    { id: 10, organizationId: 1, title: 'Own Deal', value: '100', stage: 'prospecting' },
+    { id: 20, organizationId: 2, title: 'Other Deal', value: '200', stage: 'prospecting' },
+  ];
+  db.activities = [
+    { id: 10, organizationId: 1, type: 'call', subject: 'Own call', leadId: 10, createdBy: 1 },
+    { id: 20, organizationId: 2, type: 'call', subject: 'Other call', leadId: 20, createdBy: 2 },
+  ];
+  db.notifications = [
+    { id: 10, organizationId: 1, userId: 1, type: 'activity_due', title: 'Call due in 30 minutes' },
+    { id: 11, organizationId: 1, userId: 3, type: 'activity_due', title: 'Call due in 10 minutes' },
+    { id: 20, organizationId: 2, userId: 2, type: 'activity_overdue', title: 'Overdue call' },
+  ];
+  db.sequences = [
+    { id: 10, organizationId: 1, name: 'Welcome', isActive: true, steps: [{ position: 0, dayOffset: 0, type: 'email', subject: 'Intro' }] },
+    { id: 20, organizationId: 2, name: 'Other welcome', isActive: true, steps: [] },
+  ];
+  db.sequenceEnrollments = [
+    { id: 20, organizationId: 2, sequenceId: 20, leadId: 20, status: 'active', enrolledBy: 2 },
+  ];
+  db.webhookSubscriptions = [
+    { id: 10, organizationId: 1, url: 'https://one.example.com/hook', events: ['lead.created'], secret: 'whsec_one', isActive: true },
+    { id: 20, organizationId: 2, url: 'https://two.example.com/hook', events: ['deal.won'], secret: 'whsec_two', isActive: true },
+  ];
+  db.webhookDeliveries = [
+    { id: 10, organizationId: 1, subscriptionId: 10, event: 'lead.created', payload: { id: 'evt-1' }, status: 'failed', attempts: 8 },
+    { id: 20, organizationId: 2, subscriptionId: 20, event: 'deal.won', payload: { id: 'evt-2' }, status: 'failed', attempts: 8 },
+  ];
+  db.leadForms = [
+    { id: 10, organizationId: 1, name: 'Contact us', publicKey: 'lf_one', allowedOrigins: ['https://www.one.com'], fieldMapping: { first_name: 'firstName', last_name: 'lastName', email: 'email', budget: 'customFields.budget' }, source: 'website', assignedTo: null, honeypotField: 'website_url', isActive: true, spamCount: 0 },
+    { id: 11, organizationId: 1, name: 'Newsletter', publicKey: 'lf_redirect', allowedOrigins: ['*'], fieldMapping: { first: 'firstName', last: 'lastName', email: 'email' }, source: 'newsletter', assignedTo: 3, honeypotField: 'website_url', redirectUrl: 'https://www.one.com/thanks', isActive: true, spamCount: 0 },
+    { id: 12, organizationId: 1, name: 'Busy', publicKey: 'lf_busy', allowedOrigins: ['*'], fieldMapping: { email: 'email' }, source: 'website', honeypotField: 'website_url', isActive: true, spamCount: 0 },
+    { id: 20, organizationId: 2, name: 'Retired', publicKey: 'lf_two', allowedOrigins: ['*'], fieldMapping: { email: 'email' }, source: 'website', honeypotField: 'website_url', isActive: false, spamCount: 0 },
+  ];
+  db.auditLogs = [
+    { id: 10, organizationId: 1, entityType: 'lead', entityId: 10, action: 'create', changes: { email: { from: null, to: 'own@lead.com' } }, actorId: 1, createdAt: new Date('2026-03-01T09:00:00Z') },
+    { id: 11, organizationId: 1, entityType: 'lead', entityId: 10, action: 'update', changes: { status: { from: 'new', to: 'contacted' } }, actorId: 3, createdAt: new Date('2026-03-02T09:00:00Z') },
+    { id: 12, organizationId: 1, entityType: 'deal', entityId: 10, action: 'update', changes: { stage: { from: 'prospecting', to: 'proposal' } }, actorId: 1, createdAt: new Date('2026-03-03T09:00:00Z') },
+    { id: 20, organizationId: 2, entityType: 'lead', entityId: 20, action: 'create', changes: {}, actorId: 2, createdAt: new Date('2026-03-01T09:00:00Z') },
+  ];
+  db.forecastSnapshots = [
+    { id: 10, organizationId: 1, period: 'month', assignedTo: null, pipelineId: null, forecast: forecastOf(1000), createdBy: 1, createdAt: new Date('2026-03-04T09:00:00Z') },
+    { id: 11, organizationId: 1, period: 'month', assignedTo: null, pipelineId: null, forecast: forecastOf(1500), createdBy: 1, createdAt: new Date('2026-03-11T09:00:00Z') },
+    { id: 12, organizationId: 1, period: 'month', assignedTo: null, pipelineId: null, forecast: forecastOf(1800), createdBy: 1, createdAt: new Date('2026-03-15T09:00:00Z') },
+    { id: 20, organizationId: 2, period: 'month', assignedTo: null, pipelineId: null, forecast: forecastOf(9000), createdBy: 2, createdAt: new Date('2026-03-05T09:00:00Z') },
+  ];
+  db.salesData = [
+    { id: 10, organizationId: 1, source: 'deal', periodStart: new Date('2026-03-01T00:00:00Z'), revenue: '1000.00', deals: 1, dealId: 10 },
+    { id: 11, organizationId: 1, source: 'adjustment', periodStart: new Date('2026-03-01T00:00:00Z'), revenue: '-100.00', deals: 0, note: 'Refund', createdBy: 1 },
+    { id: 20, organizationId: 2, source: 'adjustment', periodStart: new Date('2026-03-01T00:00:00Z'), revenue: '500.00', deals: 0, note: 'Other', createdBy: 2 },
+  ];
+  db.quotas = [
+    { id: 10, organizationId: 1, userId: 3, period: 'month', periodStart: new Date('2026-03-01T00:00:00Z'), target: '5000.00', createdBy: 1 },
+    { id: 20, organizationId: 2, userId: null, period: 'month', periodStart: new Date('2026-03-01T00:00:00Z'), target: '9000.00', createdBy: 2 },
+  ];
+  db.importJobs = [
+    { id: 20, organizationId: 2, entityType: 'leads', fileName: 'other.csv', status: 'completed', createdBy: 2 },
+  ];
+  db.customFieldDefinitions = [
+    { id: 10, organizationId: 1, entityType: 'lead', key: 'budget', label: 'Budget', type: 'number', options: [], required: false },
+    { id: 20, organizationId: 2, entityType: 'lead', key: 'region', label: 'Region', type: 'text', options: [], required: false },
+  ];
+};
+
+// Records in the trash are left out, as by the live queries of the real storage
+const find = (table: string, id: number, orgId: number) =>
+  db[table].find(row => row.id === id && row.organizationId === orgId && !row.deletedAt);
+
+const TRASH_TABLES: Record<string, string> = { lead: 'leads', customer: 'customers', deal: 'deals', activity: 'activities' };
+
+const findTrashed = (entityType: string, id: number, orgId: number) =>
+  db[TRASH_TABLES[entityType]].find(row => row.id === id && row.organizationId === orgId && row.deletedAt);
+
+const moveToTrash = (table: string, id: number, orgId: number, deletedBy?: number) => {
+  const row = find(table, id, orgId);
+  return !!row && !!Object.assign(row, { deletedAt: new Date(), deletedBy });
+};
+
+const assertRefs = (orgId: number, refs: Record<string, number | null | undefined>) => {
+  const { CustomError } = jest.requireActual('../middleware/errorHandler') as any;
+  const tables: Record<string, [string, string]> = {
+    assignedTo: ['users', 'Assigned user not found'],
+    userId: ['users', 'User not found'],
+    customerId: ['customers', 'Customer not found'],
+    leadId: ['leads', 'Lead not found'],
+    dealId: ['deals', 'Deal not found'],
+  };
+  for (const [key, value] of Object.entries(refs)) {
+    if (value && !find(tables[key][0], value, orgId)) {
+      throw new CustomError(tables[key][1], 404);
+    }
+  }
+};
+
+const insert = (table: string, data: any) => {
+  const row = { ...data, id: db[table].length + 100 };
+  db[table].push(row);
+  return row;
+};
+
+const update = (table: string, id: number, orgId: number, data: any) => {
+  const row = find(table, id, orgId);
+  return row ? Object.assign(row, data) : undefined;
+};
+
+// Org-scoped, owner-scoped listing with the real in-memory paginator
+const list = (table: string, matches: (row: Row, query: any) => boolean = () => true) =>
+  async (orgId: number, query: any, visibleTo?: number) => {
+    const { paginateRecords } = jest.requireActual('../list-query') as any;
+    const rows = db[table].filter(row =>
+      row.organizationId === orgId &&
+      !row.deletedAt &&
+      (visibleTo === undefined || row.assignedTo === visibleTo || row.createdBy === visibleTo) &&
+      matches(row, query)
+    );
+    return paginateRecords(rows, query);
+  };
+
+const auditLogMatches = (row: Row, query: any) =>
+  (!query.entityType || query.entityType.includes(row.entityType)) &&
+  (query.entityId === undefined || row.entityId === query.entityId) &&
+  (query.actorId === undefined || row.actorId === query.actorId) &&
+  (!query.action || query.action.includes(row.action));
+
+// Exports stream the same records as the list mocks, in a single batch
+const exportAll = (table: string, matches?: (row: Row, query: any) => boolean) =>
+  async (orgId: number, query: any = { sort: [] }, visibleTo?: number) => {
+    const page = await list(table, matches)(orgId, { ...query, limit: 1000 }, visibleTo);
+    return (async function* () { yield page.data; })();
+  };
+
+jest.mock('../commercial-storage', () => ({
+  commercialStorage: {
+    getOrganization: async (id: number) => db.organizations.find(org => org.id === id),
+    updateOrganizationSettings: async (id: number, settings: any) => {
+      const org = db.organizations.find(row => row.id === id);
+      return org ? Object.assign(org, { settings: { ...org.settings, ...settings } }) : undefined;
+    },
+    createOrganizationWithAdmin: async (org: any, admin: any) => {
+      const organization = insert('organizations', org);
+      organization.organizationId = organization.id;
+      const user = insert('users', { ...admin, role: 'admin', organizationId: organization.id, isActive: true });
+      return { organization, user };
+    },
+    getUser: async (id: number) => db.users.find(user => user.id === id),
+    getUsersByOrganization: async (orgId: number) => db.users.filter(user => user.organizationId === orgId),
+    createUser: async (data: any) => insert('users', data),
+    createRefreshToken: async (data: any) => insert('refreshTokens', { ...data, organizationId: 0 }),
+    updateUserRole: async (id: number, orgId: number, role: string) => update('users', id, orgId, { role }),
+    updateUserSettings: async (id: number, orgId: number, settings: any) => {
+      const user = find('users', id, orgId);
+      return user ? Object.assign(user, { settings: { ...user.settings, ...settings } }) : undefined;
+    },
+    getLeads: async (orgId: number) => db.leads.filter(row => row.organizationId === orgId),
+    listLeads: list('leads', (row, query) => !query.status || query.status.includes(row.status)),
+    exportLeads: exportAll('leads', (row, query) => !query.status || query.status.includes(row.status)),
+    getLead: async (id: number, orgId: number) => find('leads', id, orgId),
+    createLead: async (data: any, createdBy?: number) => { assertRefs(data.organizationId, { assignedTo: data.assignedTo }); return insert('leads', { ...data, createdBy }); },
+    findDuplicateLeads: async () => [],
+    updateLead: async (id: number, orgId: number, data: any) => { assertRefs(orgId, { assignedTo: data.assignedTo }); return update('leads', id, orgId, data); },
+    deleteLead: async (id: number, orgId: number, deletedBy?: number) => moveToTrash('leads', id, orgId, deletedBy),
+    convertLead: async (id: number, orgId: number, conversion: any) => {
+      const lead = find('leads', id, orgId);
+      if (!lead) return undefined;
+      const converted = (row: Row) => row.organizationId === orgId && row.convertedFromLead === id;
+      if (db.customers.some(converted) || db.recordMerges.some(merge => converted(merge.mergedRecord))) {
+        const { CustomError } = jest.requireActual('../middleware/errorHandler') as any;
+        throw new CustomError('Lead has already been converted', 409);
+      }
+      const customer = insert('customers', { ...conversion.customer, organizationId: orgId, convertedFromLead: id });
+      return { lead: Object.assign(lead, { status: 'converted' }), customer, activitiesCarriedOver: 0 };
+    },
+    getCustomers: async (orgId: number) => db.customers.filter(row => row.organizationId === orgId),
+    listCustomers: list('customers'),
+    exportCustomers: exportAll('customers'),
+    getCustomer: async (id: number, orgId: number) => find('customers', id, orgId),
+    createCustomer: async (data: any, createdBy?: number) => { assertRefs(data.organizationId, { assignedTo: data.assignedTo }); return insert('customers', { ...data, createdBy }); },
+    updateCustomer: async (id: number, orgId: number, data: any) => update('customers', id, orgId, data),
+    deleteCustomer: async (id: number, orgId: number, deletedBy?: number) => {
+      db.deals.filter(deal => deal.customerId === id).forEach(deal => moveToTrash('deals', deal.id, orgId, deletedBy));
+      return moveToTrash('customers', id, orgId, deletedBy);
+    },
+    findDuplicateCustomers: async () => [],
+    mergeCustomers: async (orgId: number, merge: any) => {
+      const survivor = find('customers', merge.survivorId, orgId);
+      const merged = find('customers', merge.mergedId, orgId);
+      if (!survivor || !merged) return undefined;
+      db.customers = db.customers.filter(row => row !== merged);
+      survivor.convertedFromLead = survivor.convertedFromLead ?? merged.convertedFromLead;
+      const record = insert('recordMerges', { ...merge, entityType: 'customer', mergedRecord: merged, organizationId: orgId });
+      return { customer: survivor, merge: record };
+    },
+    getDeals: async (orgId: number) => db.deals.filter(row => row.organizationId === orgId),
+    listDeals: list('deals', (row, query) => !query.stage || query.stage.includes(row.stage)),
+    exportDeals: exportAll('deals'),
+    getDeal: async (id: number, orgId: number) => find('deals', id, orgId),
+    getDealsByStage: async (orgId: number, stage: string) => db.deals.filter(row => row.organizationId === orgId && row.stage === stage),
+    createDeal: async (data: any, createdBy?: number) => { assertRefs(data.organizationId, { customerId: data.customerId }); return insert('deals', { ...data, createdBy }); },
+    updateDeal: async (id: number, orgId: number, data: any) => { assertRefs(orgId, { customerId: data.customerId }); return update('deals', id, orgId, data); },
+    deleteDeal: async (id: number, orgId: number, deletedBy?: number) => moveToTrash('deals', id, orgId, deletedBy),
+    getDealStageHistory: async (dealId: number, orgId: number) =>
+      find('deals', dealId, orgId) ? [{ id: 1, dealId, fromStage: null, toStage: 'prospecting', organizationId: orgId, changedAt: new Date() }] : [],
+    getActivities: async (orgId: number) => db.activities.filter(row => row.organizationId === orgId),
+    listActivities: list('activities', (row, query) => !query.entityType || row[`${query.entityType}Id`] === query.entityId),
+    exportActivities: exportAll('activities'),
+    exportDealStageHistory: async () => (async function* () { yield []; })(),
+    exportSalesData: async () => (async function* () { yield []; })(),
+    getSalesDataRollup: jest.fn(async () => []),
+    createSalesAdjustment: async (orgId: number, data: any, createdBy?: number) => {
+      assertRefs(orgId, { assignedTo: data.assignedTo, dealId: data.dealId });
+      return insert('salesData', { ...data, source: 'adjustment', createdBy, organizationId: orgId });
+    },
+    deleteSalesAdjustment: async (id: number, orgId: number) => {
+      const row = find('salesData', id, orgId);
+      if (row?.source !== 'adjustment') return false;
+      db.salesData = db.salesData.filter(other => other !== row);
+      return true;
+    },
+    rebuildSalesData: jest.fn(async () => ({ removed: 1, created: 1, adjustments: 1 })),
+    getPipelines: async () => [],
+    getActivitiesByEntity: async (orgId: number, entityType: string, entityId: number) =>
+      db.activities.filter(row => row.organizationId === orgId && row[`${entityType}Id`] === entityId),
+    getActivity: async (id: number, orgId: number) => find('activities', id, orgId),
+    createActivity: async (data: any) => {
+      assertRefs(data.organizationId, { leadId: data.leadId, customerId: data.customerId, dealId: data.dealId });
+      return insert('activities', data);
+    },
+    updateActivity: async (id: number, orgId: number, data: any) => {
+      assertRefs(orgId, { assignedTo: data.assignedTo, leadId: data.leadId, customerId: data.customerId, dealId: data.dealId });
+      return update('activities', id, orgId, data);
+    },
+    deleteActivity: async (id: number, orgId: number, deletedBy?: number) => moveToTrash('activities', id, orgId, deletedBy),
+    listNotifications: async (userId: number, orgId: number, query: any) =>
+      list('notifications', row => row.userId === userId && (query.unread === undefined || !row.readAt === query.unread))(orgId, query),
+    countUnreadNotifications: async (userId: number, orgId: number) =>
+      db.notifications.filter(row => row.organizationId === orgId && row.userId === userId && !row.readAt).length,
+    markNotificationRead: async (id: number, userId: number, orgId: number) => {
+      const row = find('notifications', id, orgId);
+      return row?.userId === userId ? Object.assign(row, { readAt: row.readAt ?? new Date() }) : undefined;
+    },
+    markAllNotificationsRead: async (userId: number, orgId: number) => {
+      const unread = db.notifications.filter(row => row.organizationId === orgId && row.userId === userId && !row.readAt);
+      unread.forEach(row => Object.assign(row, { readAt: new Date() }));
+      return unread.length;
+    },
+    getSequences: async (orgId: number) => db.sequences.filter(row => row.organizationId === orgId),
+    getSequence: async (id: number, orgId: number) => find('sequences', id, orgId),
+    createSequence: async (data: any) => insert('sequences', data),
+    updateSequence: async (id: number, orgId: number, data: any) => update('sequences', id, orgId, data),
+    enrollInSequence: async (sequenceId: number, orgId: number, enrollment: any, enrolledBy: number) => {
+      const sequence = find('sequences', sequenceId, orgId);
+      if (!sequence) return undefined;
+      assertRefs(orgId, { leadId: enrollment.leadId, dealId: enrollment.dealId, assignedTo: enrollment.assignedTo });
+      const row = insert('sequenceEnrollments', { ...enrollment, sequenceId, organizationId: orgId, status: 'active', enrolledBy });
+      const activities = sequence.steps.map((step: any) =>
+        insert('activities', { type: step.type, subject: step.subject, leadId: enrollment.leadId, enrollmentId: row.id, organizationId: orgId }));
+      return { enrollment: row, activities };
+    },
+    getSequenceEnrollments: async (orgId: number, query: any, visibleTo?: number) =>
+      db.sequenceEnrollments.filter(row => row.organizationId === orgId && (visibleTo === undefined || row.assignedTo === visibleTo || row.enrolledBy === visibleTo)),
+    getSequenceEnrollment: async (id: number, orgId: number) => find('sequenceEnrollments', id, orgId),
+    stopSequenceEnrollment: async (id: number, orgId: number) => update('sequenceEnrollments', id, orgId, { status: 'stopped', stopReason: 'manual' }),
+    getWebhookSubscriptions: async (orgId: number) =>
+      db.webhookSubscriptions.filter(row => row.organizationId === orgId).map(({ secret, ...summary }) => summary),
+    getWebhookSubscription: async (id: number, orgId: number) => {
+      const row = find('webhookSubscriptions', id, orgId);
+      return row && (({ secret, ...summary }) => summary)(row);
+    },
+    createWebhookSubscription: async (data: any) => insert('webhookSubscriptions', { ...data, secret: 'whsec_new' }),
+    updateWebhookSubscription: async (id: number, orgId: number, data: any) => update('webhookSubscriptions', id, orgId, data),
+    deleteWebhookSubscription: async (id: number, orgId: number) => {
+      const row = find('webhookSubscriptions', id, orgId);
+      db.webhookSubscriptions = db.webhookSubscriptions.filter(other => other !== row);
+      return !!row;
+    },
+    listWebhookDeliveries: list('webhookDeliveries', (row, query) => query.subscriptionId === undefined || row.subscriptionId === query.subscriptionId),
+    getWebhookDelivery: async (id: number, orgId: number) => find('webhookDeliveries', id, orgId),
+    replayWebhookDelivery: async (id: number, orgId: number) => {
+      const original = find('webhookDeliveries', id, orgId);
+      return original && insert('webhookDeliveries', { ...original, status: 'pending', attempts: 0, replayOf: id });
+    },
+    createTestWebhookDelivery: async (id: number, orgId: number, event?: string) => {
+      const subscription = find('webhookSubscriptions', id, orgId);
+      if (!subscription) return undefined;
+      const delivery = insert('webhookDeliveries', { subscriptionId: id, event: event ?? subscription.events[0], status: 'pending', attempts: 0, organizationId: orgId });
+      return { delivery, subscription };
+    },
+    getLeadForms: async (orgId: number) => db.leadForms.filter(row => row.organizationId === orgId),
+    getLeadForm: async (id: number, orgId: number) => find('leadForms', id, orgId),
+    getLeadFormByPublicKey: async (publicKey: string) => db.leadForms.find(row => row.publicKey === publicKey),
+    createLeadForm: async (data: any) => {
+      const { assertValidFieldMapping } = jest.requireActual('../lead-forms') as any;
+      assertRefs(data.organizationId, { assignedTo: data.assignedTo });
+      assertValidFieldMapping(data.fieldMapping, db.customFieldDefinitions.filter(row => row.organizationId === data.organizationId && row.entityType === 'lead'));
+      return insert('leadForms', { ...data, publicKey: 'lf_new' });
+    },
+    updateLeadForm: async (id: number, orgId: number, data: any) => update('leadForms', id, orgId, data),
+    deleteLeadForm: async (id: number, orgId: number) => {
+      const row = find('leadForms', id, orgId);
+      db.leadForms = db.leadForms.filter(other => other !== row);
+      return !!row;
+    },
+    submitLeadForm: async (form: any, submission: any) => ({
+      lead: insert('leads', { ...submission, source: form.source, status: 'new', assignedTo: form.assignedTo, organizationId: form.organizationId }),
+      merged: false,
+    }),
+    recordLeadFormSpam: async (id: number) => { db.leadForms.find(row => row.id === id)!.spamCount++; },
+    listAuditLogs: list('auditLogs', (row, query) => auditLogMatches(row, query)),
+    exportAuditLogs: exportAll('auditLogs', (row, query) => auditLogMatches(row, query)),
+    listTrash: async (orgId: number, entityType: string, query: any) => {
+      const { paginateRecords } = jest.requireActual('../list-query') as any;
+      return paginateRecords(db[TRASH_TABLES[entityType]].filter(row => row.organizationId === orgId && row.deletedAt), query);
+    },
+    restoreFromTrash: async (entityType: string, id: number, orgId: number) => {
+      const row = findTrashed(entityType, id, orgId);
+      return row && Object.assign(row, { deletedAt: null, deletedBy: null });
+    },
+    purgeFromTrash: async (entityType: string, id: number, orgId: number) => {
+      const row = findTrashed(entityType, id, orgId);
+      db[TRASH_TABLES[entityType]] = db[TRASH_TABLES[entityType]].filter(other => other !== row);
+      return !!row;
+    },
+    getForecast: jest.fn(async (orgId: number, query: any) => ({ ...forecastOf(0), period: query.period })),
+    createForecastSnapshot: async (orgId: number, snapshot: any, createdBy?: number) =>
+      insert('forecastSnapshots', { name: snapshot.name ?? null, period: snapshot.period, forecast: forecastOf(0), createdBy, organizationId: orgId, createdAt: new Date() }),
+    listForecastSnapshots: list('forecastSnapshots', (row, query) => !query.period || row.period === query.period),
+    getForecastSnapshot: async (id: number, orgId: number) => find('forecastSnapshots', id, orgId),
+    findForecastSnapshotBefore: async (snapshot: any, before: Date) => db.forecastSnapshots
+      .filter(row => row.organizationId === snapshot.organizationId && row.period === snapshot.period && row.id !== snapshot.id && row.createdAt <= before)
+      .sort((a, b) => b.createdAt - a.createdAt)[0],
+    getQuotas: async (orgId: number, query: any) =>
+      db.quotas.filter(row => row.organizationId === orgId && (query.userId === undefined || row.userId === query.userId)),
+    createQuota: async (data: any) => {
+      assertRefs(data.organizationId, { userId: data.userId });
+      return insert('quotas', { ...data, userId: data.userId ?? null });
+    },
+    updateQuota: async (id: number, orgId: number, data: any) => update('quotas', id, orgId, data),
+    deleteQuota: async (id: number, orgId: number) => {
+      const row = find('quotas', id, orgId);
+      db.quotas = db.quotas.filter(other => other !== row);
+      return !!row;
+    },
+    getLeaderboard: jest.fn(async (orgId: number, query: any) => ({ ...query, team: { quota: null, revenue: 0, attainment: null }, entries: [] })),
+    search: jest.fn(async (orgId: number, query: any) => ({ query: query.q, groups: [] })),
+    findRecordsByEmail: async (orgId: number, entityType: string, emails: string[]) =>
+      db[entityType].filter(row => row.organizationId === orgId && emails.includes(row.email.toLowerCase())),
+    createImportJob: async (data: any) => insert('importJobs', { ...data, status: 'pending' }),
+    getImportJob: async (id: number, orgId: number) => find('importJobs', id, orgId),
+    listImportJobs: async (orgId: number, query: any, createdBy?: number) => list('importJobs')(orgId, query, createdBy),
+    updateImportJob: async (id: number, orgId: number, data: any) => update('importJobs', id, orgId, data),
+    getCustomFieldDefinitions: async (orgId: number, entityType?: string) =>
+      db.customFieldDefinitions.filter(row => row.organizationId === orgId && (!entityType || row.entityType === entityType)),
+    getCustomFieldDefinition: async (id: number, orgId: number) => find('customFieldDefinitions', id, orgId),
+    createCustomFieldDefinition: async (data: any) => insert('customFieldDefinitions', data),
+    updateCustomFieldDefinition: async (id: number, orgId: number, data: any) => update('customFieldDefinitions', id, orgId, data),
+    deleteCustomFieldDefinition: async (id: number, orgId: number) => {
+      const row = find('customFieldDefinitions', id, orgId);
+      db.customFieldDefinitions = db.customFieldDefinitions.filter(other => other !== row);
+      return !!row;
+    },
+  },
+}));
+
+// Test deliveries are sent for real by the dispatcher; here they only record the attempt
+jest.mock('../webhook-dispatcher', () => ({
+  deliverWebhook: async ({ delivery }: any) => Object.assign(delivery, { status: 'succeeded', attempts: 1, responseStatus: 200, responseBody: 'ok' }),
+}));
+
+import commercialRoutes from '../commercial-routes';
+import { commercialStorage } from '../commercial-storage';
+import { signAccessToken } from '../auth';
+
+describe('Tenant Isolation', () => {
+  let app: express.Application;
+  const tokenFor = (userId: number) => `Bearer ${signAccessToken(db.users.find(user => user.id === userId) as any)}`;
+
+  beforeEach(() => {
+    resetDb();
+    app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    app.use('/api/commercial', commercialRoutes);
+  });
+
+  const as = (userId: number, method: 'get' | 'post' | 'put' | 'patch' | 'delete', url: string) =>
+    request(app)[method](`/api/commercial${url}`).set('Authorization', tokenFor(userId));
+  const asOrgOne = (method: 'get' | 'post' | 'patch' | 'delete', url: string) => as(1, method, url);
+
+  describe('Organization and user routes', () => {
+    it('should not expose another organization', async () => {
+      await asOrgOne('get', '/organizations/2').expect(404);
+      await asOrgOne('get', '/organizations/1').expect(200);
+    });
+
+    it('should not list users of another organization', async () => {
+      await asOrgOne('get', '/users/organization/2').expect(404);
+    });
+
+    it('should not change the role of a user in another organization', async () => {
+      await asOrgOne('patch', '/users/2/role').send({ role: 'user' }).expect(404);
+      expect(db.users.find(user => user.id === 2)!.role).toBe('admin');
+    });
+
+    it('should not create users inside another organization', async () => {
+      await asOrgOne('post', '/users')
+        .send({ username: 'mallory', email: 'mallory@two.com', password: 'secret', role: 'admin', organizationId: 2 })
+        .expect(404);
+      expect(db.users.filter(user => user.organizationId === 2)).toHaveLength(1);
+    });
+
+    it('should require a token to add users, even to an organization without users', async () => {
+      db.users = db.users.filter(user => user.organizationId !== 2);
+      await request(app).post('/api/commercial/users')
+        .send({ username: 'mallory', email: 'mallory@two.com', password: 'secret', role: 'admin', organizationId: 2 })
+        .expect(401);
+      expect(db.users.filter(user => user.organizationId === 2)).toHaveLength(0);
+    });
+
+    it('should sign up a new organization with its first admin', async () => {
+      const response = await request(app).post('/api/commercial/auth/signup')
+        .send({
+          organization: { name: 'Org Three', slug: 'org-three' },
+          user: { username: 'dana', email: 'dana@three.com', password: 'secret', role: 'sales_rep', organizationId: 1 },
+        })
+        .expect(201);
+
+      expect(response.body.user).toMatchObject({ username: 'dana', role: 'admin', organizationId: response.body.organization.id });
+      expect(response.body.user).not.toHaveProperty('password');
+      expect(response.body.accessToken).toEqual(expect.any(String));
+      expect(db.users.filter(user => user.organizationId === 1)).toHaveLength(2);
+
+      await request(app).post('/api/commercial/users')
+        .set('Authorization', `Bearer ${response.body.accessToken}`)
+        .send({ username: 'eve', email: 'eve@three.com', password: 'secret', role: 'sales_rep', organizationId: response.body.organization.id })
+        .expect(200);
+    });
+  });
+
+  describe('Record routes', () => {
+    it('should only list records of the caller organization', async () => {
+      for (const path of ['/leads', '/customers', '/deals', '/activities']) {
+        const response = await asOrgOne('get', path).expect(200);
+        expect(response.body.data.every((row: Row) => row.organizationId === 1)).toBe(true);
+        expect(response.body.page.total).toBe(response.body.data.length);
+      }
+    });
+
+    it('should page through a list with a cursor', async () => {
+      const first = await asOrgOne('get', '/leads?limit=1&sort=lastName,-createdAt').expect(200);
+      expect(first.body.data).toHaveLength(1);
+      expect(first.body.page).toMatchObject({ limit: 1, total: 2, hasMore: true });
+
+      const second = await asOrgOne('get', `/leads?limit=1&sort=lastName,-createdAt&cursor=${first.body.page.nextCursor}`).expect(200);
+      expect(second.body.data[0].id).not.toBe(first.body.data[0].id);
+      expect(second.body.page).toMatchObject({ hasMore: false, nextCursor: null });
+    });
+
+    it('should reject invalid list parameters', async () => {
+      await asOrgOne('get', '/leads?limit=500').expect(400);
+      await asOrgOne('get', '/deals?sort=password').expect(400);
+      await asOrgOne('get', '/customers?valueMin=500&valueMax=100').expect(400);
+      await asOrgOne('get', '/activities?entityType=lead').expect(400);
+    });
+
+    it('should reject a cursor issued for another sort order', async () => {
+      const first = await asOrgOne('get', '/leads?limit=1').expect(200);
+      await asOrgOne('get', `/leads?limit=1&sort=lastName&cursor=${first.body.page.nextCursor}`).expect(400);
+    });
+
+    it('should return 404 when reading records of another organization', async () => {
+      await asOrgOne('get', '/customers/20').expect(404);
+      const response = await asOrgOne('get', '/activities?entityType=lead&entityId=20').expect(200);
+      expect(response.body.data).toHaveLength(0);
+    });
+
+    it('should return 404 when updating records of another organization', async () => {
+      await asOrgOne('patch', '/leads/20').send({ status: 'lost' }).expect(404);
+      await asOrgOne('patch', '/customers/20').send({ status: 'inactive' }).expect(404);
+      await asOrgOne('patch', '/deals/20').send({ stage: 'closed_lost' }).expect(404);
+
+      expect(db.leads.find(lead => lead.id === 20)!.status).toBe('new');
+      expect(db.customers[1].status).toBe('active');
+      expect(db.deals[1].stage).toBe('prospecting');
+    });
+
+    it('should return 404 for the stage history of another organization', async () => {
+      await asOrgOne('get', '/deals/20/history').expect(404);
+      const response = await asOrgOne('get', '/deals/10/history').expect(200);
+      expect(response.body[0].toStage).toBe('prospecting');
+    });
+
+    it('should not convert a lead again after its customer was merged into another', async () => {
+      const first = (await asOrgOne('post', '/leads/10/convert').send({}).expect(200)).body.customer;
+      const second = (await asOrgOne('post', '/leads/11/convert').send({}).expect(200)).body.customer;
+      await asOrgOne('post', '/customers/merge').send({ survivorId: first.id, mergedId: second.id }).expect(200);
+
+      for (const leadId of [10, 11]) {
+        await asOrgOne('patch', `/leads/${leadId}`).send({ status: 'qualified' }).expect(200);
+        await asOrgOne('post', `/leads/${leadId}/convert`).send({}).expect(409);
+      }
+    });
+
+    it('should return 404 when merging a customer of another organization', async () => {
+      await asOrgOne('post', '/customers/merge').send({ survivorId: 10, mergedId: 20 }).expect(404);
+      expect(db.customers).toHaveLength(2);
+    });
+
+    it('should return 404 when converting a lead of another organization', async () => {
+      await asOrgOne('post', '/leads/20/convert')
+        .send({ firstName: 'Other', lastName: 'Lead', email: 'other@lead.com' })
+        .expect(404);
+    });
+
+    it('should ignore organizationId in request bodies', async () => {
+      const created = await asOrgOne('post', '/leads')
+        .send({ firstName: 'New', lastName: 'Lead', email: 'new@lead.com', organizationId: 2 })
+        .expect(200);
+      expect(created.body.organizationId).toBe(1);
+
+      await asOrgOne('patch', '/leads/10').send({ organizationId: 2 }).expect(200);
+      expect(db.leads[0].organizationId).toBe(1);
+    });
+
+    it('should return 404 when linking records of another organization', async () => {
+      await asOrgOne('post', '/deals').send({ title: 'Sneaky', value: '10', customerId: 20 }).expect(404);
+      await asOrgOne('patch', '/deals/10').send({ customerId: 20 }).expect(404);
+      await asOrgOne('post', '/activities').send({ type: 'call', subject: 'Sneaky', leadId: 20 }).expect(404);
+      await asOrgOne('post', '/leads').send({ firstName: 'A', lastName: 'B', email: 'a@b.com', assignedTo: 2 }).expect(404);
+    });
+  });
+
+  describe('Role enforcement', () => {
+    const asRep = (method: 'get' | 'post' | 'patch', url: string) => as(3, method, url);
+
+    it('should only show sales reps their assigned records', async () => {
+      const response = await asRep('get', '/leads').expect(200);
+      expect(response.body.data.map((lead: Row) => lead.id)).toEqual([11]);
+      expect(response.body.page.total).toBe(1);
+    });
+
+    it('should only let sales reps edit their assigned records', async () => {
+      await asRep('patch', '/leads/11').send({ status: 'contacted' }).expect(200);
+      await asRep('patch', '/leads/10').send({ status: 'contacted' }).expect(403);
+    });
+
+    it('should not let sales reps reassign records', async () => {
+      await asRep('patch', '/leads/11').send({ assignedTo: 1 }).expect(403);
+      await asOrgOne('patch', '/leads/10').send({ assignedTo: 3 }).expect(200);
+    });
+
+    it('should assign records created by sales reps to themselves', async () => {
+      const response = await asRep('post', '/leads').send({ firstName: 'A', lastName: 'B', email: 'a@b.com' }).expect(200);
+      expect(response.body.assignedTo).toBe(3);
+    });
+
+    it('should still show sales reps the records they created after these are reassigned', async () => {
+      const created = {
+        leads: (await asRep('post', '/leads').send({ firstName: 'A', lastName: 'B', email: 'a@b.com' }).expect(200)).body,
+        customers: (await asRep('post', '/customers').send({ firstName: 'A', lastName: 'B', email: 'a@b.com' }).expect(200)).body,
+        deals: (await asRep('post', '/deals').send({ title: 'Opening', value: '10' }).expect(200)).body,
+      };
+      for (const [path, record] of Object.entries(created)) {
+        await asOrgOne('patch', `/${path}/${record.id}`).send({ assignedTo: null }).expect(200);
+        const response = await asRep('get', `/${path}`).expect(200);
+        expect(response.body.data.map((row: Row) => row.id)).toContain(record.id);
+      }
+    });
+
+    it('should keep converted leads with their owner unless reassignment is allowed', async () => {
+      const response = await asRep('post', '/leads/11/convert').send({}).expect(200);
+      expect(response.body.customer.assignedTo).toBe(3);
+
+      await asRep('post', '/leads/11/convert').send({ deal: { title: 'Opening', value: '10', assignedTo: 1 } }).expect(403);
+    });
+
+    it('should only let sales reps link activities to records they can see', async () => {
+      await asRep('post', '/activities').send({ type: 'call', subject: 'Follow up', leadId: 11 }).expect(200);
+      await asRep('post', '/activities').send({ type: 'call', subject: 'Follow up', leadId: 10 }).expect(404);
+      await asRep('post', '/activities').send({ type: 'call', subject: 'Follow up', customerId: 10 }).expect(404);
+      await asRep('post', '/activities').send({ type: 'call', subject: 'Follow up', dealId: 10 }).expect(404);
+      const created = (await asRep('post', '/activities').send({ type: 'call', subject: 'Own' }).expect(200)).body;
+      await asRep('patch', `/activities/${created.id}`).send({ dealId: 10 }).expect(404);
+      await asOrgOne('post', '/activities').send({ type: 'call', subject: 'Follow up', dealId: 10 }).expect(200);
+    });
+
+    it('should not let sales reps merge customers', async () => {
+      await asRep('post', '/customers/merge').send({ survivorId: 10, mergedId: 20 }).expect(403);
+    });
+
+    it('should not let non-admins change roles', async () => {
+      await asRep('patch', '/users/3/role').send({ role: 'admin' }).expect(403);
+      await asRep('patch', '/users/1/role').send({ role: 'user' }).expect(403);
+      expect(db.users.find(user => user.id === 3)!.role).toBe('sales_rep');
+    });
+
+    it('should let admins change roles within their organization', async () => {
+      await asOrgOne('patch', '/users/3/role').send({ role: 'manager' }).expect(200);
+      expect(db.users.find(user => user.id === 3)!.role).toBe('manager');
+    });
+
+    it('should not let non-admins manage billing', async () => {
+      await asRep('post', '/subscription/cancel').expect(403);
+    });
+
+    it('should only search the caller organization and their own records', async () => {
+      const search = commercialStorage.search as jest.Mock;
+      search.mockClear();
+      await asOrgOne('get', '/search?q=acme').expect(200);
+      await asRep('get', '/search?q=acme&types=lead,deal').expect(200);
+
+      const [adminCall, repCall] = search.mock.calls as any[][];
+      expect(adminCall[0]).toBe(1);
+      expect(adminCall[2].every((scope: any) => scope.visibleTo === undefined)).toBe(true);
+      expect(repCall[1].types).toEqual(['lead', 'deal']);
+      expect(repCall[2].every((scope: any) => scope.visibleTo === 3)).toBe(true);
+    });
+
+    it('should reject search queries that are too short', async () => {
+      await asOrgOne('get', '/search?q=a').expect(400);
+      await asOrgOne('get', '/search?q=acme&types=invoice').expect(400);
+    });
+  });
+
+  describe('Imports', () => {
+    const asRep = (method: 'get' | 'post' | 'patch', url: string) => as(3, method, url);
+    const csv = (text: string) => Buffer.from(text).toString('base64');
+    const leadsFile = csv('First Name,Last Name,Email\nNew,Lead,new@lead.com\nOwn,Lead,OWN@lead.com\nRep,Lead,rep@lead.com\n');
+
+    it('should preview without writing anything', async () => {
+      const response = await asOrgOne('post', '/imports/preview')
+        .send({ entityType: 'leads', fileName: 'leads.csv', content: leadsFile })
+        .expect(200);
+      expect(response.body.mapping).toEqual({ 'First Name': 'firstName', 'Last Name': 'lastName', Email: 'email' });
+      expect(response.body.summary).toEqual({ create: 1, update: 0, skip: 2, error: 0 });
+      expect(db.leads).toHaveLength(3);
+    });
+
+    it('should import into the caller organization and report the outcome', async () => {
+      const response = await asOrgOne('post', '/imports')
+        .send({ entityType: 'leads', fileName: 'leads.csv', content: leadsFile, duplicateStrategy: 'update' })
+        .expect(201);
+      expect(response.body).toMatchObject({ status: 'completed', createdCount: 1, updatedCount: 2, organizationId: 1 });
+      expect(db.leads.find(lead => lead.email === 'new@lead.com')!.organizationId).toBe(1);
+      expect(db.leads.find(lead => lead.id === 20)!.firstName).toBe('Other');
+    });
+
+    it('should assign rows imported by sales reps to them and only update their own records', async () => {
+      const response = await asRep('post', '/imports')
+        .send({ entityType: 'leads', fileName: 'leads.csv', content: leadsFile, duplicateStrategy: 'update' })
+        .expect(201);
+      expect(response.body).toMatchObject({ createdCount: 1, updatedCount: 1, skippedCount: 1 });
+      expect(db.leads.find(lead => lead.email === 'new@lead.com')!.assignedTo).toBe(3);
+    });
+
+    it('should reject unknown mappings and unsupported files', async () => {
+      await asOrgOne('post', '/imports/preview')
+        .send({ entityType: 'leads', fileName: 'leads.csv', content: leadsFile, mapping: { Email: 'password' } })
+        .expect(400);
+      await asOrgOne('post', '/imports/preview')
+        .send({ entityType: 'leads', fileName: 'leads.pdf', content: leadsFile })
+        .expect(400);
+    });
+
+    it('should not expose import jobs of another organization', async () => {
+      await asOrgOne('get', '/imports/20').expect(404);
+      const response = await asOrgOne('get', '/imports').expect(200);
+      expect(response.body.data).toHaveLength(0);
+    });
+  });
+
+  describe('Exports', () => {
+    const asRep = (method: 'get' | 'post' | 'patch', url: string) => as(3, method, url);
+
+    it('should export filtered records of the caller organization as CSV', async () => {
+      db.leads.push({ id: 12, organizationId: 1, firstName: 'Won', lastName: 'Lead', email: 'won@lead.com', status: 'qualified' });
+      const response = await asOrgOne('get', '/leads/export?status=new&sort=lastName').expect(200);
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="leads-\d{4}-\d{2}-\d{2}\.csv"$/);
+      const lines = response.text.trim().split('\r\n');
+      expect(lines[0].split(',')).toContain('email');
+      expect(lines.slice(1).map(line => line.split(',')[0]).sort()).toEqual(['10', '11']);
+    });
+
+    it('should only export the records a sales rep can see', async () => {
+      const response = await asRep('get', '/leads/export?format=ndjson').expect(200);
+      expect(response.text.trim().split('\n').map(line => JSON.parse(line).id)).toEqual([11]);
+    });
+
+    it('should reject unknown formats and invalid filters', async () => {
+      await asOrgOne('get', '/leads/export?format=pdf').expect(400);
+      await asOrgOne('get', '/deals/export?valueMin=10&valueMax=5').expect(400);
+    });
+
+    it('should only let admins download the full archive', async () => {
+      await asRep('get', '/exports/archive').expect(403);
+      const response = await asOrgOne('get', '/exports/archive')
+        .buffer(true)
+        .parse((res, done) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => done(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+      expect(response.headers['content-type']).toBe('application/zip');
+      const { readZip } = jest.requireActual('../zip') as any;
+      const files: Map<string, Buffer> = readZip(response.body);
+      expect(Array.from(files.keys())).toEqual(expect.arrayContaining(['organization.json', 'users.ndjson', 'leads.ndjson', 'manifest.json']));
+      expect(files.get('users.ndjson')!.toString()).not.toContain('password');
+      expect(JSON.parse(files.get('manifest.json')!.toString()).rowCounts['leads.ndjson']).toBe(2);
+    });
+  });
+
+  describe('Custom fields', () => {
+    const picklistField = { entityType: 'lead', key: 'score_band', label: 'Score band', type: 'picklist', options: ['A', 'B'] };
+
+    it('should only let organizations whose plan includes custom fields define them', async () => {
+      const response = await asOrgOne('post', '/custom-fields').send(picklistField).expect(200);
+      expect(response.body).toMatchObject({ key: 'score_band', organizationId: 1 });
+      const rejected = await as(2, 'post', '/custom-fields').send(picklistField).expect(403);
+      expect(rejected.body.error).toBe('Custom fields are not included in your plan');
+      await as(3, 'post', '/custom-fields').send(picklistField).expect(403);
+    });
+
+    it('should validate definitions', async () => {
+      await asOrgOne('post', '/custom-fields').send({ ...picklistField, key: 'Score Band' }).expect(400);
+      await asOrgOne('post', '/custom-fields').send({ ...picklistField, type: 'color' }).expect(400);
+      await asOrgOne('patch', '/custom-fields/10').send({ key: 'renamed' }).expect(200);
+      expect(db.customFieldDefinitions[0].key).toBe('budget');
+    });
+
+    it('should not expose or change definitions of another organization', async () => {
+      const response = await asOrgOne('get', '/custom-fields?entityType=lead').expect(200);
+      expect(response.body.map((definition: any) => definition.id)).toEqual([10]);
+      await asOrgOne('patch', '/custom-fields/20').send({ label: 'Mine' }).expect(404);
+      await asOrgOne('delete', '/custom-fields/20').expect(404);
+      expect(db.customFieldDefinitions).toHaveLength(2);
+    });
+
+    it('should accept custom field sorts and filters in list queries', async () => {
+      await asOrgOne('get', '/leads?sort=-cf.budget&cf[budget][min]=100').expect(200);
+      await asOrgOne('get', '/leads?sort=cf.Budget').expect(400);
+      await asOrgOne('get', '/customers?cf[tier][min]=1&cf[tier][step]=2').expect(400);
+    });
+
+    it('should export one column per custom field', async () => {
+      db.leads[0].customFields = { budget: 5000 };
+      const response = await asOrgOne('get', '/leads/export?status=new&sort=lastName').expect(200);
+      const [header, ...rows] = response.text.trim().split('\r\n');
+      expect(header.split(',')).toContain('customFields.budget');
+      expect(header.split(',')).not.toContain('customFields');
+      expect(rows.find(row => row.startsWith('10,'))!.endsWith(',5000')).toBe(true);
+    });
+
+    it('should import custom fields mapped by their label', async () => {
+      const content = Buffer.from('First Name,Last Name,Email,Budget\nNew,Lead,new@lead.com,"12,500"\nBad,Lead,bad@lead.com,lots\n').toString('base64');
+      const response = await asOrgOne('post', '/imports/preview')
+        .send({ entityType: 'leads', fileName: 'leads.csv', content })
+        .expect(200);
+      expect(response.body.mapping.Budget).toBe('customFields.budget');
+      expect(response.body.rows[0].data.customFields).toEqual({ budget: 12500 });
+      expect(response.body.rows[1].errors).toEqual([{ field: 'customFields.budget', message: 'Expected number, received string' }]);
+    });
+  });
+
+  describe('Activities and reminders', () => {
+    it('should only update and complete activities of the caller\'s organization', async () => {
+      await asOrgOne('patch', '/activities/20').send({ subject: 'Hijacked' }).expect(404);
+      await asOrgOne('post', '/activities/20/complete').expect(404);
+      expect(db.activities[1].subject).toBe('Other call');
+
+      const updated = await asOrgOne('patch', '/activities/10').send({ dueDate: '2026-05-01T09:00:00.000Z' }).expect(200);
+      expect(new Date(updated.body.dueDate).toISOString()).toBe('2026-05-01T09:00:00.000Z');
+      await asOrgOne('patch', '/activities/10').send({ leadId: 20 }).expect(404);
+    });
+
+    it('should complete an activity once, and only for its owner when records are limited', async () => {
+      await as(3, 'post', '/activities/10/complete').expect(403);
+      const completed = await asOrgOne('post', '/activities/10/complete').expect(200);
+      expect(completed.body.status).toBe('completed');
+      await asOrgOne('post', '/activities/10/complete').expect(409);
+    });
+
+    it('should only list the caller\'s own notifications', async () => {
+      const response = await asOrgOne('get', '/notifications').expect(200);
+      expect(response.body.data.map((notification: Row) => notification.id)).toEqual([10]);
+    });
+
+    it('should only mark the caller\'s own notifications read', async () => {
+      await asOrgOne('post', '/notifications/11/read').expect(404);
+      await asOrgOne('post', '/notifications/20/read').expect(404);
+      expect((await asOrgOne('get', '/notifications/unread-count').expect(200)).body).toEqual({ count: 1 });
+
+      const read = await asOrgOne('post', '/notifications/10/read').expect(200);
+      expect(read.body.readAt).toBeTruthy();
+      expect((await asOrgOne('get', '/notifications?unread=true').expect(200)).body.data).toEqual([]);
+      await asOrgOne('get', '/notifications?unread=maybe').expect(400);
+
+      expect((await as(3, 'post', '/notifications/read-all').expect(200)).body).toEqual({ updated: 1 });
+      expect(db.notifications.map(row => Boolean(row.readAt))).toEqual([true, true, false]);
+    });
+
+    it('should keep notification preferences per user', async () => {
+      await as(3, 'put', '/users/me/notification-preferences').send({ lead_assigned: { email: true } }).expect(400);
+      const saved = await as(3, 'put', '/users/me/notification-preferences').send({ deal_stage_changed: { realtime: false } }).expect(200);
+      expect(saved.body.deal_stage_changed).toEqual({ inApp: true, realtime: false });
+      expect(saved.body.lead_assigned).toEqual({ inApp: true, realtime: true });
+      const fetched = await as(3, 'get', '/users/me/notification-preferences').expect(200);
+      expect(fetched.body).toEqual(saved.body);
+    });
+
+    it('should keep reminder preferences per user', async () => {
+      const defaults = await as(3, 'get', '/users/me/reminders').expect(200);
+      expect(defaults.body).toMatchObject({ upcomingReminders: true, minutesBefore: 60, dailyDigest: false, timezone: 'UTC' });
+
+      await as(3, 'put', '/users/me/reminders').send({ timezone: 'Mars/Olympus_Mons' }).expect(400);
+      const saved = await as(3, 'put', '/users/me/reminders').send({ minutesBefore: 15, dailyDigest: true, timezone: 'Europe/Berlin' }).expect(200);
+      expect(saved.body).toMatchObject({ minutesBefore: 15, dailyDigest: true, digestHour: 8, timezone: 'Europe/Berlin' });
+      expect(db.users.find(user => user.id === 1)!.settings).toBeUndefined();
+    });
+  });
+
+  describe('Sequences', () => {
+    const steps = [{ dayOffset: 0, type: 'email', subject: 'Intro' }, { dayOffset: 3, type: 'call', subject: 'Follow up' }];
+
+    it('should only expose and enroll into sequences of the caller\'s organization', async () => {
+      const list = await asOrgOne('get', '/sequences').expect(200);
+      expect(list.body.map((sequence: Row) => sequence.id)).toEqual([10]);
+      await asOrgOne('get', '/sequences/20').expect(404);
+      await asOrgOne('patch', '/sequences/20').send({ isActive: false }).expect(404);
+
+      await asOrgOne('post', '/sequences/20/enroll').send({ leadId: 10 }).expect(404);
+      await asOrgOne('post', '/sequences/10/enroll').send({ leadId: 20 }).expect(404);
+      await asOrgOne('post', '/sequences/10/enroll').send({ leadId: 10, dealId: 10 }).expect(400);
+      const enrolled = await asOrgOne('post', '/sequences/10/enroll').send({ leadId: 10 }).expect(200);
+      expect(enrolled.body.activities).toHaveLength(1);
+      expect(enrolled.body.enrollment).toMatchObject({ sequenceId: 10, leadId: 10, enrolledBy: 1, organizationId: 1 });
+    });
+
+    it('should validate sequence steps', async () => {
+      await asOrgOne('post', '/sequences').send({ name: 'Empty', steps: [] }).expect(400);
+      await asOrgOne('post', '/sequences').send({ name: 'Backwards', steps: [...steps].reverse() }).expect(400);
+      const created = await asOrgOne('post', '/sequences').send({ name: 'Nurture', steps }).expect(200);
+      expect(created.body).toMatchObject({ name: 'Nurture', createdBy: 1, organizationId: 1 });
+    });
+
+    it('should let sales reps enroll their own leads without managing sequences', async () => {
+      await as(3, 'get', '/sequences').expect(200);
+      await as(3, 'post', '/sequences').send({ name: 'Rogue', steps }).expect(403);
+      await as(3, 'post', '/sequences/10/enroll').send({ leadId: 10 }).expect(404);
+      await as(3, 'post', '/sequences/10/enroll').send({ leadId: 11, assignedTo: 1 }).expect(403);
+      await as(3, 'post', '/sequences/10/enroll').send({ leadId: 11 }).expect(200);
+    });
+
+    it('should only stop enrollments of the caller\'s organization', async () => {
+      await asOrgOne('post', '/sequence-enrollments/20/stop').expect(404);
+      expect(db.sequenceEnrollments[0].status).toBe('active');
+      const list = await asOrgOne('get', '/sequence-enrollments').expect(200);
+      expect(list.body).toEqual([]);
+    });
+  });
+
+  describe('Webhooks', () => {
+    it('should only expose the caller\'s subscriptions, without their secrets', async () => {
+      const list = await asOrgOne('get', '/webhooks').expect(200);
+      expect(list.body).toEqual([expect.objectContaining({ id: 10, url: 'https://one.example.com/hook' })]);
+      expect(list.body[0].secret).toBeUndefined();
+      await asOrgOne('get', '/webhooks/20').expect(404);
+      await asOrgOne('patch', '/webhooks/20').send({ isActive: false }).expect(404);
+      await asOrgOne('delete', '/webhooks/20').expect(404);
+      expect(db.webhookSubscriptions).toHaveLength(2);
+    });
+
+    it('should show the secret once on creation', async () => {
+      await asOrgOne('post', '/webhooks').send({ url: 'https://one.example.com/other', events: ['lead.teleported'] }).expect(400);
+      const created = await asOrgOne('post', '/webhooks').send({ url: 'https://one.example.com/other', events: ['deal.won'] }).expect(200);
+      expect(created.body).toMatchObject({ secret: 'whsec_new', createdBy: 1, organizationId: 1 });
+    });
+
+    it('should be limited to admins on plans with webhooks', async () => {
+      await as(3, 'get', '/webhooks').expect(403);
+      await as(2, 'post', '/webhooks').send({ url: 'https://two.example.com/other', events: ['deal.won'] }).expect(403);
+      await as(2, 'get', '/webhooks').expect(200);
+      await as(2, 'delete', '/webhooks/20').expect(200);
+    });
+
+    it('should only log, replay and test the caller\'s deliveries', async () => {
+      const deliveries = await asOrgOne('get', '/webhook-deliveries?status=failed').expect(200);
+      expect(deliveries.body.data.map((delivery: Row) => delivery.id)).toEqual([10]);
+      await asOrgOne('get', '/webhook-deliveries?status=lost').expect(400);
+      await asOrgOne('get', '/webhook-deliveries/20').expect(404);
+
+      await asOrgOne('post', '/webhook-deliveries/20/replay').expect(404);
+      const replay = await asOrgOne('post', '/webhook-deliveries/10/replay').expect(202);
+      expect(replay.body).toMatchObject({ replayOf: 10, status: 'pending', payload: { id: 'evt-1' }, organizationId: 1 });
+
+      await asOrgOne('post', '/webhooks/20/test').send({}).expect(404);
+      const test = await asOrgOne('post', '/webhooks/10/test').send({ event: 'deal.won' }).expect(200);
+      expect(test.body).toMatchObject({ subscriptionId: 10, event: 'deal.won', status: 'succeeded', responseStatus: 200 });
+      expect(test.body).not.toHaveProperty('responseBody');
+    });
+  });
+
+  describe('Web-to-lead forms', () => {
+    const submit = (publicKey: string, origin?: string) => {
+      const post = request(app).post(`/api/commercial/forms/${publicKey}/submissions`);
+      return origin ? post.set('Origin', origin) : post;
+    };
+
+    it('should only let admins manage their own organization\'s forms', async () => {
+      const list = await asOrgOne('get', '/lead-forms').expect(200);
+      expect(list.body.map((form: Row) => form.id)).toEqual([10, 11, 12]);
+      await asOrgOne('get', '/lead-forms/20').expect(404);
+      await asOrgOne('patch', '/lead-forms/20').send({ isActive: true }).expect(404);
+      await asOrgOne('delete', '/lead-forms/20').expect(404);
+      await as(3, 'get', '/lead-forms').expect(403);
+      expect(db.leadForms.find(form => form.id === 20)!.isActive).toBe(false);
+    });
+
+    it('should check the field mapping and assignee on creation', async () => {
+      const form = { name: 'Demo request', allowedOrigins: ['https://www.one.com/'], fieldMapping: { email: 'email', first: 'firstName', last: 'lastName' } };
+      await asOrgOne('post', '/lead-forms').send({ ...form, fieldMapping: { email: 'email', region: 'customFields.region' } }).expect(400);
+      await asOrgOne('post', '/lead-forms').send({ ...form, allowedOrigins: ['www.one.com'] }).expect(400);
+      await asOrgOne('post', '/lead-forms').send({ ...form, assignedTo: 2 }).expect(404);
+      const created = await asOrgOne('post', '/lead-forms').send(form).expect(200);
+      expect(created.body).toMatchObject({ publicKey: 'lf_new', allowedOrigins: ['https://www.one.com'], organizationId: 1, createdBy: 1 });
+    });
+
+    it('should create leads in the form\'s organization from its allowed origins', async () => {
+      await submit('lf_two', 'https://www.two.com').send({ email: 'x@two.com' }).expect(404);
+      await submit('lf_unknown', 'https://www.one.com').send({ email: 'x@one.com' }).expect(404);
+      await submit('lf_one', 'https://evil.example.com').send({ email: 'x@one.com' }).expect(403);
+
+      const invalid = await submit('lf_one', 'https://www.one.com').send({ first_name: 'Ann', email: 'not-an-email', budget: 'lots' }).expect(400);
+      expect(invalid.body.details.map((issue: { field: string }) => issue.field).sort()).toEqual(['budget', 'email', 'last_name']);
+
+      const accepted = await submit('lf_one', 'https://www.one.com')
+        .send({ first_name: 'Ann', last_name: 'Lee', email: 'ann@example.com', budget: '5,000', organizationId: 2 })
+        .expect(201);
+      expect(accepted.body).toEqual({ success: true });
+      expect(accepted.headers['access-control-allow-origin']).toBe('https://www.one.com');
+      expect(db.leads.find(lead => lead.email === 'ann@example.com')).toMatchObject({
+        firstName: 'Ann', lastName: 'Lee', source: 'website', organizationId: 1, customFields: { budget: 5000 },
+      });
+    });
+
+    it('should quietly drop submissions that fill in the honeypot', async () => {
+      const leadCount = db.leads.length;
+      await submit('lf_one', 'https://www.one.com')
+        .send({ first_name: 'Bot', last_name: 'Bot', email: 'bot@example.com', website_url: 'http://spam.example.com' })
+        .expect(201);
+      expect(db.leads).toHaveLength(leadCount);
+      expect(db.leadForms.find(form => form.id === 10)!.spamCount).toBe(1);
+    });
+
+    it('should answer preflight requests from allowed origins only', async () => {
+      const preflight = await request(app).options('/api/commercial/forms/lf_one/submissions').set('Origin', 'https://www.one.com').expect(204);
+      expect(preflight.headers['access-control-allow-origin']).toBe('https://www.one.com');
+      expect(preflight.headers['access-control-allow-methods']).toBe('POST');
+      await request(app).options('/api/commercial/forms/lf_one/submissions').set('Origin', 'https://evil.example.com').expect(403);
+    });
+
+    it('should redirect plain HTML form posts', async () => {
+      const posted = await submit('lf_redirect').type('form').send({ first: 'Ann', last: 'Lee', email: 'ann@example.com' }).expect(303);
+      expect(posted.headers.location).toBe('https://www.one.com/thanks');
+      expect(db.leads.find(lead => lead.email === 'ann@example.com')).toMatchObject({ source: 'newsletter', assignedTo: 3 });
+    });
+
+    it('should rate limit submissions per client and form', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await submit('lf_busy').send({}).expect(400);
+      }
+      const limited = await submit('lf_busy').send({}).expect(429);
+      expect(limited.body.error).toBe('Too many submissions, please try again later');
+    });
+  });
+
+  describe('Audit log', () => {
+    it('should only show admins their own organization\'s entries, newest first', async () => {
+      await as(3, 'get', '/audit-logs').expect(403);
+      const response = await asOrgOne('get', '/audit-logs').expect(200);
+      expect(response.body.data.map((entry: Row) => entry.id)).toEqual([12, 11, 10]);
+      const other = await as(2, 'get', '/audit-logs').expect(200);
+      expect(other.body.data.map((entry: Row) => entry.id)).toEqual([20]);
+    });
+
+    it('should filter by record, actor and action', async () => {
+      const history = await asOrgOne('get', '/audit-logs?entityType=lead&entityId=10').expect(200);
+      expect(history.body.data.map((entry: Row) => entry.id)).toEqual([11, 10]);
+      const byRep = await asOrgOne('get', '/audit-logs?actorId=3&action=update').expect(200);
+      expect(byRep.body.data).toEqual([expect.objectContaining({ id: 11, changes: { status: { from: 'new', to: 'contacted' } } })]);
+      await asOrgOne('get', '/audit-logs?entityType=invoice').expect(400);
+      await asOrgOne('get', '/audit-logs?from=2026-03-05&to=2026-03-01').expect(400);
+    });
+
+    it('should export the filtered entries', async () => {
+      await as(3, 'get', '/audit-logs/export').expect(403);
+      const response = await asOrgOne('get', '/audit-logs/export?format=ndjson&entityType=deal').expect(200);
+      expect(response.text.trim().split('\n').map(line => JSON.parse(line))).toEqual([
+        expect.objectContaining({ id: 12, entityType: 'deal', action: 'update', actorId: 1, organizationId: 1 }),
+      ]);
+    });
+
+    it('should attribute changes to the signed-in user', async () => {
+      const updateLeadForm = jest.spyOn(commercialStorage, 'updateLeadForm');
+      await asOrgOne('patch', '/lead-forms/10').send({ isActive: false }).expect(200);
+      expect(updateLeadForm).toHaveBeenCalledWith(10, 1, { isActive: false }, 1);
+      updateLeadForm.mockRestore();
+    });
+  });
+
+  describe('Trash', () => {
+    beforeEach(() => {
+      db.leads.push({ id: 21, organizationId: 2, firstName: 'Trashed', lastName: 'Lead', email: 'trashed@lead.com', status: 'lost', deletedAt: new Date('2026-03-01T09:00:00Z'), deletedBy: 2 });
+    });
+
+    it('should only delete records of the caller organization', async () => {
+      await asOrgOne('delete', '/leads/20').expect(404);
+      await asOrgOne('delete', '/customers/20').expect(404);
+      expect(db.leads.find(lead => lead.id === 20)!.deletedAt).toBeUndefined();
+
+      await asOrgOne('delete', '/leads/10').expect(200);
+      await asOrgOne('get', '/leads/10').expect(404);
+      await asOrgOne('delete', '/leads/10').expect(404);
+      const response = await asOrgOne('get', '/leads').expect(200);
+      expect(response.body.data.map((lead: Row) => lead.id)).toEqual([11]);
+    });
+
+    it('should not let sales reps delete records', async () => {
+      await as(3, 'delete', '/leads/11').expect(403);
+      expect(db.leads.find(lead => lead.id === 11)!.deletedAt).toBeUndefined();
+    });
+
+    it('should only show admins the trash of their own organization', async () => {
+      await asOrgOne('delete', '/deals/10').expect(200);
+      await as(3, 'get', '/trash/deals').expect(403);
+      const response = await asOrgOne('get', '/trash/deals').expect(200);
+      expect(response.body.data).toEqual([expect.objectContaining({ id: 10, deletedBy: 1 })]);
+      const other = await as(2, 'get', '/trash/leads').expect(200);
+      expect(other.body.data.map((lead: Row) => lead.id)).toEqual([21]);
+      await asOrgOne('get', '/trash/invoices').expect(404);
+    });
+
+    it('should restore and purge only the caller organization\'s trash', async () => {
+      await asOrgOne('post', '/trash/leads/21/restore').expect(404);
+      await asOrgOne('delete', '/trash/leads/21').expect(404);
+      await asOrgOne('post', '/trash/activities/10/restore').expect(404);
+
+      await asOrgOne('delete', '/activities/10').expect(200);
+      const restored = await asOrgOne('post', '/trash/activities/10/restore').expect(200);
+      expect(restored.body).toEqual(expect.objectContaining({ id: 10, deletedAt: null }));
+
+      await as(2, 'delete', '/trash/leads/21').expect(200);
+      expect(db.leads.some(lead => lead.id === 21)).toBe(false);
+    });
+
+    it('should let admins set the retention period', async () => {
+      await as(3, 'put', '/settings/trash').send({ retentionDays: 7 }).expect(403);
+      await as(1, 'put', '/settings/trash').send({ retentionDays: 0 }).expect(400);
+      const response = await as(1, 'put', '/settings/trash').send({ retentionDays: 7 }).expect(200);
+      expect(response.body).toEqual({ retentionDays: 7 });
+      expect((await asOrgOne('get', '/settings/trash').expect(200)).body).toEqual({ retentionDays: 7 });
+    });
+  });
+
+  describe('Forecasting', () => {
+    it('should forecast for the caller organization and validate the parameters', async () => {
+      const getForecast = commercialStorage.getForecast as jest.Mock;
+      await as(3, 'get', '/forecast?period=quarter&periods=4').expect(200);
+      expect(getForecast).toHaveBeenLastCalledWith(1, { period: 'quarter', periods: 4 });
+      await asOrgOne('get', '/forecast?period=year').expect(400);
+      await asOrgOne('get', '/forecast?periods=30').expect(400);
+    });
+
+    it('should let admins and managers save snapshots, but not reps', async () => {
+      await as(3, 'post', '/forecast/snapshots').send({ period: 'month' }).expect(403);
+      const response = await asOrgOne('post', '/forecast/snapshots').send({ name: 'Week 12' }).expect(201);
+      expect(response.body).toMatchObject({ name: 'Week 12', period: 'month', organizationId: 1, createdBy: 1 });
+    });
+
+    it('should only list and compare snapshots of the caller organization', async () => {
+      const list = await as(3, 'get', '/forecast/snapshots').expect(200);
+      expect(list.body.data.map((snapshot: Row) => snapshot.id)).toEqual([12, 11, 10]);
+      await asOrgOne('get', '/forecast/snapshots/20').expect(404);
+      await asOrgOne('get', '/forecast/snapshots/12/comparison?against=20').expect(404);
+    });
+
+    it('should compare a snapshot with the one saved a week before it by default', async () => {
+      const weekly = await asOrgOne('get', '/forecast/snapshots/12/comparison').expect(200);
+      expect(weekly.body.previous.id).toBe(10);
+      expect(weekly.body.total.change).toMatchObject({ weighted: 800, forecast: 800 });
+
+      const picked = await asOrgOne('get', '/forecast/snapshots/12/comparison?against=11').expect(200);
+      expect(picked.body.periods[0].reps[0]).toMatchObject({ userId: 3, change: { weighted: 300 } });
+
+      const none = await asOrgOne('get', '/forecast/snapshots/10/comparison').expect(404);
+      expect(none.body.error).toBe('No snapshot from a week earlier to compare with');
+    });
+
+    it('should let admins set the forecast categories', async () => {
+      await as(3, 'put', '/settings/forecast').send({ commitProbability: 80, bestCaseProbability: 40 }).expect(403);
+      await as(1, 'put', '/settings/forecast').send({ commitProbability: 40, bestCaseProbability: 80 }).expect(400);
+      await as(1, 'put', '/settings/forecast').send({ commitProbability: 80, bestCaseProbability: 40 }).expect(200);
+      expect((await as(3, 'get', '/settings/forecast').expect(200)).body).toEqual({ commitProbability: 80, bestCaseProbability: 40 });
+    });
+  });
+
+  describe('Quotas and leaderboard', () => {
+    it('should let admins and managers set quotas, but not reps', async () => {
+      await as(3, 'post', '/quotas').send({ userId: 3, period: 'month', periodStart: '2026-04-01', target: 5000 }).expect(403);
+      await as(3, 'patch', '/quotas/10').send({ target: 1 }).expect(403);
+      await asOrgOne('post', '/quotas').send({ period: 'month', periodStart: '2026-04-01', target: 0 }).expect(400);
+      const response = await asOrgOne('post', '/quotas').send({ period: 'quarter', periodStart: '2026-04-01', target: 20000 }).expect(201);
+      expect(response.body).toMatchObject({ userId: null, period: 'quarter', target: '20000.00', organizationId: 1, createdBy: 1 });
+    });
+
+    it('should only set quotas for users and quotas of the caller organization', async () => {
+      await asOrgOne('post', '/quotas').send({ userId: 2, period: 'month', periodStart: '2026-04-01', target: 5000 }).expect(404);
+      await asOrgOne('patch', '/quotas/20').send({ target: 1 }).expect(404);
+      await asOrgOne('delete', '/quotas/20').expect(404);
+      const list = await as(3, 'get', '/quotas').expect(200);
+      expect(list.body.map((quota: Row) => quota.id)).toEqual([10]);
+    });
+
+    it('should rank the caller organization on the requested metric', async () => {
+      const getLeaderboard = commercialStorage.getLeaderboard as jest.Mock;
+      await as(3, 'get', '/leaderboard?sort=winRate').expect(200);
+      expect(getLeaderboard).toHaveBeenLastCalledWith(1, { period: 'month', sort: 'winRate' });
+      await asOrgOne('get', '/leaderboard?sort=calls').expect(400);
+    });
+  });
+
+  describe('Sales data', () => {
+    it('should let managers add labeled adjustments, but not reps', async () => {
+      const adjustment = { periodStart: '2026-03-15', revenue: -250, note: 'Refunded order' };
+      await as(3, 'post', '/sales-data/adjustments').send(adjustment).expect(403);
+      await asOrgOne('post', '/sales-data/adjustments').send({ ...adjustment, note: ' ' }).expect(400);
+      const response = await asOrgOne('post', '/sales-data/adjustments').send(adjustment).expect(201);
+      expect(response.body).toMatchObject({ source: 'adjustment', revenue: '-250.00', deals: 0, note: 'Refunded order', organizationId: 1, createdBy: 1 });
+    });
+
+    it('should only adjust and delete sales data of the caller organization', async () => {
+      await asOrgOne('post', '/sales-data/adjustments').send({ periodStart: '2026-03-15', revenue: 10, dealId: 20, note: 'Late fee' }).expect(404);
+      await asOrgOne('delete', '/sales-data/adjustments/20').expect(404);
+      // Rows derived from deals change with the deal
+      await asOrgOne('delete', '/sales-data/adjustments/10').expect(404);
+      await asOrgOne('delete', '/sales-data/adjustments/11').expect(200);
+    });
+
+    it('should roll up and rebuild the caller organization only', async () => {
+      const getSalesDataRollup = commercialStorage.getSalesDataRollup as jest.Mock;
+      await as(3, 'get', '/sales-data/rollup?period=quarter').expect(200);
+      expect(getSalesDataRollup).toHaveBeenLastCalledWith(1, { period: 'quarter' });
+      await asOrgOne('get', '/sales-data/rollup?period=week').expect(400);
+
+      await as(3, 'post', '/sales-data/backfill').expect(403);
+      const rebuildSalesData = commercialStorage.rebuildSalesData as jest.Mock;
+      expect((await asOrgOne('post', '/sales-data/backfill').expect(200)).body).toEqual({ removed: 1, created: 1, adjustments: 1 });
+      expect(rebuildSalesData).toHaveBeenLastCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_TRASH_SETTINGS, getTrashSettings, purgeCutoff } from '../trash';
+
+describe('Trash retention', () => {
+  it('should keep deleted records for 30 days unless configured otherwise', () => {
+    expect(getTrashSettings(undefined)).toEqual({ retentionDays: 30 });
+    expect(getTrashSettings({ trash: { retentionDays: 7 } })).toEqual({ retentionDays: 7 });
+  });
+
+  it('should fall back to the defaults for invalid stored settings', () => {
+    expect(getTrashSettings({ trash: { retentionDays: 0 } })).toEqual(DEFAULT_TRASH_SETTINGS);
+    expect(getTrashSettings({ trash: { retentionDays: 'forever' } })).toEqual(DEFAULT_TRASH_SETTINGS);
+  });
+
+  it('should purge what was deleted before the retention period', () => {
+    const now = new Date('2026-03-31T12:00:00Z');
+    expect(purgeCutoff({ trash: { retentionDays: 7 } }, now)).toEqual(new Date('2026-03-24T12:00:00Z'));
+    expect(purgeCutoff({}, now)).toEqual(new Date('2026-03-01T12:00:00Z'));
+  });
+});
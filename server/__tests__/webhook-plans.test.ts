@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { eq, sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import * as schema from '@shared/schema';
+import { webhookDeliveries, webhookSubscriptions } from '@shared/schema';
+
+// Postgres itself, since queueing and claiming deliveries join across tables inside transactions
+jest.mock('../db', () => jest.requireActual('./support/pglite-db.cjs'));
+
+import { db } from '../db';
+import { commercialStorage } from '../commercial-storage';
+
+const createLead = (firstName: string) =>
+  commercialStorage.createLead({ firstName, lastName: 'Lead', email: `${firstName.toLowerCase()}@example.com`, organizationId: 1 });
+
+// Every delivery is due a minute from now
+const claimDue = async () => {
+  const due = await commercialStorage.claimDueWebhookDeliveries(new Date(Date.now() + 60 * 1000), 20);
+  return due.map(({ delivery }) => (delivery.payload as { data: { lead: { firstName: string } } }).data.lead.firstName);
+};
+
+describe('Webhooks and plans', () => {
+  beforeAll(async () => {
+    const migration = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of migration) {
+      await db.execute(sql.raw(statement));
+    }
+    await db.execute(sql`insert into organizations (name, slug, subscription_plan) values ('Org One', 'org-one', 'professional')`);
+    await db.insert(webhookSubscriptions).values({
+      url: 'https://hooks.example.com/crm', events: ['lead.created'], secret: 'whsec_test', organizationId: 1,
+    });
+  }, 60000);
+
+  afterAll(() => {
+    (jest.requireMock('../db') as { server: import('child_process').ChildProcess }).server.kill();
+  });
+
+  it('should neither queue nor send events after a downgrade to a plan without webhooks', async () => {
+    await createLead('Sent');
+    expect(await claimDue()).toEqual(['Sent']);
+
+    await createLead('Held');
+    await commercialStorage.updateOrganizationSubscription(1, 'starter', 'active');
+    await createLead('Dropped');
+    expect(await claimDue()).toEqual([]);
+    expect(await db.select({ id: webhookDeliveries.id }).from(webhookDeliveries)
+      .where(eq(webhookDeliveries.organizationId, 1))).toHaveLength(2);
+
+    await commercialStorage.updateOrganizationSubscription(1, 'professional', 'active');
+    expect(await claimDue()).toEqual(['Held']);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach, beforeEach } from '@jest/globals';
+import { createHmac } from 'crypto';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { insertWebhookSubscriptionSchema } from '@shared/schema';
+import {
+  assertWebhookTarget, buildPayload, generateWebhookSecret, isPrivateAddress, nextRetryDelay, sendWebhook, signPayload, MAX_WEBHOOK_ATTEMPTS
+} from '../webhooks';
+
+const MINUTE = 60 * 1000;
+
+describe('Webhooks', () => {
+  it('should sign the timestamp and body with the subscription secret', () => {
+    const body = JSON.stringify({ event: 'lead.created' });
+    const expected = createHmac('sha256', 'whsec_test').update(`1767225600.${body}`).digest('hex');
+    expect(signPayload('whsec_test', 1767225600, body)).toBe(`t=1767225600,v1=${expected}`);
+    expect(signPayload('whsec_other', 1767225600, body)).not.toContain(expected);
+    expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+  });
+
+  it('should back off exponentially and give up after the last attempt', () => {
+    expect([1, 2, 3, 4].map(nextRetryDelay)).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE]);
+    expect(nextRetryDelay(MAX_WEBHOOK_ATTEMPTS - 1)).toBe(64 * MINUTE);
+    expect(nextRetryDelay(MAX_WEBHOOK_ATTEMPTS)).toBeUndefined();
+  });
+
+  it('should store payloads as they are sent', () => {
+    const payload = buildPayload('deal.won', 1, { deal: { id: 5, actualCloseDate: new Date('2026-03-10T12:00:00.000Z'), notes: undefined } });
+    expect(payload).toMatchObject({ event: 'deal.won', organizationId: 1, data: { deal: { id: 5, actualCloseDate: '2026-03-10T12:00:00.000Z' } } });
+    expect(payload.data).toEqual({ deal: { id: 5, actualCloseDate: '2026-03-10T12:00:00.000Z' } });
+    expect(buildPayload('deal.won', 1, {}).id).not.toBe(payload.id);
+  });
+
+  it('should only subscribe http(s) URLs to known events', () => {
+    const subscription = { url: 'https://hooks.example.com/crm', events: ['lead.created'], organizationId: 1 };
+    expect(insertWebhookSubscriptionSchema.safeParse(subscription).success).toBe(true);
+    expect(insertWebhookSubscriptionSchema.safeParse({ ...subscription, url: 'ftp://hooks.example.com' }).success).toBe(false);
+    expect(insertWebhookSubscriptionSchema.safeParse({ ...subscription, events: [] }).success).toBe(false);
+    expect(insertWebhookSubscriptionSchema.safeParse({ ...subscription, events: ['lead.deleted'] }).success).toBe(false);
+    expect(insertWebhookSubscriptionSchema.safeParse({ ...subscription, events: ['lead.created', 'lead.created'] }).success).toBe(false);
+  });
+
+  it('should refuse private, loopback and link-local targets', async () => {
+    expect(['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']
+      .filter(address => !isPrivateAddress(address))).toEqual([]);
+    expect(['93.184.216.34', '2606:2800:220:1::'].some(isPrivateAddress)).toBe(false);
+
+    await expect(assertWebhookTarget('http://169.254.169.254/latest/meta-data')).rejects.toThrow('must not point at private');
+    await expect(assertWebhookTarget('http://[::1]:8080/hook')).rejects.toThrow('must not point at private');
+    await expect(assertWebhookTarget('http://localhost:5000/hook')).rejects.toThrow('must not point at private');
+
+    // Checked again on every send, whatever the host resolved to when the subscription was saved
+    const attempt = await sendWebhook('http://localhost:1/hook', 'whsec_test', 1, buildPayload('deal.won', 1, {}));
+    expect(attempt).toMatchObject({ ok: false, responseStatus: null, error: expect.stringContaining('must not point at private') });
+    const literal = await sendWebhook('http://127.0.0.1:1/hook', 'whsec_test', 1, buildPayload('deal.won', 1, {}));
+    expect(literal.error).toContain('must not point at private');
+  });
+
+  describe('Sending', () => {
+    let server: Server | undefined;
+
+    // The receivers below listen on loopback
+    beforeEach(() => {
+      process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS = 'true';
+    });
+
+    afterEach(async () => {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS;
+      await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+      server = undefined;
+    });
+
+    const receiver = async (status: number) => {
+      const requests: { headers: IncomingMessage['headers']; body: string }[] = [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          requests.push({ headers: req.headers, body });
+          res.writeHead(status).end(status < 300 ? 'ok' : 'x'.repeat(5000));
+        });
+      });
+      await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+      return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`, requests };
+    };
+
+    it('should post a verifiable signed payload', async () => {
+      const { url, requests } = await receiver(200);
+      const payload = buildPayload('lead.created', 1, { lead: { id: 3 } });
+      const now = new Date('2026-03-10T12:00:00.000Z');
+
+      const attempt = await sendWebhook(url, 'whsec_test', 42, payload, now);
+      expect(attempt).toEqual({ ok: true, responseStatus: 200, responseBody: 'ok', error: null });
+      expect(JSON.parse(requests[0].body)).toEqual(payload);
+      expect(requests[0].headers).toMatchObject({ 'x-webhook-event': 'lead.created', 'x-webhook-delivery': '42' });
+      expect(requests[0].headers['x-webhook-signature']).toBe(signPayload('whsec_test', now.getTime() / 1000, requests[0].body));
+    });
+
+    it('should report error responses and unreachable receivers', async () => {
+      const { url } = await receiver(500);
+      const failed = await sendWebhook(url, 'whsec_test', 1, buildPayload('deal.won', 1, {}));
+      expect(failed).toMatchObject({ ok: false, responseStatus: 500, error: null });
+      expect(failed.responseBody).toHaveLength(1000);
+
+      await new Promise(resolve => server!.close(resolve));
+      server = undefined;
+      const unreachable = await sendWebhook(url, 'whsec_test', 1, buildPayload('deal.won', 1, {}));
+      expect(unreachable).toMatchObject({ ok: false, responseStatus: null });
+      expect(unreachable.error).toBeTruthy();
+    });
+  });
+});
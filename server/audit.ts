@@ -0,0 +1,100 @@
+import type { AuditAction, AuditChanges, AuditEntityType, InsertAuditLog } from "@shared/schema";
+
+// Identity, timestamps and values the system maintains itself (scores, reminder and form
+// bookkeeping, logins) are not changes anyone made, so they are left out of the diffs
+const IGNORED_FIELDS = new Set([
+  'id', 'organizationId', 'createdAt', 'updatedAt', 'score', 'scoreBreakdown', 'scoredAt', 'lastLoginAt',
+  'reminderSentAt', 'overdueNotifiedAt', 'submissionCount', 'spamCount', 'lastSubmissionAt',
+]);
+
+// Secrets are logged as changed without their values
+const REDACTED_FIELDS = new Set(['password', 'secret']);
+export const REDACTED = '[redacted]';
+
+// JSON objects whose keys are diffed one by one, e.g. "customFields.budget"
+const NESTED_FIELDS = new Set(['settings', 'customFields']);
+
+type AuditedRecord = Record<string, unknown>;
+
+// Dates become ISO strings so values compare (and are stored) the way they are sent
+const normalize = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value ?? null));
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field-level before/after of two versions of a record (either may be missing, for creates and
+// deletes). Unchanged fields are left out.
+export const diffRecords = (before: AuditedRecord | undefined, after: AuditedRecord | undefined): AuditChanges => {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of Array.from(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = normalize(before?.[field]);
+    const to = normalize(after?.[field]);
+    if (sameValue(from, to)) continue;
+    if (REDACTED_FIELDS.has(field)) {
+      changes[field] = { from: from === null ? null : REDACTED, to: to === null ? null : REDACTED };
+    } else if (NESTED_FIELDS.has(field) && (isPlainObject(from) || isPlainObject(to))) {
+      const nestedFrom = isPlainObject(from) ? from : {};
+      const nestedTo = isPlainObject(to) ? to : {};
+      for (const key of Array.from(new Set([...Object.keys(nestedFrom), ...Object.keys(nestedTo)]))) {
+        if (!sameValue(nestedFrom[key] ?? null, nestedTo[key] ?? null)) {
+          changes[`${field}.${key}`] = { from: nestedFrom[key] ?? null, to: nestedTo[key] ?? null };
+        }
+      }
+    } else {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+};
+
+interface AuditedRow {
+  id: number;
+  organizationId: number;
+}
+
+const entry = (
+  entityType: AuditEntityType,
+  action: AuditAction,
+  record: AuditedRow,
+  changes: AuditChanges,
+  actorId: number | null | undefined
+): InsertAuditLog => ({
+  entityType,
+  entityId: record.id,
+  action,
+  changes,
+  actorId: actorId ?? null,
+  organizationId: record.organizationId,
+});
+
+// Entries for storage to append; actorId is null for changes made by the system (routing rules,
+// form submissions, schedulers)
+export const auditCreate = <T extends AuditedRow>(entityType: AuditEntityType, record: T, actorId?: number | null) =>
+  entry(entityType, 'create', record, diffRecords(undefined, record as unknown as AuditedRecord), actorId);
+
+// Undefined when nothing worth logging changed
+export const auditUpdate = <T extends AuditedRow>(entityType: AuditEntityType, before: T, after: T, actorId?: number | null) => {
+  const changes = diffRecords(before as unknown as AuditedRecord, after as unknown as AuditedRecord);
+  return Object.keys(changes).length > 0 ? entry(entityType, 'update', after, changes, actorId) : undefined;
+};
+
+export const auditDelete = <T extends AuditedRow>(entityType: AuditEntityType, record: T, actorId?: number | null) =>
+  entry(entityType, 'delete', record, diffRecords(record as unknown as AuditedRecord, undefined), actorId);
+
+// Moving a record to the trash or back out of it only changes deletedAt and deletedBy
+export const auditTrash = <T extends AuditedRow>(entityType: AuditEntityType, action: 'delete' | 'restore', before: T, after: T, actorId?: number | null) =>
+  entry(entityType, action, after, diffRecords(before as unknown as AuditedRecord, after as unknown as AuditedRecord), actorId);
+
+// Purged records are gone for good, so their last values are kept as for a delete
+export const auditPurge = <T extends AuditedRow>(entityType: AuditEntityType, record: T, actorId?: number | null) =>
+  entry(entityType, 'purge', record, diffRecords(record as unknown as AuditedRecord, undefined), actorId);
+
+// Organizations are their own tenant
+export const asAuditedOrganization = <T extends { id: number }>(organization: T) => ({ ...organization, organizationId: organization.id });
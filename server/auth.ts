@@ -0,0 +1,137 @@
+import jwt from "jsonwebtoken";
+import bcrypt from "bcrypt";
+import { randomBytes, randomUUID, createHash } from "crypto";
+import { commercialStorage } from "./commercial-storage";
+import { CustomError } from "./middleware/errorHandler";
+import type { InsertRefreshToken, User } from "@shared/schema";
+
+if (!process.env.JWT_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("JWT_SECRET must be set in production.");
+}
+
+const JWT_SECRET = process.env.JWT_SECRET || "dev-only-jwt-secret";
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface AccessTokenPayload {
+  sub: number;
+  username: string;
+  role: string;
+  organizationId: number;
+  expiresAt: number; // epoch milliseconds
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: "Bearer";
+  expiresIn: number;
+}
+
+export const hashRefreshToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+export const signAccessToken = (user: Pick<User, "id" | "username" | "role" | "organizationId">): string =>
+  jwt.sign(
+    { username: user.username, role: user.role, organizationId: user.organizationId },
+    JWT_SECRET,
+    { subject: String(user.id), expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+  return {
+    sub: Number(decoded.sub),
+    username: decoded.username,
+    role: decoded.role,
+    organizationId: decoded.organizationId,
+    expiresAt: (decoded.exp ?? 0) * 1000,
+  };
+};
+
+// Only the hash of a refresh token is stored
+const newRefreshToken = (user: User, familyId: string): { refreshToken: string; record: InsertRefreshToken } => {
+  const refreshToken = randomBytes(48).toString("base64url");
+  return {
+    refreshToken,
+    record: {
+      tokenHash: hashRefreshToken(refreshToken),
+      familyId,
+      userId: user.id,
+      organizationId: user.organizationId,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  };
+};
+
+const tokensFor = (user: User, refreshToken: string): AuthTokens => ({
+  accessToken: signAccessToken(user),
+  refreshToken,
+  tokenType: "Bearer",
+  expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+});
+
+export class AuthService {
+  async login(email: string, password: string): Promise<{ user: User; tokens: AuthTokens }> {
+    const user = await commercialStorage.getUserByEmail(email);
+    // Compare against a throwaway hash when the user is unknown so timing doesn't leak which emails exist
+    const passwordHash = user?.password ?? "$2b$10$invalidinvalidinvalidinvalidinvalidinvalidinvalidinva";
+    const passwordMatches = await bcrypt.compare(password, passwordHash);
+
+    if (!user || !passwordMatches || !user.isActive) {
+      throw new CustomError("Invalid email or password", 401);
+    }
+
+    const tokens = await this.issueTokens(user);
+    await commercialStorage.recordUserLogin(user.id);
+    return { user, tokens };
+  }
+
+  // Starts a new refresh token family, e.g. for a user who just signed up
+  async issueTokens(user: User): Promise<AuthTokens> {
+    const { refreshToken, record } = newRefreshToken(user, randomUUID());
+    await commercialStorage.createRefreshToken(record);
+    return tokensFor(user, refreshToken);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const stored = await commercialStorage.getRefreshTokenByHash(hashRefreshToken(refreshToken));
+    if (!stored) {
+      throw new CustomError("Invalid refresh token", 401);
+    }
+
+    // A revoked token being presented again means it leaked; kill the whole session family
+    if (stored.revokedAt) {
+      await commercialStorage.revokeRefreshTokenFamily(stored.familyId);
+      throw new CustomError("Refresh token has been revoked", 401);
+    }
+
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new CustomError("Refresh token has expired", 401);
+    }
+
+    const user = await commercialStorage.getUser(stored.userId);
+    if (!user || !user.isActive) {
+      await commercialStorage.revokeRefreshTokenFamily(stored.familyId);
+      throw new CustomError("Invalid refresh token", 401);
+    }
+
+    const { refreshToken: rotated, record } = newRefreshToken(user, stored.familyId);
+    // Losing a race against a concurrent refresh of the same token counts as reuse
+    if (!await commercialStorage.rotateRefreshToken(stored.id, record)) {
+      await commercialStorage.revokeRefreshTokenFamily(stored.familyId);
+      throw new CustomError("Refresh token has been revoked", 401);
+    }
+    return tokensFor(user, rotated);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await commercialStorage.getRefreshTokenByHash(hashRefreshToken(refreshToken));
+    if (stored) {
+      await commercialStorage.revokeRefreshTokenFamily(stored.familyId);
+    }
+  }
+}
+
+export const authService = new AuthService();
@@ -1,10 +1,14 @@
 import { commercialStorage } from "./commercial-storage";
 
+// Capabilities the API enforces per plan; `features` is the copy shown to customers
+export type PlanFeature = 'custom_fields' | 'webhooks';
+
 export interface SubscriptionPlan {
   id: string;
   name: string;
   price: number;
   features: string[];
+  includes: PlanFeature[];
   userLimit: number;
   storageLimit: string;
 }
@@ -20,6 +24,7 @@ export const SUBSCRIPTION_PLANS: Record<string, SubscriptionPlan> = {
       'Basic reporting',
       'Email support'
     ],
+    includes: [],
     userLimit: 5,
     storageLimit: '1GB'
   },
@@ -33,8 +38,10 @@ export const SUBSCRIPTION_PLANS: Record<string, SubscriptionPlan> = {
       'Advanced reporting',
       'Priority support',
       'API access',
-      'Custom fields'
+      'Custom fields',
+      'Webhooks'
     ],
+    includes: ['custom_fields', 'webhooks'],
     userLimit: 25,
     storageLimit: '10GB'
   },
@@ -48,15 +55,25 @@ export const SUBSCRIPTION_PLANS: Record<string, SubscriptionPlan> = {
       'Custom reporting',
       'Dedicated support',
       'API access',
+      'Custom fields',
+      'Webhooks',
       'Custom integrations',
       'Advanced security',
       'White-label options'
     ],
+    includes: ['custom_fields', 'webhooks'],
     userLimit: -1, // unlimited
     storageLimit: '100GB'
   }
 };
 
+// Unknown plans include nothing
+export const planIncludes = (planId: string, feature: PlanFeature): boolean =>
+  SUBSCRIPTION_PLANS[planId]?.includes.includes(feature) ?? false;
+
+export const plansIncluding = (feature: PlanFeature): string[] =>
+  Object.values(SUBSCRIPTION_PLANS).filter(plan => plan.includes.includes(feature)).map(plan => plan.id);
+
 export class BillingService {
   async createSubscription(organizationId: number, planId: string): Promise<{
     success: boolean;
@@ -1,29 +1,162 @@
-import { Router } from "express";
-import { commercialStorage } from "./commercial-storage";
+import { Router, type Response, type NextFunction } from "express";
+import { commercialStorage, type SearchScope } from "./commercial-storage";
+import { authService } from "./auth";
 import { 
-  insertOrganizationSchema, insertUserSchema, insertLeadSchema, 
-  insertCustomerSchema, insertDealSchema, insertActivitySchema,
-  insertSalesDataSchema
+  signupSchema, insertUserSchema, insertLeadSchema, 
+  insertCustomerSchema, insertDealSchema, insertActivitySchema, updateActivitySchema,
+  insertSalesDataSchema, loginSchema, refreshTokenSchema,
+  updateLeadSchema, updateCustomerSchema, updateDealRequestSchema,
+  insertPipelineSchema, updatePipelineSchema, convertLeadSchema, assignLeadsSchema,
+  mergeCustomersSchema, leadListQuerySchema, customerListQuerySchema, dealListQuerySchema,
+  activityListQuerySchema, type LeadListQuery, type CustomerListQuery, type DealListQuery,
+  type ActivityListQuery, searchQuerySchema, type SearchQuery, type SearchEntityType,
+  importRequestSchema, importJobListQuerySchema, type ImportRequest, type ListQuery,
+  leadExportQuerySchema, customerExportQuerySchema, dealExportQuerySchema, activityExportQuerySchema,
+  exportFormatSchema, archiveExportQuerySchema, type ExportFormat,
+  insertCustomFieldDefinitionSchema, updateCustomFieldDefinitionSchema, customFieldDefinitionQuerySchema,
+  type CustomFieldEntityType, notificationListQuerySchema, notificationPreferencesSchema, type NotificationListQuery,
+  insertSequenceSchema, updateSequenceSchema, enrollSequenceSchema, sequenceEnrollmentQuerySchema, type SequenceEnrollmentQuery,
+  insertWebhookSubscriptionSchema, updateWebhookSubscriptionSchema, webhookTestSchema, webhookDeliveryQuerySchema,
+  type WebhookDeliveryQuery, insertLeadFormSchema, updateLeadFormSchema,
+  auditLogQuerySchema, auditLogExportQuerySchema, type AuditLogQuery,
+  trashQuerySchema, type TrashQuery, type TrashEntityType,
+  forecastQuerySchema, insertForecastSnapshotSchema, forecastSnapshotListQuerySchema, forecastComparisonQuerySchema,
+  insertQuotaSchema, updateQuotaSchema, quotaQuerySchema, leaderboardQuerySchema, type QuotaQuery, type LeaderboardQuery,
+  insertSalesAdjustmentSchema, salesDataRollupQuerySchema, type SalesDataRollupQuery,
+  type ForecastQuery, type ForecastSnapshotListQuery
 } from "@shared/schema";
-import { validateRequestBody } from "./middleware/validation";
-import { requireAuth, type AuthenticatedRequest } from "./middleware/auth";
+import { validateRequestBody, validateRequestQuery } from "./middleware/validation";
+import { authenticateToken, type AuthenticatedRequest } from "./middleware/auth";
+import { requirePermission } from "./middleware/permissions";
+import { getLeadScoringRules, leadScoringRulesSchema } from "./lead-scoring";
+import { getLeadAssignmentConfig, leadAssignmentConfigSchema } from "./lead-assignment";
+import { dealStageRulesSchema, getDealStageRules, withStageDurations } from "./deal-stages";
+import { getReminderPreferences, reminderPreferencesSchema } from "./reminders";
+import { getNotificationPreferences } from "./notifications";
+import { getTrashSettings, trashSettingsSchema } from "./trash";
+import { compareForecasts, comparisonCutoff, forecastSettingsSchema, getForecastSettings } from "./forecasting";
+import { can, canAccessRecord, getPermissionScope, isRole, type Resource } from "./permissions";
+import { previewImport, startImport, type ImportContext } from "./import-jobs";
+import { deliverWebhook } from "./webhook-dispatcher";
+import { isOriginAllowed, isSpam, mapSubmission, requestOrigin } from "./lead-forms";
+import { EXPORT_COLUMNS, streamExport, withCustomFieldColumns } from "./exports";
+import { streamArchive, type ArchiveFormat } from "./export-archive";
+import { planIncludes, type PlanFeature } from "./billing";
+import { CustomError } from "./middleware/errorHandler";
+import { authLimiter, formSubmissionLimiter } from "./middleware/rateLimiter";
 import bcrypt from "bcrypt";
 
 const router = Router();
 
-// Organization Management
-router.post("/organizations", validateRequestBody(insertOrganizationSchema), async (req, res) => {
+// Storage raises CustomError for cross-tenant references and business rule violations
+const handleRouteError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof CustomError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  res.status(500).json({ error: fallbackMessage });
+};
+
+// Callers with an 'assigned' scope only list records assigned to or created by them
+const visibleTo = (req: AuthenticatedRequest) => (req.permissionScope === 'assigned' ? req.user!.id : undefined);
+
+// Handing a record to someone other than yourself requires the 'reassign' permission
+const canAssignTo = (req: AuthenticatedRequest, resource: Resource, assignedTo: number | null | undefined, currentAssignee?: number | null) =>
+  assignedTo === undefined ||
+  assignedTo === currentAssignee ||
+  assignedTo === req.user!.id ||
+  can(req.user!.role, resource, 'reassign');
+
+// Activities may only be linked to leads, customers and deals the caller can see; others read as missing
+const inaccessibleLink = async (
+  req: AuthenticatedRequest,
+  { leadId, customerId, dealId }: { leadId?: number | null; customerId?: number | null; dealId?: number | null }
+): Promise<string | undefined> => {
+  const orgId = req.user!.organizationId;
+  const links: [Resource, number | null | undefined, (id: number) => Promise<{ assignedTo?: number | null; createdBy?: number | null } | undefined>, string][] = [
+    ['leads', leadId, id => commercialStorage.getLead(id, orgId), "Lead not found"],
+    ['customers', customerId, id => commercialStorage.getCustomer(id, orgId), "Customer not found"],
+    ['deals', dealId, id => commercialStorage.getDeal(id, orgId), "Deal not found"],
+  ];
+  for (const [resource, id, get, notFound] of links) {
+    if (id === null || id === undefined) continue;
+    const record = await get(id);
+    if (!record || !canAccessRecord(req.user!, getPermissionScope(req.user!.role, resource, 'read'), record)) {
+      return notFound;
+    }
+  }
+  return undefined;
+};
+
+// Records created by callers who only see their own records are assigned to them so they stay visible
+const withDefaultAssignee = <T extends { assignedTo?: number | null }>(req: AuthenticatedRequest, resource: Resource, data: T): T =>
+  getPermissionScope(req.user!.role, resource, 'read') === 'assigned' && !data.assignedTo
+    ? { ...data, assignedTo: req.user!.id }
+    : data;
+
+// Features sold with the higher plans; routes using them answer 403 on other plans. Only creating
+// and changing is gated: reads and deletes stay open so organizations can clean up after a downgrade
+const requirePlanFeature = (feature: PlanFeature, message: string) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const organization = await commercialStorage.getOrganization(req.user!.organizationId);
+      if (!organization || !planIncludes(organization.subscriptionPlan, feature)) {
+        return res.status(403).json({ error: message });
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to check the subscription plan" });
+    }
+  };
+
+// Authentication
+router.post("/auth/login", authLimiter, validateRequestBody(loginSchema), async (req, res) => {
   try {
-    const organization = await commercialStorage.createOrganization(req.body);
-    res.json(organization);
+    const { user, tokens } = await authService.login(req.body.email, req.body.password);
+    const { password, ...userWithoutPassword } = user;
+    res.json({ ...tokens, user: userWithoutPassword });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to log in");
+  }
+});
+
+// A new organization and its admin are created together, so no one else can claim an empty organization
+router.post("/auth/signup", authLimiter, validateRequestBody(signupSchema), async (req, res) => {
+  try {
+    const { organization, user: admin } = req.body;
+    const hashedPassword = await bcrypt.hash(admin.password, 10);
+    const { user, ...created } = await commercialStorage.createOrganizationWithAdmin(organization, { ...admin, password: hashedPassword });
+    const tokens = await authService.issueTokens(user);
+    const { password, ...userWithoutPassword } = user;
+    res.status(201).json({ ...tokens, organization: created.organization, user: userWithoutPassword });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to sign up");
+  }
+});
+
+router.post("/auth/refresh", validateRequestBody(refreshTokenSchema), async (req, res) => {
+  try {
+    const tokens = await authService.refresh(req.body.refreshToken);
+    res.json(tokens);
   } catch (error) {
-    res.status(500).json({ error: "Failed to create organization" });
+    handleRouteError(res, error, "Failed to refresh token");
   }
 });
 
-router.get("/organizations/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post("/auth/logout", validateRequestBody(refreshTokenSchema), async (req, res) => {
   try {
-    const organization = await commercialStorage.getOrganization(parseInt(req.params.id));
+    await authService.logout(req.body.refreshToken);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to log out" });
+  }
+});
+
+// Organization Management
+router.get("/organizations/:id", authenticateToken, requirePermission('organization', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const requestedId = parseInt(req.params.id);
+    const organization = requestedId === orgId ? await commercialStorage.getOrganization(requestedId) : undefined;
     if (!organization) {
       return res.status(404).json({ error: "Organization not found" });
     }
@@ -33,12 +166,144 @@ router.get("/organizations/:id", requireAuth, async (req: AuthenticatedRequest,
   }
 });
 
+// Deal stage transition rules
+router.get("/settings/deal-stage-rules", authenticateToken, requirePermission('organization', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.getOrganization(req.user!.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getDealStageRules(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch deal stage rules" });
+  }
+});
+
+router.put("/settings/deal-stage-rules", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(dealStageRulesSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.updateOrganizationSettings(req.user!.organizationId, { dealStageRules: req.body }, req.user!.id);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getDealStageRules(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update deal stage rules" });
+  }
+});
+
+// Lead scoring rules
+router.get("/settings/lead-scoring", authenticateToken, requirePermission('organization', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.getOrganization(req.user!.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getLeadScoringRules(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch lead scoring rules" });
+  }
+});
+
+router.put("/settings/lead-scoring", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(leadScoringRulesSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.updateOrganizationSettings(req.user!.organizationId, { leadScoring: req.body }, req.user!.id);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getLeadScoringRules(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update lead scoring rules" });
+  }
+});
+
+// Lead assignment routing
+router.get("/settings/lead-assignment", authenticateToken, requirePermission('organization', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.getOrganization(req.user!.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getLeadAssignmentConfig(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch lead assignment settings" });
+  }
+});
+
+router.put("/settings/lead-assignment", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(leadAssignmentConfigSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const orgUserIds = new Set((await commercialStorage.getUsersByOrganization(orgId)).map(user => user.id));
+    if (req.body.rules.some((rule: { assignTo: number }) => !orgUserIds.has(rule.assignTo))) {
+      return res.status(404).json({ error: "Assigned user not found" });
+    }
+    const organization = await commercialStorage.updateOrganizationSettings(orgId, { leadAssignment: req.body }, req.user!.id);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getLeadAssignmentConfig(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update lead assignment settings" });
+  }
+});
+
+// Trash retention
+router.get("/settings/trash", authenticateToken, requirePermission('organization', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.getOrganization(req.user!.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getTrashSettings(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch trash settings" });
+  }
+});
+
+router.put("/settings/trash", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(trashSettingsSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.updateOrganizationSettings(req.user!.organizationId, { trash: req.body }, req.user!.id);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getTrashSettings(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update trash settings" });
+  }
+});
+
+router.get("/settings/forecast", authenticateToken, requirePermission('analytics', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.getOrganization(req.user!.organizationId);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getForecastSettings(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch forecast settings" });
+  }
+});
+
+router.put("/settings/forecast", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(forecastSettingsSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const organization = await commercialStorage.updateOrganizationSettings(req.user!.organizationId, { forecast: req.body }, req.user!.id);
+    if (!organization) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    res.json(getForecastSettings(organization.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update forecast settings" });
+  }
+});
+
 // User Management
-router.post("/users", validateRequestBody(insertUserSchema), async (req, res) => {
+router.post("/users", authenticateToken, requirePermission('users', 'create'), validateRequestBody(insertUserSchema), async (req: AuthenticatedRequest, res) => {
   try {
+    if (req.body.organizationId !== req.user!.organizationId) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
     const hashedPassword = await bcrypt.hash(req.body.password, 10);
     const userData = { ...req.body, password: hashedPassword };
-    const user = await commercialStorage.createUser(userData);
+    const user = await commercialStorage.createUser(userData, req.user!.id);
     const { password, ...userWithoutPassword } = user;
     res.json(userWithoutPassword);
   } catch (error) {
@@ -46,9 +311,13 @@ router.post("/users", validateRequestBody(insertUserSchema), async (req, res) =>
   }
 });
 
-router.get("/users/organization/:orgId", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get("/users/organization/:orgId", authenticateToken, requirePermission('users', 'read'), async (req: AuthenticatedRequest, res) => {
   try {
-    const users = await commercialStorage.getUsersByOrganization(parseInt(req.params.orgId));
+    const orgId = req.user!.organizationId;
+    if (parseInt(req.params.orgId) !== orgId) {
+      return res.status(404).json({ error: "Organization not found" });
+    }
+    const users = await commercialStorage.getUsersByOrganization(orgId);
     const usersWithoutPasswords = users.map(({ password, ...user }) => user);
     res.json(usersWithoutPasswords);
   } catch (error) {
@@ -56,80 +325,259 @@ router.get("/users/organization/:orgId", requireAuth, async (req: AuthenticatedR
   }
 });
 
-router.patch("/users/:id/role", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.patch("/users/:id/role", authenticateToken, requirePermission('users', 'manage'), async (req: AuthenticatedRequest, res) => {
   try {
     const { role } = req.body;
-    if (!role || !['admin', 'manager', 'sales_rep', 'user'].includes(role)) {
+    if (!role || !isRole(role)) {
       return res.status(400).json({ error: "Invalid role" });
     }
-    await commercialStorage.updateUserRole(parseInt(req.params.id), role);
+    const userId = parseInt(req.params.id);
+    if (userId === req.user!.id) {
+      return res.status(400).json({ error: "You cannot change your own role" });
+    }
+    const orgId = req.user!.organizationId;
+    const user = await commercialStorage.updateUserRole(userId, orgId, role, req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: "Failed to update user role" });
   }
 });
 
+// Personal reminder preferences of the signed-in user
+router.get("/users/me/reminders", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const user = await commercialStorage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(getReminderPreferences(user.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch reminder preferences" });
+  }
+});
+
+router.put("/users/me/reminders", authenticateToken, validateRequestBody(reminderPreferencesSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const user = await commercialStorage.updateUserSettings(req.user!.id, req.user!.organizationId, { reminders: req.body });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(getReminderPreferences(user.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update reminder preferences" });
+  }
+});
+
+router.get("/users/me/notification-preferences", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const user = await commercialStorage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(getNotificationPreferences(user.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch notification preferences" });
+  }
+});
+
+router.put("/users/me/notification-preferences", authenticateToken, validateRequestBody(notificationPreferencesSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const user = await commercialStorage.updateUserSettings(req.user!.id, req.user!.organizationId, { notifications: req.body });
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(getNotificationPreferences(user.settings));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update notification preferences" });
+  }
+});
+
 // Lead Management
-router.get("/leads", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get("/leads", authenticateToken, requirePermission('leads', 'read'), validateRequestQuery(leadListQuerySchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const leads = await commercialStorage.getLeads(orgId);
-    res.json(leads);
+    const orgId = req.user!.organizationId;
+    const query = req.query as unknown as LeadListQuery;
+    res.json(await commercialStorage.listLeads(orgId, query, visibleTo(req)));
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch leads" });
+    handleRouteError(res, error, "Failed to fetch leads");
   }
 });
 
-router.post("/leads", requireAuth, validateRequestBody(insertLeadSchema), async (req: AuthenticatedRequest, res) => {
+// Exports stream every record matching the list filters; see streamExport
+router.get("/leads/export", authenticateToken, requirePermission('leads', 'read'), validateRequestQuery(leadExportQuerySchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const leadData = { ...req.body, organizationId: orgId };
-    const lead = await commercialStorage.createLead(leadData);
-    res.json(lead);
+    const { format, ...query } = req.query as unknown as LeadListQuery & { format: ExportFormat };
+    const orgId = req.user!.organizationId;
+    const batches = await commercialStorage.exportLeads(orgId, query, visibleTo(req));
+    const columns = withCustomFieldColumns(EXPORT_COLUMNS.leads, await commercialStorage.getCustomFieldDefinitions(orgId, 'lead'));
+    await streamExport(res, 'leads', format, columns, batches);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to export leads");
+  }
+});
+
+router.post("/leads", authenticateToken, requirePermission('leads', 'create'), validateRequestBody(insertLeadSchema.omit({ organizationId: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    if (!canAssignTo(req, 'leads', req.body.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to assign leads" });
+    }
+    const leadData = { ...withDefaultAssignee(req, 'leads', req.body), organizationId: orgId };
+    const lead = await commercialStorage.createLead(leadData, req.user!.id);
+    const possibleDuplicates = await commercialStorage.findDuplicateLeads(orgId, lead, lead.id);
+    res.json({ ...lead, possibleDuplicates });
   } catch (error) {
-    res.status(500).json({ error: "Failed to create lead" });
+    handleRouteError(res, error, "Failed to create lead");
   }
 });
 
-router.patch("/leads/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.patch("/leads/:id", authenticateToken, requirePermission('leads', 'update'), validateRequestBody(updateLeadSchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const lead = await commercialStorage.updateLead(parseInt(req.params.id), req.body);
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getLead(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    if (!canAssignTo(req, 'leads', req.body.assignedTo, existing.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to reassign leads" });
+    }
+    const lead = await commercialStorage.updateLead(existing.id, orgId, req.body, req.user!.id);
     if (!lead) {
       return res.status(404).json({ error: "Lead not found" });
     }
     res.json(lead);
   } catch (error) {
-    res.status(500).json({ error: "Failed to update lead" });
+    handleRouteError(res, error, "Failed to update lead");
   }
 });
 
-router.post("/leads/:id/convert", requireAuth, validateRequestBody(insertCustomerSchema), async (req: AuthenticatedRequest, res) => {
+// Deleted leads go to the trash, from where admins can restore them until they are purged
+router.delete("/leads/:id", authenticateToken, requirePermission('leads', 'delete'), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const customerData = { ...req.body, organizationId: orgId };
-    const customer = await commercialStorage.convertLeadToCustomer(parseInt(req.params.id), customerData);
-    res.json(customer);
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getLead(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    const deleted = await commercialStorage.deleteLead(existing.id, orgId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete lead");
+  }
+});
+
+// Scores are recomputed automatically; this re-applies changed rules to every lead at once
+router.post("/leads/rescore", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const rescored = await commercialStorage.rescoreLeads(req.user!.organizationId);
+    res.json({ rescored });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to rescore leads" });
+  }
+});
+
+router.post("/leads/assign", authenticateToken, requirePermission('leads', 'reassign'), validateRequestBody(assignLeadsSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const assignments = await commercialStorage.assignLeads(req.user!.organizationId, req.body, req.user!.id);
+    res.json({ assigned: assignments.length, assignments });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to assign leads" });
+  }
+});
+
+router.get("/leads/:id/assignments", authenticateToken, requirePermission('leads', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const lead = await commercialStorage.getLead(parseInt(req.params.id), orgId);
+    if (!lead || !canAccessRecord(req.user!, req.permissionScope, lead)) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    res.json(await commercialStorage.getLeadAssignments(lead.id, orgId));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch lead assignments" });
+  }
+});
+
+router.get("/leads/:id/score", authenticateToken, requirePermission('leads', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const lead = await commercialStorage.getLead(parseInt(req.params.id), req.user!.organizationId);
+    if (!lead || !canAccessRecord(req.user!, req.permissionScope, lead)) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    res.json({ score: lead.score, breakdown: lead.scoreBreakdown, scoredAt: lead.scoredAt });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch lead score" });
+  }
+});
+
+router.post("/leads/:id/convert", authenticateToken, requirePermission('leads', 'update'), validateRequestBody(convertLeadSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const lead = await commercialStorage.getLead(parseInt(req.params.id), orgId);
+    if (!lead) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    const { customer, deal } = req.body;
+    if (!canAccessRecord(req.user!, req.permissionScope, lead) || !can(req.user!.role, 'customers', 'create') ||
+        (deal && !can(req.user!.role, 'deals', 'create'))) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    // The customer keeps the lead's owner unless another one is given
+    const customerData = withDefaultAssignee(req, 'customers', { ...customer, assignedTo: customer.assignedTo ?? lead.assignedTo });
+    if (!canAssignTo(req, 'customers', customerData.assignedTo, lead.assignedTo) ||
+        (deal && !canAssignTo(req, 'deals', deal.assignedTo, customerData.assignedTo))) {
+      return res.status(403).json({ error: "Insufficient permissions to assign customers" });
+    }
+    const conversion = await commercialStorage.convertLead(lead.id, orgId, { customer: customerData, deal }, req.user!.id);
+    if (!conversion) {
+      return res.status(404).json({ error: "Lead not found" });
+    }
+    res.json(conversion);
   } catch (error) {
-    res.status(500).json({ error: "Failed to convert lead" });
+    handleRouteError(res, error, "Failed to convert lead");
   }
 });
 
 // Enhanced Customer Management
-router.get("/customers", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get("/customers", authenticateToken, requirePermission('customers', 'read'), validateRequestQuery(customerListQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const query = req.query as unknown as CustomerListQuery;
+    res.json(await commercialStorage.listCustomers(orgId, query, visibleTo(req)));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch customers");
+  }
+});
+
+router.get("/customers/export", authenticateToken, requirePermission('customers', 'read'), validateRequestQuery(customerExportQuerySchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const customers = await commercialStorage.getCustomers(orgId);
-    res.json(customers);
+    const { format, ...query } = req.query as unknown as CustomerListQuery & { format: ExportFormat };
+    const orgId = req.user!.organizationId;
+    const batches = await commercialStorage.exportCustomers(orgId, query, visibleTo(req));
+    const columns = withCustomFieldColumns(EXPORT_COLUMNS.customers, await commercialStorage.getCustomFieldDefinitions(orgId, 'customer'));
+    await streamExport(res, 'customers', format, columns, batches);
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch customers" });
+    handleRouteError(res, error, "Failed to export customers");
   }
 });
 
-router.get("/customers/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get("/customers/:id", authenticateToken, requirePermission('customers', 'read'), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
+    const orgId = req.user!.organizationId;
     const customer = await commercialStorage.getCustomer(parseInt(req.params.id), orgId);
-    if (!customer) {
+    if (!customer || !canAccessRecord(req.user!, req.permissionScope, customer)) {
       return res.status(404).json({ error: "Customer not found" });
     }
     res.json(customer);
@@ -138,125 +586,1107 @@ router.get("/customers/:id", requireAuth, async (req: AuthenticatedRequest, res)
   }
 });
 
-router.post("/customers", requireAuth, validateRequestBody(insertCustomerSchema), async (req: AuthenticatedRequest, res) => {
+router.post("/customers", authenticateToken, requirePermission('customers', 'create'), validateRequestBody(insertCustomerSchema.omit({ organizationId: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    if (!canAssignTo(req, 'customers', req.body.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to assign customers" });
+    }
+    const customerData = { ...withDefaultAssignee(req, 'customers', req.body), organizationId: orgId };
+    const customer = await commercialStorage.createCustomer(customerData, req.user!.id);
+    const possibleDuplicates = await commercialStorage.findDuplicateCustomers(orgId, customer, customer.id);
+    res.json({ ...customer, possibleDuplicates });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create customer");
+  }
+});
+
+// Merging removes the duplicate, so it needs the 'delete' permission
+router.post("/customers/merge", authenticateToken, requirePermission('customers', 'delete'), validateRequestBody(mergeCustomersSchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const customerData = { ...req.body, organizationId: orgId };
-    const customer = await commercialStorage.createCustomer(customerData);
+    const result = await commercialStorage.mergeCustomers(req.user!.organizationId, req.body, req.user!.id);
+    if (!result) {
+      return res.status(404).json({ error: "Customer not found" });
+    }
+    res.json(result);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to merge customers");
+  }
+});
+
+router.patch("/customers/:id", authenticateToken, requirePermission('customers', 'update'), validateRequestBody(updateCustomerSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getCustomer(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Customer not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    if (!canAssignTo(req, 'customers', req.body.assignedTo, existing.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to reassign customers" });
+    }
+    const customer = await commercialStorage.updateCustomer(existing.id, orgId, req.body, req.user!.id);
+    if (!customer) {
+      return res.status(404).json({ error: "Customer not found" });
+    }
     res.json(customer);
   } catch (error) {
-    res.status(500).json({ error: "Failed to create customer" });
+    handleRouteError(res, error, "Failed to update customer");
   }
 });
 
-// Deal/Opportunity Management
-router.get("/deals", requireAuth, async (req: AuthenticatedRequest, res) => {
+// A customer's deals and activities go to the trash with it
+router.delete("/customers/:id", authenticateToken, requirePermission('customers', 'delete'), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const { stage } = req.query;
-    
-    let deals;
-    if (stage && typeof stage === 'string') {
-      deals = await commercialStorage.getDealsByStage(orgId, stage);
-    } else {
-      deals = await commercialStorage.getDeals(orgId);
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getCustomer(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Customer not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    const deleted = await commercialStorage.deleteCustomer(existing.id, orgId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Customer not found" });
     }
-    res.json(deals);
+    res.json({ success: true });
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch deals" });
+    handleRouteError(res, error, "Failed to delete customer");
   }
 });
 
-router.post("/deals", requireAuth, validateRequestBody(insertDealSchema), async (req: AuthenticatedRequest, res) => {
+// Pipeline Management
+router.get("/pipelines", authenticateToken, requirePermission('pipelines', 'read'), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const dealData = { ...req.body, organizationId: orgId };
-    const deal = await commercialStorage.createDeal(dealData);
-    res.json(deal);
+    const pipelines = await commercialStorage.getPipelines(req.user!.organizationId);
+    res.json(pipelines);
   } catch (error) {
-    res.status(500).json({ error: "Failed to create deal" });
+    res.status(500).json({ error: "Failed to fetch pipelines" });
   }
 });
 
-router.patch("/deals/:id", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.get("/pipelines/:id", authenticateToken, requirePermission('pipelines', 'read'), async (req: AuthenticatedRequest, res) => {
   try {
-    const deal = await commercialStorage.updateDeal(parseInt(req.params.id), req.body);
-    if (!deal) {
-      return res.status(404).json({ error: "Deal not found" });
+    const pipeline = await commercialStorage.getPipeline(parseInt(req.params.id), req.user!.organizationId);
+    if (!pipeline) {
+      return res.status(404).json({ error: "Pipeline not found" });
     }
-    res.json(deal);
+    res.json(pipeline);
   } catch (error) {
-    res.status(500).json({ error: "Failed to update deal" });
+    res.status(500).json({ error: "Failed to fetch pipeline" });
   }
 });
 
-// Activity Management
-router.get("/activities", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post("/pipelines", authenticateToken, requirePermission('pipelines', 'create'), validateRequestBody(insertPipelineSchema.omit({ organizationId: true })), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const { entityType, entityId } = req.query;
-    
-    let activities;
-    if (entityType && entityId) {
-      activities = await commercialStorage.getActivitiesByEntity(
-        entityType as 'customer' | 'lead' | 'deal', 
-        parseInt(entityId as string)
-      );
-    } else {
-      activities = await commercialStorage.getActivities(orgId);
+    const pipeline = await commercialStorage.createPipeline({ ...req.body, organizationId: req.user!.organizationId }, req.user!.id);
+    res.json(pipeline);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create pipeline");
+  }
+});
+
+router.patch("/pipelines/:id", authenticateToken, requirePermission('pipelines', 'update'), validateRequestBody(updatePipelineSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const pipeline = await commercialStorage.updatePipeline(parseInt(req.params.id), req.user!.organizationId, req.body, req.user!.id);
+    if (!pipeline) {
+      return res.status(404).json({ error: "Pipeline not found" });
     }
-    res.json(activities);
+    res.json(pipeline);
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch activities" });
+    handleRouteError(res, error, "Failed to update pipeline");
   }
 });
 
-router.post("/activities", requireAuth, validateRequestBody(insertActivitySchema), async (req: AuthenticatedRequest, res) => {
+router.delete("/pipelines/:id", authenticateToken, requirePermission('pipelines', 'delete'), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const userId = req.user?.id || 1; // Default for demo
-    const activityData = { 
-      ...req.body, 
-      organizationId: orgId,
-      createdBy: userId
-    };
-    const activity = await commercialStorage.createActivity(activityData);
-    res.json(activity);
+    const deleted = await commercialStorage.deletePipeline(parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Pipeline not found" });
+    }
+    res.json({ success: true });
   } catch (error) {
-    res.status(500).json({ error: "Failed to create activity" });
+    handleRouteError(res, error, "Failed to delete pipeline");
   }
 });
 
-// Analytics and Dashboard
-router.get("/dashboard/metrics", requireAuth, async (req: AuthenticatedRequest, res) => {
+// Custom Fields
+router.get("/custom-fields", authenticateToken, requirePermission('organization', 'read'), validateRequestQuery(customFieldDefinitionQuerySchema), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const metrics = await commercialStorage.getDashboardMetrics(orgId);
-    res.json(metrics);
+    const { entityType } = req.query as { entityType?: CustomFieldEntityType };
+    res.json(await commercialStorage.getCustomFieldDefinitions(req.user!.organizationId, entityType));
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch dashboard metrics" });
+    handleRouteError(res, error, "Failed to fetch custom fields");
   }
 });
 
-router.get("/sales-data", requireAuth, async (req: AuthenticatedRequest, res) => {
+const requireCustomFieldsPlan = requirePlanFeature('custom_fields', "Custom fields are not included in your plan");
+
+router.post("/custom-fields", authenticateToken, requirePermission('organization', 'manage'), requireCustomFieldsPlan, validateRequestBody(insertCustomFieldDefinitionSchema.omit({ organizationId: true })), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
-    const salesData = await commercialStorage.getSalesData(orgId);
-    res.json(salesData);
+    const definition = await commercialStorage.createCustomFieldDefinition({ ...req.body, organizationId: req.user!.organizationId }, req.user!.id);
+    res.json(definition);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create custom field");
+  }
+});
+
+router.patch("/custom-fields/:id", authenticateToken, requirePermission('organization', 'manage'), requireCustomFieldsPlan, validateRequestBody(updateCustomFieldDefinitionSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const definition = await commercialStorage.updateCustomFieldDefinition(parseInt(req.params.id), req.user!.organizationId, req.body, req.user!.id);
+    if (!definition) {
+      return res.status(404).json({ error: "Custom field not found" });
+    }
+    res.json(definition);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update custom field");
+  }
+});
+
+router.delete("/custom-fields/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await commercialStorage.deleteCustomFieldDefinition(parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Custom field not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete custom field");
+  }
+});
+
+// Deal/Opportunity Management
+router.get("/deals", authenticateToken, requirePermission('deals', 'read'), validateRequestQuery(dealListQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const query = req.query as unknown as DealListQuery;
+    res.json(await commercialStorage.listDeals(orgId, query, visibleTo(req)));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch deals");
+  }
+});
+
+router.get("/deals/export", authenticateToken, requirePermission('deals', 'read'), validateRequestQuery(dealExportQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { format, ...query } = req.query as unknown as DealListQuery & { format: ExportFormat };
+    const orgId = req.user!.organizationId;
+    const batches = await commercialStorage.exportDeals(orgId, query, visibleTo(req));
+    const columns = withCustomFieldColumns(EXPORT_COLUMNS.deals, await commercialStorage.getCustomFieldDefinitions(orgId, 'deal'));
+    await streamExport(res, 'deals', format, columns, batches);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to export deals");
+  }
+});
+
+router.post("/deals", authenticateToken, requirePermission('deals', 'create'), validateRequestBody(insertDealSchema.omit({ organizationId: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    if (!canAssignTo(req, 'deals', req.body.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to assign deals" });
+    }
+    const dealData = { ...withDefaultAssignee(req, 'deals', req.body), organizationId: orgId };
+    const deal = await commercialStorage.createDeal(dealData, req.user!.id);
+    res.json(deal);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create deal");
+  }
+});
+
+router.patch("/deals/:id", authenticateToken, requirePermission('deals', 'update'), validateRequestBody(updateDealRequestSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getDeal(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Deal not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    if (!canAssignTo(req, 'deals', req.body.assignedTo, existing.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to reassign deals" });
+    }
+    const { stageReason, ...dealData } = req.body;
+    const deal = await commercialStorage.updateDeal(existing.id, orgId, dealData, {
+      changedBy: req.user!.id,
+      reason: stageReason
+    });
+    if (!deal) {
+      return res.status(404).json({ error: "Deal not found" });
+    }
+    res.json(deal);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update deal");
+  }
+});
+
+router.delete("/deals/:id", authenticateToken, requirePermission('deals', 'delete'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getDeal(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Deal not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    const deleted = await commercialStorage.deleteDeal(existing.id, orgId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Deal not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete deal");
+  }
+});
+
+router.get("/deals/:id/history", authenticateToken, requirePermission('deals', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const deal = await commercialStorage.getDeal(parseInt(req.params.id), orgId);
+    if (!deal || !canAccessRecord(req.user!, req.permissionScope, deal)) {
+      return res.status(404).json({ error: "Deal not found" });
+    }
+    const history = await commercialStorage.getDealStageHistory(deal.id, orgId);
+    res.json(withStageDurations(history));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch deal history" });
+  }
+});
+
+// Activity Management
+router.get("/activities", authenticateToken, requirePermission('activities', 'read'), validateRequestQuery(activityListQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const query = req.query as unknown as ActivityListQuery;
+    res.json(await commercialStorage.listActivities(orgId, query, visibleTo(req)));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch activities");
+  }
+});
+
+router.get("/activities/export", authenticateToken, requirePermission('activities', 'read'), validateRequestQuery(activityExportQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { format, ...query } = req.query as unknown as ActivityListQuery & { format: ExportFormat };
+    const batches = await commercialStorage.exportActivities(req.user!.organizationId, query, visibleTo(req));
+    await streamExport(res, 'activities', format, EXPORT_COLUMNS.activities, batches);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to export activities");
+  }
+});
+
+router.post("/activities", authenticateToken, requirePermission('activities', 'create'), validateRequestBody(insertActivitySchema.omit({ organizationId: true, createdBy: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const userId = req.user!.id;
+    if (!canAssignTo(req, 'activities', req.body.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to assign activities" });
+    }
+    const notFound = await inaccessibleLink(req, req.body);
+    if (notFound) {
+      return res.status(404).json({ error: notFound });
+    }
+    const activityData = { 
+      ...req.body, 
+      organizationId: orgId,
+      createdBy: userId
+    };
+    const activity = await commercialStorage.createActivity(activityData);
+    res.json(activity);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create activity");
+  }
+});
+
+router.patch("/activities/:id", authenticateToken, requirePermission('activities', 'update'), validateRequestBody(updateActivitySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getActivity(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Activity not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    if (!canAssignTo(req, 'activities', req.body.assignedTo, existing.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to reassign activities" });
+    }
+    const notFound = await inaccessibleLink(req, req.body);
+    if (notFound) {
+      return res.status(404).json({ error: notFound });
+    }
+    const activity = await commercialStorage.updateActivity(existing.id, orgId, req.body, req.user!.id);
+    if (!activity) {
+      return res.status(404).json({ error: "Activity not found" });
+    }
+    res.json(activity);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update activity");
+  }
+});
+
+router.delete("/activities/:id", authenticateToken, requirePermission('activities', 'delete'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getActivity(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Activity not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    const deleted = await commercialStorage.deleteActivity(existing.id, orgId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Activity not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete activity");
+  }
+});
+
+router.post("/activities/:id/complete", authenticateToken, requirePermission('activities', 'update'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getActivity(parseInt(req.params.id), orgId);
+    if (!existing) {
+      return res.status(404).json({ error: "Activity not found" });
+    }
+    if (!canAccessRecord(req.user!, req.permissionScope, existing)) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    if (existing.status === 'completed') {
+      return res.status(409).json({ error: "Activity is already completed" });
+    }
+    const activity = await commercialStorage.updateActivity(existing.id, orgId, { status: 'completed' }, req.user!.id);
+    if (!activity) {
+      return res.status(404).json({ error: "Activity not found" });
+    }
+    res.json(activity);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to complete activity");
+  }
+});
+
+// Follow-up sequences
+router.get("/sequences", authenticateToken, requirePermission('sequences', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getSequences(req.user!.organizationId));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch sequences" });
+  }
+});
+
+router.get("/sequences/:id", authenticateToken, requirePermission('sequences', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const sequence = await commercialStorage.getSequence(parseInt(req.params.id), req.user!.organizationId);
+    if (!sequence) {
+      return res.status(404).json({ error: "Sequence not found" });
+    }
+    res.json(sequence);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch sequence" });
+  }
+});
+
+router.post("/sequences", authenticateToken, requirePermission('sequences', 'create'), validateRequestBody(insertSequenceSchema.omit({ organizationId: true, createdBy: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const sequence = await commercialStorage.createSequence({ ...req.body, createdBy: req.user!.id, organizationId: req.user!.organizationId });
+    res.json(sequence);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create sequence");
+  }
+});
+
+router.patch("/sequences/:id", authenticateToken, requirePermission('sequences', 'update'), validateRequestBody(updateSequenceSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const sequence = await commercialStorage.updateSequence(parseInt(req.params.id), req.user!.organizationId, req.body, req.user!.id);
+    if (!sequence) {
+      return res.status(404).json({ error: "Sequence not found" });
+    }
+    res.json(sequence);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update sequence");
+  }
+});
+
+// Enrolling creates activities, so it needs the activity permission and access to the lead or deal
+router.post("/sequences/:id/enroll", authenticateToken, requirePermission('activities', 'create'), validateRequestBody(enrollSequenceSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const { leadId, dealId } = req.body;
+    const resource: Resource = leadId !== undefined ? 'leads' : 'deals';
+    const record = leadId !== undefined ? await commercialStorage.getLead(leadId, orgId) : await commercialStorage.getDeal(dealId, orgId);
+    if (!record || !canAccessRecord(req.user!, getPermissionScope(req.user!.role, resource, 'read'), record)) {
+      return res.status(404).json({ error: leadId !== undefined ? "Lead not found" : "Deal not found" });
+    }
+    if (!canAssignTo(req, 'activities', req.body.assignedTo)) {
+      return res.status(403).json({ error: "Insufficient permissions to assign activities" });
+    }
+    const result = await commercialStorage.enrollInSequence(parseInt(req.params.id), orgId, req.body, req.user!.id);
+    if (!result) {
+      return res.status(404).json({ error: "Sequence not found" });
+    }
+    res.json(result);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to enroll in sequence");
+  }
+});
+
+router.get("/sequence-enrollments", authenticateToken, requirePermission('activities', 'read'), validateRequestQuery(sequenceEnrollmentQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as unknown as SequenceEnrollmentQuery;
+    res.json(await commercialStorage.getSequenceEnrollments(req.user!.organizationId, query, visibleTo(req)));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch sequence enrollments");
+  }
+});
+
+router.post("/sequence-enrollments/:id/stop", authenticateToken, requirePermission('activities', 'update'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const existing = await commercialStorage.getSequenceEnrollment(parseInt(req.params.id), orgId);
+    if (!existing || !canAccessRecord(req.user!, req.permissionScope, { assignedTo: existing.assignedTo, createdBy: existing.enrolledBy })) {
+      return res.status(404).json({ error: "Sequence enrollment not found" });
+    }
+    const enrollment = await commercialStorage.stopSequenceEnrollment(existing.id, orgId, req.user!.id);
+    if (!enrollment) {
+      return res.status(404).json({ error: "Sequence enrollment not found" });
+    }
+    res.json(enrollment);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to stop sequence enrollment");
+  }
+});
+
+// Outbound webhooks
+const requireWebhooksPlan = requirePlanFeature('webhooks', "Webhooks are not included in your plan");
+
+router.get("/webhooks", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getWebhookSubscriptions(req.user!.organizationId));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch webhooks" });
+  }
+});
+
+router.get("/webhooks/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const subscription = await commercialStorage.getWebhookSubscription(parseInt(req.params.id), req.user!.organizationId);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json(subscription);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch webhook" });
+  }
+});
+
+// The response is the only time the signing secret is shown
+router.post("/webhooks", authenticateToken, requirePermission('organization', 'manage'), requireWebhooksPlan, validateRequestBody(insertWebhookSubscriptionSchema.omit({ organizationId: true, createdBy: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const subscription = await commercialStorage.createWebhookSubscription({ ...req.body, createdBy: req.user!.id, organizationId: req.user!.organizationId });
+    res.json(subscription);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create webhook");
+  }
+});
+
+router.patch("/webhooks/:id", authenticateToken, requirePermission('organization', 'manage'), requireWebhooksPlan, validateRequestBody(updateWebhookSubscriptionSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const subscription = await commercialStorage.updateWebhookSubscription(parseInt(req.params.id), req.user!.organizationId, req.body, req.user!.id);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json(subscription);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update webhook");
+  }
+});
+
+router.delete("/webhooks/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await commercialStorage.deleteWebhookSubscription(parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete webhook");
+  }
+});
+
+// Sends a sample payload right away and answers with the logged delivery, whatever the receiver
+// replied. The receiver's response body is left out so the endpoint cannot be used to read pages.
+router.post("/webhooks/:id/test", authenticateToken, requirePermission('organization', 'manage'), requireWebhooksPlan, validateRequestBody(webhookTestSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const test = await commercialStorage.createTestWebhookDelivery(parseInt(req.params.id), req.user!.organizationId, req.body.event);
+    if (!test) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    const delivery = await deliverWebhook(test, false);
+    if (!delivery) {
+      return res.status(404).json({ error: "Webhook delivery not found" });
+    }
+    const { responseBody, ...result } = delivery;
+    res.json(result);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to send test webhook");
+  }
+});
+
+router.get("/webhook-deliveries", authenticateToken, requirePermission('organization', 'manage'), validateRequestQuery(webhookDeliveryQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as unknown as WebhookDeliveryQuery;
+    res.json(await commercialStorage.listWebhookDeliveries(req.user!.organizationId, query));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch webhook deliveries");
+  }
+});
+
+router.get("/webhook-deliveries/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const delivery = await commercialStorage.getWebhookDelivery(parseInt(req.params.id), req.user!.organizationId);
+    if (!delivery) {
+      return res.status(404).json({ error: "Webhook delivery not found" });
+    }
+    res.json(delivery);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch webhook delivery" });
+  }
+});
+
+// Queues the delivery's payload again; the new delivery is sent by the dispatcher within seconds
+router.post("/webhook-deliveries/:id/replay", authenticateToken, requirePermission('organization', 'manage'), requireWebhooksPlan, async (req: AuthenticatedRequest, res) => {
+  try {
+    const delivery = await commercialStorage.replayWebhookDelivery(parseInt(req.params.id), req.user!.organizationId);
+    if (!delivery) {
+      return res.status(404).json({ error: "Webhook delivery not found" });
+    }
+    res.status(202).json(delivery);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to replay webhook delivery");
+  }
+});
+
+// Web-to-lead forms
+router.get("/lead-forms", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getLeadForms(req.user!.organizationId));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch lead forms" });
+  }
+});
+
+router.get("/lead-forms/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const form = await commercialStorage.getLeadForm(parseInt(req.params.id), req.user!.organizationId);
+    if (!form) {
+      return res.status(404).json({ error: "Lead form not found" });
+    }
+    res.json(form);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch lead form" });
+  }
+});
+
+router.post("/lead-forms", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(insertLeadFormSchema.omit({ organizationId: true, createdBy: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const form = await commercialStorage.createLeadForm({ ...req.body, createdBy: req.user!.id, organizationId: req.user!.organizationId });
+    res.json(form);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create lead form");
+  }
+});
+
+router.patch("/lead-forms/:id", authenticateToken, requirePermission('organization', 'manage'), validateRequestBody(updateLeadFormSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const form = await commercialStorage.updateLeadForm(parseInt(req.params.id), req.user!.organizationId, req.body, req.user!.id);
+    if (!form) {
+      return res.status(404).json({ error: "Lead form not found" });
+    }
+    res.json(form);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update lead form");
+  }
+});
+
+router.delete("/lead-forms/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await commercialStorage.deleteLeadForm(parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Lead form not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete lead form");
+  }
+});
+
+// Public submission endpoint, posted to from the organization's own pages. Only the form's
+// origins may post (and read the response); other forms and disabled forms are not found.
+const allowFormOrigin = (res: Response, origin: string | undefined) => {
+  res.vary('Origin');
+  if (origin) {
+    res.set('Access-Control-Allow-Origin', origin);
+  }
+};
+
+router.options("/forms/:publicKey/submissions", async (req, res) => {
+  try {
+    const form = await commercialStorage.getLeadFormByPublicKey(req.params.publicKey);
+    const origin = requestOrigin(req.get('origin'), undefined);
+    if (!form || !form.isActive || !isOriginAllowed(form, origin)) {
+      return res.sendStatus(403);
+    }
+    allowFormOrigin(res, origin);
+    res.set({
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Max-Age': '86400',
+    });
+    res.sendStatus(204);
+  } catch (error) {
+    res.sendStatus(500);
+  }
+});
+
+router.post("/forms/:publicKey/submissions", formSubmissionLimiter, async (req, res) => {
+  try {
+    const form = await commercialStorage.getLeadFormByPublicKey(req.params.publicKey);
+    if (!form || !form.isActive) {
+      return res.status(404).json({ error: "Form not found" });
+    }
+    const origin = requestOrigin(req.get('origin'), req.get('referer'));
+    if (!isOriginAllowed(form, origin)) {
+      return res.status(403).json({ error: "Submissions from this origin are not allowed" });
+    }
+    allowFormOrigin(res, origin);
+
+    const body: Record<string, unknown> = req.body ?? {};
+    // Bots get the same answer as people, so they have no reason to try again
+    const respond = () => (form.redirectUrl && req.is('application/x-www-form-urlencoded')
+      ? res.redirect(303, form.redirectUrl)
+      : res.status(201).json({ success: true }));
+    if (isSpam(form, body)) {
+      await commercialStorage.recordLeadFormSpam(form.id);
+      return respond();
+    }
+
+    const definitions = await commercialStorage.getCustomFieldDefinitions(form.organizationId, 'lead');
+    const submission = mapSubmission(form, body, definitions);
+    if (!submission.data) {
+      return res.status(400).json({ error: "Validation failed", details: submission.errors });
+    }
+    await commercialStorage.submitLeadForm(form, submission.data);
+    respond();
+  } catch (error) {
+    handleRouteError(res, error, "Failed to submit form");
+  }
+});
+
+// Audit log of the organization, newest first; read-only for admins
+router.get("/audit-logs", authenticateToken, requirePermission('organization', 'manage'), validateRequestQuery(auditLogQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as unknown as AuditLogQuery;
+    res.json(await commercialStorage.listAuditLogs(req.user!.organizationId, query));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch audit log");
+  }
+});
+
+router.get("/audit-logs/export", authenticateToken, requirePermission('organization', 'manage'), validateRequestQuery(auditLogExportQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { format, ...query } = req.query as unknown as AuditLogQuery & { format: ExportFormat };
+    const batches = await commercialStorage.exportAuditLogs(req.user!.organizationId, query);
+    await streamExport(res, 'audit-log', format, EXPORT_COLUMNS.auditLogs, batches);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to export audit log");
+  }
+});
+
+// Trash of deleted leads, customers, deals and activities, by the path of their list
+const TRASH_PATHS: Record<string, { entityType: TrashEntityType; label: string }> = {
+  leads: { entityType: 'lead', label: 'Lead' },
+  customers: { entityType: 'customer', label: 'Customer' },
+  deals: { entityType: 'deal', label: 'Deal' },
+  activities: { entityType: 'activity', label: 'Activity' },
+};
+
+router.get("/trash/:type", authenticateToken, requirePermission('organization', 'manage'), validateRequestQuery(trashQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const trash = TRASH_PATHS[req.params.type];
+    if (!trash) {
+      return res.status(404).json({ error: "Unknown record type" });
+    }
+    const query = req.query as unknown as TrashQuery;
+    res.json(await commercialStorage.listTrash(req.user!.organizationId, trash.entityType, query));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch trash");
+  }
+});
+
+// Restores the record with whatever was deleted along with it
+router.post("/trash/:type/:id/restore", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const trash = TRASH_PATHS[req.params.type];
+    if (!trash) {
+      return res.status(404).json({ error: "Unknown record type" });
+    }
+    const record = await commercialStorage.restoreFromTrash(trash.entityType, parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!record) {
+      return res.status(404).json({ error: `${trash.label} not found in the trash` });
+    }
+    res.json(record);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to restore record");
+  }
+});
+
+// Purging cannot be undone
+router.delete("/trash/:type/:id", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const trash = TRASH_PATHS[req.params.type];
+    if (!trash) {
+      return res.status(404).json({ error: "Unknown record type" });
+    }
+    const purged = await commercialStorage.purgeFromTrash(trash.entityType, parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!purged) {
+      return res.status(404).json({ error: `${trash.label} not found in the trash` });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to purge record");
+  }
+});
+
+// Notifications of the signed-in user, newest first
+router.get("/notifications", authenticateToken, validateRequestQuery(notificationListQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const query = req.query as unknown as NotificationListQuery;
+    res.json(await commercialStorage.listNotifications(req.user!.id, req.user!.organizationId, query));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch notifications");
+  }
+});
+
+router.get("/notifications/unread-count", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json({ count: await commercialStorage.countUnreadNotifications(req.user!.id, req.user!.organizationId) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to count notifications" });
+  }
+});
+
+router.post("/notifications/read-all", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const updated = await commercialStorage.markAllNotificationsRead(req.user!.id, req.user!.organizationId);
+    res.json({ updated });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to mark notifications read");
+  }
+});
+
+router.post("/notifications/:id/read", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const notification = await commercialStorage.markNotificationRead(parseInt(req.params.id), req.user!.id, req.user!.organizationId);
+    if (!notification) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+    res.json(notification);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to mark notification read");
+  }
+});
+
+// Global search over the entity types the caller can read
+const SEARCH_RESOURCES: Record<SearchEntityType, Resource> = {
+  lead: 'leads',
+  customer: 'customers',
+  deal: 'deals',
+  activity: 'activities',
+};
+
+router.get("/search", authenticateToken, validateRequestQuery(searchQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const scopes: SearchScope[] = [];
+    for (const [entityType, resource] of Object.entries(SEARCH_RESOURCES) as [SearchEntityType, Resource][]) {
+      const scope = getPermissionScope(req.user!.role, resource, 'read');
+      if (scope) {
+        scopes.push({ entityType, visibleTo: scope === 'assigned' ? req.user!.id : undefined });
+      }
+    }
+    const results = await commercialStorage.search(orgId, req.query as unknown as SearchQuery, scopes);
+    res.json(results);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to search");
+  }
+});
+
+// Spreadsheet imports. Creating records is always required; updating duplicates also needs 'update'.
+// Callers who only see their own records import them assigned to themselves and only update those.
+const importContext = (req: AuthenticatedRequest, request: ImportRequest): ImportContext | undefined => {
+  const { role } = req.user!;
+  if (!can(role, request.entityType, 'create')) return undefined;
+  if (request.duplicateStrategy === 'update' && !can(role, request.entityType, 'update')) return undefined;
+  return {
+    organizationId: req.user!.organizationId,
+    userId: req.user!.id,
+    ownerId: getPermissionScope(role, request.entityType, 'read') === 'assigned' ? req.user!.id : undefined,
+  };
+};
+
+router.get("/imports", authenticateToken, validateRequestQuery(importJobListQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const createdBy = can(req.user!.role, 'organization', 'manage') ? undefined : req.user!.id;
+    res.json(await commercialStorage.listImportJobs(orgId, req.query as unknown as ListQuery, createdBy));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch imports");
+  }
+});
+
+router.post("/imports/preview", authenticateToken, validateRequestBody(importRequestSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const context = importContext(req, req.body);
+    if (!context) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    res.json(await previewImport(context, req.body));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to preview import");
+  }
+});
+
+// Responds 201 with the finished job for small files, 202 with a pending job to poll otherwise
+router.post("/imports", authenticateToken, validateRequestBody(importRequestSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const context = importContext(req, req.body);
+    if (!context) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+    const job = await startImport(context, req.body);
+    res.status(job.status === 'pending' || job.status === 'running' ? 202 : 201).json(job);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to start import");
+  }
+});
+
+router.get("/imports/:id", authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const job = await commercialStorage.getImportJob(parseInt(req.params.id), req.user!.organizationId);
+    if (!job || (job.createdBy !== req.user!.id && !can(req.user!.role, 'organization', 'manage'))) {
+      return res.status(404).json({ error: "Import not found" });
+    }
+    res.json(job);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch import");
+  }
+});
+
+// Analytics and Dashboard
+router.get("/dashboard/metrics", authenticateToken, requirePermission('analytics', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const metrics = await commercialStorage.getDashboardMetrics(orgId);
+    res.json(metrics);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch dashboard metrics" });
+  }
+});
+
+router.get("/sales-data", authenticateToken, requirePermission('analytics', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const salesData = await commercialStorage.getSalesData(orgId);
+    res.json(salesData);
   } catch (error) {
     res.status(500).json({ error: "Failed to fetch sales data" });
   }
 });
 
+// Revenue, deals and new customers by month or quarter, adjustments included
+router.get("/sales-data/rollup", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(salesDataRollupQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getSalesDataRollup(req.user!.organizationId, req.query as unknown as SalesDataRollupQuery));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch sales data rollup" });
+  }
+});
+
+router.post("/sales-data/adjustments", authenticateToken, requirePermission('analytics', 'create'), validateRequestBody(insertSalesAdjustmentSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const adjustment = await commercialStorage.createSalesAdjustment(req.user!.organizationId, req.body, req.user!.id);
+    res.status(201).json(adjustment);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create sales adjustment");
+  }
+});
+
+router.delete("/sales-data/adjustments/:id", authenticateToken, requirePermission('analytics', 'delete'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await commercialStorage.deleteSalesAdjustment(parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Sales adjustment not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete sales adjustment");
+  }
+});
+
+// Rebuilds the sales data of every won deal, e.g. after changing which stages are won
+router.post("/sales-data/backfill", authenticateToken, requirePermission('organization', 'manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.rebuildSalesData(req.user!.organizationId));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to rebuild sales data");
+  }
+});
+
+router.get("/sales-data/export", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(exportFormatSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { format } = req.query as unknown as { format: ExportFormat };
+    const batches = await commercialStorage.exportSalesData(req.user!.organizationId);
+    await streamExport(res, 'sales-data', format, EXPORT_COLUMNS.salesData, batches);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to export sales data");
+  }
+});
+
+// Forecasting
+router.get("/forecast", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(forecastQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getForecast(req.user!.organizationId, req.query as unknown as ForecastQuery));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to fetch forecast");
+  }
+});
+
+router.get("/forecast/snapshots", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(forecastSnapshotListQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.listForecastSnapshots(req.user!.organizationId, req.query as unknown as ForecastSnapshotListQuery));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch forecast snapshots" });
+  }
+});
+
+// Saves the forecast as it stands now, for the same parameters as GET /forecast
+router.post("/forecast/snapshots", authenticateToken, requirePermission('analytics', 'create'), validateRequestBody(insertForecastSnapshotSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const snapshot = await commercialStorage.createForecastSnapshot(req.user!.organizationId, req.body, req.user!.id);
+    res.status(201).json(snapshot);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to save forecast snapshot");
+  }
+});
+
+router.get("/forecast/snapshots/:id", authenticateToken, requirePermission('analytics', 'read'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const snapshot = await commercialStorage.getForecastSnapshot(parseInt(req.params.id), req.user!.organizationId);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Forecast snapshot not found" });
+    }
+    res.json(snapshot);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch forecast snapshot" });
+  }
+});
+
+// Compares with `against`, or by default with the latest snapshot of the same kind saved a week or more earlier
+router.get("/forecast/snapshots/:id/comparison", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(forecastComparisonQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const orgId = req.user!.organizationId;
+    const { against } = req.query as unknown as { against?: number };
+    const snapshot = await commercialStorage.getForecastSnapshot(parseInt(req.params.id), orgId);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Forecast snapshot not found" });
+    }
+    const previous = against !== undefined
+      ? await commercialStorage.getForecastSnapshot(against, orgId)
+      : await commercialStorage.findForecastSnapshotBefore(snapshot, comparisonCutoff(snapshot.createdAt));
+    if (!previous) {
+      return res.status(404).json({ error: against !== undefined ? "Forecast snapshot not found" : "No snapshot from a week earlier to compare with" });
+    }
+    res.json(compareForecasts(previous, snapshot));
+  } catch (error) {
+    handleRouteError(res, error, "Failed to compare forecast snapshots");
+  }
+});
+
+// Quotas and leaderboard
+router.get("/quotas", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(quotaQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getQuotas(req.user!.organizationId, req.query as unknown as QuotaQuery));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch quotas" });
+  }
+});
+
+// A quota without userId is the team's; periodStart may be any day of the period
+router.post("/quotas", authenticateToken, requirePermission('analytics', 'create'), validateRequestBody(insertQuotaSchema.omit({ organizationId: true, createdBy: true })), async (req: AuthenticatedRequest, res) => {
+  try {
+    const quota = await commercialStorage.createQuota({ ...req.body, createdBy: req.user!.id, organizationId: req.user!.organizationId });
+    res.status(201).json(quota);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to create quota");
+  }
+});
+
+router.patch("/quotas/:id", authenticateToken, requirePermission('analytics', 'update'), validateRequestBody(updateQuotaSchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const quota = await commercialStorage.updateQuota(parseInt(req.params.id), req.user!.organizationId, req.body, req.user!.id);
+    if (!quota) {
+      return res.status(404).json({ error: "Quota not found" });
+    }
+    res.json(quota);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to update quota");
+  }
+});
+
+router.delete("/quotas/:id", authenticateToken, requirePermission('analytics', 'delete'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await commercialStorage.deleteQuota(parseInt(req.params.id), req.user!.organizationId, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Quota not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    handleRouteError(res, error, "Failed to delete quota");
+  }
+});
+
+router.get("/leaderboard", authenticateToken, requirePermission('analytics', 'read'), validateRequestQuery(leaderboardQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    res.json(await commercialStorage.getLeaderboard(req.user!.organizationId, req.query as unknown as LeaderboardQuery));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch leaderboard" });
+  }
+});
+
+// Everything the organization holds, as a ZIP archive (data portability and offboarding)
+router.get("/exports/archive", authenticateToken, requirePermission('organization', 'manage'), validateRequestQuery(archiveExportQuerySchema), async (req: AuthenticatedRequest, res) => {
+  try {
+    const { format } = req.query as unknown as { format: ArchiveFormat };
+    await streamArchive(res, req.user!.organizationId, format);
+  } catch (error) {
+    handleRouteError(res, error, "Failed to export organization data");
+  }
+});
+
 // Subscription Management (Stripe integration placeholder)
-router.post("/subscription/create", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post("/subscription/create", authenticateToken, requirePermission('billing', 'manage'), async (req: AuthenticatedRequest, res) => {
   try {
     const { plan } = req.body;
-    const orgId = req.user?.organizationId || 1; // Default for demo
+    const orgId = req.user!.organizationId;
     
     // In a real implementation, this would integrate with Stripe
     // For now, we'll update the organization subscription status
-    await commercialStorage.updateOrganizationSubscription(orgId, plan, "active");
+    await commercialStorage.updateOrganizationSubscription(orgId, plan, "active", req.user!.id);
     
     res.json({ 
       success: true, 
@@ -268,12 +1698,12 @@ router.post("/subscription/create", requireAuth, async (req: AuthenticatedReques
   }
 });
 
-router.post("/subscription/cancel", requireAuth, async (req: AuthenticatedRequest, res) => {
+router.post("/subscription/cancel", authenticateToken, requirePermission('billing', 'manage'), async (req: AuthenticatedRequest, res) => {
   try {
-    const orgId = req.user?.organizationId || 1; // Default for demo
+    const orgId = req.user!.organizationId;
     
     // Update subscription status to cancelled
-    await commercialStorage.updateOrganizationSubscription(orgId, "starter", "cancelled");
+    await commercialStorage.updateOrganizationSubscription(orgId, "starter", "cancelled", req.user!.id);
     
     res.json({ 
       success: true, 
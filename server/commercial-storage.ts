@@ -1,52 +1,360 @@
 import { 
-  users, customers, organizations, leads, deals, activities, salesData,
-  type User, type InsertUser, type Customer, type InsertCustomer, 
+  users, customers, organizations, leads, deals, activities, salesData, refreshTokens, dealStageHistory,
+  pipelines, pipelineStages, DEFAULT_PIPELINE_STAGES, leadAssignments, recordMerges, importJobs, customFieldDefinitions,
+  notifications, sequences, sequenceSteps, sequenceEnrollments, webhookSubscriptions, webhookDeliveries, leadForms, auditLogs,
+  forecastSnapshots, quotas,
+  type User, type InsertUser, type Signup, type Customer, type InsertCustomer, 
   type Organization, type InsertOrganization, type Lead, type InsertLead,
   type Deal, type InsertDeal, type Activity, type InsertActivity,
-  type SalesData, type InsertSalesData
+  type SalesData, type InsertSalesData, type RefreshToken, type InsertRefreshToken,
+  type UpdateLead, type UpdateCustomer, type UpdateDeal, type UpdateActivity,
+  type DealStageHistory, type InsertPipeline, type UpdatePipeline, type PipelineWithStages,
+  type PipelineStageInput, type ConvertLead, type AssignLeads, type LeadAssignment,
+  type MergeCustomers, type RecordMerge, type Page, type ListQuery,
+  type LeadListQuery, type CustomerListQuery, type DealListQuery, type ActivityListQuery,
+  type SearchQuery, type SearchResponse, type SearchEntityType,
+  type ImportJob, type InsertImportJob, type ImportEntityType,
+  type CustomFieldDefinition, type InsertCustomFieldDefinition, type UpdateCustomFieldDefinition,
+  type CustomFieldEntityType, type CustomFieldFilters, type CustomFieldValues, type SortField,
+  type Notification, type InsertNotification, type NotificationListQuery,
+  type SequenceWithSteps, type SequenceStepInput, type InsertSequence, type UpdateSequence,
+  type SequenceEnrollment, type EnrollSequence, type SequenceEnrollmentQuery,
+  type WebhookEvent, type WebhookSubscription, type WebhookSubscriptionSummary, type InsertWebhookSubscription,
+  type UpdateWebhookSubscription, type WebhookDelivery, type WebhookDeliveryQuery,
+  type LeadForm, type InsertLeadForm, type UpdateLeadForm,
+  type AuditLog, type InsertAuditLog, type AuditLogQuery,
+  type TrashEntityType, type TrashQuery, type TrashedRecord, TRASH_ENTITY_TYPES,
+  type Forecast, type ForecastQuery, type ForecastSnapshot, type ForecastSnapshotListQuery,
+  type InsertForecastSnapshot, type Quota, type InsertQuota, type UpdateQuota, type QuotaQuery, type QuotaWithAttainment,
+  type Leaderboard, type LeaderboardQuery, type SalesDataRollup, type SalesDataRollupQuery, type InsertSalesAdjustment, type SalesDataBackfill,
+  contactSearchVector, searchVector, CUSTOM_FIELD_SORT_PREFIX
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { CustomError } from "./middleware/errorHandler";
+import { getLeadScoringRules, scoreLead } from "./lead-scoring";
+import { decideAssignment, getLeadAssignmentConfig, recordDecision, type AssignmentContext } from "./lead-assignment";
+import { findPossibleDuplicates, normalizeEmail, normalizePhone, type ContactFields, type PossibleDuplicate } from "./duplicates";
+import { findStage, getDealStageRules, isClosedStage, validateStageTransition } from "./deal-stages";
+import { orderGroups, searchTerms, toPrefixQuery, toResultGroup, type RankedRow } from "./search";
+import { afterCursor, assigneeCondition, orderByFor, rangeCondition, toPage, type ListFilters, type SortColumns } from "./list-query";
+import {
+  assertValidDefinition, customFieldConditions, customFieldSortColumns, validateCustomFields, MAX_CUSTOM_FIELDS
+} from "./custom-fields";
+import type { ReminderCandidate, ReminderPlan } from "./reminders";
+import { nextOccurrence, normalizeRecurrence } from "./recurrence";
+import { dealStageNotification, leadAssignedNotification, wantsNotification } from "./notifications";
+import { publish, publishNotifications } from "./notification-hub";
+import {
+  assertWebhookTarget, buildPayload, generateWebhookSecret, nextRetryDelay, SAMPLE_WEBHOOK_DATA, WEBHOOK_TIMEOUT_MS, type WebhookAttempt
+} from "./webhooks";
+import { assertValidFieldMapping, generateFormKey, mergeSubmission, type MappedSubmission } from "./lead-forms";
+import { asAuditedOrganization, auditCreate, auditDelete, auditPurge, auditTrash, auditUpdate } from "./audit";
+import { purgeCutoff } from "./trash";
+import { buildForecast, forecastPeriods, getForecastSettings, periodOf } from "./forecasting";
+import { buildLeaderboard, quotaPeriod, withAttainment, type ClosedDeal } from "./quotas";
+import { dealSalesData, rollUpSalesData, salesDataBucket } from "./sales-data";
+import { plansIncluding } from "./billing";
+import { eq, and, or, asc, desc, gte, lt, lte, sql, isNull, isNotNull, inArray, notInArray, ilike, ne, getTableColumns, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+
+// Leads in these statuses no longer count towards a rep's workload and are never re-routed
+const CLOSED_LEAD_STATUSES = ['converted', 'lost'];
+
+// Completing an activity stamps completedAt and reopening clears it; moving the due date or
+// reopening re-arms the activity's reminders
+const activityStateChanges = (existing: Activity | undefined, changes: UpdateActivity): Partial<Activity> => {
+  if (!existing) return {};
+  const stateChanges: Partial<Activity> = {};
+  if (changes.status !== undefined && changes.status !== existing.status) {
+    stateChanges.completedAt = changes.status === 'completed' ? new Date() : null;
+  }
+  const dueDateMoved = changes.dueDate !== undefined && (changes.dueDate?.getTime() ?? null) !== (existing.dueDate?.getTime() ?? null);
+  const reopened = changes.status === 'pending' && existing.status !== 'pending';
+  if (dueDateMoved || reopened) {
+    stateChanges.reminderSentAt = null;
+    stateChanges.overdueNotifiedAt = null;
+  }
+  return stateChanges;
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Columns behind the sort fields accepted by each list query schema
+const LEAD_SORT_COLUMNS: SortColumns = {
+  createdAt: leads.createdAt, updatedAt: leads.updatedAt, score: leads.score,
+  lastName: leads.lastName, company: leads.company, status: leads.status,
+};
+const CUSTOMER_SORT_COLUMNS: SortColumns = {
+  createdAt: customers.createdAt, updatedAt: customers.updatedAt, value: customers.value,
+  lastName: customers.lastName, company: customers.company, lastContact: customers.lastContact,
+};
+const DEAL_SORT_COLUMNS: SortColumns = {
+  createdAt: deals.createdAt, updatedAt: deals.updatedAt, value: deals.value,
+  expectedCloseDate: deals.expectedCloseDate, probability: deals.probability, title: deals.title,
+};
+const ACTIVITY_SORT_COLUMNS: SortColumns = {
+  createdAt: activities.createdAt, updatedAt: activities.updatedAt, dueDate: activities.dueDate,
+  completedAt: activities.completedAt, subject: activities.subject,
+};
+const IMPORT_JOB_SORT_COLUMNS: SortColumns = {
+  createdAt: importJobs.createdAt,
+};
+const NOTIFICATION_SORT_COLUMNS: SortColumns = {
+  createdAt: notifications.createdAt,
+};
+const WEBHOOK_DELIVERY_SORT_COLUMNS: SortColumns = {
+  createdAt: webhookDeliveries.createdAt,
+};
+const AUDIT_LOG_SORT_COLUMNS: SortColumns = {
+  createdAt: auditLogs.createdAt,
+};
+
+// Every subscription column but the secret, which is only returned on creation
+const { secret: _secret, ...WEBHOOK_SUBSCRIPTION_SUMMARY } = getTableColumns(webhookSubscriptions);
+
+// Pipelines and sequences are audited with their stages or steps, compared by content
+const pipelineSnapshot = (pipeline: PipelineWithStages) => ({
+  ...pipeline,
+  stages: pipeline.stages.map(({ id: _id, pipelineId: _pipelineId, organizationId: _organizationId, ...stage }) => stage),
+});
+const sequenceSnapshot = (sequence: SequenceWithSteps) => ({
+  ...sequence,
+  steps: sequence.steps.map(({ id: _id, sequenceId: _sequenceId, organizationId: _organizationId, ...step }) => step),
+});
+
+// Audit entries for deals or activities re-linked to another customer by a conversion or merge
+const movedToCustomer = (
+  entityType: 'deal' | 'activity',
+  rows: { id: number; organizationId: number; customerId: number | null }[],
+  customerId: number,
+  actorId?: number
+) => rows.map(row => auditUpdate(entityType, row, { ...row, customerId }, actorId));
+
+// Tables of the records that are deleted into the trash
+const TRASH_TABLES = { lead: leads, customer: customers, deal: deals, activity: activities };
+
+// Ids of trashed records to restore or purge together, by entity type
+type TrashBatch = Record<TrashEntityType, number[]>;
+const emptyTrashBatch = (): TrashBatch => ({ lead: [], customer: [], deal: [], activity: [] });
+
+// Records that carry custom field values, by the entity type of the definitions
+const CUSTOM_FIELD_TABLES = { lead: leads, customer: customers, deal: deals };
+
+// Exports read this many rows per query
+const EXPORT_BATCH_SIZE = 500;
+const OLDEST_FIRST = { sort: [{ field: 'createdAt', direction: 'asc' as const }] };
+const OLDEST_FIRST_CHANGES = { sort: [{ field: 'changedAt', direction: 'asc' as const }] };
+
+// Everything created or touched by converting a lead
+export interface LeadConversion {
+  lead: Lead;
+  customer: Customer;
+  deal?: Deal;
+  activitiesCarriedOver: number;
+}
+
+export interface SequenceEnrollmentResult {
+  enrollment: SequenceEnrollment;
+  activities: Activity[];
+}
+
+// Why an active sequence enrollment ended early
+export type EnrollmentStopReason = 'lead_converted' | 'deal_closed' | 'record_deleted' | 'manual';
+
+export interface CustomerMerge {
+  customer: Customer;
+  merge: RecordMerge;
+}
+
+// An entity type the caller may search, limited to one user's records for the 'assigned' scope
+export interface SearchScope {
+  entityType: SearchEntityType;
+  visibleTo?: number;
+}
+
+// Progress and outcome fields an import run writes back to its job
+export type ImportJobProgress = Partial<Omit<ImportJob, 'id' | 'organizationId' | 'createdBy' | 'createdAt'>>;
+
+// A delivery due to be sent with the subscription it goes to
+export interface DueWebhookDelivery {
+  delivery: WebhookDelivery;
+  subscription: WebhookSubscription;
+}
+
+// The lead a form submission created, or the open lead it was merged into
+export interface LeadFormResult {
+  lead: Lead;
+  merged: boolean;
+}
+
+// Who moved a deal and why, recorded in its stage history
+export interface DealStageChange {
+  changedBy?: number;
+  reason?: string;
+}
 
 export interface ICommercialStorage {
   // Organization management
-  createOrganization(org: InsertOrganization): Promise<Organization>;
+  createOrganizationWithAdmin(org: InsertOrganization, admin: Signup['user']): Promise<{ organization: Organization; user: User }>;
   getOrganization(id: number): Promise<Organization | undefined>;
-  updateOrganizationSubscription(id: number, plan: string, status: string): Promise<void>;
+  // changedBy (and the other trailing user ids) name the actor in the audit log; omitted for system changes
+  updateOrganizationSubscription(id: number, plan: string, status: string, changedBy?: number): Promise<void>;
+  updateOrganizationSettings(id: number, settings: Record<string, unknown>, changedBy?: number): Promise<Organization | undefined>;
   
   // Enhanced user management with roles
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser, createdBy?: number): Promise<User>;
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUsersByOrganization(orgId: number): Promise<User[]>;
-  updateUserRole(userId: number, role: string): Promise<void>;
+  updateUserRole(userId: number, orgId: number, role: string, changedBy?: number): Promise<User | undefined>;
+  updateUserSettings(userId: number, orgId: number, settings: Record<string, unknown>): Promise<User | undefined>;
+  recordUserLogin(userId: number): Promise<void>;
+  
+  // Refresh token sessions
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  rotateRefreshToken(id: number, replacement: InsertRefreshToken): Promise<RefreshToken | undefined>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
   
   // Lead management
   getLeads(orgId: number): Promise<Lead[]>;
-  createLead(lead: InsertLead): Promise<Lead>;
-  updateLead(id: number, lead: Partial<InsertLead>): Promise<Lead | undefined>;
-  convertLeadToCustomer(leadId: number, customerData: InsertCustomer): Promise<Customer>;
+  // visibleTo limits a list to the records of one user (the 'assigned' permission scope)
+  listLeads(orgId: number, query: LeadListQuery, visibleTo?: number): Promise<Page<Lead>>;
+  exportLeads(orgId: number, query: ListFilters<LeadListQuery>, visibleTo?: number): Promise<AsyncIterable<Lead[]>>;
+  createLead(lead: InsertLead, createdBy?: number): Promise<Lead>;
+  getLead(id: number, orgId: number): Promise<Lead | undefined>;
+  updateLead(id: number, orgId: number, lead: UpdateLead, updatedBy?: number): Promise<Lead | undefined>;
+  // Deleting moves the record, with the records that depend on it, to the trash
+  deleteLead(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  convertLead(leadId: number, orgId: number, conversion: ConvertLead, convertedBy?: number): Promise<LeadConversion | undefined>;
+  findDuplicateLeads(orgId: number, candidate: ContactFields, excludeId?: number): Promise<PossibleDuplicate[]>;
+  rescoreLead(leadId: number, orgId: number): Promise<Lead | undefined>;
+  rescoreLeads(orgId: number): Promise<number>;
+  assignLeads(orgId: number, request: AssignLeads, assignedBy?: number): Promise<LeadAssignment[]>;
+  getLeadAssignments(leadId: number, orgId: number): Promise<LeadAssignment[]>;
   
   // Enhanced customer management
   getCustomers(orgId: number): Promise<Customer[]>;
+  listCustomers(orgId: number, query: CustomerListQuery, visibleTo?: number): Promise<Page<Customer>>;
+  exportCustomers(orgId: number, query: ListFilters<CustomerListQuery>, visibleTo?: number): Promise<AsyncIterable<Customer[]>>;
   getCustomer(id: number, orgId: number): Promise<Customer | undefined>;
-  createCustomer(customer: InsertCustomer): Promise<Customer>;
-  updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer, createdBy?: number): Promise<Customer>;
+  updateCustomer(id: number, orgId: number, customer: UpdateCustomer, updatedBy?: number): Promise<Customer | undefined>;
+  deleteCustomer(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  findDuplicateCustomers(orgId: number, candidate: ContactFields, excludeId?: number): Promise<PossibleDuplicate[]>;
+  mergeCustomers(orgId: number, merge: MergeCustomers, mergedBy?: number): Promise<CustomerMerge | undefined>;
+  
+  // Pipeline management
+  getPipelines(orgId: number): Promise<PipelineWithStages[]>;
+  getPipeline(id: number, orgId: number): Promise<PipelineWithStages | undefined>;
+  getDefaultPipeline(orgId: number): Promise<PipelineWithStages>;
+  createPipeline(pipeline: InsertPipeline, createdBy?: number): Promise<PipelineWithStages>;
+  updatePipeline(id: number, orgId: number, pipeline: UpdatePipeline, updatedBy?: number): Promise<PipelineWithStages | undefined>;
+  deletePipeline(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  
+  // Custom field definitions
+  getCustomFieldDefinitions(orgId: number, entityType?: CustomFieldEntityType): Promise<CustomFieldDefinition[]>;
+  getCustomFieldDefinition(id: number, orgId: number): Promise<CustomFieldDefinition | undefined>;
+  createCustomFieldDefinition(definition: InsertCustomFieldDefinition, createdBy?: number): Promise<CustomFieldDefinition>;
+  updateCustomFieldDefinition(id: number, orgId: number, definition: UpdateCustomFieldDefinition, updatedBy?: number): Promise<CustomFieldDefinition | undefined>;
+  deleteCustomFieldDefinition(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
   
   // Deal/Opportunity management
   getDeals(orgId: number): Promise<Deal[]>;
-  getDealsByStage(orgId: number, stage: string): Promise<Deal[]>;
-  createDeal(deal: InsertDeal): Promise<Deal>;
-  updateDeal(id: number, deal: Partial<InsertDeal>): Promise<Deal | undefined>;
+  listDeals(orgId: number, query: DealListQuery, visibleTo?: number): Promise<Page<Deal>>;
+  exportDeals(orgId: number, query: ListFilters<DealListQuery>, visibleTo?: number): Promise<AsyncIterable<Deal[]>>;
+  getDealsByStage(orgId: number, stage: string, pipelineId?: number): Promise<Deal[]>;
+  createDeal(deal: InsertDeal, createdBy?: number): Promise<Deal>;
+  getDeal(id: number, orgId: number): Promise<Deal | undefined>;
+  updateDeal(id: number, orgId: number, deal: UpdateDeal, change?: DealStageChange): Promise<Deal | undefined>;
+  deleteDeal(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  getDealStageHistory(dealId: number, orgId: number): Promise<DealStageHistory[]>;
+  exportDealStageHistory(orgId: number): Promise<AsyncIterable<DealStageHistory[]>>;
   
   // Activity management
   getActivities(orgId: number): Promise<Activity[]>;
-  getActivitiesByEntity(entityType: 'customer' | 'lead' | 'deal', entityId: number): Promise<Activity[]>;
+  listActivities(orgId: number, query: ActivityListQuery, visibleTo?: number): Promise<Page<Activity>>;
+  exportActivities(orgId: number, query: ListFilters<ActivityListQuery>, visibleTo?: number): Promise<AsyncIterable<Activity[]>>;
+  getActivity(id: number, orgId: number): Promise<Activity | undefined>;
+  getActivitiesByEntity(orgId: number, entityType: 'customer' | 'lead' | 'deal', entityId: number): Promise<Activity[]>;
   createActivity(activity: InsertActivity): Promise<Activity>;
-  updateActivity(id: number, activity: Partial<InsertActivity>): Promise<Activity | undefined>;
+  updateActivity(id: number, orgId: number, activity: UpdateActivity, updatedBy?: number): Promise<Activity | undefined>;
+  deleteActivity(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  
+  // Follow-up sequences
+  getSequences(orgId: number): Promise<SequenceWithSteps[]>;
+  getSequence(id: number, orgId: number): Promise<SequenceWithSteps | undefined>;
+  createSequence(sequence: InsertSequence): Promise<SequenceWithSteps>;
+  updateSequence(id: number, orgId: number, sequence: UpdateSequence, updatedBy?: number): Promise<SequenceWithSteps | undefined>;
+  enrollInSequence(sequenceId: number, orgId: number, enrollment: EnrollSequence, enrolledBy: number): Promise<SequenceEnrollmentResult | undefined>;
+  getSequenceEnrollments(orgId: number, query: SequenceEnrollmentQuery, visibleTo?: number): Promise<SequenceEnrollment[]>;
+  getSequenceEnrollment(id: number, orgId: number): Promise<SequenceEnrollment | undefined>;
+  stopSequenceEnrollment(id: number, orgId: number, stoppedBy?: number): Promise<SequenceEnrollment | undefined>;
+  
+  // Notifications and activity reminders (the reminder queries span every organization)
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  listNotifications(userId: number, orgId: number, query: NotificationListQuery): Promise<Page<Notification>>;
+  countUnreadNotifications(userId: number, orgId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number, orgId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number, orgId: number): Promise<number>;
+  getLatestNotification(userId: number, type: string): Promise<Notification | undefined>;
+  getReminderCandidates(dueBefore: Date): Promise<ReminderCandidate[]>;
+  recordActivityReminders(plan: ReminderPlan, sentAt: Date): Promise<void>;
+  getDigestRecipients(): Promise<User[]>;
+  getPendingActivitiesFor(userId: number, orgId: number, dueBefore: Date): Promise<Activity[]>;
+
+  // Outbound webhooks (claiming due deliveries spans every organization)
+  getWebhookSubscriptions(orgId: number): Promise<WebhookSubscriptionSummary[]>;
+  getWebhookSubscription(id: number, orgId: number): Promise<WebhookSubscriptionSummary | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(
+    id: number, orgId: number, subscription: UpdateWebhookSubscription, updatedBy?: number
+  ): Promise<WebhookSubscriptionSummary | undefined>;
+  deleteWebhookSubscription(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  listWebhookDeliveries(orgId: number, query: WebhookDeliveryQuery): Promise<Page<WebhookDelivery>>;
+  getWebhookDelivery(id: number, orgId: number): Promise<WebhookDelivery | undefined>;
+  replayWebhookDelivery(id: number, orgId: number): Promise<WebhookDelivery | undefined>;
+  createTestWebhookDelivery(subscriptionId: number, orgId: number, event?: WebhookEvent): Promise<DueWebhookDelivery | undefined>;
+  claimDueWebhookDeliveries(now: Date, limit: number): Promise<DueWebhookDelivery[]>;
+  recordWebhookAttempt(id: number, attempt: WebhookAttempt, attemptedAt: Date, retry?: boolean): Promise<WebhookDelivery | undefined>;
+
+  // Web-to-lead forms (forms are looked up by public key across organizations)
+  getLeadForms(orgId: number): Promise<LeadForm[]>;
+  getLeadForm(id: number, orgId: number): Promise<LeadForm | undefined>;
+  getLeadFormByPublicKey(publicKey: string): Promise<LeadForm | undefined>;
+  createLeadForm(form: InsertLeadForm): Promise<LeadForm>;
+  updateLeadForm(id: number, orgId: number, form: UpdateLeadForm, updatedBy?: number): Promise<LeadForm | undefined>;
+  deleteLeadForm(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  submitLeadForm(form: LeadForm, submission: NonNullable<MappedSubmission['data']>): Promise<LeadFormResult>;
+  recordLeadFormSpam(id: number): Promise<void>;
+  
+  // Audit log (append-only: entries are written by the mutations above, never changed)
+  listAuditLogs(orgId: number, query: AuditLogQuery): Promise<Page<AuditLog>>;
+  exportAuditLogs(orgId: number, query: ListFilters<AuditLogQuery>): Promise<AsyncIterable<AuditLog[]>>;
+  
+  // Trash (purging expired records spans every organization)
+  listTrash(orgId: number, entityType: TrashEntityType, query: TrashQuery): Promise<Page<TrashedRecord>>;
+  restoreFromTrash(entityType: TrashEntityType, id: number, orgId: number, restoredBy?: number): Promise<TrashedRecord | undefined>;
+  purgeFromTrash(entityType: TrashEntityType, id: number, orgId: number, purgedBy?: number): Promise<boolean>;
+  purgeExpiredTrash(now: Date): Promise<number>;
+  
+  // Search
+  search(orgId: number, query: SearchQuery, scopes: SearchScope[]): Promise<SearchResponse>;
+  
+  // Imports
+  findRecordsByEmail(orgId: number, entityType: ImportEntityType, emails: string[]): Promise<{ id: number; email: string; assignedTo: number | null }[]>;
+  createImportJob(job: InsertImportJob): Promise<ImportJob>;
+  getImportJob(id: number, orgId: number): Promise<ImportJob | undefined>;
+  listImportJobs(orgId: number, query: ListQuery, createdBy?: number): Promise<Page<ImportJob>>;
+  updateImportJob(id: number, orgId: number, changes: ImportJobProgress): Promise<ImportJob | undefined>;
   
   // Analytics and reporting
   getSalesData(orgId: number): Promise<SalesData[]>;
+  getSalesDataRollup(orgId: number, query: SalesDataRollupQuery): Promise<SalesDataRollup[]>;
+  createSalesAdjustment(orgId: number, adjustment: InsertSalesAdjustment, createdBy?: number): Promise<SalesData>;
+  deleteSalesAdjustment(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  rebuildSalesData(orgId: number): Promise<SalesDataBackfill>;
+  exportSalesData(orgId: number): Promise<AsyncIterable<SalesData[]>>;
   getDashboardMetrics(orgId: number): Promise<{
     totalRevenue: number;
     totalDeals: number;
@@ -55,13 +363,34 @@ export interface ICommercialStorage {
     conversionRate: number;
     avgDealValue: number;
   }>;
+  getForecast(orgId: number, query: ForecastQuery, now?: Date): Promise<Forecast>;
+  createForecastSnapshot(orgId: number, snapshot: InsertForecastSnapshot, createdBy?: number): Promise<ForecastSnapshot>;
+  listForecastSnapshots(orgId: number, query: ForecastSnapshotListQuery): Promise<Page<ForecastSnapshot>>;
+  getForecastSnapshot(id: number, orgId: number): Promise<ForecastSnapshot | undefined>;
+  findForecastSnapshotBefore(snapshot: ForecastSnapshot, before: Date): Promise<ForecastSnapshot | undefined>;
+  
+  // Quotas and leaderboard
+  getQuotas(orgId: number, query: QuotaQuery): Promise<QuotaWithAttainment[]>;
+  createQuota(quota: InsertQuota): Promise<Quota>;
+  updateQuota(id: number, orgId: number, quota: UpdateQuota, updatedBy?: number): Promise<Quota | undefined>;
+  deleteQuota(id: number, orgId: number, deletedBy?: number): Promise<boolean>;
+  getLeaderboard(orgId: number, query: LeaderboardQuery, now?: Date): Promise<Leaderboard>;
 }
 
 export class DatabaseCommercialStorage implements ICommercialStorage {
   // Organization management
-  async createOrganization(insertOrg: InsertOrganization): Promise<Organization> {
-    const [org] = await db.insert(organizations).values(insertOrg).returning();
-    return org;
+  // The organization never exists without its admin, so nobody else can claim it
+  async createOrganizationWithAdmin(insertOrg: InsertOrganization, admin: Signup['user']): Promise<{ organization: Organization; user: User }> {
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values(insertOrg).returning();
+      const [user] = await tx.insert(users).values({ ...admin, role: 'admin', organizationId: organization.id }).returning();
+      await this.insertDefaultPipeline(tx, organization.id, user.id);
+      await this.audit(tx, [
+        auditCreate('organization', asAuditedOrganization(organization), user.id),
+        auditCreate('user', user, user.id),
+      ]);
+      return { organization, user };
+    });
   }
 
   async getOrganization(id: number): Promise<Organization | undefined> {
@@ -69,20 +398,48 @@ export class DatabaseCommercialStorage implements ICommercialStorage {
     return org || undefined;
   }
 
-  async updateOrganizationSubscription(id: number, plan: string, status: string): Promise<void> {
-    await db.update(organizations)
-      .set({ 
-        subscriptionPlan: plan, 
-        subscriptionStatus: status,
-        updatedAt: new Date()
-      })
-      .where(eq(organizations.id, id));
+  async updateOrganizationSubscription(id: number, plan: string, status: string, changedBy?: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(organizations).where(eq(organizations.id, id)).for('update');
+      if (!existing) return;
+      const [org] = await tx.update(organizations)
+        .set({ 
+          subscriptionPlan: plan, 
+          subscriptionStatus: status,
+          updatedAt: new Date()
+        })
+        .where(eq(organizations.id, id))
+        .returning();
+      await this.audit(tx, [auditUpdate('organization', asAuditedOrganization(existing), asAuditedOrganization(org), changedBy)]);
+    });
+  }
+
+  // Merges into the existing settings so unrelated keys are preserved
+  async updateOrganizationSettings(id: number, settings: Record<string, unknown>, changedBy?: number): Promise<Organization | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(organizations).where(eq(organizations.id, id)).for('update');
+      if (!existing) {
+        return undefined;
+      }
+      const [org] = await tx.update(organizations)
+        .set({
+          settings: { ...(existing.settings as Record<string, unknown> | null), ...settings },
+          updatedAt: new Date()
+        })
+        .where(eq(organizations.id, id))
+        .returning();
+      await this.audit(tx, [auditUpdate('organization', asAuditedOrganization(existing), asAuditedOrganization(org), changedBy)]);
+      return org || undefined;
+    });
   }
 
   // Enhanced user management
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+  async createUser(insertUser: InsertUser, createdBy?: number): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      await this.audit(tx, [auditCreate('user', user, createdBy)]);
+      return user;
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -99,103 +456,1117 @@ export class DatabaseCommercialStorage implements ICommercialStorage {
     return await db.select().from(users).where(eq(users.organizationId, orgId));
   }
 
-  async updateUserRole(userId: number, role: string): Promise<void> {
+  async updateUserRole(userId: number, orgId: number, role: string, changedBy?: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users)
+        .where(and(eq(users.id, userId), eq(users.organizationId, orgId)))
+        .for('update');
+      if (!existing) {
+        return undefined;
+      }
+      const [user] = await tx.update(users)
+        .set({ role, updatedAt: new Date() })
+        .where(and(eq(users.id, userId), eq(users.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('user', existing, user, changedBy)]);
+      return user || undefined;
+    });
+  }
+
+  // Users change their own settings, so they are the actor
+  async updateUserSettings(userId: number, orgId: number, settings: Record<string, unknown>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users)
+        .where(and(eq(users.id, userId), eq(users.organizationId, orgId)))
+        .for('update');
+      if (!existing) {
+        return undefined;
+      }
+      const [user] = await tx.update(users)
+        .set({
+          settings: { ...(existing.settings as Record<string, unknown> | null), ...settings },
+          updatedAt: new Date()
+        })
+        .where(and(eq(users.id, userId), eq(users.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('user', existing, user, userId)]);
+      return user || undefined;
+    });
+  }
+
+  async recordUserLogin(userId: number): Promise<void> {
     await db.update(users)
-      .set({ role, updatedAt: new Date() })
+      .set({ lastLoginAt: new Date() })
       .where(eq(users.id, userId));
   }
 
+  // Refresh token sessions
+  async createRefreshToken(insertToken: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await db.insert(refreshTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  // Revokes a token and stores its replacement; the conditional update locks the row, so of two
+  // concurrent rotations only the first gets a replacement and the other gets undefined
+  async rotateRefreshToken(id: number, replacement: InsertRefreshToken): Promise<RefreshToken | undefined> {
+    return await db.transaction(async (tx) => {
+      const [revoked] = await tx.update(refreshTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+        .returning({ id: refreshTokens.id });
+      if (!revoked) return undefined;
+
+      const [token] = await tx.insert(refreshTokens).values(replacement).returning();
+      await tx.update(refreshTokens).set({ replacedBy: token.id }).where(eq(refreshTokens.id, id));
+      return token;
+    });
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await db.update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+  }
+
   // Lead management
   async getLeads(orgId: number): Promise<Lead[]> {
     return await db.select().from(leads)
-      .where(eq(leads.organizationId, orgId))
+      .where(and(eq(leads.organizationId, orgId), isNull(leads.deletedAt)))
       .orderBy(desc(leads.createdAt));
   }
 
-  async createLead(insertLead: InsertLead): Promise<Lead> {
-    const [lead] = await db.insert(leads).values(insertLead).returning();
-    return lead;
+  async listLeads(orgId: number, query: LeadListQuery, visibleTo?: number): Promise<Page<Lead>> {
+    const custom = await this.customFieldQuery(orgId, 'lead', query);
+    return await this.listPage<Lead>(leads, leads.id, { ...LEAD_SORT_COLUMNS, ...custom.sortColumns }, query, [
+      ...this.leadFilters(orgId, query, visibleTo), ...custom.conditions,
+    ]);
   }
 
-  async updateLead(id: number, leadData: Partial<InsertLead>): Promise<Lead | undefined> {
-    const [lead] = await db.update(leads)
-      .set({ ...leadData, updatedAt: new Date() })
-      .where(eq(leads.id, id))
-      .returning();
+  async exportLeads(orgId: number, query: ListFilters<LeadListQuery>, visibleTo?: number): Promise<AsyncIterable<Lead[]>> {
+    const custom = await this.customFieldQuery(orgId, 'lead', query);
+    return this.exportBatches<Lead>(leads, leads.id, { ...LEAD_SORT_COLUMNS, ...custom.sortColumns }, query, [
+      ...this.leadFilters(orgId, query, visibleTo), ...custom.conditions,
+    ]);
+  }
+
+  private leadFilters(orgId: number, query: ListFilters<LeadListQuery>, visibleTo?: number): (SQL | undefined)[] {
+    return [
+      eq(leads.organizationId, orgId),
+      isNull(leads.deletedAt),
+      visibleTo !== undefined ? or(eq(leads.assignedTo, visibleTo), eq(leads.createdBy, visibleTo)) : undefined,
+      query.status && inArray(leads.status, query.status),
+      query.source && inArray(leads.source, query.source),
+      assigneeCondition(leads.assignedTo, query.assignedTo),
+      rangeCondition(leads.createdAt, query.createdFrom, query.createdTo),
+      query.scoreMin !== undefined ? gte(leads.score, query.scoreMin) : undefined,
+      query.scoreMax !== undefined ? lte(leads.score, query.scoreMax) : undefined,
+    ];
+  }
+
+  async getLead(id: number, orgId: number): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads)
+      .where(and(eq(leads.id, id), eq(leads.organizationId, orgId), isNull(leads.deletedAt)));
     return lead || undefined;
   }
 
-  async convertLeadToCustomer(leadId: number, customerData: InsertCustomer): Promise<Customer> {
-    const [customer] = await db.insert(customers)
-      .values({ ...customerData, convertedFromLead: leadId })
+  async createLead(insertLead: InsertLead, createdBy?: number): Promise<Lead> {
+    await this.assertReferencesInOrganization(insertLead.organizationId, { assignedTo: insertLead.assignedTo });
+    const customFields = await this.customFieldValues(insertLead.organizationId, 'lead', insertLead.customFields);
+    const lead = await db.transaction(async (tx) => {
+      const [lead] = await tx.insert(leads).values({ ...insertLead, customFields, createdBy }).returning();
+      await this.audit(tx, [auditCreate('lead', lead, createdBy)]);
+      return lead;
+    });
+    // Leads created without an owner are routed straight away
+    if (!lead.assignedTo) {
+      await this.routeLeads(lead.organizationId, [lead]);
+    } else if (lead.assignedTo !== createdBy) {
+      await this.createNotification(leadAssignedNotification(lead, lead.assignedTo));
+    }
+    const created = (await this.rescoreLead(lead.id, lead.organizationId)) ?? lead;
+    await this.queueWebhookEvent(db, created.organizationId, 'lead.created', { lead: created });
+    return created;
+  }
+
+  async updateLead(id: number, orgId: number, leadData: UpdateLead, updatedBy?: number): Promise<Lead | undefined> {
+    await this.assertReferencesInOrganization(orgId, { assignedTo: leadData.assignedTo });
+    const existing = leadData.customFields ? await this.getLead(id, orgId) : undefined;
+    const customFields = existing && leadData.customFields && await this.customFieldValues(orgId, 'lead', leadData.customFields, existing.customFields);
+    const { lead, realtime } = await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leads)
+        .where(and(eq(leads.id, id), eq(leads.organizationId, orgId), isNull(leads.deletedAt)))
+        .for('update');
+      if (!before) {
+        return { lead: undefined, realtime: [] };
+      }
+      const [updated] = await tx.update(leads)
+        .set({ ...leadData, customFields, updatedAt: new Date() })
+        .where(and(eq(leads.id, id), eq(leads.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('lead', before, updated, updatedBy)]);
+      if (updated.status === 'converted') {
+        await this.stopEnrollments(tx, orgId, eq(sequenceEnrollments.leadId, updated.id), 'lead_converted', updatedBy);
+      }
+      const reassigned = updated.assignedTo && updated.assignedTo !== before.assignedTo && updated.assignedTo !== updatedBy;
+      const stored = reassigned ? await this.storeNotifications(tx, [leadAssignedNotification(updated, updated.assignedTo!)]) : undefined;
+      return { lead: updated, realtime: stored?.realtime ?? [] };
+    });
+    publishNotifications(realtime);
+    return lead ? await this.rescoreLead(lead.id, orgId) : undefined;
+  }
+
+  // The lead's activities go to the trash with it, except those carried over to a customer, and
+  // its sequence enrollments are stopped
+  async deleteLead(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deletion = { deletedAt: new Date(), deletedBy: deletedBy ?? null };
+      const [lead] = await this.setTrashed(tx, 'lead', and(eq(leads.id, id), eq(leads.organizationId, orgId)), deletion, deletedBy);
+      if (!lead) {
+        return false;
+      }
+      await this.stopEnrollments(tx, orgId, eq(sequenceEnrollments.leadId, id), 'record_deleted', deletedBy);
+      await this.setTrashed(tx, 'activity', and(
+        eq(activities.organizationId, orgId), eq(activities.leadId, id), isNull(activities.customerId)
+      ), deletion, deletedBy);
+      return true;
+    });
+  }
+
+  async findDuplicateLeads(orgId: number, candidate: ContactFields, excludeId?: number): Promise<PossibleDuplicate[]> {
+    const conditions = [eq(leads.organizationId, orgId), isNull(leads.deletedAt), this.duplicateFilter(leads, candidate)];
+    if (excludeId) {
+      conditions.push(ne(leads.id, excludeId));
+    }
+    const matches = await db.select().from(leads).where(and(...conditions));
+    return findPossibleDuplicates(candidate, matches);
+  }
+
+  // Recomputes the score from the organization's rules and stores the explanation next to it
+  async rescoreLead(leadId: number, orgId: number): Promise<Lead | undefined> {
+    const lead = await this.getLead(leadId, orgId);
+    if (!lead) {
+      return undefined;
+    }
+    const org = await this.getOrganization(orgId);
+    const leadActivities = await this.getActivitiesByEntity(orgId, 'lead', leadId);
+    const { score, breakdown } = scoreLead(lead, leadActivities, getLeadScoringRules(org?.settings));
+    const [scored] = await db.update(leads)
+      .set({ score, scoreBreakdown: breakdown, scoredAt: new Date() })
+      .where(and(eq(leads.id, leadId), eq(leads.organizationId, orgId)))
       .returning();
-    
-    // Update lead status to converted
-    await this.updateLead(leadId, { status: 'converted' });
-    
-    return customer;
+    return scored || undefined;
+  }
+
+  async rescoreLeads(orgId: number): Promise<number> {
+    const org = await this.getOrganization(orgId);
+    const rules = getLeadScoringRules(org?.settings);
+    const orgLeads = await this.getLeads(orgId);
+    const leadActivities = await db.select().from(activities)
+      .where(and(eq(activities.organizationId, orgId), isNotNull(activities.leadId), isNull(activities.deletedAt)));
+
+    const scoredAt = new Date();
+    for (const lead of orgLeads) {
+      const { score, breakdown } = scoreLead(lead, leadActivities.filter(activity => activity.leadId === lead.id), rules, scoredAt);
+      await db.update(leads)
+        .set({ score, scoreBreakdown: breakdown, scoredAt })
+        .where(and(eq(leads.id, lead.id), eq(leads.organizationId, orgId)));
+    }
+    return orgLeads.length;
+  }
+
+  async assignLeads(orgId: number, request: AssignLeads, assignedBy?: number): Promise<LeadAssignment[]> {
+    const conditions = [eq(leads.organizationId, orgId), isNull(leads.deletedAt), notInArray(leads.status, CLOSED_LEAD_STATUSES)];
+    if (request.leadIds) {
+      if (request.leadIds.length === 0) return [];
+      conditions.push(inArray(leads.id, request.leadIds));
+    }
+    if (request.onlyUnassigned) {
+      conditions.push(isNull(leads.assignedTo));
+    }
+    const candidates = await db.select().from(leads)
+      .where(and(...conditions))
+      .orderBy(asc(leads.createdAt));
+    return await this.routeLeads(orgId, candidates, assignedBy);
+  }
+
+  async getLeadAssignments(leadId: number, orgId: number): Promise<LeadAssignment[]> {
+    return await db.select().from(leadAssignments)
+      .where(and(eq(leadAssignments.leadId, leadId), eq(leadAssignments.organizationId, orgId)))
+      .orderBy(desc(leadAssignments.createdAt));
+  }
+
+  private async routeLeads(orgId: number, candidates: Lead[], assignedBy?: number): Promise<LeadAssignment[]> {
+    const org = await this.getOrganization(orgId);
+    const config = getLeadAssignmentConfig(org?.settings);
+    if (config.mode === 'none' || candidates.length === 0) {
+      return [];
+    }
+
+    const context = await this.loadAssignmentContext(orgId);
+    const assignments: LeadAssignment[] = [];
+    for (const lead of candidates) {
+      const decision = decideAssignment(lead, config, context);
+      if (!decision || decision.assignedTo === lead.assignedTo) {
+        continue;
+      }
+      const { assignment, realtime } = await db.transaction(async (tx) => {
+        await tx.update(leads)
+          .set({ assignedTo: decision.assignedTo, updatedAt: new Date() })
+          .where(and(eq(leads.id, lead.id), eq(leads.organizationId, orgId)));
+        await this.audit(tx, [auditUpdate('lead', lead, { ...lead, assignedTo: decision.assignedTo }, assignedBy)]);
+        const [record] = await tx.insert(leadAssignments).values({
+          leadId: lead.id,
+          assignedTo: decision.assignedTo,
+          previousAssignee: lead.assignedTo,
+          method: decision.method,
+          reason: decision.reason,
+          assignedBy: assignedBy ?? null,
+          organizationId: orgId
+        }).returning();
+        const notified = decision.assignedTo === assignedBy ? [] : [leadAssignedNotification(lead, decision.assignedTo)];
+        return { assignment: record, realtime: (await this.storeNotifications(tx, notified)).realtime };
+      });
+      publishNotifications(realtime);
+      recordDecision(context, decision, lead.assignedTo);
+      assignments.push(assignment);
+    }
+    return assignments;
+  }
+
+  private async loadAssignmentContext(orgId: number): Promise<AssignmentContext> {
+    const activeUsers = (await this.getUsersByOrganization(orgId)).filter(user => user.isActive);
+    const openLeads = await db.select({ assignedTo: leads.assignedTo, count: sql<number>`count(*)` }).from(leads)
+      .where(and(
+        eq(leads.organizationId, orgId),
+        isNull(leads.deletedAt),
+        isNotNull(leads.assignedTo),
+        notInArray(leads.status, CLOSED_LEAD_STATUSES)
+      ))
+      .groupBy(leads.assignedTo);
+    const [lastRoundRobin] = await db.select({ assignedTo: leadAssignments.assignedTo }).from(leadAssignments)
+      .where(and(eq(leadAssignments.organizationId, orgId), eq(leadAssignments.method, 'round_robin')))
+      .orderBy(desc(leadAssignments.id))
+      .limit(1);
+
+    return {
+      salesReps: activeUsers.filter(user => user.role === 'sales_rep').map(user => user.id).sort((a, b) => a - b),
+      activeUserIds: new Set(activeUsers.map(user => user.id)),
+      openLeadCounts: new Map(openLeads.map(row => [row.assignedTo!, Number(row.count)])),
+      lastRoundRobinUserId: lastRoundRobin?.assignedTo ?? null
+    };
+  }
+
+  async convertLead(leadId: number, orgId: number, conversion: ConvertLead, convertedBy?: number): Promise<LeadConversion | undefined> {
+    const lead = await this.getLead(leadId, orgId);
+    if (!lead) {
+      return undefined;
+    }
+    await this.assertReferencesInOrganization(orgId, { assignedTo: conversion.customer.assignedTo });
+    await this.assertReferencesInOrganization(orgId, { assignedTo: conversion.deal?.assignedTo });
+    await this.assertCustomerEmailAvailable(orgId, conversion.customer.email ?? lead.email);
+    // Leads and customers have their own field definitions, so values are not carried over
+    const customerFields = await this.customFieldValues(orgId, 'customer', conversion.customer.customFields);
+    const dealValues = conversion.deal
+      ? await this.withPipelineStage({
+          ...conversion.deal,
+          customFields: await this.customFieldValues(orgId, 'deal', conversion.deal.customFields),
+          organizationId: orgId
+        })
+      : undefined;
+
+    return await db.transaction(async (tx) => {
+      // Lock the lead so two concurrent conversions cannot both pass the check below
+      const [current] = await tx.select().from(leads)
+        .where(and(eq(leads.id, leadId), eq(leads.organizationId, orgId), isNull(leads.deletedAt)))
+        .for('update');
+      if (!current) {
+        throw new CustomError("Lead not found", 404);
+      }
+      const [existingCustomer] = await tx.select({ id: customers.id }).from(customers)
+        .where(and(eq(customers.convertedFromLead, leadId), eq(customers.organizationId, orgId)));
+      // The customer the lead became may since have been merged into another one
+      const [mergedCustomer] = await tx.select({ id: recordMerges.id }).from(recordMerges)
+        .where(and(
+          eq(recordMerges.entityType, 'customer'),
+          eq(recordMerges.organizationId, orgId),
+          sql`(${recordMerges.mergedRecord}->>'convertedFromLead')::integer = ${leadId}`
+        ));
+      if (current.status === 'converted' || existingCustomer || mergedCustomer) {
+        throw new CustomError("Lead has already been converted", 409);
+      }
+
+      const [customer] = await tx.insert(customers).values({
+        firstName: current.firstName,
+        lastName: current.lastName,
+        email: current.email,
+        phone: current.phone,
+        company: current.company,
+        jobTitle: current.jobTitle,
+        assignedTo: current.assignedTo,
+        ...conversion.customer,
+        customFields: customerFields,
+        organizationId: orgId,
+        convertedFromLead: leadId,
+        createdBy: convertedBy
+      }).returning();
+
+      const deal = dealValues
+        ? await this.insertDealWithHistory(tx, {
+            ...dealValues,
+            customerId: customer.id,
+            assignedTo: dealValues.assignedTo ?? customer.assignedTo
+          }, convertedBy)
+        : undefined;
+
+      // The lead's activities stay linked to the lead and now also show up on the customer
+      const activityLinks = { id: activities.id, organizationId: activities.organizationId, customerId: activities.customerId };
+      const carried = and(eq(activities.leadId, leadId), eq(activities.organizationId, orgId), isNull(activities.deletedAt));
+      const carriedActivities = await tx.select(activityLinks).from(activities).where(carried);
+      await tx.update(activities)
+        .set({ customerId: customer.id, updatedAt: new Date() })
+        .where(carried);
+
+      const [convertedLead] = await tx.update(leads)
+        .set({ status: 'converted', updatedAt: new Date() })
+        .where(and(eq(leads.id, leadId), eq(leads.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [
+        auditCreate('customer', customer, convertedBy),
+        ...movedToCustomer('activity', carriedActivities, customer.id, convertedBy),
+        auditUpdate('lead', current, convertedLead, convertedBy),
+      ]);
+      await this.stopEnrollments(tx, orgId, eq(sequenceEnrollments.leadId, leadId), 'lead_converted', convertedBy);
+      await this.queueWebhookEvent(tx, orgId, 'lead.converted', { lead: convertedLead, customer, deal: deal ?? null });
+
+      return { lead: convertedLead, customer, deal, activitiesCarriedOver: carriedActivities.length };
+    });
   }
 
   // Enhanced customer management
   async getCustomers(orgId: number): Promise<Customer[]> {
     return await db.select().from(customers)
-      .where(eq(customers.organizationId, orgId))
+      .where(and(eq(customers.organizationId, orgId), isNull(customers.deletedAt)))
       .orderBy(desc(customers.createdAt));
   }
 
+  async listCustomers(orgId: number, query: CustomerListQuery, visibleTo?: number): Promise<Page<Customer>> {
+    const custom = await this.customFieldQuery(orgId, 'customer', query);
+    return await this.listPage<Customer>(customers, customers.id, { ...CUSTOMER_SORT_COLUMNS, ...custom.sortColumns }, query, [
+      ...this.customerFilters(orgId, query, visibleTo), ...custom.conditions,
+    ]);
+  }
+
+  async exportCustomers(orgId: number, query: ListFilters<CustomerListQuery>, visibleTo?: number): Promise<AsyncIterable<Customer[]>> {
+    const custom = await this.customFieldQuery(orgId, 'customer', query);
+    return this.exportBatches<Customer>(customers, customers.id, { ...CUSTOMER_SORT_COLUMNS, ...custom.sortColumns }, query, [
+      ...this.customerFilters(orgId, query, visibleTo), ...custom.conditions,
+    ]);
+  }
+
+  private customerFilters(orgId: number, query: ListFilters<CustomerListQuery>, visibleTo?: number): (SQL | undefined)[] {
+    return [
+      eq(customers.organizationId, orgId),
+      isNull(customers.deletedAt),
+      visibleTo !== undefined ? or(eq(customers.assignedTo, visibleTo), eq(customers.createdBy, visibleTo)) : undefined,
+      query.status && inArray(customers.status, query.status),
+      assigneeCondition(customers.assignedTo, query.assignedTo),
+      query.company ? ilike(customers.company, `%${query.company.replace(/[%_]/g, '')}%`) : undefined,
+      rangeCondition(customers.createdAt, query.createdFrom, query.createdTo),
+      rangeCondition(customers.value, query.valueMin, query.valueMax),
+    ];
+  }
+
   async getCustomer(id: number, orgId: number): Promise<Customer | undefined> {
     const [customer] = await db.select().from(customers)
-      .where(and(eq(customers.id, id), eq(customers.organizationId, orgId)));
+      .where(and(eq(customers.id, id), eq(customers.organizationId, orgId), isNull(customers.deletedAt)));
     return customer || undefined;
   }
 
-  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
-    const [customer] = await db.insert(customers).values(insertCustomer).returning();
-    return customer;
+  async createCustomer(insertCustomer: InsertCustomer, createdBy?: number): Promise<Customer> {
+    await this.assertReferencesInOrganization(insertCustomer.organizationId, {
+      assignedTo: insertCustomer.assignedTo,
+      leadId: insertCustomer.convertedFromLead
+    });
+    await this.assertCustomerEmailAvailable(insertCustomer.organizationId, insertCustomer.email);
+    const customFields = await this.customFieldValues(insertCustomer.organizationId, 'customer', insertCustomer.customFields);
+    return await db.transaction(async (tx) => {
+      const [customer] = await tx.insert(customers).values({ ...insertCustomer, customFields, createdBy }).returning();
+      await this.audit(tx, [auditCreate('customer', customer, createdBy)]);
+      return customer;
+    });
+  }
+
+  async updateCustomer(id: number, orgId: number, customerData: UpdateCustomer, updatedBy?: number): Promise<Customer | undefined> {
+    await this.assertReferencesInOrganization(orgId, {
+      assignedTo: customerData.assignedTo,
+      leadId: customerData.convertedFromLead
+    });
+    if (customerData.email) {
+      await this.assertCustomerEmailAvailable(orgId, customerData.email, id);
+    }
+    const existing = customerData.customFields ? await this.getCustomer(id, orgId) : undefined;
+    const customFields = existing && await this.customFieldValues(orgId, 'customer', customerData.customFields, existing.customFields);
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(customers)
+        .where(and(eq(customers.id, id), eq(customers.organizationId, orgId), isNull(customers.deletedAt)))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      const [customer] = await tx.update(customers)
+        .set({ ...customerData, customFields, updatedAt: new Date() })
+        .where(and(eq(customers.id, id), eq(customers.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('customer', before, customer, updatedBy)]);
+      await this.queueWebhookEvent(tx, orgId, 'customer.updated', { customer, changes: Object.keys(customerData) });
+      return customer;
+    });
+  }
+
+  // The customer's deals and the activities of both go to the trash with it
+  async deleteCustomer(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deletion = { deletedAt: new Date(), deletedBy: deletedBy ?? null };
+      const [customer] = await this.setTrashed(tx, 'customer', and(eq(customers.id, id), eq(customers.organizationId, orgId)), deletion, deletedBy);
+      if (!customer) {
+        return false;
+      }
+      const dealIds = (await this.setTrashed(tx, 'deal', and(eq(deals.organizationId, orgId), eq(deals.customerId, id)), deletion, deletedBy))
+        .map(deal => deal.id);
+      if (dealIds.length > 0) {
+        await this.stopEnrollments(tx, orgId, inArray(sequenceEnrollments.dealId, dealIds), 'record_deleted', deletedBy);
+      }
+      await this.setTrashed(tx, 'activity', and(
+        eq(activities.organizationId, orgId),
+        dealIds.length > 0 ? or(eq(activities.customerId, id), inArray(activities.dealId, dealIds)) : eq(activities.customerId, id)
+      ), deletion, deletedBy);
+      return true;
+    });
+  }
+
+  async findDuplicateCustomers(orgId: number, candidate: ContactFields, excludeId?: number): Promise<PossibleDuplicate[]> {
+    const conditions = [eq(customers.organizationId, orgId), isNull(customers.deletedAt), this.duplicateFilter(customers, candidate)];
+    if (excludeId) {
+      conditions.push(ne(customers.id, excludeId));
+    }
+    const matches = await db.select().from(customers).where(and(...conditions));
+    return findPossibleDuplicates(candidate, matches);
   }
 
-  async updateCustomer(id: number, customerData: Partial<InsertCustomer>): Promise<Customer | undefined> {
-    const [customer] = await db.update(customers)
-      .set({ ...customerData, updatedAt: new Date() })
-      .where(eq(customers.id, id))
+  async mergeCustomers(orgId: number, merge: MergeCustomers, mergedBy?: number): Promise<CustomerMerge | undefined> {
+    return await db.transaction(async (tx) => {
+      const pair = await tx.select().from(customers)
+        .where(and(inArray(customers.id, [merge.survivorId, merge.mergedId]), eq(customers.organizationId, orgId), isNull(customers.deletedAt)))
+        .for('update');
+      const survivor = pair.find(customer => customer.id === merge.survivorId);
+      const merged = pair.find(customer => customer.id === merge.mergedId);
+      if (!survivor || !merged) {
+        return undefined;
+      }
+      // The survivor keeps one lead link and the merge record the other; locking the merged
+      // customer's lead keeps a concurrent conversion of it from missing both
+      if (merged.convertedFromLead) {
+        await tx.select({ id: leads.id }).from(leads).where(eq(leads.id, merged.convertedFromLead)).for('update');
+      }
+
+      const movedDeals = await tx.update(deals)
+        .set({ customerId: survivor.id, updatedAt: new Date() })
+        .where(and(eq(deals.customerId, merged.id), eq(deals.organizationId, orgId)))
+        .returning({ id: deals.id, organizationId: deals.organizationId });
+      const movedActivities = await tx.update(activities)
+        .set({ customerId: survivor.id, updatedAt: new Date() })
+        .where(and(eq(activities.customerId, merged.id), eq(activities.organizationId, orgId)))
+        .returning({ id: activities.id, organizationId: activities.organizationId });
+
+      await tx.delete(customers).where(and(eq(customers.id, merged.id), eq(customers.organizationId, orgId)));
+      const lastContact = [survivor.lastContact, merged.lastContact]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+      const [customer] = await tx.update(customers)
+        .set({
+          phone: survivor.phone ?? merged.phone,
+          company: survivor.company ?? merged.company,
+          jobTitle: survivor.jobTitle ?? merged.jobTitle,
+          assignedTo: survivor.assignedTo ?? merged.assignedTo,
+          convertedFromLead: survivor.convertedFromLead ?? merged.convertedFromLead,
+          customFields: { ...merged.customFields, ...survivor.customFields },
+          value: (parseFloat(survivor.value) + parseFloat(merged.value)).toFixed(2),
+          lastContact,
+          updatedAt: new Date()
+        })
+        .where(eq(customers.id, survivor.id))
+        .returning();
+
+      const [record] = await tx.insert(recordMerges).values({
+        entityType: 'customer',
+        survivorId: survivor.id,
+        mergedId: merged.id,
+        mergedRecord: merged,
+        dealsMoved: movedDeals.length,
+        activitiesMoved: movedActivities.length,
+        mergedBy: mergedBy ?? null,
+        organizationId: orgId
+      }).returning();
+      await this.audit(tx, [
+        ...movedToCustomer('deal', movedDeals.map(deal => ({ ...deal, customerId: merged.id })), survivor.id, mergedBy),
+        ...movedToCustomer('activity', movedActivities.map(activity => ({ ...activity, customerId: merged.id })), survivor.id, mergedBy),
+        auditDelete('customer', merged, mergedBy),
+        auditUpdate('customer', survivor, customer, mergedBy),
+      ]);
+      await this.queueWebhookEvent(tx, orgId, 'customer.updated', { customer, mergedCustomerId: merged.id });
+
+      return { customer, merge: record };
+    });
+  }
+
+  private async assertCustomerEmailAvailable(orgId: number, email: string, excludeId?: number) {
+    const conditions = [eq(customers.organizationId, orgId), isNull(customers.deletedAt), sql`lower(${customers.email}) = ${normalizeEmail(email)}`];
+    if (excludeId) {
+      conditions.push(ne(customers.id, excludeId));
+    }
+    const [existing] = await db.select({ id: customers.id }).from(customers).where(and(...conditions));
+    if (existing) {
+      throw new CustomError("A customer with this email already exists", 409);
+    }
+  }
+
+  // Narrows the candidates in SQL; findPossibleDuplicates does the actual (fuzzy) matching
+  private duplicateFilter(table: { email: PgColumn; phone: PgColumn; company: PgColumn }, candidate: ContactFields): SQL {
+    const conditions: SQL[] = [sql`lower(${table.email}) = ${normalizeEmail(candidate.email)}`];
+    const phone = normalizePhone(candidate.phone);
+    if (phone) {
+      conditions.push(sql`right(regexp_replace(coalesce(${table.phone}, ''), '[^0-9]', '', 'g'), 10) = ${phone}`);
+    }
+    const companyToken = candidate.company?.trim().split(/\s+/)[0];
+    if (companyToken && companyToken.length >= 2) {
+      conditions.push(ilike(table.company, `%${companyToken.replace(/[%_]/g, '')}%`));
+    }
+    return or(...conditions)!;
+  }
+
+  // Pipeline management
+  async getPipelines(orgId: number): Promise<PipelineWithStages[]> {
+    await this.getDefaultPipeline(orgId);
+    const orgPipelines = await db.select().from(pipelines)
+      .where(eq(pipelines.organizationId, orgId))
+      .orderBy(desc(pipelines.isDefault), asc(pipelines.createdAt));
+    const stages = await db.select().from(pipelineStages)
+      .where(eq(pipelineStages.organizationId, orgId))
+      .orderBy(asc(pipelineStages.position));
+    return orgPipelines.map(pipeline => ({
+      ...pipeline,
+      stages: stages.filter(stage => stage.pipelineId === pipeline.id)
+    }));
+  }
+
+  async getPipeline(id: number, orgId: number): Promise<PipelineWithStages | undefined> {
+    const [pipeline] = await db.select().from(pipelines)
+      .where(and(eq(pipelines.id, id), eq(pipelines.organizationId, orgId)));
+    if (!pipeline) {
+      return undefined;
+    }
+    const stages = await db.select().from(pipelineStages)
+      .where(eq(pipelineStages.pipelineId, id))
+      .orderBy(asc(pipelineStages.position));
+    return { ...pipeline, stages };
+  }
+
+  // Deals without a pipeline belong to the default one. New organizations get the standard
+  // pipeline on signup, older ones on first use
+  async getDefaultPipeline(orgId: number): Promise<PipelineWithStages> {
+    const findDefault = async () => {
+      const [pipeline] = await db.select().from(pipelines)
+        .where(and(eq(pipelines.organizationId, orgId), eq(pipelines.isDefault, true)));
+      return pipeline;
+    };
+    let pipeline = await findDefault();
+    if (!pipeline) {
+      await db.transaction(async (tx) => this.insertDefaultPipeline(tx, orgId));
+      pipeline = (await findDefault())!;
+    }
+    return (await this.getPipeline(pipeline.id, orgId))!;
+  }
+
+  async createPipeline(insertPipeline: InsertPipeline, createdBy?: number): Promise<PipelineWithStages> {
+    await this.getDefaultPipeline(insertPipeline.organizationId);
+    return await this.insertPipeline(insertPipeline, createdBy);
+  }
+
+  async updatePipeline(id: number, orgId: number, pipelineData: UpdatePipeline, updatedBy?: number): Promise<PipelineWithStages | undefined> {
+    const existing = await this.getPipeline(id, orgId);
+    if (!existing) {
+      return undefined;
+    }
+    if (existing.isDefault && pipelineData.isDefault === false) {
+      throw new CustomError("Make another pipeline the default instead", 400);
+    }
+
+    const { stages, ...fields } = pipelineData;
+    if (stages) {
+      const keptKeys = new Set(stages.map(stage => stage.key));
+      const removedKeys = existing.stages.map(stage => stage.key).filter(key => !keptKeys.has(key));
+      // Deals in the trash count too, as restoring them needs their stage
+      if (removedKeys.length > 0) {
+        const [inUse] = await db.select({ count: sql<number>`count(*)` }).from(deals)
+          .where(and(this.dealsInPipeline(existing), inArray(deals.stage, removedKeys)));
+        if (Number(inUse?.count || 0) > 0) {
+          throw new CustomError("Move the deals out of a stage (or purge them from the trash) before removing it", 409);
+        }
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      if (fields.isDefault) {
+        await this.demoteDefaultPipeline(tx, orgId, id, updatedBy);
+      }
+      const [pipeline] = await tx.update(pipelines)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(and(eq(pipelines.id, id), eq(pipelines.organizationId, orgId)))
+        .returning();
+      let updatedStages = existing.stages;
+      if (stages) {
+        await tx.delete(pipelineStages).where(eq(pipelineStages.pipelineId, id));
+        updatedStages = await tx.insert(pipelineStages).values(this.toStageRows(id, orgId, stages)).returning();
+      }
+      await this.audit(tx, [
+        auditUpdate('pipeline', pipelineSnapshot(existing), pipelineSnapshot({ ...pipeline, stages: updatedStages }), updatedBy),
+      ]);
+    });
+    return await this.getPipeline(id, orgId);
+  }
+
+  async deletePipeline(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    const existing = await this.getPipeline(id, orgId);
+    if (!existing) {
+      return false;
+    }
+    if (existing.isDefault) {
+      throw new CustomError("The default pipeline cannot be deleted", 400);
+    }
+    const [dealCount] = await db.select({ count: sql<number>`count(*)` }).from(deals)
+      .where(this.dealsInPipeline(existing));
+    if (Number(dealCount?.count || 0) > 0) {
+      throw new CustomError("Move the deals out of this pipeline (or purge them from the trash) before deleting it", 409);
+    }
+    await db.transaction(async (tx) => {
+      await tx.delete(pipelineStages).where(eq(pipelineStages.pipelineId, id));
+      await tx.delete(pipelines).where(and(eq(pipelines.id, id), eq(pipelines.organizationId, orgId)));
+      await this.audit(tx, [auditDelete('pipeline', pipelineSnapshot(existing), deletedBy)]);
+    });
+    return true;
+  }
+
+  private async insertPipeline(insertPipeline: InsertPipeline, createdBy?: number): Promise<PipelineWithStages> {
+    const { stages, ...fields } = insertPipeline;
+    return await db.transaction(async (tx) => {
+      if (fields.isDefault) {
+        await this.demoteDefaultPipeline(tx, fields.organizationId, undefined, createdBy);
+      }
+      const [pipeline] = await tx.insert(pipelines).values(fields).returning();
+      const createdStages = await tx.insert(pipelineStages)
+        .values(this.toStageRows(pipeline.id, pipeline.organizationId, stages))
+        .returning();
+      const created = { ...pipeline, stages: createdStages };
+      await this.audit(tx, [auditCreate('pipeline', pipelineSnapshot(created), createdBy)]);
+      return created;
+    });
+  }
+
+  // Concurrent first uses race to insert the standard pipeline; the unique index on the default
+  // pipeline lets one win and the others insert nothing
+  private async insertDefaultPipeline(tx: Transaction, orgId: number, createdBy?: number) {
+    const [pipeline] = await tx.insert(pipelines)
+      .values({ name: 'Sales Pipeline', isDefault: true, organizationId: orgId })
+      .onConflictDoNothing({ target: pipelines.organizationId, where: sql`is_default` })
       .returning();
-    return customer || undefined;
+    if (!pipeline) {
+      return;
+    }
+    const stages = await tx.insert(pipelineStages)
+      .values(this.toStageRows(pipeline.id, orgId, DEFAULT_PIPELINE_STAGES))
+      .returning();
+    await this.audit(tx, [auditCreate('pipeline', pipelineSnapshot({ ...pipeline, stages }), createdBy)]);
+  }
+
+  // Only one pipeline is the default, so the current one gives way to the new default
+  private async demoteDefaultPipeline(tx: Transaction, orgId: number, newDefaultId: number | undefined, changedBy?: number) {
+    const demoted = await tx.update(pipelines)
+      .set({ isDefault: false })
+      .where(and(
+        eq(pipelines.organizationId, orgId),
+        eq(pipelines.isDefault, true),
+        newDefaultId !== undefined ? ne(pipelines.id, newDefaultId) : undefined
+      ))
+      .returning();
+    await this.audit(tx, demoted.map(pipeline => auditUpdate('pipeline', { ...pipeline, isDefault: true }, pipeline, changedBy)));
+  }
+
+  private toStageRows(pipelineId: number, orgId: number, stages: PipelineStageInput[]) {
+    return stages.map((stage, position) => ({ ...stage, pipelineId, position, organizationId: orgId }));
+  }
+
+  private dealsInPipeline(pipeline: PipelineWithStages) {
+    const inPipeline = eq(deals.pipelineId, pipeline.id);
+    return and(
+      eq(deals.organizationId, pipeline.organizationId),
+      pipeline.isDefault ? or(inPipeline, isNull(deals.pipelineId)) : inPipeline
+    );
+  }
+
+  private async resolvePipeline(orgId: number, pipelineId?: number | null): Promise<PipelineWithStages> {
+    if (!pipelineId) {
+      return await this.getDefaultPipeline(orgId);
+    }
+    const pipeline = await this.getPipeline(pipelineId, orgId);
+    if (!pipeline) {
+      throw new CustomError("Pipeline not found", 404);
+    }
+    return pipeline;
+  }
+
+  // Custom field definitions
+  async getCustomFieldDefinitions(orgId: number, entityType?: CustomFieldEntityType): Promise<CustomFieldDefinition[]> {
+    return await db.select().from(customFieldDefinitions)
+      .where(and(
+        eq(customFieldDefinitions.organizationId, orgId),
+        entityType ? eq(customFieldDefinitions.entityType, entityType) : undefined
+      ))
+      .orderBy(asc(customFieldDefinitions.entityType), asc(customFieldDefinitions.position), asc(customFieldDefinitions.id));
+  }
+
+  async getCustomFieldDefinition(id: number, orgId: number): Promise<CustomFieldDefinition | undefined> {
+    const [definition] = await db.select().from(customFieldDefinitions)
+      .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.organizationId, orgId)));
+    return definition || undefined;
+  }
+
+  // New fields go last unless a position is given
+  async createCustomFieldDefinition(insertDefinition: InsertCustomFieldDefinition, createdBy?: number): Promise<CustomFieldDefinition> {
+    const { organizationId, entityType, key } = insertDefinition;
+    assertValidDefinition({ ...insertDefinition, options: insertDefinition.options ?? [], currency: insertDefinition.currency ?? null });
+    const existing = await this.getCustomFieldDefinitions(organizationId, entityType as CustomFieldEntityType);
+    if (existing.some(definition => definition.key === key)) {
+      throw new CustomError(`A ${entityType} field with the key "${key}" already exists`, 409);
+    }
+    if (existing.length >= MAX_CUSTOM_FIELDS) {
+      throw new CustomError(`At most ${MAX_CUSTOM_FIELDS} custom fields can be defined per record type`, 400);
+    }
+    return await db.transaction(async (tx) => {
+      const [definition] = await tx.insert(customFieldDefinitions)
+        .values({ ...insertDefinition, position: insertDefinition.position ?? existing.length })
+        .returning();
+      await this.audit(tx, [auditCreate('custom_field', definition, createdBy)]);
+      return definition;
+    });
+  }
+
+  // Values stored before options changed are kept until the record's field is next edited
+  async updateCustomFieldDefinition(
+    id: number,
+    orgId: number,
+    definitionData: UpdateCustomFieldDefinition,
+    updatedBy?: number
+  ): Promise<CustomFieldDefinition | undefined> {
+    const existing = await this.getCustomFieldDefinition(id, orgId);
+    if (!existing) {
+      return undefined;
+    }
+    assertValidDefinition({ ...existing, ...definitionData });
+    return await db.transaction(async (tx) => {
+      const [definition] = await tx.update(customFieldDefinitions)
+        .set({ ...definitionData, updatedAt: new Date() })
+        .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [definition && auditUpdate('custom_field', existing, definition, updatedBy)]);
+      return definition || undefined;
+    });
+  }
+
+  // Removes the field's values from every record along with the definition. Only the
+  // definition's deletion is audited, not the values removed with it.
+  async deleteCustomFieldDefinition(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    const existing = await this.getCustomFieldDefinition(id, orgId);
+    if (!existing) {
+      return false;
+    }
+    const table = CUSTOM_FIELD_TABLES[existing.entityType as CustomFieldEntityType];
+    await db.transaction(async (tx) => {
+      await tx.update(table)
+        .set({ customFields: sql`${table.customFields} - ${existing.key}` })
+        .where(and(eq(table.organizationId, orgId), sql`${table.customFields} ? ${existing.key}`));
+      await tx.delete(customFieldDefinitions)
+        .where(and(eq(customFieldDefinitions.id, id), eq(customFieldDefinitions.organizationId, orgId)));
+      await this.audit(tx, [auditDelete('custom_field', existing, deletedBy)]);
+    });
+    return true;
+  }
+
+  // Checks custom field values against the organization's definitions; `current` is given on update
+  private async customFieldValues(
+    orgId: number,
+    entityType: CustomFieldEntityType,
+    values: Record<string, unknown> | undefined,
+    current?: CustomFieldValues
+  ): Promise<CustomFieldValues> {
+    return validateCustomFields(await this.getCustomFieldDefinitions(orgId, entityType), values, current);
+  }
+
+  // Sort expressions and filter conditions for the custom fields a list query refers to
+  private async customFieldQuery(
+    orgId: number,
+    entityType: CustomFieldEntityType,
+    query: { sort: SortField[]; cf?: CustomFieldFilters }
+  ): Promise<{ sortColumns: SortColumns; conditions: SQL[] }> {
+    const usesCustomFields = query.cf !== undefined || query.sort.some(({ field }) => field.startsWith(CUSTOM_FIELD_SORT_PREFIX));
+    if (!usesCustomFields) {
+      return { sortColumns: {}, conditions: [] };
+    }
+    const definitions = await this.getCustomFieldDefinitions(orgId, entityType);
+    const column = CUSTOM_FIELD_TABLES[entityType].customFields;
+    return {
+      sortColumns: customFieldSortColumns(column, definitions, query.sort),
+      conditions: customFieldConditions(column, definitions, query.cf),
+    };
   }
 
   // Deal management
   async getDeals(orgId: number): Promise<Deal[]> {
     return await db.select().from(deals)
-      .where(eq(deals.organizationId, orgId))
+      .where(and(eq(deals.organizationId, orgId), isNull(deals.deletedAt)))
       .orderBy(desc(deals.createdAt));
   }
 
-  async getDealsByStage(orgId: number, stage: string): Promise<Deal[]> {
+  // Filtering on a pipeline also checks the requested stages exist in it
+  async listDeals(orgId: number, query: DealListQuery, visibleTo?: number): Promise<Page<Deal>> {
+    const custom = await this.customFieldQuery(orgId, 'deal', query);
+    return await this.listPage<Deal>(deals, deals.id, { ...DEAL_SORT_COLUMNS, ...custom.sortColumns }, query, [
+      ...await this.dealFilters(orgId, query, visibleTo), ...custom.conditions,
+    ]);
+  }
+
+  async exportDeals(orgId: number, query: ListFilters<DealListQuery>, visibleTo?: number): Promise<AsyncIterable<Deal[]>> {
+    const custom = await this.customFieldQuery(orgId, 'deal', query);
+    return this.exportBatches<Deal>(deals, deals.id, { ...DEAL_SORT_COLUMNS, ...custom.sortColumns }, query, [
+      ...await this.dealFilters(orgId, query, visibleTo), ...custom.conditions,
+    ]);
+  }
+
+  private async dealFilters(orgId: number, query: ListFilters<DealListQuery>, visibleTo?: number): Promise<(SQL | undefined)[]> {
+    let inPipeline: SQL | undefined;
+    if (query.pipelineId !== undefined) {
+      const pipeline = await this.resolvePipeline(orgId, query.pipelineId);
+      query.stage?.forEach(stage => findStage(pipeline.stages, stage));
+      inPipeline = this.dealsInPipeline(pipeline);
+    }
+    return [
+      eq(deals.organizationId, orgId),
+      isNull(deals.deletedAt),
+      visibleTo !== undefined ? or(eq(deals.assignedTo, visibleTo), eq(deals.createdBy, visibleTo)) : undefined,
+      inPipeline,
+      query.stage && inArray(deals.stage, query.stage),
+      query.customerId !== undefined ? eq(deals.customerId, query.customerId) : undefined,
+      assigneeCondition(deals.assignedTo, query.assignedTo),
+      rangeCondition(deals.value, query.valueMin, query.valueMax),
+      rangeCondition(deals.expectedCloseDate, query.expectedCloseFrom, query.expectedCloseTo),
+      rangeCondition(deals.createdAt, query.createdFrom, query.createdTo),
+    ];
+  }
+
+  async getDealsByStage(orgId: number, stage: string, pipelineId?: number): Promise<Deal[]> {
+    const pipeline = await this.resolvePipeline(orgId, pipelineId);
+    findStage(pipeline.stages, stage);
     return await db.select().from(deals)
-      .where(and(eq(deals.organizationId, orgId), eq(deals.stage, stage)))
+      .where(and(this.dealsInPipeline(pipeline), eq(deals.stage, stage), isNull(deals.deletedAt)))
       .orderBy(desc(deals.createdAt));
   }
 
-  async createDeal(insertDeal: InsertDeal): Promise<Deal> {
-    const [deal] = await db.insert(deals).values(insertDeal).returning();
+  async getDeal(id: number, orgId: number): Promise<Deal | undefined> {
+    const [deal] = await db.select().from(deals)
+      .where(and(eq(deals.id, id), eq(deals.organizationId, orgId), isNull(deals.deletedAt)));
+    return deal || undefined;
+  }
+
+  async createDeal(insertDeal: InsertDeal, createdBy?: number): Promise<Deal> {
+    await this.assertReferencesInOrganization(insertDeal.organizationId, {
+      assignedTo: insertDeal.assignedTo,
+      customerId: insertDeal.customerId
+    });
+    const customFields = await this.customFieldValues(insertDeal.organizationId, 'deal', insertDeal.customFields);
+    const values = await this.withPipelineStage({ ...insertDeal, customFields });
+    return await db.transaction(async (tx) => this.insertDealWithHistory(tx, values, createdBy));
+  }
+
+  // Places the deal in its pipeline (the default one unless given) and applies the stage defaults
+  private async withPipelineStage(insertDeal: InsertDeal & { customFields: CustomFieldValues }) {
+    const pipeline = await this.resolvePipeline(insertDeal.organizationId, insertDeal.pipelineId);
+    const stage = findStage(pipeline.stages, insertDeal.stage ?? pipeline.stages[0].key);
+    return {
+      ...insertDeal,
+      pipelineId: pipeline.id,
+      stage: stage.key,
+      probability: insertDeal.probability ?? stage.probability,
+      actualCloseDate: isClosedStage(stage) ? new Date() : null
+    };
+  }
+
+  private async insertDealWithHistory(tx: Transaction, values: typeof deals.$inferInsert, createdBy?: number): Promise<Deal> {
+    const [deal] = await tx.insert(deals).values({ ...values, createdBy }).returning();
+    await tx.insert(dealStageHistory).values({
+      dealId: deal.id,
+      fromStage: null,
+      toStage: deal.stage,
+      changedBy: createdBy ?? null,
+      organizationId: deal.organizationId
+    });
+    await this.audit(tx, [auditCreate('deal', deal, createdBy)]);
+    await this.syncSalesData(tx, deal.organizationId, [deal.id]);
+    // A deal can start out won, e.g. when a closed sale is recorded after the fact
+    const isWon = await this.wonStageMatcher(deal.organizationId, tx);
+    if (isWon(deal)) {
+      await this.queueWebhookEvent(tx, deal.organizationId, 'deal.won', { deal });
+    }
     return deal;
   }
 
-  async updateDeal(id: number, dealData: Partial<InsertDeal>): Promise<Deal | undefined> {
-    const [deal] = await db.update(deals)
-      .set({ ...dealData, updatedAt: new Date() })
-      .where(eq(deals.id, id))
-      .returning();
-    return deal || undefined;
+  async updateDeal(id: number, orgId: number, dealData: UpdateDeal, change: DealStageChange = {}): Promise<Deal | undefined> {
+    await this.assertReferencesInOrganization(orgId, {
+      assignedTo: dealData.assignedTo,
+      customerId: dealData.customerId
+    });
+    const org = dealData.stage !== undefined ? await this.getOrganization(orgId) : undefined;
+
+    const { deal, realtime } = await db.transaction(async (tx) => {
+      // Stage rules and history go by the locked row, so concurrent moves see each other
+      const [existing] = await tx.select().from(deals)
+        .where(and(eq(deals.id, id), eq(deals.organizationId, orgId), isNull(deals.deletedAt)))
+        .for('update');
+      if (!existing) {
+        return { deal: undefined, realtime: [] };
+      }
+
+      const stageChanged = dealData.stage !== undefined && dealData.stage !== existing.stage;
+      const pipelineChanged = dealData.pipelineId !== undefined && dealData.pipelineId !== existing.pipelineId;
+      const customFields = dealData.customFields && await this.customFieldValues(orgId, 'deal', dealData.customFields, existing.customFields);
+      const updates: Partial<Deal> = { ...dealData, customFields, updatedAt: new Date() };
+      let stageNames = [existing.stage, dealData.stage ?? existing.stage];
+      let won = false;
+      if (stageChanged || pipelineChanged) {
+        const pipeline = await this.resolvePipeline(orgId, dealData.pipelineId ?? existing.pipelineId);
+        updates.pipelineId = pipeline.id;
+        if (!stageChanged) {
+          // Moving to another pipeline keeps the stage only if the new pipeline has it
+          findStage(pipeline.stages, existing.stage);
+        } else {
+          validateStageTransition(getDealStageRules(org?.settings), pipeline.stages, existing.stage, dealData.stage!, change.reason);
+          const stage = findStage(pipeline.stages, dealData.stage!);
+          won = stage.isWon;
+          // The previous stage may belong to the pipeline the deal is leaving
+          stageNames = [pipeline.stages.find(candidate => candidate.key === existing.stage)?.name ?? existing.stage, stage.name];
+          updates.probability = dealData.probability ?? stage.probability;
+          // Closing stamps the close date, reopening clears it
+          updates.actualCloseDate = isClosedStage(stage) ? new Date() : null;
+        }
+      }
+
+      const [deal] = await tx.update(deals)
+        .set(updates)
+        .where(and(eq(deals.id, id), eq(deals.organizationId, orgId), isNull(deals.deletedAt)))
+        .returning();
+      await this.audit(tx, [auditUpdate('deal', existing, deal, change.changedBy)]);
+      await this.syncSalesData(tx, orgId, [deal.id]);
+      let realtime: Notification[] = [];
+      if (stageChanged) {
+        await tx.insert(dealStageHistory).values({
+          dealId: deal.id,
+          fromStage: existing.stage,
+          toStage: deal.stage,
+          reason: change.reason ?? null,
+          changedBy: change.changedBy ?? null,
+          organizationId: orgId
+        });
+        if (deal.actualCloseDate) {
+          await this.stopEnrollments(tx, orgId, eq(sequenceEnrollments.dealId, deal.id), 'deal_closed', change.changedBy);
+        }
+        await this.queueWebhookEvent(tx, orgId, 'deal.stage_changed', { deal, fromStage: existing.stage, toStage: deal.stage });
+        if (won) {
+          await this.queueWebhookEvent(tx, orgId, 'deal.won', { deal });
+        }
+        // The owner hears about stage changes made by someone else
+        if (deal.assignedTo && deal.assignedTo !== change.changedBy) {
+          const [fromStage, toStage] = stageNames;
+          ({ realtime } = await this.storeNotifications(tx, [dealStageNotification(deal, deal.assignedTo, fromStage, toStage)]));
+        }
+      }
+      return { deal, realtime };
+    });
+    publishNotifications(realtime);
+    return deal;
+  }
+
+  // The deal's activities go to the trash with it and its sequence enrollments are stopped
+  async deleteDeal(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deletion = { deletedAt: new Date(), deletedBy: deletedBy ?? null };
+      const [deal] = await this.setTrashed(tx, 'deal', and(eq(deals.id, id), eq(deals.organizationId, orgId)), deletion, deletedBy);
+      if (!deal) {
+        return false;
+      }
+      await this.stopEnrollments(tx, orgId, eq(sequenceEnrollments.dealId, id), 'record_deleted', deletedBy);
+      await this.setTrashed(tx, 'activity', and(eq(activities.organizationId, orgId), eq(activities.dealId, id)), deletion, deletedBy);
+      return true;
+    });
+  }
+
+  async getDealStageHistory(dealId: number, orgId: number): Promise<DealStageHistory[]> {
+    return await db.select().from(dealStageHistory)
+      .where(and(eq(dealStageHistory.dealId, dealId), eq(dealStageHistory.organizationId, orgId)))
+      .orderBy(asc(dealStageHistory.changedAt), asc(dealStageHistory.id));
   }
 
   // Activity management
   async getActivities(orgId: number): Promise<Activity[]> {
     return await db.select().from(activities)
-      .where(eq(activities.organizationId, orgId))
+      .where(and(eq(activities.organizationId, orgId), isNull(activities.deletedAt)))
       .orderBy(desc(activities.createdAt));
   }
 
-  async getActivitiesByEntity(entityType: 'customer' | 'lead' | 'deal', entityId: number): Promise<Activity[]> {
+  async listActivities(orgId: number, query: ActivityListQuery, visibleTo?: number): Promise<Page<Activity>> {
+    return await this.listPage<Activity>(activities, activities.id, ACTIVITY_SORT_COLUMNS, query, this.activityFilters(orgId, query, visibleTo));
+  }
+
+  async exportActivities(orgId: number, query: ListFilters<ActivityListQuery>, visibleTo?: number): Promise<AsyncIterable<Activity[]>> {
+    return this.exportBatches<Activity>(activities, activities.id, ACTIVITY_SORT_COLUMNS, query, this.activityFilters(orgId, query, visibleTo));
+  }
+
+  private activityFilters(orgId: number, query: ListFilters<ActivityListQuery>, visibleTo?: number): (SQL | undefined)[] {
+    const entityColumns = { customer: activities.customerId, lead: activities.leadId, deal: activities.dealId };
+    return [
+      eq(activities.organizationId, orgId),
+      isNull(activities.deletedAt),
+      visibleTo !== undefined ? or(eq(activities.assignedTo, visibleTo), eq(activities.createdBy, visibleTo)) : undefined,
+      query.type && inArray(activities.type, query.type),
+      query.status && inArray(activities.status, query.status),
+      assigneeCondition(activities.assignedTo, query.assignedTo),
+      query.entityType && query.entityId !== undefined ? eq(entityColumns[query.entityType], query.entityId) : undefined,
+      query.leadId !== undefined ? eq(activities.leadId, query.leadId) : undefined,
+      query.customerId !== undefined ? eq(activities.customerId, query.customerId) : undefined,
+      query.dealId !== undefined ? eq(activities.dealId, query.dealId) : undefined,
+      rangeCondition(activities.dueDate, query.dueFrom, query.dueTo),
+    ];
+  }
+
+  async getActivity(id: number, orgId: number): Promise<Activity | undefined> {
+    const [activity] = await db.select().from(activities)
+      .where(and(eq(activities.id, id), eq(activities.organizationId, orgId), isNull(activities.deletedAt)));
+    return activity || undefined;
+  }
+
+  async getActivitiesByEntity(orgId: number, entityType: 'customer' | 'lead' | 'deal', entityId: number): Promise<Activity[]> {
     let condition;
     switch (entityType) {
       case 'customer':
@@ -210,23 +1581,1105 @@ export class DatabaseCommercialStorage implements ICommercialStorage {
     }
     
     return await db.select().from(activities)
-      .where(condition)
+      .where(and(condition, eq(activities.organizationId, orgId), isNull(activities.deletedAt)))
       .orderBy(desc(activities.createdAt));
   }
 
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
-    const [activity] = await db.insert(activities).values(insertActivity).returning();
+    await this.assertReferencesInOrganization(insertActivity.organizationId, {
+      assignedTo: insertActivity.assignedTo,
+      customerId: insertActivity.customerId,
+      leadId: insertActivity.leadId,
+      dealId: insertActivity.dealId
+    });
+    const activity = await db.transaction(async (tx) => {
+      const [activity] = await tx.insert(activities).values({
+        ...insertActivity,
+        recurrence: insertActivity.recurrence && normalizeRecurrence(insertActivity.recurrence, insertActivity.dueDate),
+        completedAt: insertActivity.status === 'completed' ? new Date() : null,
+      }).returning();
+      await this.audit(tx, [auditCreate('activity', activity, insertActivity.createdBy)]);
+      return activity;
+    });
+    if (activity.leadId) {
+      await this.rescoreLead(activity.leadId, activity.organizationId);
+    }
     return activity;
   }
 
-  async updateActivity(id: number, activityData: Partial<InsertActivity>): Promise<Activity | undefined> {
-    const [activity] = await db.update(activities)
-      .set({ ...activityData, updatedAt: new Date() })
-      .where(eq(activities.id, id))
-      .returning();
+  async updateActivity(id: number, orgId: number, activityData: UpdateActivity, updatedBy?: number): Promise<Activity | undefined> {
+    await this.assertReferencesInOrganization(orgId, {
+      assignedTo: activityData.assignedTo,
+      customerId: activityData.customerId,
+      leadId: activityData.leadId,
+      dealId: activityData.dealId
+    });
+    const existing = await this.getActivity(id, orgId);
+    const recurrence = activityData.recurrence &&
+      normalizeRecurrence(activityData.recurrence, activityData.dueDate !== undefined ? activityData.dueDate : existing?.dueDate);
+    const activity = await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(activities)
+        .where(and(eq(activities.id, id), eq(activities.organizationId, orgId), isNull(activities.deletedAt)))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      const [updated] = await tx.update(activities)
+        .set({ ...activityData, recurrence, ...activityStateChanges(existing, activityData), updatedAt: new Date() })
+        .where(and(eq(activities.id, id), eq(activities.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('activity', before, updated, updatedBy)]);
+      if (updated.status !== before.status) {
+        await this.followUpActivity(tx, updated, updatedBy);
+      }
+      return updated;
+    });
+    // Rescore both leads when an activity is moved from one lead to another
+    const leadIds = new Set([existing?.leadId, activity?.leadId].filter((leadId): leadId is number => !!leadId));
+    for (const leadId of Array.from(leadIds)) {
+      await this.rescoreLead(leadId, orgId);
+    }
     return activity || undefined;
   }
 
+  async deleteActivity(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    const [activity] = await db.transaction(async (tx) => this.setTrashed(tx, 'activity',
+      and(eq(activities.id, id), eq(activities.organizationId, orgId)), { deletedAt: new Date(), deletedBy: deletedBy ?? null }, deletedBy));
+    if (!activity) {
+      return false;
+    }
+    if ((activity as Activity).leadId) {
+      await this.rescoreLead((activity as Activity).leadId!, orgId);
+    }
+    return true;
+  }
+
+  // Completing an occurrence of a recurring activity schedules the next one (once, even when an
+  // occurrence is reopened and completed again); closing the last open activity of a sequence
+  // enrollment completes the enrollment
+  private async followUpActivity(tx: Transaction, activity: Activity, changedBy?: number) {
+    if (activity.status === 'completed' && activity.recurrence && activity.dueDate) {
+      const dueDate = nextOccurrence(activity.recurrence, activity.dueDate, activity.occurrence);
+      const seriesId = activity.seriesId ?? activity.id;
+      const [scheduled] = await tx.select({ id: activities.id }).from(activities)
+        .where(and(eq(activities.seriesId, seriesId), eq(activities.occurrence, activity.occurrence + 1)));
+      if (dueDate && !scheduled) {
+        const [next] = await tx.insert(activities).values({
+          type: activity.type,
+          subject: activity.subject,
+          description: activity.description,
+          dueDate,
+          customerId: activity.customerId,
+          leadId: activity.leadId,
+          dealId: activity.dealId,
+          assignedTo: activity.assignedTo,
+          createdBy: activity.createdBy,
+          organizationId: activity.organizationId,
+          recurrence: activity.recurrence,
+          seriesId,
+          occurrence: activity.occurrence + 1,
+        }).returning();
+        await this.audit(tx, [auditCreate('activity', next, changedBy)]);
+      }
+    }
+    if (activity.enrollmentId && activity.status !== 'pending') {
+      const [open] = await tx.select({ count: sql<number>`count(*)::int` }).from(activities)
+        .where(and(eq(activities.enrollmentId, activity.enrollmentId), eq(activities.status, 'pending'), isNull(activities.deletedAt)));
+      if (open.count === 0) {
+        const completed = await tx.update(sequenceEnrollments)
+          .set({ status: 'completed', endedAt: new Date() })
+          .where(and(eq(sequenceEnrollments.id, activity.enrollmentId), eq(sequenceEnrollments.status, 'active')))
+          .returning();
+        await this.audit(tx, completed.map(enrollment =>
+          auditUpdate('sequence_enrollment', { ...enrollment, status: 'active', endedAt: null }, enrollment, changedBy)
+        ));
+      }
+    }
+  }
+
+  // Follow-up sequences
+  async getSequences(orgId: number): Promise<SequenceWithSteps[]> {
+    const orgSequences = await db.select().from(sequences)
+      .where(eq(sequences.organizationId, orgId))
+      .orderBy(asc(sequences.name));
+    const steps = await db.select().from(sequenceSteps)
+      .where(eq(sequenceSteps.organizationId, orgId))
+      .orderBy(asc(sequenceSteps.position));
+    return orgSequences.map(sequence => ({
+      ...sequence,
+      steps: steps.filter(step => step.sequenceId === sequence.id)
+    }));
+  }
+
+  async getSequence(id: number, orgId: number): Promise<SequenceWithSteps | undefined> {
+    const [sequence] = await db.select().from(sequences)
+      .where(and(eq(sequences.id, id), eq(sequences.organizationId, orgId)));
+    if (!sequence) {
+      return undefined;
+    }
+    const steps = await db.select().from(sequenceSteps)
+      .where(eq(sequenceSteps.sequenceId, id))
+      .orderBy(asc(sequenceSteps.position));
+    return { ...sequence, steps };
+  }
+
+  async createSequence(insertSequence: InsertSequence): Promise<SequenceWithSteps> {
+    const { steps, ...fields } = insertSequence;
+    return await db.transaction(async (tx) => {
+      const [sequence] = await tx.insert(sequences).values(fields).returning();
+      const createdSteps = await tx.insert(sequenceSteps)
+        .values(this.toSequenceStepRows(sequence.id, sequence.organizationId, steps))
+        .returning();
+      const created = { ...sequence, steps: createdSteps };
+      await this.audit(tx, [auditCreate('sequence', sequenceSnapshot(created), insertSequence.createdBy)]);
+      return created;
+    });
+  }
+
+  // Activities of existing enrollments are kept when the steps change
+  async updateSequence(id: number, orgId: number, sequenceData: UpdateSequence, updatedBy?: number): Promise<SequenceWithSteps | undefined> {
+    const existing = await this.getSequence(id, orgId);
+    if (!existing) {
+      return undefined;
+    }
+    const { steps, ...fields } = sequenceData;
+    await db.transaction(async (tx) => {
+      const [sequence] = await tx.update(sequences)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(and(eq(sequences.id, id), eq(sequences.organizationId, orgId)))
+        .returning();
+      let updatedSteps = existing.steps;
+      if (steps) {
+        await tx.delete(sequenceSteps).where(eq(sequenceSteps.sequenceId, id));
+        updatedSteps = await tx.insert(sequenceSteps).values(this.toSequenceStepRows(id, orgId, steps)).returning();
+      }
+      await this.audit(tx, [
+        auditUpdate('sequence', sequenceSnapshot(existing), sequenceSnapshot({ ...sequence, steps: updatedSteps }), updatedBy),
+      ]);
+    });
+    return await this.getSequence(id, orgId);
+  }
+
+  // Creates one pending activity per step, due the step's day offset after enrollment
+  async enrollInSequence(sequenceId: number, orgId: number, enrollment: EnrollSequence, enrolledBy: number): Promise<SequenceEnrollmentResult | undefined> {
+    const sequence = await this.getSequence(sequenceId, orgId);
+    if (!sequence) {
+      return undefined;
+    }
+    if (!sequence.isActive) {
+      throw new CustomError("Sequence is not active", 409);
+    }
+    await this.assertReferencesInOrganization(orgId, {
+      assignedTo: enrollment.assignedTo,
+      leadId: enrollment.leadId,
+      dealId: enrollment.dealId
+    });
+    const lead = enrollment.leadId !== undefined ? await this.getLead(enrollment.leadId, orgId) : undefined;
+    const deal = enrollment.dealId !== undefined ? await this.getDeal(enrollment.dealId, orgId) : undefined;
+    if (lead?.status === 'converted') {
+      throw new CustomError("Converted leads cannot be enrolled", 409);
+    }
+    if (deal?.actualCloseDate) {
+      throw new CustomError("Closed deals cannot be enrolled", 409);
+    }
+    const [alreadyEnrolled] = await db.select({ id: sequenceEnrollments.id }).from(sequenceEnrollments)
+      .where(and(
+        eq(sequenceEnrollments.sequenceId, sequenceId),
+        eq(sequenceEnrollments.organizationId, orgId),
+        eq(sequenceEnrollments.status, 'active'),
+        lead ? eq(sequenceEnrollments.leadId, lead.id) : eq(sequenceEnrollments.dealId, deal!.id)
+      ));
+    if (alreadyEnrolled) {
+      throw new CustomError(`The ${lead ? 'lead' : 'deal'} is already enrolled in this sequence`, 409);
+    }
+
+    const assignedTo = enrollment.assignedTo !== undefined ? enrollment.assignedTo : (lead ?? deal)!.assignedTo;
+    const result = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(sequenceEnrollments).values({
+        sequenceId,
+        leadId: lead?.id ?? null,
+        dealId: deal?.id ?? null,
+        assignedTo,
+        enrolledBy,
+        organizationId: orgId
+      }).returning();
+      const enrolledAt = created.enrolledAt ?? new Date();
+      const stepActivities = await tx.insert(activities).values(sequence.steps.map(step => ({
+        type: step.type,
+        subject: step.subject,
+        description: step.description,
+        dueDate: new Date(enrolledAt.getTime() + step.dayOffset * 24 * 60 * 60 * 1000),
+        leadId: lead?.id ?? null,
+        dealId: deal?.id ?? null,
+        customerId: deal?.customerId ?? null,
+        assignedTo,
+        createdBy: enrolledBy,
+        enrollmentId: created.id,
+        organizationId: orgId
+      }))).returning();
+      await this.audit(tx, [
+        auditCreate('sequence_enrollment', created, enrolledBy),
+        ...stepActivities.map(activity => auditCreate('activity', activity, enrolledBy)),
+      ]);
+      return { enrollment: created, activities: stepActivities };
+    });
+    if (lead) {
+      await this.rescoreLead(lead.id, orgId);
+    }
+    return result;
+  }
+
+  async getSequenceEnrollments(orgId: number, query: SequenceEnrollmentQuery, visibleTo?: number): Promise<SequenceEnrollment[]> {
+    return await db.select().from(sequenceEnrollments)
+      .where(and(
+        eq(sequenceEnrollments.organizationId, orgId),
+        visibleTo !== undefined ? or(eq(sequenceEnrollments.assignedTo, visibleTo), eq(sequenceEnrollments.enrolledBy, visibleTo)) : undefined,
+        query.sequenceId !== undefined ? eq(sequenceEnrollments.sequenceId, query.sequenceId) : undefined,
+        query.leadId !== undefined ? eq(sequenceEnrollments.leadId, query.leadId) : undefined,
+        query.dealId !== undefined ? eq(sequenceEnrollments.dealId, query.dealId) : undefined,
+        query.status && inArray(sequenceEnrollments.status, query.status)
+      ))
+      .orderBy(desc(sequenceEnrollments.enrolledAt));
+  }
+
+  async getSequenceEnrollment(id: number, orgId: number): Promise<SequenceEnrollment | undefined> {
+    const [enrollment] = await db.select().from(sequenceEnrollments)
+      .where(and(eq(sequenceEnrollments.id, id), eq(sequenceEnrollments.organizationId, orgId)));
+    return enrollment || undefined;
+  }
+
+  async stopSequenceEnrollment(id: number, orgId: number, stoppedBy?: number): Promise<SequenceEnrollment | undefined> {
+    const existing = await this.getSequenceEnrollment(id, orgId);
+    if (!existing) {
+      return undefined;
+    }
+    if (existing.status !== 'active') {
+      throw new CustomError("Sequence enrollment has already ended", 409);
+    }
+    await db.transaction(tx => this.stopEnrollments(tx, orgId, eq(sequenceEnrollments.id, id), 'manual', stoppedBy));
+    return await this.getSequenceEnrollment(id, orgId);
+  }
+
+  // Ends the matching active enrollments and cancels their pending activities
+  private async stopEnrollments(tx: Transaction, orgId: number, condition: SQL, reason: EnrollmentStopReason, stoppedBy?: number) {
+    const stopped = await tx.update(sequenceEnrollments)
+      .set({ status: 'stopped', stopReason: reason, endedAt: new Date() })
+      .where(and(eq(sequenceEnrollments.organizationId, orgId), eq(sequenceEnrollments.status, 'active'), condition))
+      .returning();
+    if (stopped.length > 0) {
+      const cancelled = await tx.update(activities)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(inArray(activities.enrollmentId, stopped.map(enrollment => enrollment.id)), eq(activities.status, 'pending')))
+        .returning();
+      await this.audit(tx, [
+        ...stopped.map(enrollment =>
+          auditUpdate('sequence_enrollment', { ...enrollment, status: 'active', stopReason: null, endedAt: null }, enrollment, stoppedBy)
+        ),
+        ...cancelled.map(activity => auditUpdate('activity', { ...activity, status: 'pending' }, activity, stoppedBy)),
+      ]);
+    }
+  }
+
+  private toSequenceStepRows(sequenceId: number, orgId: number, steps: SequenceStepInput[]) {
+    return steps.map((step, position) => ({ ...step, sequenceId, position, organizationId: orgId }));
+  }
+
+  // Notifications and activity reminders
+  // Returns undefined when the recipient turned this type of notification off
+  async createNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    const { stored, realtime } = await db.transaction(async (tx) => this.storeNotifications(tx, [insertNotification]));
+    publishNotifications(realtime);
+    return stored[0];
+  }
+
+  // Stores the notifications their recipients want in the app. Those they also want in real time
+  // are returned separately, to be published once the transaction has committed.
+  private async storeNotifications(tx: Transaction, rows: InsertNotification[]): Promise<{ stored: Notification[]; realtime: Notification[] }> {
+    if (rows.length === 0) {
+      return { stored: [], realtime: [] };
+    }
+    const recipients = await tx.select({ id: users.id, settings: users.settings }).from(users)
+      .where(inArray(users.id, Array.from(new Set(rows.map(row => row.userId)))));
+    const settings = new Map(recipients.map(recipient => [recipient.id, recipient.settings]));
+    const wanted = rows.filter(row => wantsNotification(settings.get(row.userId), row.type, 'inApp'));
+    const stored = wanted.length > 0 ? await tx.insert(notifications).values(wanted).returning() : [];
+    const realtime = stored.filter(notification => wantsNotification(settings.get(notification.userId), notification.type, 'realtime'));
+    return { stored, realtime };
+  }
+
+  async listNotifications(userId: number, orgId: number, query: NotificationListQuery): Promise<Page<Notification>> {
+    const conditions = [eq(notifications.organizationId, orgId), eq(notifications.userId, userId)];
+    if (query.unread !== undefined) {
+      conditions.push(query.unread ? isNull(notifications.readAt) : isNotNull(notifications.readAt));
+    }
+    return await this.listPage<Notification>(notifications, notifications.id, NOTIFICATION_SORT_COLUMNS, query, conditions);
+  }
+
+  async countUnreadNotifications(userId: number, orgId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(notifications)
+      .where(and(eq(notifications.organizationId, orgId), eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.count;
+  }
+
+  // Marking read is idempotent; the user's other sessions are told so their unread counts follow
+  async markNotificationRead(id: number, userId: number, orgId: number): Promise<Notification | undefined> {
+    const [notification] = await db.update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.organizationId, orgId), eq(notifications.userId, userId)))
+      .returning();
+    if (notification) {
+      publish(userId, { type: 'read', ids: [notification.id] });
+    }
+    return notification || undefined;
+  }
+
+  async markAllNotificationsRead(userId: number, orgId: number): Promise<number> {
+    const updated = await db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.organizationId, orgId), eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    if (updated.length > 0) {
+      publish(userId, { type: 'read', ids: 'all' });
+    }
+    return updated.length;
+  }
+
+  async getLatestNotification(userId: number, type: string): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.type, type)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(1);
+    return notification || undefined;
+  }
+
+  // Pending activities due before the given time that have not been reported overdue yet,
+  // with the settings of the active user they remind
+  async getReminderCandidates(dueBefore: Date): Promise<ReminderCandidate[]> {
+    return await db.select({ activity: activities, recipientSettings: users.settings })
+      .from(activities)
+      .innerJoin(users, eq(users.id, sql`coalesce(${activities.assignedTo}, ${activities.createdBy})`))
+      .where(and(
+        eq(activities.status, 'pending'),
+        lte(activities.dueDate, dueBefore),
+        isNull(activities.overdueNotifiedAt),
+        isNull(activities.deletedAt),
+        eq(users.isActive, true)
+      ));
+  }
+
+  async recordActivityReminders(plan: ReminderPlan, sentAt: Date): Promise<void> {
+    if (plan.notifications.length === 0 && plan.remindedIds.length === 0 && plan.overdueIds.length === 0) return;
+    const { realtime } = await db.transaction(async (tx) => {
+      if (plan.remindedIds.length > 0) {
+        await tx.update(activities).set({ reminderSentAt: sentAt }).where(inArray(activities.id, plan.remindedIds));
+      }
+      if (plan.overdueIds.length > 0) {
+        await tx.update(activities).set({ overdueNotifiedAt: sentAt }).where(inArray(activities.id, plan.overdueIds));
+      }
+      return await this.storeNotifications(tx, plan.notifications);
+    });
+    publishNotifications(realtime);
+  }
+
+  async getDigestRecipients(): Promise<User[]> {
+    return await db.select().from(users)
+      .where(and(eq(users.isActive, true), sql`(${users.settings} -> 'reminders' ->> 'dailyDigest')::boolean`));
+  }
+
+  async getPendingActivitiesFor(userId: number, orgId: number, dueBefore: Date): Promise<Activity[]> {
+    return await db.select().from(activities)
+      .where(and(
+        eq(activities.organizationId, orgId),
+        eq(activities.status, 'pending'),
+        isNull(activities.deletedAt),
+        lte(activities.dueDate, dueBefore),
+        or(eq(activities.assignedTo, userId), and(isNull(activities.assignedTo), eq(activities.createdBy, userId)))
+      ))
+      .orderBy(asc(activities.dueDate));
+  }
+
+  // Outbound webhooks
+  async getWebhookSubscriptions(orgId: number): Promise<WebhookSubscriptionSummary[]> {
+    return await db.select(WEBHOOK_SUBSCRIPTION_SUMMARY).from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.organizationId, orgId))
+      .orderBy(asc(webhookSubscriptions.createdAt), asc(webhookSubscriptions.id));
+  }
+
+  async getWebhookSubscription(id: number, orgId: number): Promise<WebhookSubscriptionSummary | undefined> {
+    const [subscription] = await db.select(WEBHOOK_SUBSCRIPTION_SUMMARY).from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.organizationId, orgId)));
+    return subscription || undefined;
+  }
+
+  async createWebhookSubscription(insertSubscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    await assertWebhookTarget(insertSubscription.url);
+    return await db.transaction(async (tx) => {
+      const [subscription] = await tx.insert(webhookSubscriptions)
+        .values({ ...insertSubscription, secret: generateWebhookSecret() })
+        .returning();
+      await this.audit(tx, [auditCreate('webhook', subscription, insertSubscription.createdBy)]);
+      return subscription;
+    });
+  }
+
+  async updateWebhookSubscription(
+    id: number,
+    orgId: number,
+    subscriptionData: UpdateWebhookSubscription,
+    updatedBy?: number
+  ): Promise<WebhookSubscriptionSummary | undefined> {
+    if (subscriptionData.url !== undefined) {
+      await assertWebhookTarget(subscriptionData.url);
+    }
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select(WEBHOOK_SUBSCRIPTION_SUMMARY).from(webhookSubscriptions)
+        .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.organizationId, orgId)))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      const [subscription] = await tx.update(webhookSubscriptions)
+        .set({ ...subscriptionData, updatedAt: new Date() })
+        .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.organizationId, orgId)))
+        .returning(WEBHOOK_SUBSCRIPTION_SUMMARY);
+      await this.audit(tx, [auditUpdate('webhook', before, subscription, updatedBy)]);
+      return subscription;
+    });
+  }
+
+  // Deleting a subscription drops its delivery log and any pending retries with it
+  async deleteWebhookSubscription(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.subscriptionId, id), eq(webhookDeliveries.organizationId, orgId)));
+      const deleted = await tx.delete(webhookSubscriptions)
+        .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, deleted.map(subscription => auditDelete('webhook', subscription, deletedBy)));
+      return deleted.length > 0;
+    });
+  }
+
+  async listWebhookDeliveries(orgId: number, query: WebhookDeliveryQuery): Promise<Page<WebhookDelivery>> {
+    return await this.listPage<WebhookDelivery>(webhookDeliveries, webhookDeliveries.id, WEBHOOK_DELIVERY_SORT_COLUMNS, query, [
+      eq(webhookDeliveries.organizationId, orgId),
+      query.subscriptionId !== undefined ? eq(webhookDeliveries.subscriptionId, query.subscriptionId) : undefined,
+      query.event && inArray(webhookDeliveries.event, query.event),
+      query.status && inArray(webhookDeliveries.status, query.status),
+    ]);
+  }
+
+  async getWebhookDelivery(id: number, orgId: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.organizationId, orgId)));
+    return delivery || undefined;
+  }
+
+  // Queues the same payload again as a new delivery; receivers can tell by the unchanged event id
+  async replayWebhookDelivery(id: number, orgId: number): Promise<WebhookDelivery | undefined> {
+    const original = await this.getWebhookDelivery(id, orgId);
+    if (!original) {
+      return undefined;
+    }
+    const [delivery] = await db.insert(webhookDeliveries).values({
+      subscriptionId: original.subscriptionId,
+      event: original.event,
+      payload: original.payload,
+      replayOf: original.id,
+      organizationId: orgId,
+    }).returning();
+    return delivery;
+  }
+
+  // A sample payload logged like any delivery; the caller sends it right away
+  async createTestWebhookDelivery(subscriptionId: number, orgId: number, event?: WebhookEvent): Promise<DueWebhookDelivery | undefined> {
+    const [subscription] = await db.select().from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.id, subscriptionId), eq(webhookSubscriptions.organizationId, orgId)));
+    if (!subscription) {
+      return undefined;
+    }
+    const testEvent = event ?? subscription.events[0] as WebhookEvent;
+    const [delivery] = await db.insert(webhookDeliveries).values({
+      subscriptionId,
+      event: testEvent,
+      payload: { ...buildPayload(testEvent, orgId, SAMPLE_WEBHOOK_DATA[testEvent]), test: true },
+      nextAttemptAt: null,
+      organizationId: orgId,
+    }).returning();
+    return { delivery, subscription };
+  }
+
+  // Locks due deliveries of active subscriptions so that concurrent dispatchers skip them, and
+  // pushes their next attempt past the request timeout in case this process dies mid-send.
+  // Deliveries of organizations whose plan has since dropped webhooks stay pending, unsent
+  async claimDueWebhookDeliveries(now: Date, limit: number): Promise<DueWebhookDelivery[]> {
+    return await db.transaction(async (tx) => {
+      const due = await tx.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+        .from(webhookDeliveries)
+        .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+        .innerJoin(organizations, eq(organizations.id, webhookDeliveries.organizationId))
+        .where(and(
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, now),
+          eq(webhookSubscriptions.isActive, true),
+          inArray(organizations.subscriptionPlan, plansIncluding('webhooks'))
+        ))
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(limit)
+        .for('update', { of: webhookDeliveries, skipLocked: true });
+      if (due.length > 0) {
+        await tx.update(webhookDeliveries)
+          .set({ nextAttemptAt: new Date(now.getTime() + 2 * WEBHOOK_TIMEOUT_MS) })
+          .where(inArray(webhookDeliveries.id, due.map(({ delivery }) => delivery.id)));
+      }
+      return due;
+    });
+  }
+
+  // Failed attempts are retried with exponential backoff until none are left; test deliveries are not retried
+  async recordWebhookAttempt(id: number, attempt: WebhookAttempt, attemptedAt: Date, retry = true): Promise<WebhookDelivery | undefined> {
+    const [current] = await db.select({ attempts: webhookDeliveries.attempts }).from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id));
+    if (!current) {
+      return undefined;
+    }
+    const attempts = current.attempts + 1;
+    const retryDelay = !attempt.ok && retry ? nextRetryDelay(attempts) : undefined;
+    const [delivery] = await db.update(webhookDeliveries)
+      .set({
+        status: attempt.ok ? 'succeeded' : retryDelay !== undefined ? 'pending' : 'failed',
+        attempts,
+        responseStatus: attempt.responseStatus,
+        responseBody: attempt.responseBody,
+        error: attempt.error,
+        lastAttemptAt: attemptedAt,
+        nextAttemptAt: retryDelay !== undefined ? new Date(attemptedAt.getTime() + retryDelay) : null,
+      })
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery || undefined;
+  }
+
+  // Queues a delivery of the event to each active subscription of the organization, in the
+  // transaction of the change itself where there is one, so events are only sent for committed changes.
+  // Nothing is queued while the organization's plan does not include webhooks
+  private async queueWebhookEvent(tx: Transaction | typeof db, orgId: number, event: WebhookEvent, data: unknown) {
+    const subscribed = await tx.select({ id: webhookSubscriptions.id }).from(webhookSubscriptions)
+      .innerJoin(organizations, eq(organizations.id, webhookSubscriptions.organizationId))
+      .where(and(
+        eq(webhookSubscriptions.organizationId, orgId),
+        eq(webhookSubscriptions.isActive, true),
+        sql`${webhookSubscriptions.events} ? ${event}`,
+        inArray(organizations.subscriptionPlan, plansIncluding('webhooks'))
+      ));
+    if (subscribed.length === 0) return;
+    const payload = buildPayload(event, orgId, data);
+    await tx.insert(webhookDeliveries).values(subscribed.map(subscription => ({
+      subscriptionId: subscription.id,
+      event,
+      payload,
+      organizationId: orgId,
+    })));
+  }
+
+  // Web-to-lead forms
+  async getLeadForms(orgId: number): Promise<LeadForm[]> {
+    return await db.select().from(leadForms)
+      .where(eq(leadForms.organizationId, orgId))
+      .orderBy(asc(leadForms.createdAt), asc(leadForms.id));
+  }
+
+  async getLeadForm(id: number, orgId: number): Promise<LeadForm | undefined> {
+    const [form] = await db.select().from(leadForms)
+      .where(and(eq(leadForms.id, id), eq(leadForms.organizationId, orgId)));
+    return form || undefined;
+  }
+
+  async getLeadFormByPublicKey(publicKey: string): Promise<LeadForm | undefined> {
+    const [form] = await db.select().from(leadForms).where(eq(leadForms.publicKey, publicKey));
+    return form || undefined;
+  }
+
+  async createLeadForm(insertForm: InsertLeadForm): Promise<LeadForm> {
+    await this.assertReferencesInOrganization(insertForm.organizationId, { assignedTo: insertForm.assignedTo });
+    assertValidFieldMapping(insertForm.fieldMapping, await this.getCustomFieldDefinitions(insertForm.organizationId, 'lead'));
+    return await db.transaction(async (tx) => {
+      const [form] = await tx.insert(leadForms)
+        .values({ ...insertForm, publicKey: generateFormKey() })
+        .returning();
+      await this.audit(tx, [auditCreate('lead_form', form, insertForm.createdBy)]);
+      return form;
+    });
+  }
+
+  async updateLeadForm(id: number, orgId: number, formData: UpdateLeadForm, updatedBy?: number): Promise<LeadForm | undefined> {
+    await this.assertReferencesInOrganization(orgId, { assignedTo: formData.assignedTo });
+    if (formData.fieldMapping) {
+      assertValidFieldMapping(formData.fieldMapping, await this.getCustomFieldDefinitions(orgId, 'lead'));
+    }
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leadForms)
+        .where(and(eq(leadForms.id, id), eq(leadForms.organizationId, orgId)))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      const [form] = await tx.update(leadForms)
+        .set({ ...formData, updatedAt: new Date() })
+        .where(and(eq(leadForms.id, id), eq(leadForms.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('lead_form', before, form, updatedBy)]);
+      return form;
+    });
+  }
+
+  async deleteLeadForm(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx.delete(leadForms)
+        .where(and(eq(leadForms.id, id), eq(leadForms.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, deleted.map(form => auditDelete('lead_form', form, deletedBy)));
+      return deleted.length > 0;
+    });
+  }
+
+  // New leads go through createLead, so they are routed, scored, notified and sent to webhooks
+  // like any other. With mergeDuplicates, a submission whose email belongs to an open lead fills in
+  // that lead instead (the most recent one when there are several).
+  async submitLeadForm(form: LeadForm, submission: NonNullable<MappedSubmission['data']>): Promise<LeadFormResult> {
+    const orgId = form.organizationId;
+    const [existing] = form.mergeDuplicates
+      ? await db.select().from(leads)
+        .where(and(
+          eq(leads.organizationId, orgId),
+          isNull(leads.deletedAt),
+          eq(sql`lower(${leads.email})`, normalizeEmail(submission.email)),
+          notInArray(leads.status, CLOSED_LEAD_STATUSES)
+        ))
+        .orderBy(desc(leads.createdAt), desc(leads.id))
+        .limit(1)
+      : [];
+    const merged = existing ? await this.updateLead(existing.id, orgId, mergeSubmission(existing, submission)) : undefined;
+    const lead = merged ?? await this.createLead({
+      ...submission,
+      source: form.source,
+      status: 'new',
+      assignedTo: form.assignedTo,
+      organizationId: orgId,
+    });
+    await db.update(leadForms)
+      .set({ submissionCount: sql`${leadForms.submissionCount} + 1`, lastSubmissionAt: new Date() })
+      .where(eq(leadForms.id, form.id));
+    return { lead, merged: merged !== undefined };
+  }
+
+  async recordLeadFormSpam(id: number): Promise<void> {
+    await db.update(leadForms)
+      .set({ spamCount: sql`${leadForms.spamCount} + 1` })
+      .where(eq(leadForms.id, id));
+  }
+
+  // Audit log
+  async listAuditLogs(orgId: number, query: AuditLogQuery): Promise<Page<AuditLog>> {
+    return await this.listPage<AuditLog>(auditLogs, auditLogs.id, AUDIT_LOG_SORT_COLUMNS, query, this.auditLogFilters(orgId, query));
+  }
+
+  async exportAuditLogs(orgId: number, query: ListFilters<AuditLogQuery>): Promise<AsyncIterable<AuditLog[]>> {
+    return this.exportBatches<AuditLog>(auditLogs, auditLogs.id, AUDIT_LOG_SORT_COLUMNS, query, this.auditLogFilters(orgId, query));
+  }
+
+  private auditLogFilters(orgId: number, query: ListFilters<AuditLogQuery>): (SQL | undefined)[] {
+    return [
+      eq(auditLogs.organizationId, orgId),
+      query.entityType && inArray(auditLogs.entityType, query.entityType),
+      query.entityId !== undefined ? eq(auditLogs.entityId, query.entityId) : undefined,
+      query.actorId !== undefined ? eq(auditLogs.actorId, query.actorId) : undefined,
+      query.action && inArray(auditLogs.action, query.action),
+      rangeCondition(auditLogs.createdAt, query.from, query.to),
+    ];
+  }
+
+  // Appends to the audit log in the transaction of the change, so entries exist exactly for
+  // committed changes. Undefined entries (updates that changed nothing) are skipped.
+  private async audit(tx: Transaction | typeof db, entries: (InsertAuditLog | undefined)[]) {
+    const rows = entries.filter((entry): entry is InsertAuditLog => entry !== undefined);
+    if (rows.length > 0) {
+      await tx.insert(auditLogs).values(rows);
+    }
+  }
+
+  // Trash
+  async listTrash(orgId: number, entityType: TrashEntityType, query: TrashQuery): Promise<Page<TrashedRecord>> {
+    const table = TRASH_TABLES[entityType];
+    return await this.listPage<TrashedRecord>(table, table.id, { deletedAt: table.deletedAt }, query, [
+      eq(table.organizationId, orgId),
+      isNotNull(table.deletedAt),
+      query.deletedBy !== undefined ? eq(table.deletedBy, query.deletedBy) : undefined,
+    ]);
+  }
+
+  // Restores the record with the records deleted along with it. Enrollments stopped by the delete
+  // stay stopped.
+  async restoreFromTrash(entityType: TrashEntityType, id: number, orgId: number, restoredBy?: number): Promise<TrashedRecord | undefined> {
+    const table = TRASH_TABLES[entityType];
+    const [record] = await db.select().from(table as PgTable)
+      .where(and(eq(table.id, id), eq(table.organizationId, orgId), isNotNull(table.deletedAt))) as TrashedRecord[];
+    if (!record) {
+      return undefined;
+    }
+    await this.assertRestorable(entityType, record, orgId);
+    const restored = await db.transaction(async (tx) => {
+      const batch = await this.deletedWith(tx, entityType, record);
+      const [restored] = await this.setTrashed(tx, entityType, eq(table.id, id), null, restoredBy);
+      if (!restored) {
+        return undefined;
+      }
+      for (const type of TRASH_ENTITY_TYPES) {
+        if (batch[type].length > 0) {
+          await this.setTrashed(tx, type, inArray(TRASH_TABLES[type].id, batch[type]), null, restoredBy);
+        }
+      }
+      return restored;
+    });
+    const leadId = entityType === 'lead' ? id : entityType === 'activity' ? (record as Activity).leadId : null;
+    if (restored && leadId) {
+      await this.rescoreLead(leadId, orgId);
+    }
+    return restored;
+  }
+
+  async purgeFromTrash(entityType: TrashEntityType, id: number, orgId: number, purgedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const table = TRASH_TABLES[entityType];
+      const [record] = await tx.select().from(table as PgTable)
+        .where(and(eq(table.id, id), eq(table.organizationId, orgId), isNotNull(table.deletedAt)))
+        .for('update') as TrashedRecord[];
+      if (!record) {
+        return false;
+      }
+      const batch = await this.deletedWith(tx, entityType, record);
+      batch[entityType].push(id);
+      await this.purgeRecords(tx, orgId, batch, purgedBy);
+      return true;
+    });
+  }
+
+  // Purges what each organization deleted longer ago than its retention period
+  async purgeExpiredTrash(now: Date): Promise<number> {
+    const orgs = await db.select({ id: organizations.id, settings: organizations.settings }).from(organizations);
+    let purged = 0;
+    for (const org of orgs) {
+      const cutoff = purgeCutoff(org.settings, now);
+      purged += await db.transaction(async (tx) => {
+        const batch = emptyTrashBatch();
+        for (const type of TRASH_ENTITY_TYPES) {
+          const table = TRASH_TABLES[type];
+          const expired = await tx.select({ id: table.id }).from(table as PgTable)
+            .where(and(eq(table.organizationId, org.id), lt(table.deletedAt, cutoff)));
+          batch[type] = expired.map(row => row.id);
+        }
+        return await this.purgeRecords(tx, org.id, batch);
+      });
+    }
+    return purged;
+  }
+
+  // Moves the matching live records to the trash or, without a deletion, the matching trashed
+  // records out of it
+  private async setTrashed(
+    tx: Transaction,
+    entityType: TrashEntityType,
+    condition: SQL | undefined,
+    deletion: { deletedAt: Date; deletedBy: number | null } | null,
+    actorId?: number
+  ): Promise<TrashedRecord[]> {
+    const table = TRASH_TABLES[entityType];
+    const before = await tx.select().from(table as PgTable)
+      .where(and(condition, deletion ? isNull(table.deletedAt) : isNotNull(table.deletedAt)))
+      .for('update') as TrashedRecord[];
+    if (before.length === 0) {
+      return [];
+    }
+    const after = await tx.update(table)
+      .set(deletion ?? { deletedAt: null, deletedBy: null })
+      .where(inArray(table.id, before.map(row => row.id)))
+      .returning() as TrashedRecord[];
+    await this.audit(tx, after.map(row =>
+      auditTrash(entityType, deletion ? 'delete' : 'restore', before.find(candidate => candidate.id === row.id)!, row, actorId)
+    ));
+    // Deals in the trash have no sales data
+    if (entityType === 'deal') {
+      await this.syncSalesData(tx, after[0].organizationId, after.map(row => row.id));
+    }
+    return after;
+  }
+
+  // The records deleted in the same go as a trashed record (they share its deletedAt): a customer's
+  // deals and the activities of both, or a lead's or deal's activities
+  private async deletedWith(tx: Transaction, entityType: TrashEntityType, record: TrashedRecord): Promise<TrashBatch> {
+    const batch = emptyTrashBatch();
+    const sameDeletion = (table: typeof deals | typeof activities) =>
+      and(eq(table.organizationId, record.organizationId), eq(table.deletedAt, record.deletedAt!));
+    if (entityType === 'customer') {
+      batch.deal = (await tx.select({ id: deals.id }).from(deals)
+        .where(and(sameDeletion(deals), eq(deals.customerId, record.id)))).map(row => row.id);
+    }
+    const owner = {
+      lead: eq(activities.leadId, record.id),
+      customer: batch.deal.length > 0
+        ? or(eq(activities.customerId, record.id), inArray(activities.dealId, batch.deal))
+        : eq(activities.customerId, record.id),
+      deal: eq(activities.dealId, record.id),
+      activity: undefined,
+    }[entityType];
+    if (owner) {
+      batch.activity = (await tx.select({ id: activities.id }).from(activities)
+        .where(and(sameDeletion(activities), owner))).map(row => row.id);
+    }
+    return batch;
+  }
+
+  // A record can only come back next to the live records it belongs to
+  private async assertRestorable(entityType: TrashEntityType, record: TrashedRecord, orgId: number) {
+    if (entityType === 'customer') {
+      await this.assertCustomerEmailAvailable(orgId, (record as Customer).email, record.id);
+    }
+    const parents = {
+      lead: [],
+      customer: [],
+      deal: [['customer', (record as Deal).customerId]],
+      activity: [['lead', (record as Activity).leadId], ['customer', (record as Activity).customerId], ['deal', (record as Activity).dealId]],
+    }[entityType] as [TrashEntityType, number | null][];
+    for (const [parentType, parentId] of parents) {
+      if (!parentId) continue;
+      const parent = TRASH_TABLES[parentType];
+      const [trashed] = await db.select({ id: parent.id }).from(parent as PgTable)
+        .where(and(eq(parent.id, parentId), isNotNull(parent.deletedAt)));
+      if (trashed) {
+        throw new CustomError(`Restore the ${parentType} first`, 409);
+      }
+    }
+  }
+
+  // Deletes trashed records for good. References to them from the records that stay are cleared,
+  // and their stage history, lead assignments and sequence enrollments go with them.
+  private async purgeRecords(tx: Transaction, orgId: number, batch: TrashBatch, actorId?: number): Promise<number> {
+    const purgeable = async (type: TrashEntityType) => {
+      if (batch[type].length === 0) return [];
+      const table = TRASH_TABLES[type];
+      const rows = await tx.select({ id: table.id }).from(table as PgTable)
+        .where(and(inArray(table.id, batch[type]), eq(table.organizationId, orgId), isNotNull(table.deletedAt)))
+        .for('update');
+      return rows.map(row => row.id);
+    };
+    const ids = {
+      activity: await purgeable('activity'),
+      deal: await purgeable('deal'),
+      customer: await purgeable('customer'),
+      lead: await purgeable('lead'),
+    };
+
+    if (ids.deal.length > 0) {
+      await this.detach(tx, 'activity', activities.dealId, 'dealId', ids.deal, actorId);
+      await tx.update(salesData).set({ dealId: null }).where(inArray(salesData.dealId, ids.deal));
+      await tx.delete(dealStageHistory).where(inArray(dealStageHistory.dealId, ids.deal));
+      await this.deleteEnrollments(tx, inArray(sequenceEnrollments.dealId, ids.deal), actorId);
+    }
+    if (ids.customer.length > 0) {
+      await this.detach(tx, 'deal', deals.customerId, 'customerId', ids.customer, actorId);
+      await this.detach(tx, 'activity', activities.customerId, 'customerId', ids.customer, actorId);
+    }
+    if (ids.lead.length > 0) {
+      await this.detach(tx, 'activity', activities.leadId, 'leadId', ids.lead, actorId);
+      await this.detach(tx, 'customer', customers.convertedFromLead, 'convertedFromLead', ids.lead, actorId);
+      await tx.delete(leadAssignments).where(inArray(leadAssignments.leadId, ids.lead));
+      await this.deleteEnrollments(tx, inArray(sequenceEnrollments.leadId, ids.lead), actorId);
+    }
+
+    const entries: InsertAuditLog[] = [];
+    for (const type of ['activity', 'deal', 'customer', 'lead'] as const) {
+      if (ids[type].length === 0) continue;
+      const table = TRASH_TABLES[type];
+      const purged = await tx.delete(table).where(inArray(table.id, ids[type])).returning() as TrashedRecord[];
+      entries.push(...purged.map(record => auditPurge(type, record, actorId)));
+    }
+    await this.audit(tx, entries);
+    return entries.length;
+  }
+
+  // Clears a reference to purged records on the records that keep it
+  private async detach(
+    tx: Transaction,
+    entityType: 'customer' | 'deal' | 'activity',
+    column: PgColumn,
+    field: 'leadId' | 'customerId' | 'dealId' | 'convertedFromLead' | 'enrollmentId',
+    ids: number[],
+    actorId?: number
+  ) {
+    const table = TRASH_TABLES[entityType];
+    const rows = await tx.select({ id: table.id, organizationId: table.organizationId, value: column }).from(table as PgTable)
+      .where(inArray(column, ids));
+    if (rows.length === 0) {
+      return;
+    }
+    await tx.update(table).set({ [field]: null }).where(inArray(column, ids));
+    await this.audit(tx, rows.map(({ value, ...row }) => auditUpdate(entityType, { ...row, [field]: value }, { ...row, [field]: null }, actorId)));
+  }
+
+  private async deleteEnrollments(tx: Transaction, condition: SQL, actorId?: number) {
+    const enrollments = await tx.select().from(sequenceEnrollments).where(condition);
+    if (enrollments.length === 0) {
+      return;
+    }
+    const enrollmentIds = enrollments.map(enrollment => enrollment.id);
+    await this.detach(tx, 'activity', activities.enrollmentId, 'enrollmentId', enrollmentIds, actorId);
+    await tx.delete(sequenceEnrollments).where(inArray(sequenceEnrollments.id, enrollmentIds));
+    await this.audit(tx, enrollments.map(enrollment => auditDelete('sequence_enrollment', enrollment, actorId)));
+  }
+
+  // Search
+  async search(orgId: number, query: SearchQuery, scopes: SearchScope[]): Promise<SearchResponse> {
+    const prefixQuery = toPrefixQuery(query.q);
+    if (!prefixQuery) {
+      return { query: query.q, groups: [] };
+    }
+    const tsQuery = sql`to_tsquery('simple', ${prefixQuery})`;
+    const terms = searchTerms(query.q);
+    const wanted = scopes.filter(scope => !query.types || query.types.includes(scope.entityType));
+    const groups = await Promise.all(wanted.map(async scope =>
+      toResultGroup(scope.entityType, await this.searchEntity(orgId, scope, tsQuery, query.limit), terms)
+    ));
+    return { query: query.q, groups: orderGroups(groups) };
+  }
+
+  // Ranks one entity type against the query; the vectors match the GIN index expressions
+  private async searchEntity(orgId: number, scope: SearchScope, tsQuery: SQL, limit: number): Promise<RankedRow[]> {
+    const targets = {
+      lead: {
+        table: leads, id: leads.id, organizationId: leads.organizationId, deletedAt: leads.deletedAt, vector: contactSearchVector(leads),
+        title: sql<string>`${leads.firstName} || ' ' || ${leads.lastName}`,
+        subtitle: sql<string | null>`nullif(concat_ws(' · ', ${leads.company}, ${leads.email}), '')`,
+        owner: (userId: number) => or(eq(leads.assignedTo, userId), eq(leads.createdBy, userId)),
+      },
+      customer: {
+        table: customers, id: customers.id, organizationId: customers.organizationId, deletedAt: customers.deletedAt, vector: contactSearchVector(customers),
+        title: sql<string>`${customers.firstName} || ' ' || ${customers.lastName}`,
+        subtitle: sql<string | null>`nullif(concat_ws(' · ', ${customers.company}, ${customers.email}), '')`,
+        owner: (userId: number) => or(eq(customers.assignedTo, userId), eq(customers.createdBy, userId)),
+      },
+      deal: {
+        table: deals, id: deals.id, organizationId: deals.organizationId, deletedAt: deals.deletedAt, vector: searchVector(deals.title),
+        title: sql<string>`${deals.title}`,
+        subtitle: sql<string | null>`${deals.stage}`,
+        owner: (userId: number) => or(eq(deals.assignedTo, userId), eq(deals.createdBy, userId)),
+      },
+      activity: {
+        table: activities, id: activities.id, organizationId: activities.organizationId, deletedAt: activities.deletedAt, vector: searchVector(activities.subject),
+        title: sql<string>`${activities.subject}`,
+        subtitle: sql<string | null>`${activities.type} || ' · ' || ${activities.status}`,
+        owner: (userId: number) => or(eq(activities.assignedTo, userId), eq(activities.createdBy, userId)),
+      },
+    };
+    const target = targets[scope.entityType];
+    const rank = sql<number>`ts_rank(${target.vector}, ${tsQuery})`.mapWith(Number);
+    return await db.select({
+      id: target.id,
+      title: target.title,
+      subtitle: target.subtitle,
+      rank,
+      total: sql<number>`(count(*) over ())::int`,
+    })
+      .from(target.table as PgTable)
+      .where(and(
+        eq(target.organizationId, orgId),
+        isNull(target.deletedAt),
+        scope.visibleTo !== undefined ? target.owner(scope.visibleTo) : undefined,
+        sql`${target.vector} @@ ${tsQuery}`
+      ))
+      .orderBy(desc(rank), asc(target.id))
+      .limit(limit);
+  }
+
+  // Imports
+  // Emails are expected in normalized (lowercase) form
+  async findRecordsByEmail(orgId: number, entityType: ImportEntityType, emails: string[]) {
+    if (emails.length === 0) return [];
+    const table = entityType === 'leads' ? leads : customers;
+    return await db.select({ id: table.id, email: table.email, assignedTo: table.assignedTo }).from(table)
+      .where(and(
+        eq(table.organizationId, orgId),
+        isNull(table.deletedAt),
+        inArray(sql`lower(${table.email})`, Array.from(new Set(emails)))
+      ));
+  }
+
+  async createImportJob(insertJob: InsertImportJob): Promise<ImportJob> {
+    const [job] = await db.insert(importJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getImportJob(id: number, orgId: number): Promise<ImportJob | undefined> {
+    const [job] = await db.select().from(importJobs)
+      .where(and(eq(importJobs.id, id), eq(importJobs.organizationId, orgId)));
+    return job || undefined;
+  }
+
+  async listImportJobs(orgId: number, query: ListQuery, createdBy?: number): Promise<Page<ImportJob>> {
+    return await this.listPage<ImportJob>(importJobs, importJobs.id, IMPORT_JOB_SORT_COLUMNS, query, [
+      eq(importJobs.organizationId, orgId),
+      createdBy !== undefined ? eq(importJobs.createdBy, createdBy) : undefined,
+    ]);
+  }
+
+  async updateImportJob(id: number, orgId: number, changes: ImportJobProgress): Promise<ImportJob | undefined> {
+    const [job] = await db.update(importJobs)
+      .set(changes)
+      .where(and(eq(importJobs.id, id), eq(importJobs.organizationId, orgId)))
+      .returning();
+    return job || undefined;
+  }
+
+  // One page of a list plus the total across all pages; undefined conditions are ignored
+  private async listPage<T extends { id: number }>(
+    table: PgTable,
+    idColumn: PgColumn,
+    sortColumns: SortColumns,
+    query: ListQuery,
+    conditions: (SQL | undefined)[]
+  ): Promise<Page<T>> {
+    const filters = and(...conditions);
+    const [rows, [{ total }]] = await Promise.all([
+      db.select().from(table)
+        .where(and(filters, afterCursor(sortColumns, idColumn, query)))
+        .orderBy(...orderByFor(sortColumns, idColumn, query.sort))
+        .limit(query.limit + 1),
+      db.select({ total: sql<number>`count(*)::int` }).from(table).where(filters),
+    ]);
+    return toPage(rows as T[], query, total);
+  }
+
+  // Every matching record, fetched in keyset-paginated batches as the consumer asks for them
+  private async *exportBatches<T extends { id: number }>(
+    table: PgTable,
+    idColumn: PgColumn,
+    sortColumns: SortColumns,
+    query: Pick<ListQuery, 'sort'>,
+    conditions: (SQL | undefined)[]
+  ): AsyncGenerator<T[]> {
+    const filters = and(...conditions);
+    let batch: ListQuery = { sort: query.sort, limit: EXPORT_BATCH_SIZE, cursor: undefined };
+    while (true) {
+      const rows = await db.select().from(table)
+        .where(and(filters, afterCursor(sortColumns, idColumn, batch)))
+        .orderBy(...orderByFor(sortColumns, idColumn, batch.sort))
+        .limit(batch.limit + 1);
+      const { data, page } = toPage(rows as T[], batch, 0);
+      if (data.length > 0) yield data;
+      if (!page.nextCursor) return;
+      batch = { ...batch, cursor: page.nextCursor };
+    }
+  }
+
   // Analytics and reporting
   async getSalesData(orgId: number): Promise<SalesData[]> {
     return await db.select().from(salesData)
@@ -234,6 +2687,110 @@ export class DatabaseCommercialStorage implements ICommercialStorage {
       .orderBy(desc(salesData.createdAt));
   }
 
+  async getSalesDataRollup(orgId: number, query: SalesDataRollupQuery): Promise<SalesDataRollup[]> {
+    const totals = await db.select({
+      periodStart: salesData.periodStart,
+      source: salesData.source,
+      revenue: sql<string>`sum(${salesData.revenue})`,
+      deals: sql<number>`sum(${salesData.deals})::int`,
+      newCustomers: sql<number>`coalesce(sum(${salesData.newCustomers}), 0)::int`,
+    }).from(salesData)
+      .where(and(
+        eq(salesData.organizationId, orgId),
+        query.from !== undefined ? gte(salesData.periodStart, query.from) : undefined,
+        query.to !== undefined ? lt(salesData.periodStart, query.to) : undefined,
+        query.assignedTo !== undefined ? eq(salesData.assignedTo, query.assignedTo) : undefined
+      ))
+      .groupBy(salesData.periodStart, salesData.source);
+    return rollUpSalesData(totals, query.period);
+  }
+
+  async createSalesAdjustment(orgId: number, adjustment: InsertSalesAdjustment, createdBy?: number): Promise<SalesData> {
+    await this.assertReferencesInOrganization(orgId, { assignedTo: adjustment.assignedTo, dealId: adjustment.dealId });
+    const { periodStart, ...values } = adjustment;
+    return await db.transaction(async (tx) => {
+      const [row] = await tx.insert(salesData).values({
+        ...values,
+        ...salesDataBucket(periodStart),
+        source: 'adjustment',
+        createdBy: createdBy ?? null,
+        organizationId: orgId,
+      }).returning();
+      await this.audit(tx, [auditCreate('sales_adjustment', row, createdBy)]);
+      return row;
+    });
+  }
+
+  // Rows derived from deals change with the deals, so only adjustments can be deleted
+  async deleteSalesAdjustment(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx.delete(salesData)
+        .where(and(eq(salesData.id, id), eq(salesData.organizationId, orgId), eq(salesData.source, 'adjustment')))
+        .returning();
+      await this.audit(tx, deleted.map(row => auditDelete('sales_adjustment', row, deletedBy)));
+      return deleted.length > 0;
+    });
+  }
+
+  // Replaces every row derived from deals with the rows of the deals as they are now
+  async rebuildSalesData(orgId: number): Promise<SalesDataBackfill> {
+    return await db.transaction(async (tx) => {
+      const { removed, created } = await this.syncSalesData(tx, orgId);
+      const [adjustments] = await tx.select({ count: sql<number>`count(*)::int` }).from(salesData)
+        .where(and(eq(salesData.organizationId, orgId), eq(salesData.source, 'adjustment')));
+      return { removed, created, adjustments: Number(adjustments?.count || 0) };
+    });
+  }
+
+  // Rewrites the sales data of the given deals, or of all the organization's deals: one row for
+  // each live deal closed in a won stage. Adjustments are left alone.
+  private async syncSalesData(tx: Transaction, orgId: number, dealIds?: number[]) {
+    if (dealIds?.length === 0) {
+      return { removed: 0, created: 0 };
+    }
+    const removed = await tx.delete(salesData)
+      .where(and(
+        eq(salesData.organizationId, orgId),
+        eq(salesData.source, 'deal'),
+        dealIds && inArray(salesData.dealId, dealIds)
+      ))
+      .returning({ id: salesData.id });
+    const isWon = await this.wonStageMatcher(orgId, tx);
+    const closed = await tx.select({
+      id: deals.id,
+      value: deals.value,
+      actualCloseDate: deals.actualCloseDate,
+      assignedTo: deals.assignedTo,
+      organizationId: deals.organizationId,
+      pipelineId: deals.pipelineId,
+      stage: deals.stage,
+    }).from(deals).where(and(
+      eq(deals.organizationId, orgId),
+      isNull(deals.deletedAt),
+      isNotNull(deals.actualCloseDate),
+      dealIds && inArray(deals.id, dealIds)
+    ));
+    const rows = closed
+      .map(({ pipelineId, stage, ...deal }) => dealSalesData({ ...deal, won: isWon({ pipelineId, stage }) }))
+      .filter((row): row is typeof salesData.$inferInsert => row !== undefined);
+    if (rows.length > 0) {
+      await tx.insert(salesData).values(rows);
+    }
+    return { removed: removed.length, created: rows.length };
+  }
+
+  async exportSalesData(orgId: number): Promise<AsyncIterable<SalesData[]>> {
+    return this.exportBatches<SalesData>(salesData, salesData.id, { createdAt: salesData.createdAt }, OLDEST_FIRST, [
+      eq(salesData.organizationId, orgId),
+    ]);
+  }
+
+  async exportDealStageHistory(orgId: number): Promise<AsyncIterable<DealStageHistory[]>> {
+    return this.exportBatches<DealStageHistory>(dealStageHistory, dealStageHistory.id, { changedAt: dealStageHistory.changedAt }, OLDEST_FIRST_CHANGES, [
+      eq(dealStageHistory.organizationId, orgId),
+    ]);
+  }
+
   async getDashboardMetrics(orgId: number): Promise<{
     totalRevenue: number;
     totalDeals: number;
@@ -250,27 +2807,27 @@ export class DatabaseCommercialStorage implements ICommercialStorage {
     // Get total deals
     const dealsResult = await db.select({
       total: sql<number>`COUNT(*)`
-    }).from(deals).where(eq(deals.organizationId, orgId));
+    }).from(deals).where(and(eq(deals.organizationId, orgId), isNull(deals.deletedAt)));
     
     // Get total customers
     const customersResult = await db.select({
       total: sql<number>`COUNT(*)`
-    }).from(customers).where(eq(customers.organizationId, orgId));
+    }).from(customers).where(and(eq(customers.organizationId, orgId), isNull(customers.deletedAt)));
     
     // Get total leads
     const leadsResult = await db.select({
       total: sql<number>`COUNT(*)`
-    }).from(leads).where(eq(leads.organizationId, orgId));
+    }).from(leads).where(and(eq(leads.organizationId, orgId), isNull(leads.deletedAt)));
     
     // Get converted leads for conversion rate
     const convertedLeadsResult = await db.select({
       total: sql<number>`COUNT(*)`
-    }).from(leads).where(and(eq(leads.organizationId, orgId), eq(leads.status, 'converted')));
+    }).from(leads).where(and(eq(leads.organizationId, orgId), isNull(leads.deletedAt), eq(leads.status, 'converted')));
     
     // Get average deal value
     const avgDealResult = await db.select({
       avg: sql<number>`COALESCE(AVG(${deals.value}), 0)`
-    }).from(deals).where(eq(deals.organizationId, orgId));
+    }).from(deals).where(and(eq(deals.organizationId, orgId), isNull(deals.deletedAt)));
     
     const totalRevenue = Number(revenueResult[0]?.total || 0);
     const totalDeals = Number(dealsResult[0]?.total || 0);
@@ -290,6 +2847,267 @@ export class DatabaseCommercialStorage implements ICommercialStorage {
       avgDealValue
     };
   }
+
+  // Open deals expected to close before the end of the range (or without a date) and the deals
+  // closed within it, with the sales data recorded in the same years
+  async getForecast(orgId: number, query: ForecastQuery, now = new Date()): Promise<Forecast> {
+    const periods = forecastPeriods(query, now);
+    const from = periods[0].start;
+    const to = periods[periods.length - 1].end;
+    const org = await this.getOrganization(orgId);
+    const pipeline = query.pipelineId !== undefined ? await this.resolvePipeline(orgId, query.pipelineId) : undefined;
+    const isWon = await this.wonStageMatcher(orgId);
+
+    const dealRows = await db.select({
+      value: deals.value,
+      probability: deals.probability,
+      expectedCloseDate: deals.expectedCloseDate,
+      actualCloseDate: deals.actualCloseDate,
+      assignedTo: deals.assignedTo,
+      pipelineId: deals.pipelineId,
+      stage: deals.stage,
+    }).from(deals).where(and(
+      eq(deals.organizationId, orgId),
+      isNull(deals.deletedAt),
+      pipeline && this.dealsInPipeline(pipeline),
+      query.assignedTo !== undefined ? eq(deals.assignedTo, query.assignedTo) : undefined,
+      or(
+        and(isNull(deals.actualCloseDate), or(isNull(deals.expectedCloseDate), lt(deals.expectedCloseDate, to))),
+        and(gte(deals.actualCloseDate, from), lt(deals.actualCloseDate, to))
+      )
+    ));
+
+    const revenueRows = await db.select({
+      periodStart: salesData.periodStart,
+      revenue: salesData.revenue,
+      assignedTo: salesData.assignedTo,
+    }).from(salesData).where(and(
+      eq(salesData.organizationId, orgId),
+      gte(salesData.periodStart, from),
+      lt(salesData.periodStart, to),
+      query.assignedTo !== undefined ? eq(salesData.assignedTo, query.assignedTo) : undefined
+    ));
+
+    return buildForecast({
+      period: query.period,
+      assignedTo: query.assignedTo,
+      pipelineId: query.pipelineId,
+      periods,
+      deals: dealRows.map(({ pipelineId, stage, ...deal }) => ({ ...deal, won: isWon({ pipelineId, stage }) })),
+      salesData: revenueRows,
+      settings: getForecastSettings(org?.settings),
+    }, now);
+  }
+
+  async createForecastSnapshot(orgId: number, snapshot: InsertForecastSnapshot, createdBy?: number): Promise<ForecastSnapshot> {
+    const { name, ...query } = snapshot;
+    const forecast = await this.getForecast(orgId, query);
+    const [created] = await db.insert(forecastSnapshots).values({
+      name: name ?? null,
+      period: forecast.period,
+      assignedTo: forecast.assignedTo,
+      pipelineId: forecast.pipelineId,
+      forecast,
+      createdBy: createdBy ?? null,
+      organizationId: orgId,
+    }).returning();
+    return created;
+  }
+
+  async listForecastSnapshots(orgId: number, query: ForecastSnapshotListQuery): Promise<Page<ForecastSnapshot>> {
+    return await this.listPage<ForecastSnapshot>(forecastSnapshots, forecastSnapshots.id, { createdAt: forecastSnapshots.createdAt }, query, [
+      eq(forecastSnapshots.organizationId, orgId),
+      query.period !== undefined ? eq(forecastSnapshots.period, query.period) : undefined,
+    ]);
+  }
+
+  async getForecastSnapshot(id: number, orgId: number): Promise<ForecastSnapshot | undefined> {
+    const [snapshot] = await db.select().from(forecastSnapshots)
+      .where(and(eq(forecastSnapshots.id, id), eq(forecastSnapshots.organizationId, orgId)));
+    return snapshot || undefined;
+  }
+
+  // The latest snapshot of the same kind (period, rep and pipeline) saved at or before the given time
+  async findForecastSnapshotBefore(snapshot: ForecastSnapshot, before: Date): Promise<ForecastSnapshot | undefined> {
+    const [previous] = await db.select().from(forecastSnapshots)
+      .where(and(
+        eq(forecastSnapshots.organizationId, snapshot.organizationId),
+        eq(forecastSnapshots.period, snapshot.period),
+        snapshot.assignedTo !== null ? eq(forecastSnapshots.assignedTo, snapshot.assignedTo) : isNull(forecastSnapshots.assignedTo),
+        snapshot.pipelineId !== null ? eq(forecastSnapshots.pipelineId, snapshot.pipelineId) : isNull(forecastSnapshots.pipelineId),
+        ne(forecastSnapshots.id, snapshot.id),
+        lte(forecastSnapshots.createdAt, before)
+      ))
+      .orderBy(desc(forecastSnapshots.createdAt), desc(forecastSnapshots.id))
+      .limit(1);
+    return previous || undefined;
+  }
+
+  // Whether a deal is in a won stage of its pipeline
+  private async wonStageMatcher(orgId: number, executor: Transaction | typeof db = db) {
+    const [defaultPipeline] = await executor.select({ id: pipelines.id }).from(pipelines)
+      .where(and(eq(pipelines.organizationId, orgId), eq(pipelines.isDefault, true)));
+    const wonStages = await executor.select({ pipelineId: pipelineStages.pipelineId, key: pipelineStages.key }).from(pipelineStages)
+      .where(and(eq(pipelineStages.organizationId, orgId), eq(pipelineStages.isWon, true)));
+    const won = new Set(wonStages.map(stage => `${stage.pipelineId}:${stage.key}`));
+    // Deals without a pipeline belong to the default one
+    return (deal: { pipelineId: number | null; stage: string }) => won.has(`${deal.pipelineId ?? defaultPipeline?.id}:${deal.stage}`);
+  }
+
+  private async closedDeals(orgId: number, from: Date, to: Date): Promise<ClosedDeal[]> {
+    const isWon = await this.wonStageMatcher(orgId);
+    const rows = await db.select({
+      assignedTo: deals.assignedTo,
+      value: deals.value,
+      actualCloseDate: deals.actualCloseDate,
+      pipelineId: deals.pipelineId,
+      stage: deals.stage,
+    }).from(deals).where(and(
+      eq(deals.organizationId, orgId),
+      isNull(deals.deletedAt),
+      gte(deals.actualCloseDate, from),
+      lt(deals.actualCloseDate, to)
+    ));
+    return rows.map(({ pipelineId, stage, actualCloseDate, ...deal }) => ({
+      ...deal,
+      actualCloseDate: actualCloseDate!,
+      won: isWon({ pipelineId, stage }),
+    }));
+  }
+
+  // Quotas and leaderboard
+  async getQuotas(orgId: number, query: QuotaQuery): Promise<QuotaWithAttainment[]> {
+    const rows = await db.select().from(quotas)
+      .where(and(
+        eq(quotas.organizationId, orgId),
+        query.period !== undefined ? eq(quotas.period, query.period) : undefined,
+        query.userId !== undefined ? eq(quotas.userId, query.userId) : undefined,
+        query.from !== undefined ? gte(quotas.periodStart, query.from) : undefined,
+        query.to !== undefined ? lt(quotas.periodStart, query.to) : undefined
+      ))
+      .orderBy(asc(quotas.periodStart), asc(quotas.userId));
+    if (rows.length === 0) {
+      return [];
+    }
+    const periods = rows.map(quotaPeriod);
+    const from = new Date(Math.min(...periods.map(period => period.start.getTime())));
+    const to = new Date(Math.max(...periods.map(period => period.end.getTime())));
+    return withAttainment(rows, await this.closedDeals(orgId, from, to));
+  }
+
+  // One quota per rep (and one for the team) and period
+  async createQuota(insertQuota: InsertQuota): Promise<Quota> {
+    const orgId = insertQuota.organizationId;
+    if (insertQuota.userId) {
+      const [user] = await db.select({ id: users.id }).from(users)
+        .where(and(eq(users.id, insertQuota.userId), eq(users.organizationId, orgId)));
+      if (!user) throw new CustomError("User not found", 404);
+    }
+    const periodStart = periodOf(insertQuota.periodStart, insertQuota.period).start;
+    const [existing] = await db.select({ id: quotas.id }).from(quotas)
+      .where(and(
+        eq(quotas.organizationId, orgId),
+        eq(quotas.period, insertQuota.period),
+        eq(quotas.periodStart, periodStart),
+        insertQuota.userId ? eq(quotas.userId, insertQuota.userId) : isNull(quotas.userId)
+      ));
+    if (existing) {
+      throw new CustomError("A quota for this period already exists", 409);
+    }
+    return await db.transaction(async (tx) => {
+      const [quota] = await tx.insert(quotas)
+        .values({ ...insertQuota, userId: insertQuota.userId ?? null, periodStart })
+        .returning();
+      await this.audit(tx, [auditCreate('quota', quota, insertQuota.createdBy)]);
+      return quota;
+    });
+  }
+
+  async updateQuota(id: number, orgId: number, quotaData: UpdateQuota, updatedBy?: number): Promise<Quota | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(quotas)
+        .where(and(eq(quotas.id, id), eq(quotas.organizationId, orgId)))
+        .for('update');
+      if (!before) {
+        return undefined;
+      }
+      const [quota] = await tx.update(quotas)
+        .set({ ...quotaData, updatedAt: new Date() })
+        .where(and(eq(quotas.id, id), eq(quotas.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, [auditUpdate('quota', before, quota, updatedBy)]);
+      return quota;
+    });
+  }
+
+  async deleteQuota(id: number, orgId: number, deletedBy?: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx.delete(quotas)
+        .where(and(eq(quotas.id, id), eq(quotas.organizationId, orgId)))
+        .returning();
+      await this.audit(tx, deleted.map(quota => auditDelete('quota', quota, deletedBy)));
+      return deleted.length > 0;
+    });
+  }
+
+  // Every active user who can own records is ranked; read-only users are left out
+  async getLeaderboard(orgId: number, query: LeaderboardQuery, now = new Date()): Promise<Leaderboard> {
+    const bounds = periodOf(query.date ?? now, query.period);
+    const [reps, closedDeals, activityCounts, periodQuotas] = await Promise.all([
+      db.select({ id: users.id, firstName: users.firstName, lastName: users.lastName, username: users.username }).from(users)
+        .where(and(eq(users.organizationId, orgId), eq(users.isActive, true), ne(users.role, 'user'))),
+      this.closedDeals(orgId, bounds.start, bounds.end),
+      db.select({
+        userId: sql<number>`coalesce(${activities.assignedTo}, ${activities.createdBy})`,
+        count: sql<number>`count(*)::int`,
+      }).from(activities)
+        .where(and(
+          eq(activities.organizationId, orgId),
+          isNull(activities.deletedAt),
+          eq(activities.status, 'completed'),
+          gte(activities.completedAt, bounds.start),
+          lt(activities.completedAt, bounds.end)
+        ))
+        .groupBy(sql`coalesce(${activities.assignedTo}, ${activities.createdBy})`),
+      db.select().from(quotas)
+        .where(and(eq(quotas.organizationId, orgId), eq(quotas.period, query.period), eq(quotas.periodStart, bounds.start))),
+    ]);
+    return buildLeaderboard({
+      period: query.period,
+      bounds,
+      sort: query.sort,
+      users: reps,
+      closedDeals,
+      activityCounts: activityCounts.map(row => ({ userId: Number(row.userId), count: Number(row.count) })),
+      quotas: periodQuotas,
+    });
+  }
+
+  // Records may only point at users, customers, leads and deals of their own organization
+  private async assertReferencesInOrganization(orgId: number, refs: {
+    assignedTo?: number | null;
+    customerId?: number | null;
+    leadId?: number | null;
+    dealId?: number | null;
+  }): Promise<void> {
+    if (refs.assignedTo) {
+      const [user] = await db.select({ id: users.id }).from(users)
+        .where(and(eq(users.id, refs.assignedTo), eq(users.organizationId, orgId)));
+      if (!user) throw new CustomError("Assigned user not found", 404);
+    }
+    if (refs.customerId) {
+      const customer = await this.getCustomer(refs.customerId, orgId);
+      if (!customer) throw new CustomError("Customer not found", 404);
+    }
+    if (refs.leadId) {
+      const lead = await this.getLead(refs.leadId, orgId);
+      if (!lead) throw new CustomError("Lead not found", 404);
+    }
+    if (refs.dealId) {
+      const deal = await this.getDeal(refs.dealId, orgId);
+      if (!deal) throw new CustomError("Deal not found", 404);
+    }
+  }
 }
 
 export const commercialStorage = new DatabaseCommercialStorage();
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { and, eq, gte, ilike, inArray, lte, or, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { z } from "zod";
+import {
+  CUSTOM_FIELD_SORT_PREFIX,
+  type CustomFieldDefinition, type CustomFieldFilters, type CustomFieldType, type CustomFieldValue, type CustomFieldValues,
+  type SortField
+} from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+import type { SortColumns, SortKind } from "./list-query";
+
+// Fields an organization may define per entity type
+export const MAX_CUSTOM_FIELDS = 50;
+const MAX_TEXT_LENGTH = 1000;
+
+// Definitions are validated as a whole since an update may change only the options or the currency
+export const assertValidDefinition = (definition: Pick<CustomFieldDefinition, 'type' | 'options' | 'currency'>) => {
+  const hasChoices = definition.type === 'picklist' || definition.type === 'multiselect';
+  if (hasChoices && definition.options.length === 0) {
+    throw new CustomError("Picklist and multi-select fields need at least one option", 400);
+  }
+  if (!hasChoices && definition.options.length > 0) {
+    throw new CustomError("Only picklist and multi-select fields have options", 400);
+  }
+  if (new Set(definition.options).size !== definition.options.length) {
+    throw new CustomError("Options must be unique", 400);
+  }
+  if (definition.type === 'currency' && !definition.currency) {
+    throw new CustomError("Currency fields need a currency code", 400);
+  }
+  if (definition.type !== 'currency' && definition.currency) {
+    throw new CustomError("Only currency fields have a currency code", 400);
+  }
+};
+
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD")
+  .refine(value => !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), "Invalid date");
+
+const choice = (options: string[]) =>
+  z.string().refine(value => options.includes(value), `Expected one of ${options.join(', ')}`);
+
+// Schema a value must satisfy before it is stored; currency amounts are kept to the cent
+export const customFieldValueSchema = (definition: CustomFieldDefinition): z.ZodType<CustomFieldValue, z.ZodTypeDef, unknown> => {
+  switch (definition.type as CustomFieldType) {
+    case 'number':
+      return z.number().finite();
+    case 'currency':
+      return z.number().finite().transform(amount => Math.round(amount * 100) / 100);
+    case 'date':
+      return isoDate;
+    case 'picklist':
+      return choice(definition.options);
+    case 'multiselect':
+      return z.array(choice(definition.options)).transform(values => Array.from(new Set(values)));
+    default:
+      return z.string().trim().min(1).max(MAX_TEXT_LENGTH);
+  }
+};
+
+const isBlank = (value: unknown) => value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Checks the values sent on create (no `current`) or update against the definitions and returns
+// the values to store. Blank values (null, "" or []) clear a field; on create every required field
+// must be given, on update required fields cannot be cleared. Unknown keys are rejected.
+export const validateCustomFields = (
+  definitions: CustomFieldDefinition[],
+  values: Record<string, unknown> | undefined,
+  current?: CustomFieldValues
+): CustomFieldValues => {
+  const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+  const result: CustomFieldValues = { ...current };
+  const issues: string[] = [];
+  const invalid = new Set<string>();
+
+  for (const [key, value] of Object.entries(values ?? {})) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      issues.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+    if (isBlank(value)) {
+      delete result[key];
+      continue;
+    }
+    const parsed = customFieldValueSchema(definition).safeParse(value);
+    if (parsed.success) {
+      result[key] = parsed.data;
+    } else {
+      issues.push(`${definition.label}: ${parsed.error.errors[0].message}`);
+      invalid.add(key);
+    }
+  }
+
+  for (const definition of definitions) {
+    const checked = current === undefined || (values !== undefined && definition.key in values);
+    if (definition.required && checked && result[definition.key] === undefined && !invalid.has(definition.key)) {
+      issues.push(`${definition.label} is required`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new CustomError(`Invalid custom fields: ${issues.join('; ')}`, 400);
+  }
+  return result;
+};
+
+// Spreadsheet cells are text; converts a cell to the field's value type for validation.
+// Multi-select values are separated by semicolons, as written by the exports.
+export const parseCustomFieldCell = (definition: CustomFieldDefinition, cell: string): unknown => {
+  switch (definition.type as CustomFieldType) {
+    case 'number':
+    case 'currency': {
+      const amount = Number(cell.replace(/[\s,]/g, ''));
+      return isNaN(amount) ? cell : amount;
+    }
+    case 'multiselect':
+      return cell.split(';').map(value => value.trim()).filter(Boolean);
+    default:
+      return cell;
+  }
+};
+
+// Multi-select fields have no single value to sort by
+const SORT_KINDS: Record<CustomFieldType, SortKind | undefined> = {
+  text: 'text',
+  picklist: 'text',
+  number: 'numeric',
+  currency: 'numeric',
+  date: 'timestamp',
+  multiselect: undefined,
+};
+
+const valueText = (column: PgColumn, key: string) => sql`(${column} ->> ${key})`;
+
+const typedValue = (column: PgColumn, key: string, kind: SortKind): SQL => {
+  if (kind === 'numeric') return sql`${valueText(column, key)}::numeric`;
+  if (kind === 'timestamp') return sql`${valueText(column, key)}::timestamp`;
+  return valueText(column, key);
+};
+
+const definitionFor = (definitions: CustomFieldDefinition[], key: string) => {
+  const definition = definitions.find(candidate => candidate.key === key);
+  if (!definition) {
+    throw new CustomError(`Unknown custom field "${key}"`, 400);
+  }
+  return definition;
+};
+
+// Sort expressions for the "cf.<key>" fields of a sort, keyed by sort field
+export const customFieldSortColumns = (column: PgColumn, definitions: CustomFieldDefinition[], sort: SortField[]): SortColumns => {
+  const columns: SortColumns = {};
+  for (const { field } of sort.filter(({ field }) => field.startsWith(CUSTOM_FIELD_SORT_PREFIX))) {
+    const definition = definitionFor(definitions, field.slice(CUSTOM_FIELD_SORT_PREFIX.length));
+    const kind = SORT_KINDS[definition.type as CustomFieldType];
+    if (!kind) {
+      throw new CustomError(`Cannot sort by ${field}; multi-select fields are not sortable`, 400);
+    }
+    columns[field] = { expression: typedValue(column, definition.key, kind), kind };
+  }
+  return columns;
+};
+
+const filterValue = (definition: CustomFieldDefinition, value: string): string => {
+  const kind = SORT_KINDS[definition.type as CustomFieldType];
+  const valid = kind === 'numeric' ? !isNaN(Number(value)) : kind === 'timestamp' ? isoDate.safeParse(value).success : true;
+  if (!valid) {
+    throw new CustomError(`Invalid value "${value}" for custom field filter "${definition.key}"`, 400);
+  }
+  return value;
+};
+
+// Conditions for the cf[key] filters of a list query
+export const customFieldConditions = (column: PgColumn, definitions: CustomFieldDefinition[], filters?: CustomFieldFilters): SQL[] =>
+  Object.entries(filters ?? {}).map(([key, filter]): SQL => {
+    const definition = definitionFor(definitions, key);
+    const type = definition.type as CustomFieldType;
+    const kind = SORT_KINDS[type];
+
+    if (typeof filter !== 'string') {
+      if (kind !== 'numeric' && kind !== 'timestamp') {
+        throw new CustomError(`Custom field "${key}" cannot be filtered by range`, 400);
+      }
+      const value = typedValue(column, key, kind);
+      const bound = (text: string) => (kind === 'numeric' ? sql`${filterValue(definition, text)}::numeric` : sql`${filterValue(definition, text)}::timestamp`);
+      return and(
+        filter.min !== undefined ? gte(value, bound(filter.min)) : undefined,
+        filter.max !== undefined ? lte(value, bound(filter.max)) : undefined
+      ) ?? sql`true`;
+    }
+
+    const values = filter.split(',').map(value => value.trim()).filter(Boolean).map(value => filterValue(definition, value));
+    if (values.length === 0) {
+      throw new CustomError(`Invalid value for custom field filter "${key}"`, 400);
+    }
+    switch (type) {
+      case 'text':
+        return or(...values.map(value => ilike(valueText(column, key), `%${value.replace(/[%_]/g, '')}%`)))!;
+      case 'picklist':
+        return inArray(valueText(column, key), values);
+      case 'multiselect':
+        return or(...values.map(value => sql`${column} -> ${key} @> ${JSON.stringify([value])}::jsonb`))!;
+      default:
+        return or(...values.map(value => eq(typedValue(column, key, kind!), kind === 'numeric' ? sql`${value}::numeric` : sql`${value}::timestamp`)))!;
+    }
+  });
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import type { DealStageHistory, PipelineStage } from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+
+type StageDefinition = Pick<PipelineStage, 'key' | 'isWon' | 'isLost'>;
+
+export const isClosedStage = (stage: Pick<PipelineStage, 'isWon' | 'isLost'> | undefined) =>
+  Boolean(stage && (stage.isWon || stage.isLost));
+
+// Per-organization transition rules, stored under organizations.settings.dealStageRules.
+// Stage keys apply to every pipeline that has a stage with that key.
+export const dealStageRulesSchema = z.object({
+  // Entering a lost stage requires a reason (e.g. why the deal was lost)
+  requireLostReason: z.boolean().default(true),
+  // Further stages that can only be entered with a reason
+  requireReason: z.array(z.string()).default([]),
+  // Explicitly forbidden moves, e.g. skipping straight from prospecting to closed_won
+  blockedTransitions: z.array(z.object({ from: z.string(), to: z.string() })).default([
+    { from: 'prospecting', to: 'closed_won' },
+  ]),
+  // Whether a closed deal may be moved back into an open stage
+  allowReopen: z.boolean().default(true),
+});
+
+export type DealStageRules = z.infer<typeof dealStageRulesSchema>;
+
+export const DEFAULT_DEAL_STAGE_RULES: DealStageRules = dealStageRulesSchema.parse({});
+
+export const getDealStageRules = (settings: unknown): DealStageRules => {
+  const stored = (settings as { dealStageRules?: unknown } | null)?.dealStageRules;
+  const parsed = dealStageRulesSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_DEAL_STAGE_RULES;
+};
+
+export const findStage = <T extends StageDefinition>(stages: T[], key: string): T => {
+  const stage = stages.find(candidate => candidate.key === key);
+  if (!stage) {
+    throw new CustomError(`Stage ${key} does not exist in the deal's pipeline`, 400);
+  }
+  return stage;
+};
+
+export const validateStageTransition = (
+  rules: DealStageRules,
+  stages: StageDefinition[],
+  from: string,
+  to: string,
+  reason?: string | null
+) => {
+  const target = findStage(stages, to);
+  const current = stages.find(stage => stage.key === from);
+
+  if (isClosedStage(current) && !isClosedStage(target) && !rules.allowReopen) {
+    throw new CustomError("Closed deals cannot be reopened", 400);
+  }
+  if (rules.blockedTransitions.some(rule => rule.from === from && rule.to === to)) {
+    throw new CustomError(`Deals cannot move from ${from} to ${to}`, 400);
+  }
+  const reasonRequired = (rules.requireLostReason && target.isLost) || rules.requireReason.includes(to);
+  if (reasonRequired && !reason?.trim()) {
+    throw new CustomError(`A reason is required to move a deal to ${to}`, 400);
+  }
+};
+
+// Adds how long the deal stayed in each stage; the latest entry is measured until `now`
+export const withStageDurations = (history: DealStageHistory[], now: Date = new Date()) =>
+  history.map((entry, index) => {
+    const leftAt = history[index + 1]?.changedAt ?? now;
+    const enteredAt = entry.changedAt ?? now;
+    return { ...entry, durationMs: new Date(leftAt).getTime() - new Date(enteredAt).getTime() };
+  });
@@ -0,0 +1,89 @@
+export type DuplicateMatch = 'email' | 'phone' | 'name_company';
+
+export interface ContactFields {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+  company?: string | null;
+}
+
+export interface PossibleDuplicate {
+  id: number;
+  matchedOn: DuplicateMatch[];
+  confidence: number; // 0-1
+}
+
+// Names of this similarity or above are treated as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Compares on the last 10 digits so "+1 (555) 010-2000" matches "555.010.2000"
+export const normalizePhone = (phone: string | null | undefined) => {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const COMPANY_SUFFIXES = /\b(inc|llc|ltd|gmbh|corp|corporation|co|company|plc|sa|ag|bv)\b\.?/g;
+
+export const normalizeCompany = (company: string | null | undefined) =>
+  (company ?? '').toLowerCase().replace(COMPANY_SUFFIXES, '').replace(/[^a-z0-9]/g, '');
+
+const normalizeName = (first: string, last: string) => `${first} ${last}`.toLowerCase().replace(/[^a-z ]/g, '').trim();
+
+const levenshtein = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+export const nameSimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+export const findPossibleDuplicates = <T extends ContactFields & { id: number }>(
+  candidate: ContactFields,
+  records: T[]
+): PossibleDuplicate[] => {
+  const email = normalizeEmail(candidate.email);
+  const phone = normalizePhone(candidate.phone);
+  const company = normalizeCompany(candidate.company);
+  const name = normalizeName(candidate.firstName, candidate.lastName);
+
+  const duplicates: PossibleDuplicate[] = [];
+  for (const record of records) {
+    const matchedOn: DuplicateMatch[] = [];
+    let confidence = 0;
+
+    if (normalizeEmail(record.email) === email) {
+      matchedOn.push('email');
+      confidence = Math.max(confidence, 0.95);
+    }
+    if (phone && normalizePhone(record.phone) === phone) {
+      matchedOn.push('phone');
+      confidence = Math.max(confidence, 0.8);
+    }
+    const similarity = nameSimilarity(name, normalizeName(record.firstName, record.lastName));
+    if (company && normalizeCompany(record.company) === company && similarity >= NAME_SIMILARITY_THRESHOLD) {
+      matchedOn.push('name_company');
+      confidence = Math.max(confidence, 0.6 + 0.3 * similarity);
+    }
+
+    if (matchedOn.length > 0) {
+      // Each additional signal makes the match more certain
+      confidence = Math.min(1, confidence + 0.05 * (matchedOn.length - 1));
+      duplicates.push({ id: record.id, matchedOn, confidence: Math.round(confidence * 100) / 100 });
+    }
+  }
+  return duplicates.sort((a, b) => b.confidence - a.confidence);
+};
@@ -0,0 +1,70 @@
+import type { Response } from "express";
+import type { SortField } from "@shared/schema";
+import { commercialStorage } from "./commercial-storage";
+import { csvChunks, EXPORT_COLUMNS, exportFileName, ndjsonChunks, type ExportBatches, type ExportColumn } from "./exports";
+import { CustomError } from "./middleware/errorHandler";
+import { ZipWriter } from "./zip";
+
+export type ArchiveFormat = 'csv' | 'ndjson';
+
+// The archive holds every record, oldest first
+const EVERY_RECORD = { sort: [{ field: 'createdAt', direction: 'asc' }] as SortField[] };
+
+async function* inOneBatch<T>(records: T[]): AsyncGenerator<T[]> {
+  yield records;
+}
+
+// Full organization export for data portability and offboarding: one file per table plus a
+// manifest with row counts, written last so it only lists files that were completed
+export const streamArchive = async (res: Response, orgId: number, format: ArchiveFormat) => {
+  const organization = await commercialStorage.getOrganization(orgId);
+  if (!organization) {
+    throw new CustomError("Organization not found", 404);
+  }
+  const [users, pipelines, customFieldDefinitions] = await Promise.all([
+    commercialStorage.getUsersByOrganization(orgId),
+    commercialStorage.getPipelines(orgId),
+    commercialStorage.getCustomFieldDefinitions(orgId),
+  ]);
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(`${organization.slug}-export`, 'zip')}"`);
+
+  const zip = new ZipWriter(res);
+  const rowCounts: Record<string, number> = {};
+  const addTable = async (name: string, columns: ExportColumn[], batches: ExportBatches) => {
+    const fileName = `${name}.${format}`;
+    rowCounts[fileName] = 0;
+    const counted = (async function* () {
+      for await (const records of batches) {
+        rowCounts[fileName] += records.length;
+        yield records;
+      }
+    })();
+    await zip.addFile(fileName, format === 'csv' ? csvChunks(columns, counted) : ndjsonChunks(columns, counted));
+  };
+
+  try {
+    await zip.addFile('organization.json', JSON.stringify(organization, null, 2));
+    await zip.addFile('pipelines.json', JSON.stringify(pipelines, null, 2));
+    await addTable('users', EXPORT_COLUMNS.users, inOneBatch(users));
+    await addTable('custom_field_definitions', EXPORT_COLUMNS.customFieldDefinitions, inOneBatch(customFieldDefinitions));
+    await addTable('leads', EXPORT_COLUMNS.leads, await commercialStorage.exportLeads(orgId, EVERY_RECORD));
+    await addTable('customers', EXPORT_COLUMNS.customers, await commercialStorage.exportCustomers(orgId, EVERY_RECORD));
+    await addTable('deals', EXPORT_COLUMNS.deals, await commercialStorage.exportDeals(orgId, EVERY_RECORD));
+    await addTable('deal_stage_history', EXPORT_COLUMNS.dealStageHistory, await commercialStorage.exportDealStageHistory(orgId));
+    await addTable('activities', EXPORT_COLUMNS.activities, await commercialStorage.exportActivities(orgId, EVERY_RECORD));
+    await addTable('sales_data', EXPORT_COLUMNS.salesData, await commercialStorage.exportSalesData(orgId));
+    await zip.addFile('manifest.json', JSON.stringify({
+      organizationId: orgId,
+      exportedAt: new Date().toISOString(),
+      format,
+      rowCounts,
+    }, null, 2));
+    await zip.finish();
+    res.end();
+  } catch (error) {
+    console.error(`Export archive of organization ${orgId} failed:`, error);
+    res.destroy();
+  }
+};
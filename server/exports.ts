@@ -0,0 +1,192 @@
+import type { Response } from "express";
+import { getTableColumns } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import {
+  activities, auditLogs, customFieldDefinitions, customers, dealStageHistory, deals, leads, salesData, users,
+  type CustomFieldDefinition, type CustomFieldType, type CustomFieldValues, type ExportFormat
+} from "@shared/schema";
+import { ZipWriter, writeChunk } from "./zip";
+
+export type ExportKind = 'text' | 'number' | 'boolean' | 'date' | 'json' | 'list';
+
+type ExportRecord = Record<string, unknown>;
+
+export interface ExportColumn {
+  key: string; // also the header, so exported files map straight back onto the import fields
+  kind: ExportKind;
+  value?: (record: ExportRecord) => unknown; // reads record[key] when not given
+}
+
+// Records arrive in batches as storage pages through a table
+export type ExportBatches = AsyncIterable<ExportRecord[]>;
+
+// Every column of a table except the omitted ones (e.g. password hashes), in schema order
+export const exportColumns = (table: PgTable, omit: string[] = []): ExportColumn[] =>
+  Object.entries(getTableColumns(table))
+    .filter(([key]) => !omit.includes(key))
+    .map(([key, column]) => ({
+      key,
+      kind: column.columnType === 'PgNumeric' ? 'number'
+        : column.dataType === 'number' ? 'number'
+        : column.dataType === 'boolean' ? 'boolean'
+        : column.dataType === 'date' ? 'date'
+        : column.dataType === 'json' ? 'json'
+        : 'text',
+    }));
+
+export const EXPORT_COLUMNS = {
+  leads: exportColumns(leads),
+  customers: exportColumns(customers),
+  deals: exportColumns(deals),
+  dealStageHistory: exportColumns(dealStageHistory),
+  activities: exportColumns(activities),
+  salesData: exportColumns(salesData),
+  users: exportColumns(users, ['password']),
+  customFieldDefinitions: exportColumns(customFieldDefinitions),
+  auditLogs: exportColumns(auditLogs),
+};
+
+const CUSTOM_FIELD_KINDS: Record<CustomFieldType, ExportKind> = {
+  text: 'text',
+  number: 'number',
+  date: 'text', // stored as YYYY-MM-DD
+  picklist: 'text',
+  multiselect: 'list',
+  currency: 'number',
+};
+
+// Entity exports show one "customFields.<key>" column per defined field, the names the import maps back
+export const withCustomFieldColumns = (columns: ExportColumn[], definitions: CustomFieldDefinition[]): ExportColumn[] => [
+  ...columns.filter(column => column.key !== 'customFields'),
+  ...definitions.map((definition): ExportColumn => ({
+    key: `customFields.${definition.key}`,
+    kind: CUSTOM_FIELD_KINDS[definition.type as CustomFieldType],
+    value: record => (record.customFields as CustomFieldValues | null)?.[definition.key],
+  })),
+];
+
+const cellValue = (record: ExportRecord, column: ExportColumn) => (column.value ? column.value(record) : record[column.key]);
+
+const formatValue = (value: unknown, kind: ExportKind): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (kind === 'json') return JSON.stringify(value);
+  if (kind === 'list' && Array.isArray(value)) return value.join('; '); // multi-select values, as the import splits them
+  return String(value);
+};
+
+// Spreadsheet programs run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const csvCell = (value: unknown, kind: ExportKind): string => {
+  let text = formatValue(value, kind);
+  if ((kind === 'text' || kind === 'list') && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export async function* csvChunks(columns: ExportColumn[], batches: ExportBatches): AsyncGenerator<string> {
+  yield columns.map(column => column.key).join(',') + '\r\n';
+  for await (const records of batches) {
+    yield records.map(record => columns.map(column => csvCell(cellValue(record, column), column.kind)).join(',') + '\r\n').join('');
+  }
+}
+
+export async function* ndjsonChunks(columns: ExportColumn[], batches: ExportBatches): AsyncGenerator<string> {
+  for await (const records of batches) {
+    yield records
+      .map(record => JSON.stringify(Object.fromEntries(columns.map(column => [column.key, cellValue(record, column) ?? null]))) + '\n')
+      .join('');
+  }
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // not allowed in XML 1.0
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const xlsxCell = (reference: string, value: unknown, kind: ExportKind): string => {
+  if (value === null || value === undefined) return '';
+  if (kind === 'number' && Number.isFinite(Number(value))) return `<c r="${reference}"><v>${Number(value)}</v></c>`;
+  if (kind === 'boolean') return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(formatValue(value, kind))}</t></is></c>`;
+};
+
+async function* worksheetChunks(columns: ExportColumn[], batches: ExportBatches): AsyncGenerator<string> {
+  const names = columns.map((_, index) => columnName(index));
+  const row = (number: number, cells: string[]) => `<row r="${number}">${cells.join('')}</row>`;
+
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+  yield row(1, columns.map((column, index) => xlsxCell(`${names[index]}1`, column.key, 'text')));
+  let rowNumber = 1;
+  for await (const records of batches) {
+    yield records.map(record => {
+      rowNumber++;
+      return row(rowNumber, columns.map((column, index) => xlsxCell(`${names[index]}${rowNumber}`, cellValue(record, column), column.kind)));
+    }).join('');
+  }
+  yield '</sheetData></worksheet>';
+}
+
+// A single-sheet workbook with inline strings, so no shared string table has to be held in memory
+export const writeXlsx = async (zip: ZipWriter, sheetName: string, columns: ExportColumn[], batches: ExportBatches) => {
+  await zip.addFile('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>');
+  await zip.addFile('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>');
+  await zip.addFile('xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  await zip.addFile('xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>');
+  await zip.addFile('xl/worksheets/sheet1.xml', worksheetChunks(columns, batches));
+  await zip.finish();
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+};
+
+export const exportFileName = (name: string, extension: string, date = new Date()) =>
+  `${name}-${date.toISOString().slice(0, 10)}.${extension}`;
+
+// Rows are only read from the database as fast as the client downloads them. Once the headers
+// are sent an error can no longer become a JSON response, so the download is cut off instead.
+export const streamExport = async (res: Response, name: string, format: ExportFormat, columns: ExportColumn[], batches: ExportBatches) => {
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(name, format)}"`);
+  try {
+    if (format === 'xlsx') {
+      await writeXlsx(new ZipWriter(res), name, columns, batches);
+    } else {
+      for await (const chunk of format === 'csv' ? csvChunks(columns, batches) : ndjsonChunks(columns, batches)) {
+        await writeChunk(res, chunk);
+      }
+    }
+    res.end();
+  } catch (error) {
+    console.error(`Export of ${name} failed:`, error);
+    res.destroy();
+  }
+};
@@ -0,0 +1,218 @@
+import { z } from "zod";
+import type {
+  Forecast, ForecastAmounts, ForecastChange, ForecastComparison, ForecastPeriodType, ForecastQuery, ForecastSnapshot, RepForecast
+} from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS_PER_PERIOD: Record<ForecastPeriodType, number> = { month: 1, quarter: 3 };
+
+// Snapshots are compared week over week unless another snapshot is picked
+export const SNAPSHOT_COMPARISON_DAYS = 7;
+
+// Per-organization forecast categories, stored under organizations.settings.forecast
+export const forecastSettingsSchema = z.object({
+  // Open deals at or above this probability are committed
+  commitProbability: z.number().int().min(1).max(100).default(90),
+  // Open deals at or above this probability (but below commit) are the best case; the rest is pipeline
+  bestCaseProbability: z.number().int().min(1).max(100).default(50),
+}).refine(settings => settings.bestCaseProbability <= settings.commitProbability, {
+  message: "bestCaseProbability must not be above commitProbability",
+  path: ['bestCaseProbability'],
+});
+
+export type ForecastSettings = z.infer<typeof forecastSettingsSchema>;
+
+export const DEFAULT_FORECAST_SETTINGS: ForecastSettings = forecastSettingsSchema.parse({});
+
+export const getForecastSettings = (settings: unknown): ForecastSettings => {
+  const stored = (settings as { forecast?: unknown } | null)?.forecast;
+  const parsed = forecastSettingsSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_FORECAST_SETTINGS;
+};
+
+export interface PeriodBounds {
+  key: string;
+  start: Date;
+  end: Date; // exclusive
+}
+
+// Calendar months or quarters in UTC; `offset` moves that many periods on from the one `date` is in
+export const periodOf = (date: Date, period: ForecastPeriodType, offset = 0): PeriodBounds => {
+  const months = MONTHS_PER_PERIOD[period];
+  const firstMonth = (Math.floor(date.getUTCMonth() / months) + offset) * months;
+  const start = new Date(Date.UTC(date.getUTCFullYear(), firstMonth, 1));
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const key = period === 'month'
+    ? `${start.getUTCFullYear()}-${String(start.getUTCMonth() + 1).padStart(2, '0')}`
+    : `${start.getUTCFullYear()}-Q${start.getUTCMonth() / 3 + 1}`;
+  return { key, start, end };
+};
+
+export const forecastPeriods = (query: Pick<ForecastQuery, 'period' | 'from' | 'periods'>, now = new Date()): PeriodBounds[] =>
+  Array.from({ length: query.periods }, (_, index) => periodOf(query.from ?? now, query.period, index));
+
+type ForecastCategory = 'commit' | 'bestCase' | 'pipeline';
+
+export const forecastCategory = (probability: number, settings: ForecastSettings): ForecastCategory => {
+  if (probability >= settings.commitProbability) return 'commit';
+  if (probability >= settings.bestCaseProbability) return 'bestCase';
+  return 'pipeline';
+};
+
+// A deal as the forecast needs it; `won` tells whether its stage is a won stage of its pipeline
+export interface ForecastDeal {
+  value: string;
+  probability: number | null;
+  expectedCloseDate: Date | null;
+  actualCloseDate: Date | null;
+  assignedTo: number | null;
+  won: boolean;
+}
+
+export interface ForecastRevenue {
+  periodStart: Date;
+  revenue: string;
+  assignedTo: number | null;
+}
+
+export interface ForecastInput {
+  period: ForecastPeriodType;
+  assignedTo?: number;
+  pipelineId?: number;
+  periods: PeriodBounds[];
+  deals: ForecastDeal[];
+  salesData: ForecastRevenue[];
+  settings: ForecastSettings;
+}
+
+const emptyAmounts = (): ForecastAmounts => ({
+  closedWon: 0, commit: 0, bestCase: 0, pipeline: 0, weighted: 0, forecast: 0, attainment: 0, openDeals: 0,
+});
+
+const AMOUNT_FIELDS = Object.keys(emptyAmounts()) as (keyof ForecastAmounts)[];
+
+const roundAmounts = (amounts: ForecastAmounts): ForecastAmounts =>
+  Object.fromEntries(AMOUNT_FIELDS.map(field => [field, Math.round(amounts[field] * 100) / 100])) as unknown as ForecastAmounts;
+
+// Unassigned deals come last
+const byUser = (a: { userId: number | null }, b: { userId: number | null }) =>
+  (a.userId ?? Number.MAX_SAFE_INTEGER) - (b.userId ?? Number.MAX_SAFE_INTEGER);
+
+class ForecastTotals {
+  readonly team = emptyAmounts();
+  private readonly reps = new Map<number | null, ForecastAmounts>();
+
+  add(userId: number | null, changes: Partial<ForecastAmounts>) {
+    if (!this.reps.has(userId)) this.reps.set(userId, emptyAmounts());
+    for (const amounts of [this.team, this.reps.get(userId)!]) {
+      for (const [field, value] of Object.entries(changes) as [keyof ForecastAmounts, number][]) {
+        amounts[field] += value;
+      }
+    }
+  }
+
+  result(): { team: ForecastAmounts; reps: RepForecast[] } {
+    const finish = (amounts: ForecastAmounts) => roundAmounts({ ...amounts, forecast: amounts.closedWon + amounts.weighted });
+    return {
+      team: finish(this.team),
+      reps: Array.from(this.reps, ([userId, amounts]) => ({ userId, ...finish(amounts) })).sort(byUser),
+    };
+  }
+}
+
+// Open deals count in the period of their expected close date; those whose date has passed are
+// still expected, so they count in the current period. Won deals count in the period they closed.
+export const buildForecast = (input: ForecastInput, now = new Date()): Forecast => {
+  const { periods, settings } = input;
+  const periodTotals = periods.map(() => new ForecastTotals());
+  const total = new ForecastTotals();
+  const undated = { deals: 0, value: 0 };
+  const currentStart = periodOf(now, input.period).start;
+  const indexOf = (date: Date) => periods.findIndex(period => date >= period.start && date < period.end);
+  const add = (index: number, userId: number | null, changes: Partial<ForecastAmounts>) => {
+    if (index < 0) return;
+    periodTotals[index].add(userId, changes);
+    total.add(userId, changes);
+  };
+
+  for (const deal of input.deals) {
+    const value = Number(deal.value);
+    if (deal.actualCloseDate) {
+      if (deal.won) add(indexOf(deal.actualCloseDate), deal.assignedTo, { closedWon: value });
+      continue;
+    }
+    if (!deal.expectedCloseDate) {
+      undated.deals += 1;
+      undated.value += value;
+      continue;
+    }
+    const probability = deal.probability ?? 0;
+    const expected = deal.expectedCloseDate < currentStart ? currentStart : deal.expectedCloseDate;
+    add(indexOf(expected), deal.assignedTo, {
+      [forecastCategory(probability, settings)]: value,
+      weighted: value * probability / 100,
+      openDeals: 1,
+    });
+  }
+
+  for (const row of input.salesData) {
+    add(indexOf(row.periodStart), row.assignedTo, { attainment: Number(row.revenue) });
+  }
+
+  return {
+    period: input.period,
+    assignedTo: input.assignedTo ?? null,
+    pipelineId: input.pipelineId ?? null,
+    generatedAt: now.toISOString(),
+    commitProbability: settings.commitProbability,
+    bestCaseProbability: settings.bestCaseProbability,
+    periods: periods.map((period, index) => ({
+      key: period.key,
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      ...periodTotals[index].result(),
+    })),
+    total: total.result(),
+    undated: { deals: undated.deals, value: Math.round(undated.value * 100) / 100 },
+  };
+};
+
+// The latest snapshot to compare with by default must be at least this old
+export const comparisonCutoff = (createdAt: Date) => new Date(createdAt.getTime() - SNAPSHOT_COMPARISON_DAYS * DAY_MS);
+
+const changeOf = (previous = emptyAmounts(), current = emptyAmounts()): ForecastChange => ({
+  previous,
+  current,
+  change: roundAmounts(Object.fromEntries(AMOUNT_FIELDS.map(field => [field, current[field] - previous[field]])) as unknown as ForecastAmounts),
+});
+
+const compareReps = (previous: RepForecast[], current: RepForecast[]) => {
+  const userIds = Array.from(new Set([...previous, ...current].map(rep => rep.userId)));
+  return userIds
+    .map(userId => ({
+      userId,
+      ...changeOf(previous.find(rep => rep.userId === userId), current.find(rep => rep.userId === userId)),
+    }))
+    .sort(byUser);
+};
+
+// Periods and reps in only one of the snapshots are compared with zero
+export const compareForecasts = (previous: ForecastSnapshot, current: ForecastSnapshot): ForecastComparison => {
+  const { forecast: before } = previous;
+  const { forecast: after } = current;
+  if (before.period !== after.period || before.assignedTo !== after.assignedTo || before.pipelineId !== after.pipelineId) {
+    throw new CustomError("Only snapshots of the same period, rep and pipeline can be compared", 400);
+  }
+  const keys = Array.from(new Set([...before.periods, ...after.periods].map(period => period.key))).sort();
+  return {
+    previous: { id: previous.id, createdAt: previous.createdAt },
+    current: { id: current.id, createdAt: current.createdAt },
+    periods: keys.map(key => {
+      const from = before.periods.find(period => period.key === key);
+      const to = after.periods.find(period => period.key === key);
+      return { key, team: changeOf(from?.team, to?.team), reps: compareReps(from?.reps ?? [], to?.reps ?? []) };
+    }),
+    total: changeOf(before.total.team, after.total.team),
+  };
+};
@@ -0,0 +1,128 @@
+import type { ImportJob, ImportPreview, ImportRequest, ImportRowResult, InsertCustomer, InsertLead } from "@shared/schema";
+import { commercialStorage } from "./commercial-storage";
+import { normalizeEmail } from "./duplicates";
+import {
+  buildPreview, planRows, resolveMapping, validateRows, CUSTOM_FIELD_ENTITY_TYPES, type ExistingRecord, type PlannedRow
+} from "./imports";
+import { readSheet } from "./spreadsheet";
+import { CustomError } from "./middleware/errorHandler";
+
+// Small files are imported before the response is sent; larger ones continue in the background
+export const INLINE_IMPORT_ROWS = 100;
+// Progress is written back to the job after every batch
+const BATCH_SIZE = 50;
+// Only the first failed rows are kept on the job
+const MAX_RECORDED_ERRORS = 200;
+
+// Who runs the import; `ownerId` is set when the caller only sees records assigned to them
+export interface ImportContext {
+  organizationId: number;
+  userId: number;
+  ownerId?: number;
+}
+
+const planImport = async (context: ImportContext, request: ImportRequest) => {
+  const sheet = readSheet(request.fileName, Buffer.from(request.content, 'base64'));
+  const definitions = await commercialStorage.getCustomFieldDefinitions(context.organizationId, CUSTOM_FIELD_ENTITY_TYPES[request.entityType]);
+  const mapping = resolveMapping(request.entityType, sheet.headers, request.mapping, definitions);
+  const validated = validateRows(request.entityType, sheet, mapping, definitions);
+
+  const emails = validated.filter(row => row.errors.length === 0).map(row => normalizeEmail(String(row.data.email)));
+  const existing = await commercialStorage.findRecordsByEmail(context.organizationId, request.entityType, emails);
+  const existingByEmail = new Map(existing.map(record => [normalizeEmail(record.email), record]));
+  const canUpdate = (record: ExistingRecord) => context.ownerId === undefined || record.assignedTo === context.ownerId;
+
+  return { sheet, mapping, definitions, rows: planRows(validated, existingByEmail, request.duplicateStrategy, canUpdate) };
+};
+
+// Dry run: what each row would do, without writing anything
+export const previewImport = async (context: ImportContext, request: ImportRequest): Promise<ImportPreview> => {
+  const { sheet, mapping, definitions, rows } = await planImport(context, request);
+  return buildPreview(request.entityType, sheet, mapping, rows, definitions);
+};
+
+export const startImport = async (context: ImportContext, request: ImportRequest): Promise<ImportJob> => {
+  const { mapping, rows } = await planImport(context, request);
+  const job = await commercialStorage.createImportJob({
+    entityType: request.entityType,
+    fileName: request.fileName,
+    duplicateStrategy: request.duplicateStrategy,
+    mapping,
+    totalRows: rows.length,
+    createdBy: context.userId,
+    organizationId: context.organizationId,
+  });
+
+  if (rows.length <= INLINE_IMPORT_ROWS) {
+    return (await runImport(job, rows, context)) ?? job;
+  }
+  setImmediate(() => void runImport(job, rows, context));
+  return job;
+};
+
+const applyRow = async (job: ImportJob, row: PlannedRow, context: ImportContext) => {
+  const orgId = job.organizationId;
+  // Rows with action create/update passed importRowSchemas validation
+  if (job.entityType === 'leads') {
+    const data = row.data as Omit<InsertLead, 'organizationId'>;
+    if (row.action === 'create') {
+      await commercialStorage.createLead({ ...data, assignedTo: context.ownerId, organizationId: orgId }, context.userId);
+    } else {
+      await commercialStorage.updateLead(row.existingId!, orgId, data, context.userId);
+    }
+    return;
+  }
+  const data = row.data as Omit<InsertCustomer, 'organizationId'>;
+  if (row.action === 'create') {
+    await commercialStorage.createCustomer({ ...data, assignedTo: context.ownerId, organizationId: orgId }, context.userId);
+  } else {
+    await commercialStorage.updateCustomer(row.existingId!, orgId, data, context.userId);
+  }
+};
+
+// Rows are written one by one so a rejected row (e.g. an email taken since the preview) only fails itself.
+// Never throws: a failure of the run as a whole is recorded on the job.
+const runImport = async (job: ImportJob, rows: PlannedRow[], context: ImportContext): Promise<ImportJob | undefined> => {
+  const orgId = job.organizationId;
+  const counts = { processedRows: 0, createdCount: 0, updatedCount: 0, skippedCount: 0, errorCount: 0 };
+  const errors: ImportRowResult[] = [];
+  const recordError = (row: PlannedRow, messages: ImportRowResult['errors']) => {
+    counts.errorCount++;
+    if (errors.length < MAX_RECORDED_ERRORS) {
+      errors.push({ row: row.row, action: 'error', data: row.data, errors: messages });
+    }
+  };
+
+  try {
+    await commercialStorage.updateImportJob(job.id, orgId, { status: 'running', startedAt: new Date() });
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+      for (const row of rows.slice(start, start + BATCH_SIZE)) {
+        if (row.action === 'error') {
+          recordError(row, row.errors);
+        } else if (row.action === 'skip') {
+          counts.skippedCount++;
+        } else {
+          try {
+            await applyRow(job, row, context);
+            counts[row.action === 'create' ? 'createdCount' : 'updatedCount']++;
+          } catch (error) {
+            if (!(error instanceof CustomError)) throw error;
+            recordError(row, [{ field: 'row', message: error.message }]);
+          }
+        }
+        counts.processedRows++;
+      }
+      await commercialStorage.updateImportJob(job.id, orgId, { ...counts, errors });
+    }
+    return await commercialStorage.updateImportJob(job.id, orgId, { status: 'completed', completedAt: new Date() });
+  } catch (error) {
+    console.error(`Import job ${job.id} failed:`, error);
+    return await commercialStorage.updateImportJob(job.id, orgId, {
+      ...counts,
+      errors,
+      status: 'failed',
+      failureReason: error instanceof Error ? error.message : 'Import failed',
+      completedAt: new Date(),
+    }).catch(() => undefined);
+  }
+};
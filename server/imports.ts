@@ -0,0 +1,236 @@
+import type { z } from "zod";
+import {
+  importRowSchemas, type CustomFieldDefinition, type CustomFieldEntityType, type ImportEntityType, type ImportPreview,
+  type ImportRowAction, type ImportRowResult
+} from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+import { normalizeEmail } from "./duplicates";
+import { customFieldValueSchema, parseCustomFieldCell } from "./custom-fields";
+import type { Sheet } from "./spreadsheet";
+
+// Files above this size are rejected rather than imported partially
+export const MAX_IMPORT_ROWS = 10000;
+// Rows shown in the dry-run preview
+export const PREVIEW_ROWS = 50;
+
+// Header spellings commonly found in CRM and spreadsheet exports, compared without case or punctuation
+const FIELD_ALIASES: Record<string, string[]> = {
+  firstName: ['first', 'firstname', 'givenname', 'forename'],
+  lastName: ['last', 'lastname', 'surname', 'familyname'],
+  email: ['email', 'emailaddress', 'mail', 'workemail'],
+  phone: ['phone', 'phonenumber', 'telephone', 'tel', 'mobile', 'cell'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'account', 'accountname', 'employer'],
+  jobTitle: ['jobtitle', 'title', 'position', 'role'],
+  country: ['country', 'countrycode', 'nation'],
+  source: ['source', 'leadsource', 'channel', 'origin'],
+  status: ['status', 'stage', 'leadstatus'],
+  notes: ['notes', 'note', 'comments', 'description'],
+  value: ['value', 'amount', 'revenue', 'lifetimevalue'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Custom fields are imported as "customFields.<key>", the column names of the exports
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+export const CUSTOM_FIELD_ENTITY_TYPES: Record<ImportEntityType, CustomFieldEntityType> = {
+  leads: 'lead',
+  customers: 'customer',
+};
+
+type RowSchema = z.AnyZodObject;
+
+const rowSchema = (entityType: ImportEntityType): RowSchema => importRowSchemas[entityType];
+
+export const importFields = (entityType: ImportEntityType, definitions: CustomFieldDefinition[] = []) => [
+  ...Object.entries(rowSchema(entityType).shape).map(([name, schema]) => ({
+    name,
+    required: !(schema as z.ZodTypeAny).isOptional(),
+  })),
+  ...definitions.map(definition => ({ name: `${CUSTOM_FIELD_PREFIX}${definition.key}`, required: definition.required })),
+];
+
+// Maps each header to the field it most likely holds; every field is used at most once.
+// Custom fields also match their key or label.
+export const inferMapping = (
+  entityType: ImportEntityType,
+  headers: string[],
+  definitions: CustomFieldDefinition[] = []
+): Record<string, string | null> => {
+  const available = new Set(importFields(entityType, definitions).map(field => field.name));
+  const customAliases = new Map(definitions.map(definition => [
+    `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+    [normalizeHeader(definition.key), normalizeHeader(definition.label)],
+  ]));
+  const mapping: Record<string, string | null> = {};
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const field = Array.from(available).find(name =>
+      normalizeHeader(name) === normalized ||
+      FIELD_ALIASES[name]?.includes(normalized) ||
+      customAliases.get(name)?.includes(normalized)
+    );
+    mapping[header] = field ?? null;
+    if (field) available.delete(field);
+  }
+  return mapping;
+};
+
+// A user supplied mapping must name known fields, use each once and cover the required ones
+export const resolveMapping = (
+  entityType: ImportEntityType,
+  headers: string[],
+  requested?: Record<string, string | null>,
+  definitions: CustomFieldDefinition[] = []
+): Record<string, string | null> => {
+  if (!requested) return inferMapping(entityType, headers, definitions);
+
+  const fields = importFields(entityType, definitions);
+  const mapping: Record<string, string | null> = {};
+  const used = new Set<string>();
+  for (const header of headers) {
+    const field = requested[header] ?? null;
+    if (field !== null && !fields.some(candidate => candidate.name === field)) {
+      throw new CustomError(`Unknown field "${field}" for column "${header}"`, 400);
+    }
+    if (field !== null && used.has(field)) {
+      throw new CustomError(`Field "${field}" is mapped to more than one column`, 400);
+    }
+    if (field !== null) used.add(field);
+    mapping[header] = field;
+  }
+  const missing = fields.filter(field => field.required && !used.has(field.name)).map(field => field.name);
+  if (missing.length > 0) {
+    throw new CustomError(`Required fields are not mapped: ${missing.join(', ')}`, 400);
+  }
+  return mapping;
+};
+
+export interface ValidatedRow {
+  row: number;
+  data: Record<string, unknown>;
+  errors: { field: string; message: string }[];
+}
+
+// Converts the mapped custom field cells of a row to values, reporting them as "customFields.<key>"
+const validateCustomFieldCells = (definitions: CustomFieldDefinition[], cells: Record<string, string>) => {
+  const values: Record<string, unknown> = {};
+  const errors: ValidatedRow['errors'] = [];
+  for (const definition of definitions) {
+    const field = `${CUSTOM_FIELD_PREFIX}${definition.key}`;
+    const cell = cells[definition.key];
+    if (cell === undefined) {
+      if (definition.required) errors.push({ field, message: 'Required' });
+      continue;
+    }
+    const parsed = customFieldValueSchema(definition).safeParse(parseCustomFieldCell(definition, cell));
+    if (parsed.success) {
+      values[definition.key] = parsed.data;
+    } else {
+      errors.push({ field, message: parsed.error.errors[0].message });
+    }
+  }
+  return { values, errors };
+};
+
+// Builds each row from the mapped columns and validates it; empty cells count as missing
+export const validateRows = (
+  entityType: ImportEntityType,
+  sheet: Sheet,
+  mapping: Record<string, string | null>,
+  definitions: CustomFieldDefinition[] = []
+): ValidatedRow[] => {
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new CustomError(`Files are limited to ${MAX_IMPORT_ROWS} rows`, 400);
+  }
+  const schema = rowSchema(entityType);
+  const mappedDefinitions = definitions.filter(definition =>
+    Object.values(mapping).includes(`${CUSTOM_FIELD_PREFIX}${definition.key}`)
+  );
+  return sheet.rows.map(({ row, cells }) => {
+    const data: Record<string, unknown> = {};
+    const customCells: Record<string, string> = {};
+    sheet.headers.forEach((header, index) => {
+      const field = mapping[header];
+      if (!field || !cells[index]) return;
+      if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+        customCells[field.slice(CUSTOM_FIELD_PREFIX.length)] = cells[index];
+      } else {
+        data[field] = cells[index];
+      }
+    });
+    const parsed = schema.safeParse(data);
+    const custom = validateCustomFieldCells(mappedDefinitions, customCells);
+    if (!parsed.success || custom.errors.length > 0) {
+      return {
+        row,
+        data: mappedDefinitions.length > 0 ? { ...data, customFields: customCells } : data,
+        errors: [
+          ...(parsed.success ? [] : parsed.error.errors.map(issue => ({ field: issue.path.join('.') || 'row', message: issue.message }))),
+          ...custom.errors,
+        ],
+      };
+    }
+    return { row, data: mappedDefinitions.length > 0 ? { ...parsed.data, customFields: custom.values } : parsed.data, errors: [] };
+  });
+};
+
+export interface PlannedRow extends ImportRowResult {
+  existingId?: number; // record updated for 'update' rows
+}
+
+export interface ExistingRecord {
+  id: number;
+  assignedTo: number | null;
+}
+
+// Decides what happens to each row. Emails already in the organization are skipped or updated;
+// an email repeated within the file is only imported from its first row. Existing records the
+// importer may not edit are skipped rather than updated.
+export const planRows = (
+  rows: ValidatedRow[],
+  existingByEmail: Map<string, ExistingRecord>,
+  duplicateStrategy: 'skip' | 'update',
+  canUpdate: (record: ExistingRecord) => boolean = () => true
+): PlannedRow[] => {
+  const seen = new Set<string>();
+  return rows.map(({ row, data, errors }): PlannedRow => {
+    if (errors.length > 0) return { row, action: 'error', data, errors };
+
+    const email = normalizeEmail(String(data.email));
+    if (seen.has(email)) {
+      return { row, action: 'skip', data, errors, reason: 'Email appears earlier in the file' };
+    }
+    seen.add(email);
+
+    const existing = existingByEmail.get(email);
+    if (!existing) return { row, action: 'create', data, errors };
+    if (duplicateStrategy === 'skip') {
+      return { row, action: 'skip', data, errors, reason: 'A record with this email already exists' };
+    }
+    return canUpdate(existing)
+      ? { row, action: 'update', data, errors, existingId: existing.id }
+      : { row, action: 'skip', data, errors, reason: 'The existing record is assigned to someone else' };
+  });
+};
+
+export const summarizeRows = (rows: ImportRowResult[]): Record<ImportRowAction, number> => {
+  const summary: Record<ImportRowAction, number> = { create: 0, update: 0, skip: 0, error: 0 };
+  for (const row of rows) summary[row.action]++;
+  return summary;
+};
+
+export const buildPreview = (
+  entityType: ImportEntityType,
+  sheet: Sheet,
+  mapping: Record<string, string | null>,
+  rows: PlannedRow[],
+  definitions: CustomFieldDefinition[] = []
+): ImportPreview => ({
+  headers: sheet.headers,
+  mapping,
+  fields: importFields(entityType, definitions),
+  totalRows: rows.length,
+  summary: summarizeRows(rows),
+  rows: rows.slice(0, PREVIEW_ROWS).map(({ existingId, ...row }) => row),
+});
@@ -3,6 +3,9 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { globalErrorHandler, notFoundHandler } from "./middleware/errorHandler";
 import { generalLimiter } from "./middleware/rateLimiter";
+import { startReminderScheduler } from "./reminder-scheduler";
+import { startWebhookDispatcher } from "./webhook-dispatcher";
+import { startTrashPurger } from "./trash-purger";
 import promMid from "express-prometheus-middleware";
 import client from "prom-client";
 
@@ -90,4 +93,11 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Activity reminders and daily digests
+  startReminderScheduler();
+  // Outbound webhook deliveries and their retries
+  startWebhookDispatcher();
+  // Deleted records past the trash retention period
+  startTrashPurger();
 })();
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import type { Lead } from "@shared/schema";
+
+export const ASSIGNMENT_METHODS = ['round_robin', 'least_loaded', 'rule'] as const;
+export type AssignmentMethod = typeof ASSIGNMENT_METHODS[number];
+
+// Per-organization routing, stored under organizations.settings.leadAssignment
+export const leadAssignmentConfigSchema = z.object({
+  mode: z.enum(['none', 'round_robin', 'least_loaded', 'rules']).default('round_robin'),
+  // Territory rules, checked in order; values match case-insensitively
+  rules: z.array(z.object({
+    field: z.enum(['source', 'company', 'country']),
+    value: z.string().min(1),
+    assignTo: z.number().int(),
+  })).default([]),
+  // Used in 'rules' mode when no rule matches
+  fallback: z.enum(['none', 'round_robin', 'least_loaded']).default('round_robin'),
+});
+
+export type LeadAssignmentConfig = z.infer<typeof leadAssignmentConfigSchema>;
+
+export const DEFAULT_LEAD_ASSIGNMENT_CONFIG: LeadAssignmentConfig = leadAssignmentConfigSchema.parse({});
+
+export const getLeadAssignmentConfig = (settings: unknown): LeadAssignmentConfig => {
+  const stored = (settings as { leadAssignment?: unknown } | null)?.leadAssignment;
+  const parsed = leadAssignmentConfigSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_LEAD_ASSIGNMENT_CONFIG;
+};
+
+// State the engine needs; callers load it once and reuse it across a batch of leads
+export interface AssignmentContext {
+  salesReps: number[]; // ids of active sales reps, in rotation order
+  activeUserIds: Set<number>; // rule targets may be any active user of the organization
+  openLeadCounts: Map<number, number>;
+  lastRoundRobinUserId: number | null;
+}
+
+export interface AssignmentDecision {
+  assignedTo: number;
+  method: AssignmentMethod;
+  reason: string;
+}
+
+const roundRobin = (context: AssignmentContext): AssignmentDecision | null => {
+  if (context.salesReps.length === 0) return null;
+  const lastIndex = context.lastRoundRobinUserId === null ? -1 : context.salesReps.indexOf(context.lastRoundRobinUserId);
+  const assignedTo = context.salesReps[(lastIndex + 1) % context.salesReps.length];
+  return { assignedTo, method: 'round_robin', reason: 'Next sales rep in rotation' };
+};
+
+const leastLoaded = (context: AssignmentContext): AssignmentDecision | null => {
+  if (context.salesReps.length === 0) return null;
+  const load = (userId: number) => context.openLeadCounts.get(userId) ?? 0;
+  const assignedTo = context.salesReps.reduce((best, userId) => (load(userId) < load(best) ? userId : best));
+  return { assignedTo, method: 'least_loaded', reason: `Fewest open leads (${load(assignedTo)})` };
+};
+
+const matchRule = (lead: Pick<Lead, 'source' | 'company' | 'country'>, config: LeadAssignmentConfig, context: AssignmentContext) => {
+  for (const rule of config.rules) {
+    const value = lead[rule.field]?.trim().toLowerCase();
+    if (value && value === rule.value.trim().toLowerCase() && context.activeUserIds.has(rule.assignTo)) {
+      return { assignedTo: rule.assignTo, method: 'rule' as const, reason: `${rule.field} is ${rule.value}` };
+    }
+  }
+  return null;
+};
+
+export const decideAssignment = (
+  lead: Pick<Lead, 'source' | 'company' | 'country'>,
+  config: LeadAssignmentConfig,
+  context: AssignmentContext
+): AssignmentDecision | null => {
+  const strategy = config.mode === 'rules' ? config.fallback : config.mode;
+  if (config.mode === 'rules') {
+    const matched = matchRule(lead, config, context);
+    if (matched) return matched;
+  }
+  if (strategy === 'round_robin') return roundRobin(context);
+  if (strategy === 'least_loaded') return leastLoaded(context);
+  return null;
+};
+
+// Keeps the context current while assigning a batch of leads
+export const recordDecision = (context: AssignmentContext, decision: AssignmentDecision, previousAssignee?: number | null) => {
+  if (previousAssignee) {
+    context.openLeadCounts.set(previousAssignee, Math.max(0, (context.openLeadCounts.get(previousAssignee) ?? 0) - 1));
+  }
+  context.openLeadCounts.set(decision.assignedTo, (context.openLeadCounts.get(decision.assignedTo) ?? 0) + 1);
+  if (decision.method === 'round_robin') {
+    context.lastRoundRobinUserId = decision.assignedTo;
+  }
+};
@@ -0,0 +1,128 @@
+import { randomBytes } from "crypto";
+import {
+  LEAD_FORM_FIELDS, leadFormSubmissionSchema,
+  type CustomFieldDefinition, type CustomFieldValues, type Lead, type LeadForm, type LeadFormSubmission, type UpdateLead
+} from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+import { customFieldValueSchema, parseCustomFieldCell } from "./custom-fields";
+
+// Form fields mapped to "customFields.<key>" fill the lead's custom fields, as in imports
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+const REQUIRED_FIELDS = ['firstName', 'lastName', 'email'];
+
+export const generateFormKey = () => `lf_${randomBytes(16).toString("hex")}`;
+
+// Every target must be a lead field or a custom field of leads, used once; names, email and
+// required custom fields must be covered
+export const assertValidFieldMapping = (mapping: Record<string, string>, definitions: CustomFieldDefinition[]) => {
+  const targets = Object.values(mapping);
+  const known = new Set<string>([...LEAD_FORM_FIELDS, ...definitions.map(definition => `${CUSTOM_FIELD_PREFIX}${definition.key}`)]);
+  const unknown = targets.filter(target => !known.has(target));
+  if (unknown.length > 0) {
+    throw new CustomError(`Unknown lead fields: ${unknown.join(', ')}`, 400);
+  }
+  if (new Set(targets).size !== targets.length) {
+    throw new CustomError("Each lead field can only be mapped once", 400);
+  }
+  const required = [...REQUIRED_FIELDS, ...definitions.filter(definition => definition.required).map(definition => `${CUSTOM_FIELD_PREFIX}${definition.key}`)];
+  const missing = required.filter(field => !targets.includes(field));
+  if (missing.length > 0) {
+    throw new CustomError(`Required fields are not mapped: ${missing.join(', ')}`, 400);
+  }
+};
+
+// Browsers send Origin on cross-origin posts; plain form posts from older browsers only a Referer
+export const requestOrigin = (origin: string | undefined, referer: string | undefined): string | undefined => {
+  if (origin && origin !== 'null') return origin.toLowerCase();
+  if (!referer) return undefined;
+  try {
+    return new URL(referer).origin.toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+export const isOriginAllowed = (form: Pick<LeadForm, 'allowedOrigins'>, origin: string | undefined) =>
+  form.allowedOrigins.includes('*') || (origin !== undefined && form.allowedOrigins.some(allowed => allowed.toLowerCase() === origin));
+
+// The honeypot is hidden from people, so any value means the form was filled in by a bot
+export const isSpam = (form: Pick<LeadForm, 'honeypotField'>, body: Record<string, unknown>) => {
+  const value = body[form.honeypotField];
+  return value !== undefined && value !== null && String(value).trim() !== '';
+};
+
+// Form values arrive as strings (or, as JSON, numbers and lists); blank values count as missing
+const formValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const text = Array.isArray(value) ? value.map(String).join(';') : String(value);
+  return text.trim() === '' ? undefined : text.trim();
+};
+
+export interface MappedSubmission {
+  data?: LeadFormSubmission & { customFields: CustomFieldValues };
+  errors: { field: string; message: string }[];
+}
+
+// Builds the lead from the mapped form fields and validates it; unmapped fields are ignored.
+// Errors are reported under the form's field names so the page can show them.
+export const mapSubmission = (
+  form: Pick<LeadForm, 'fieldMapping'>,
+  body: Record<string, unknown>,
+  definitions: CustomFieldDefinition[] = []
+): MappedSubmission => {
+  const formFieldOf = new Map(Object.entries(form.fieldMapping).map(([formField, target]) => [target, formField]));
+  const fields: Record<string, string> = {};
+  const customFields: CustomFieldValues = {};
+  const errors: MappedSubmission['errors'] = [];
+
+  for (const [formField, target] of Object.entries(form.fieldMapping)) {
+    const value = formValue(body[formField]);
+    if (!target.startsWith(CUSTOM_FIELD_PREFIX)) {
+      if (value !== undefined) fields[target] = value;
+      continue;
+    }
+    const definition = definitions.find(candidate => `${CUSTOM_FIELD_PREFIX}${candidate.key}` === target);
+    if (!definition) continue;
+    if (value === undefined) {
+      if (definition.required) errors.push({ field: formField, message: 'Required' });
+      continue;
+    }
+    const parsed = customFieldValueSchema(definition).safeParse(parseCustomFieldCell(definition, value));
+    if (parsed.success) {
+      customFields[definition.key] = parsed.data;
+    } else {
+      errors.push({ field: formField, message: parsed.error.errors[0].message });
+    }
+  }
+
+  const parsed = leadFormSubmissionSchema.safeParse(fields);
+  if (!parsed.success) {
+    errors.unshift(...parsed.error.errors.map(issue => {
+      const target = String(issue.path[0] ?? '');
+      return { field: formFieldOf.get(target) ?? target, message: issue.message };
+    }));
+  }
+  return parsed.success && errors.length === 0 ? { data: { ...parsed.data, customFields }, errors } : { errors };
+};
+
+// Merging a submission into an existing lead fills its blank fields and keeps the rest;
+// a message is appended to the notes
+export const mergeSubmission = (existing: Lead, submission: NonNullable<MappedSubmission['data']>): UpdateLead => {
+  const { notes, customFields, ...fields } = submission;
+  const changes: UpdateLead = {};
+  for (const [field, value] of Object.entries(fields) as [keyof typeof fields, string | null | undefined][]) {
+    if (value && !existing[field]) {
+      changes[field] = value;
+    }
+  }
+  if (notes) {
+    changes.notes = existing.notes ? `${existing.notes}\n\n${notes}` : notes;
+  }
+  const newCustomFields = Object.fromEntries(
+    Object.entries(customFields).filter(([key]) => existing.customFields[key] === undefined)
+  );
+  if (Object.keys(newCustomFields).length > 0) {
+    changes.customFields = newCustomFields;
+  }
+  return changes;
+};
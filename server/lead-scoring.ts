@@ -0,0 +1,114 @@
+import { z } from "zod";
+import type { Activity, Lead } from "@shared/schema";
+
+export const MAX_LEAD_SCORE = 100;
+
+// Per-organization scoring rules, stored under organizations.settings.leadScoring
+export const leadScoringRulesSchema = z.object({
+  // Points by lead source, matched case-insensitively
+  sources: z.record(z.number().int()).default({
+    referral: 20,
+    website: 10,
+    advertisement: 5,
+  }),
+  // Points for the first matching keyword in the job title
+  jobTitleKeywords: z.array(z.object({ keyword: z.string().min(1), points: z.number().int() })).default([
+    { keyword: 'ceo', points: 25 },
+    { keyword: 'founder', points: 25 },
+    { keyword: 'vp', points: 20 },
+    { keyword: 'director', points: 15 },
+    { keyword: 'head', points: 15 },
+    { keyword: 'manager', points: 10 },
+  ]),
+  companyDomain: z.object({
+    // Awarded when the email is not on a free mail provider
+    businessEmailPoints: z.number().int().default(10),
+    freeEmailDomains: z.array(z.string()).default(['gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com', 'aol.com']),
+    // Extra points for accounts the organization is targeting
+    targetDomains: z.array(z.object({ domain: z.string().min(1), points: z.number().int() })).default([]),
+  }).default({}),
+  completedActivities: z.object({
+    pointsPerActivity: z.number().int().default(5),
+    maxPoints: z.number().int().default(25),
+  }).default({}),
+  // Points by how recently the lead was last contacted; the first matching window wins
+  recency: z.array(z.object({ withinDays: z.number().int().positive(), points: z.number().int() })).default([
+    { withinDays: 7, points: 20 },
+    { withinDays: 30, points: 10 },
+    { withinDays: 90, points: 5 },
+  ]),
+});
+
+export type LeadScoringRules = z.infer<typeof leadScoringRulesSchema>;
+
+export const DEFAULT_LEAD_SCORING_RULES: LeadScoringRules = leadScoringRulesSchema.parse({});
+
+export const getLeadScoringRules = (settings: unknown): LeadScoringRules => {
+  const stored = (settings as { leadScoring?: unknown } | null)?.leadScoring;
+  const parsed = leadScoringRulesSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_LEAD_SCORING_RULES;
+};
+
+export interface ScoreBreakdownEntry {
+  rule: 'source' | 'jobTitle' | 'companyDomain' | 'completedActivities' | 'recency';
+  reason: string;
+  points: number;
+}
+
+export interface LeadScore {
+  score: number;
+  breakdown: ScoreBreakdownEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const scoreLead = (
+  lead: Pick<Lead, 'source' | 'jobTitle' | 'email'>,
+  leadActivities: Pick<Activity, 'status' | 'completedAt' | 'updatedAt'>[],
+  rules: LeadScoringRules,
+  now: Date = new Date()
+): LeadScore => {
+  const breakdown: ScoreBreakdownEntry[] = [];
+
+  const source = lead.source?.trim().toLowerCase();
+  const sourceRule = source && Object.entries(rules.sources).find(([name]) => name.toLowerCase() === source);
+  if (sourceRule) {
+    breakdown.push({ rule: 'source', reason: `Source is ${sourceRule[0]}`, points: sourceRule[1] });
+  }
+
+  const jobTitle = lead.jobTitle?.toLowerCase() ?? '';
+  const keyword = rules.jobTitleKeywords.find(({ keyword }) =>
+    new RegExp(`\\b${keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(jobTitle)
+  );
+  if (keyword) {
+    breakdown.push({ rule: 'jobTitle', reason: `Job title contains "${keyword.keyword}"`, points: keyword.points });
+  }
+
+  const domain = lead.email.split('@')[1]?.toLowerCase();
+  if (domain) {
+    const { businessEmailPoints, freeEmailDomains, targetDomains } = rules.companyDomain;
+    const target = targetDomains.find(entry => entry.domain.toLowerCase() === domain);
+    if (target) {
+      breakdown.push({ rule: 'companyDomain', reason: `Target account ${domain}`, points: target.points });
+    } else if (businessEmailPoints && !freeEmailDomains.includes(domain)) {
+      breakdown.push({ rule: 'companyDomain', reason: `Business email domain ${domain}`, points: businessEmailPoints });
+    }
+  }
+
+  const completed = leadActivities.filter(activity => activity.status === 'completed');
+  if (completed.length > 0) {
+    const { pointsPerActivity, maxPoints } = rules.completedActivities;
+    const points = Math.min(completed.length * pointsPerActivity, maxPoints);
+    breakdown.push({ rule: 'completedActivities', reason: `${completed.length} completed activities`, points });
+
+    const lastContact = Math.max(...completed.map(activity => new Date(activity.completedAt ?? activity.updatedAt ?? 0).getTime()));
+    const daysSince = (now.getTime() - lastContact) / DAY_MS;
+    const window = [...rules.recency].sort((a, b) => a.withinDays - b.withinDays).find(entry => daysSince <= entry.withinDays);
+    if (window) {
+      breakdown.push({ rule: 'recency', reason: `Contacted within ${window.withinDays} days`, points: window.points });
+    }
+  }
+
+  const total = breakdown.reduce((sum, entry) => sum + entry.points, 0);
+  return { score: Math.max(0, Math.min(MAX_LEAD_SCORE, total)), breakdown };
+};
@@ -0,0 +1,186 @@
+import { and, or, eq, gte, lte, asc, desc, isNull, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { CUSTOM_FIELD_SORT_PREFIX, type ListQuery, type Page, type SortField } from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+
+export type SortKind = 'timestamp' | 'numeric' | 'text';
+
+// A computed sort key, e.g. a custom field inside a jsonb column; NULL where a record has no value
+export interface SortExpression {
+  expression: SQL;
+  kind: SortKind;
+}
+
+// Sortable query fields mapped to the columns or expressions they sort on
+export type SortColumns = Record<string, PgColumn | SortExpression>;
+
+// A list query without its paging, e.g. for exports that return every matching record
+export type ListFilters<Q extends ListQuery> = Omit<Q, 'limit' | 'cursor'>;
+
+interface Cursor {
+  sort: string;
+  values: unknown[]; // sort field values of the last record on the previous page
+  id: number;
+}
+
+// NULLs sort as the lowest value so ORDER BY and the keyset comparison agree
+const NULL_SENTINELS: Record<SortKind, SQL> = {
+  timestamp: sql`'-infinity'::timestamp`,
+  numeric: sql`'-Infinity'::numeric`,
+  text: sql`''`,
+};
+
+const isSortExpression = (target: PgColumn | SortExpression): target is SortExpression => 'expression' in target;
+
+const sortKind = (target: PgColumn | SortExpression): SortKind => {
+  if (isSortExpression(target)) return target.kind;
+  if (target.columnType === 'PgTimestamp') return 'timestamp';
+  if (['PgNumeric', 'PgInteger', 'PgSerial'].includes(target.columnType)) return 'numeric';
+  return 'text';
+};
+
+// Timestamp columns hold microseconds but cursors carry JS dates, so both sort on milliseconds
+const sortExpression = (target: PgColumn | SortExpression): SQL => {
+  const kind = sortKind(target);
+  if (isSortExpression(target)) return sql`coalesce(${target.expression}, ${NULL_SENTINELS[kind]})`;
+  const expression = kind === 'numeric' ? sql`${target}::numeric`
+    : kind === 'timestamp' ? sql`date_trunc('milliseconds', ${target})`
+    : sql`${target}`;
+  return target.notNull ? expression : sql`coalesce(${expression}, ${NULL_SENTINELS[kind]})`;
+};
+
+const sortValue = (target: PgColumn | SortExpression, value: unknown): SQL => {
+  const kind = sortKind(target);
+  if (value === null || value === undefined) return NULL_SENTINELS[kind];
+  if (kind === 'timestamp') return sql`${String(value)}::timestamp`;
+  if (kind === 'numeric') return sql`${String(value)}::numeric`;
+  return sql`${String(value)}`;
+};
+
+// The id breaks ties so every record has a stable position
+const tiebreakDirection = (sort: SortField[]) => sort[sort.length - 1]?.direction ?? 'asc';
+
+const sortSignature = (sort: SortField[]) =>
+  sort.map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field)).join(',');
+
+// The value a record sorts by; "cf.<key>" fields are read from its custom field values
+const sortFieldValue = (record: { id: number }, field: string): unknown => {
+  const values = record as Record<string, unknown>;
+  if (field.startsWith(CUSTOM_FIELD_SORT_PREFIX) && !(field in values)) {
+    return (values.customFields as Record<string, unknown> | undefined)?.[field.slice(CUSTOM_FIELD_SORT_PREFIX.length)];
+  }
+  return values[field];
+};
+
+export const encodeCursor = (record: { id: number }, sort: SortField[]): string => {
+  const values = sort.map(({ field }) => sortFieldValue(record, field) ?? null);
+  const cursor: Cursor = { sort: sortSignature(sort), values, id: record.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+// A cursor is only valid for the sort order it was issued for
+export const decodeCursor = (encoded: string, sort: SortField[]): Cursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (
+      cursor?.sort === sortSignature(sort) &&
+      Array.isArray(cursor.values) &&
+      cursor.values.length === sort.length &&
+      Number.isInteger(cursor.id)
+    ) {
+      return cursor;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new CustomError("Invalid cursor for this query", 400);
+};
+
+export const orderByFor = (columns: SortColumns, idColumn: PgColumn, sort: SortField[]): SQL[] => [
+  ...sort.map(({ field, direction }) => (direction === 'asc' ? asc : desc)(sortExpression(columns[field]))),
+  (tiebreakDirection(sort) === 'asc' ? asc : desc)(idColumn),
+];
+
+// Keyset condition selecting the records after the cursor:
+// (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND id > z)
+export const afterCursor = (columns: SortColumns, idColumn: PgColumn, query: ListQuery): SQL | undefined => {
+  if (!query.cursor) return undefined;
+  const cursor = decodeCursor(query.cursor, query.sort);
+  const keys = [
+    ...query.sort.map(({ field, direction }, index) => ({
+      expression: sortExpression(columns[field]),
+      value: sortValue(columns[field], cursor.values[index]),
+      direction,
+    })),
+    { expression: sql`${idColumn}`, value: sql`${cursor.id}`, direction: tiebreakDirection(query.sort) },
+  ];
+  return or(...keys.map((key, index) => and(
+    ...keys.slice(0, index).map(previous => sql`${previous.expression} = ${previous.value}`),
+    key.direction === 'asc' ? sql`${key.expression} > ${key.value}` : sql`${key.expression} < ${key.value}`
+  )));
+};
+
+// Rows are fetched with limit + 1 so the extra row tells whether another page exists
+export const toPage = <T extends { id: number }>(rows: T[], query: ListQuery, total: number): Page<T> => {
+  const data = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+  return {
+    data,
+    page: {
+      limit: query.limit,
+      total,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(data[data.length - 1], query.sort) : null,
+    },
+  };
+};
+
+// Shared filter conditions
+export const assigneeCondition = (column: PgColumn, assignedTo: number | 'unassigned' | undefined) => {
+  if (assignedTo === undefined) return undefined;
+  return assignedTo === 'unassigned' ? isNull(column) : eq(column, assignedTo);
+};
+
+export const rangeCondition = (column: PgColumn, from?: Date | number, to?: Date | number) => {
+  // numeric columns are compared as strings to keep decimal precision
+  const bound = (value: Date | number) => (typeof value === 'number' ? String(value) : value);
+  return and(
+    from !== undefined ? gte(column, bound(from)) : undefined,
+    to !== undefined ? lte(column, bound(to)) : undefined
+  );
+};
+
+// In-memory equivalent for storage backends without SQL
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b || (a == null && b == null)) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  if (a instanceof Date || b instanceof Date) return new Date(a as string).getTime() - new Date(b as string).getTime();
+  if (typeof a === 'number' || typeof b === 'number' || (!isNaN(Number(a)) && !isNaN(Number(b)))) {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b));
+};
+
+export const paginateRecords = <T extends { id: number }>(records: T[], query: ListQuery): Page<T> => {
+  const keys = [
+    ...query.sort,
+    { field: 'id', direction: tiebreakDirection(query.sort) },
+  ];
+  const compare = (a: { id: number }, b: { id: number }) => {
+    for (const { field, direction } of keys) {
+      const result = compareValues(sortFieldValue(a, field), sortFieldValue(b, field));
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  };
+
+  const sorted = [...records].sort(compare);
+  let remaining = sorted;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor, query.sort);
+    const position = { id: cursor.id, ...Object.fromEntries(query.sort.map(({ field }, index) => [field, cursor.values[index]])) };
+    remaining = sorted.filter(record => compare(record, position) > 0);
+  }
+  return toPage(remaining.slice(0, query.limit + 1), query, records.length);
+};
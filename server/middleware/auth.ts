@@ -1,8 +1,11 @@
 import { Request, Response, NextFunction } from "express";
-import { storage } from "../storage";
+import { commercialStorage } from "../commercial-storage";
+import { verifyAccessToken } from "../auth";
+import type { PermissionScope } from "../permissions";
 
 export interface AuthenticatedRequest extends Request {
-  user?: { id: number; username: string };
+  user?: { id: number; username: string; role: string; organizationId: number };
+  permissionScope?: PermissionScope;
 }
 
 export const authenticateToken = async (
@@ -17,17 +20,27 @@ export const authenticateToken = async (
     return res.status(401).json({ error: "Access token required" });
   }
 
+  let payload;
   try {
-    // In a real app, you'd verify JWT token here
-    // For now, we'll use a simple user lookup
-    const userId = parseInt(token);
-    const user = await storage.getUser(userId);
-    
-    if (!user) {
+    payload = verifyAccessToken(token);
+  } catch (error) {
+    return res.status(401).json({ error: "Invalid or expired token" });
+  }
+
+  try {
+    // Re-read the user so deactivation and role changes take effect before the token expires
+    const user = await commercialStorage.getUser(payload.sub);
+
+    if (!user || !user.isActive) {
       return res.status(403).json({ error: "Invalid token" });
     }
 
-    req.user = { id: user.id, username: user.username };
+    req.user = {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      organizationId: user.organizationId
+    };
     next();
   } catch (error) {
     return res.status(403).json({ error: "Invalid token" });
@@ -39,4 +52,4 @@ export const requireAuth = (req: AuthenticatedRequest, res: Response, next: Next
     return res.status(401).json({ error: "Authentication required" });
   }
   next();
-};
\ No newline at end of file
+};
@@ -0,0 +1,19 @@
+import { Response, NextFunction } from "express";
+import { getPermissionScope, type Resource, type Action } from "../permissions";
+import type { AuthenticatedRequest } from "./auth";
+
+export const requirePermission = (resource: Resource, action: Action) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const scope = getPermissionScope(req.user.role, resource, action);
+    if (!scope) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    req.permissionScope = scope;
+    next();
+  };
+};
@@ -18,12 +18,12 @@ interface RateLimitOptions {
 class InMemoryStore {
   private store: Map<string, { count: number; resetTime: number }> = new Map();
 
-  increment(key: string): { count: number; resetTime: number } {
+  increment(key: string, windowMs: number): { count: number; resetTime: number } {
     const now = Date.now();
     const record = this.store.get(key);
     
     if (!record || now > record.resetTime) {
-      const newRecord = { count: 1, resetTime: now + 60000 }; // 1 minute window
+      const newRecord = { count: 1, resetTime: now + windowMs };
       this.store.set(key, newRecord);
       return newRecord;
     }
@@ -49,8 +49,8 @@ class InMemoryStore {
 
 const store = new InMemoryStore();
 
-// Cleanup expired entries every 5 minutes
-setInterval(() => store.cleanup(), 5 * 60 * 1000);
+// Cleanup expired entries every 5 minutes, without keeping the process (or a test run) alive
+setInterval(() => store.cleanup(), 5 * 60 * 1000).unref();
 
 export const createRateLimiter = (options: RateLimitOptions) => {
   const {
@@ -62,7 +62,7 @@ export const createRateLimiter = (options: RateLimitOptions) => {
 
   return (req: Request, res: Response, next: NextFunction) => {
     const key = `${req.ip}-${req.originalUrl}`;
-    const record = store.increment(key);
+    const record = store.increment(key, windowMs);
     
     // Set rate limit headers
     res.set({
@@ -111,4 +111,11 @@ export const authLimiter = createRateLimiter({
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 5,
   message: "Too many authentication attempts, please try again later"
-});
\ No newline at end of file
+});
+
+// Public web-to-lead forms, per client and form
+export const formSubmissionLimiter = createRateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 5,
+  message: "Too many submissions, please try again later"
+});
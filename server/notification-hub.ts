@@ -0,0 +1,33 @@
+import type { Notification, NotificationMessage } from "@shared/schema";
+
+// Anything a message can be pushed to; an open WebSocket in production
+export interface NotificationSubscriber {
+  send(data: string): void;
+}
+
+// Open sessions per user. The hub lives in this process only, so with several server instances
+// each one reaches the sessions connected to it.
+const subscribers = new Map<number, Set<NotificationSubscriber>>();
+
+export const subscribe = (userId: number, subscriber: NotificationSubscriber) => {
+  const sessions = subscribers.get(userId) ?? new Set<NotificationSubscriber>();
+  sessions.add(subscriber);
+  subscribers.set(userId, sessions);
+  return () => {
+    sessions.delete(subscriber);
+    if (sessions.size === 0) {
+      subscribers.delete(userId);
+    }
+  };
+};
+
+export const publish = (userId: number, message: NotificationMessage) => {
+  const data = JSON.stringify(message);
+  subscribers.get(userId)?.forEach(subscriber => subscriber.send(data));
+};
+
+export const publishNotifications = (notifications: Notification[]) => {
+  for (const notification of notifications) {
+    publish(notification.userId, { type: 'notification', notification });
+  }
+};
@@ -0,0 +1,72 @@
+import type { Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, type WebSocket } from "ws";
+import { verifyAccessToken } from "./auth";
+import { commercialStorage } from "./commercial-storage";
+import { subscribe } from "./notification-hub";
+
+export const NOTIFICATION_SOCKET_PATH = "/api/commercial/notifications/socket";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Close code telling the client to reconnect with a fresh access token
+export const TOKEN_EXPIRED_CLOSE_CODE = 4001;
+
+const reject = (socket: Duplex, status: number, message: string) => {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+};
+
+// Authenticates the upgrade like authenticateToken does. Browsers cannot set headers on a
+// WebSocket, so the access token is passed as the `token` query parameter.
+const authenticateUpgrade = async (token: string | null) => {
+  if (!token) return undefined;
+  try {
+    const payload = verifyAccessToken(token);
+    const user = await commercialStorage.getUser(payload.sub);
+    return user?.isActive ? { user, expiresAt: payload.expiresAt } : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Pushes notifications to the signed-in user's open sessions over a WebSocket on the app's server.
+// Other upgrade requests (such as Vite's HMR socket in development) are left alone.
+export const attachNotificationSocket = (server: Server) => {
+  const sockets = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== NOTIFICATION_SOCKET_PATH) return;
+
+    const session = await authenticateUpgrade(url.searchParams.get("token"));
+    if (!session) {
+      return reject(socket, 401, "Unauthorized");
+    }
+    sockets.handleUpgrade(req, socket, head, (ws) => {
+      alive.add(ws);
+      const unsubscribe = subscribe(session.user.id, ws);
+      // The socket lives no longer than the token it was opened with
+      const expiry = setTimeout(() => ws.close(TOKEN_EXPIRED_CLOSE_CODE, "Token expired"), Math.max(0, session.expiresAt - Date.now()));
+      ws.on("pong", () => alive.add(ws));
+      ws.on("close", () => {
+        unsubscribe();
+        clearTimeout(expiry);
+      });
+    });
+  });
+
+  // Drops sessions that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    sockets.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  server.on("close", () => clearInterval(heartbeat));
+
+  return sockets;
+};
@@ -0,0 +1,35 @@
+import {
+  notificationPreferencesSchema, type Deal, type InsertNotification, type Lead, type NotificationPreferences, type NotificationType
+} from "@shared/schema";
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = notificationPreferencesSchema.parse({});
+
+export const getNotificationPreferences = (settings: unknown): NotificationPreferences => {
+  const stored = (settings as { notifications?: unknown } | null)?.notifications;
+  const parsed = notificationPreferencesSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_NOTIFICATION_PREFERENCES;
+};
+
+// Whether a user wants notifications of a type through a channel; types without a preference always are
+export const wantsNotification = (settings: unknown, type: string, channel: 'inApp' | 'realtime') =>
+  getNotificationPreferences(settings)[type as NotificationType]?.[channel] ?? true;
+
+export const leadAssignedNotification = (lead: Lead, assignedTo: number): InsertNotification => ({
+  userId: assignedTo,
+  type: 'lead_assigned',
+  title: `Lead assigned to you: ${lead.firstName} ${lead.lastName}`,
+  body: lead.company,
+  entityType: 'lead',
+  entityId: lead.id,
+  organizationId: lead.organizationId,
+});
+
+export const dealStageNotification = (deal: Deal, assignedTo: number, fromStage: string, toStage: string): InsertNotification => ({
+  userId: assignedTo,
+  type: 'deal_stage_changed',
+  title: `${deal.title} moved to ${toStage}`,
+  body: `Previously ${fromStage}`,
+  entityType: 'deal',
+  entityId: deal.id,
+  organizationId: deal.organizationId,
+});
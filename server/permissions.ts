@@ -0,0 +1,116 @@
+export const ROLES = ['admin', 'manager', 'sales_rep', 'user'] as const;
+export type Role = typeof ROLES[number];
+
+export type Resource =
+  | 'organization'
+  | 'users'
+  | 'leads'
+  | 'customers'
+  | 'deals'
+  | 'activities'
+  | 'pipelines'
+  | 'sequences'
+  | 'analytics'
+  | 'billing';
+
+export type Action = 'read' | 'create' | 'update' | 'reassign' | 'delete' | 'manage';
+
+// 'all' grants the action on every record in the organization,
+// 'assigned' only on records assigned to (or created by) the user
+export type PermissionScope = 'all' | 'assigned';
+
+type PermissionSet = Partial<Record<Resource, Partial<Record<Action, PermissionScope>>>>;
+
+const FULL_ACCESS: Partial<Record<Action, PermissionScope>> = {
+  read: 'all',
+  create: 'all',
+  update: 'all',
+  reassign: 'all',
+  delete: 'all',
+  manage: 'all',
+};
+
+const TEAM_ACCESS: Partial<Record<Action, PermissionScope>> = {
+  read: 'all',
+  create: 'all',
+  update: 'all',
+  reassign: 'all',
+  delete: 'all',
+};
+
+const OWN_RECORDS: Partial<Record<Action, PermissionScope>> = {
+  read: 'assigned',
+  create: 'all',
+  update: 'assigned',
+};
+
+const READ_ASSIGNED: Partial<Record<Action, PermissionScope>> = {
+  read: 'assigned',
+};
+
+export const PERMISSION_MATRIX: Record<Role, PermissionSet> = {
+  admin: {
+    organization: FULL_ACCESS,
+    users: FULL_ACCESS,
+    leads: FULL_ACCESS,
+    customers: FULL_ACCESS,
+    deals: FULL_ACCESS,
+    activities: FULL_ACCESS,
+    pipelines: FULL_ACCESS,
+    sequences: FULL_ACCESS,
+    analytics: FULL_ACCESS,
+    billing: FULL_ACCESS,
+  },
+  manager: {
+    organization: { read: 'all' },
+    users: { read: 'all' },
+    leads: TEAM_ACCESS,
+    customers: TEAM_ACCESS,
+    deals: TEAM_ACCESS,
+    activities: TEAM_ACCESS,
+    pipelines: TEAM_ACCESS,
+    sequences: TEAM_ACCESS,
+    analytics: { read: 'all', create: 'all', update: 'all', delete: 'all' },
+  },
+  sales_rep: {
+    organization: { read: 'all' },
+    users: { read: 'all' },
+    leads: OWN_RECORDS,
+    customers: OWN_RECORDS,
+    deals: OWN_RECORDS,
+    activities: OWN_RECORDS,
+    pipelines: { read: 'all' },
+    sequences: { read: 'all' },
+    analytics: { read: 'all' },
+  },
+  user: {
+    organization: { read: 'all' },
+    leads: READ_ASSIGNED,
+    customers: READ_ASSIGNED,
+    deals: READ_ASSIGNED,
+    activities: OWN_RECORDS,
+    pipelines: { read: 'all' },
+    sequences: { read: 'all' },
+    analytics: { read: 'all' },
+  },
+};
+
+export const isRole = (role: string): role is Role => (ROLES as readonly string[]).includes(role);
+
+export const getPermissionScope = (role: string, resource: Resource, action: Action): PermissionScope | undefined => {
+  if (!isRole(role)) return undefined;
+  return PERMISSION_MATRIX[role][resource]?.[action];
+};
+
+export const can = (role: string, resource: Resource, action: Action): boolean =>
+  getPermissionScope(role, resource, action) !== undefined;
+
+export const canAccessRecord = (
+  user: { id: number },
+  scope: PermissionScope | undefined,
+  record: { assignedTo?: number | null; createdBy?: number | null }
+): boolean => {
+  if (scope === 'all') return true;
+  if (scope === 'assigned') return record.assignedTo === user.id || record.createdBy === user.id;
+  return false;
+};
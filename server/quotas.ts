@@ -0,0 +1,89 @@
+import type {
+  ForecastPeriodType, Leaderboard, LeaderboardEntry, LeaderboardMetric, Quota, QuotaWithAttainment, User
+} from "@shared/schema";
+import { periodOf, type PeriodBounds } from "./forecasting";
+
+// A deal closed within the period; lost deals are those closed in a stage that is not won
+export interface ClosedDeal {
+  assignedTo: number | null;
+  value: string;
+  actualCloseDate: Date;
+  won: boolean;
+}
+
+const percentage = (value: number, total: number) => Math.round((value / total) * 1000) / 10;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export const quotaPeriod = (quota: Pick<Quota, 'period' | 'periodStart'>): PeriodBounds =>
+  periodOf(quota.periodStart, quota.period as ForecastPeriodType);
+
+// Team quotas count the won deals of every rep, and unassigned ones
+export const withAttainment = (quotas: Quota[], closedDeals: ClosedDeal[]): QuotaWithAttainment[] =>
+  quotas.map(quota => {
+    const { start, end } = quotaPeriod(quota);
+    const won = closedDeals.filter(deal =>
+      deal.won &&
+      deal.actualCloseDate >= start && deal.actualCloseDate < end &&
+      (quota.userId === null || deal.assignedTo === quota.userId));
+    const closedWon = roundAmount(won.reduce((sum, deal) => sum + Number(deal.value), 0));
+    return { ...quota, periodEnd: end, closedWon, dealsWon: won.length, attainment: percentage(closedWon, Number(quota.target)) };
+  });
+
+export const displayName = (user: Pick<User, 'firstName' | 'lastName' | 'username'>) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+
+export interface LeaderboardInput {
+  period: ForecastPeriodType;
+  bounds: PeriodBounds;
+  sort: LeaderboardMetric;
+  users: Pick<User, 'id' | 'firstName' | 'lastName' | 'username'>[];
+  closedDeals: ClosedDeal[]; // closed within the period
+  activityCounts: { userId: number; count: number }[];
+  quotas: Quota[]; // of the period, with the team quota if any
+}
+
+// Ranks every given user, including those with nothing to show yet. Reps without a closed deal
+// rank last on win rate.
+export const buildLeaderboard = (input: LeaderboardInput): Leaderboard => {
+  const quotas = withAttainment(input.quotas, input.closedDeals);
+  const teamQuota = quotas.find(quota => quota.userId === null);
+  const teamRevenue = roundAmount(input.closedDeals.filter(deal => deal.won).reduce((sum, deal) => sum + Number(deal.value), 0));
+
+  const entries = input.users.map((user): Omit<LeaderboardEntry, 'rank'> => {
+    const closed = input.closedDeals.filter(deal => deal.assignedTo === user.id);
+    const won = closed.filter(deal => deal.won);
+    const quota = quotas.find(candidate => candidate.userId === user.id);
+    return {
+      userId: user.id,
+      name: displayName(user),
+      revenue: roundAmount(won.reduce((sum, deal) => sum + Number(deal.value), 0)),
+      dealsWon: won.length,
+      dealsLost: closed.length - won.length,
+      winRate: closed.length > 0 ? percentage(won.length, closed.length) : null,
+      activities: input.activityCounts.find(count => count.userId === user.id)?.count ?? 0,
+      quota: quota ? Number(quota.target) : null,
+      attainment: quota ? quota.attainment : null,
+    };
+  });
+
+  const score = (entry: Omit<LeaderboardEntry, 'rank'>) => entry[input.sort] ?? -1;
+  entries.sort((a, b) => score(b) - score(a) || a.name.localeCompare(b.name));
+
+  return {
+    period: input.period,
+    key: input.bounds.key,
+    start: input.bounds.start.toISOString(),
+    end: input.bounds.end.toISOString(),
+    sort: input.sort,
+    team: {
+      quota: teamQuota ? Number(teamQuota.target) : null,
+      revenue: teamRevenue,
+      attainment: teamQuota ? teamQuota.attainment : null,
+    },
+    entries: entries.map(entry => ({
+      rank: entries.findIndex(other => score(other) === score(entry)) + 1,
+      ...entry,
+    })),
+  };
+};
@@ -0,0 +1,63 @@
+import { WEEKDAY_CODES, type RecurrenceRule } from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday-based weekday index (0-6) of a UTC date, matching WEEKDAY_CODES
+const weekdayIndex = (date: Date) => (date.getUTCDay() + 6) % 7;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Recurring activities need a due date to count from. Monthly rules are pinned to the first
+// due date's day of the month, so a series started on the 31st returns to the 31st after February.
+export const normalizeRecurrence = (rule: RecurrenceRule, dueDate: Date | null | undefined): RecurrenceRule => {
+  if (!dueDate) {
+    throw new CustomError("Recurring activities need a due date", 400);
+  }
+  if (rule.frequency === 'monthly' && rule.byMonthDay === undefined) {
+    return { ...rule, byMonthDay: dueDate.getUTCDate() };
+  }
+  return rule;
+};
+
+const advance = (rule: RecurrenceRule, dueDate: Date): Date => {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(dueDate, rule.interval);
+    case 'weekly': {
+      if (!rule.byWeekday) {
+        return addDays(dueDate, 7 * rule.interval);
+      }
+      const days = Array.from(new Set(rule.byWeekday.map(code => WEEKDAY_CODES.indexOf(code)))).sort((a, b) => a - b);
+      const today = weekdayIndex(dueDate);
+      const laterThisWeek = days.find(day => day > today);
+      if (laterThisWeek !== undefined) {
+        return addDays(dueDate, laterThisWeek - today);
+      }
+      // First listed weekday of the next week in the interval
+      return addDays(dueDate, 7 * rule.interval - today + days[0]);
+    }
+    case 'monthly': {
+      const month = dueDate.getUTCMonth() + rule.interval;
+      const year = dueDate.getUTCFullYear() + Math.floor(month / 12);
+      const monthOfYear = month % 12;
+      const day = Math.min(rule.byMonthDay ?? dueDate.getUTCDate(), daysInMonth(year, monthOfYear));
+      return new Date(Date.UTC(year, monthOfYear, day,
+        dueDate.getUTCHours(), dueDate.getUTCMinutes(), dueDate.getUTCSeconds(), dueDate.getUTCMilliseconds()));
+    }
+  }
+};
+
+// Due date of the occurrence after the given one, or undefined once the series has ended
+export const nextOccurrence = (rule: RecurrenceRule, dueDate: Date, occurrence: number): Date | undefined => {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return undefined;
+  }
+  const next = advance(rule, dueDate);
+  if (rule.until !== undefined && next.toISOString().slice(0, 10) > rule.until) {
+    return undefined;
+  }
+  return next;
+};
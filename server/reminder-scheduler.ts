@@ -0,0 +1,44 @@
+import { commercialStorage } from "./commercial-storage";
+import {
+  buildDigest, digestWindowEnd, getReminderPreferences, isDigestDue, planActivityReminders, MAX_REMINDER_MINUTES
+} from "./reminders";
+
+const REMINDER_INTERVAL_MS = 60 * 1000;
+
+// One pass over every organization: upcoming and overdue activity reminders, then daily digests
+export const runReminders = async (now = new Date()) => {
+  const candidates = await commercialStorage.getReminderCandidates(new Date(now.getTime() + MAX_REMINDER_MINUTES * 60 * 1000));
+  const plan = planActivityReminders(candidates, now);
+  await commercialStorage.recordActivityReminders(plan, now);
+
+  for (const user of await commercialStorage.getDigestRecipients()) {
+    const preferences = getReminderPreferences(user.settings);
+    const lastDigest = await commercialStorage.getLatestNotification(user.id, 'activity_digest');
+    if (!isDigestDue(preferences, now, lastDigest?.createdAt)) continue;
+    const pending = await commercialStorage.getPendingActivitiesFor(user.id, user.organizationId, digestWindowEnd(now));
+    const digest = buildDigest(user.id, user.organizationId, pending, now);
+    if (digest) {
+      await commercialStorage.createNotification(digest);
+    }
+  }
+  return plan.notifications.length;
+};
+
+// Runs the reminders every minute until stopped; a run that is still going is never overlapped.
+// Failures are logged and retried on the next tick.
+export const startReminderScheduler = (intervalMs = REMINDER_INTERVAL_MS) => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runReminders();
+    } catch (error) {
+      console.error("Activity reminders failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { Activity, InsertNotification } from "@shared/schema";
+
+// Upcoming reminders are sent at most a day ahead, so the scheduler never looks further
+export const MAX_REMINDER_MINUTES = 24 * 60;
+// Activities overdue for longer (e.g. before reminders existed) are marked without a notification
+export const OVERDUE_NOTIFICATION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// The digest lists activities due within a day of being sent
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DIGEST_LISTED_ACTIVITIES = 5;
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A user's reminder preferences, stored under `reminders` in their settings
+export const reminderPreferencesSchema = z.object({
+  upcomingReminders: z.boolean().default(true),
+  // How long before the due date the upcoming reminder is sent
+  minutesBefore: z.number().int().min(0).max(MAX_REMINDER_MINUTES).default(60),
+  overdueReminders: z.boolean().default(true),
+  dailyDigest: z.boolean().default(false),
+  // Local hour (0-23) in `timezone` after which the digest is sent
+  digestHour: z.number().int().min(0).max(23).default(8),
+  timezone: z.string().refine(isTimeZone, "Unknown time zone").default('UTC'),
+});
+
+export type ReminderPreferences = z.infer<typeof reminderPreferencesSchema>;
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = reminderPreferencesSchema.parse({});
+
+export const getReminderPreferences = (settings: unknown): ReminderPreferences => {
+  const stored = (settings as { reminders?: unknown } | null)?.reminders;
+  const parsed = reminderPreferencesSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_REMINDER_PREFERENCES;
+};
+
+// Reminders go to the assignee, or to whoever created an unassigned activity
+export const reminderRecipient = (activity: Pick<Activity, 'assignedTo' | 'createdBy'>) => activity.assignedTo ?? activity.createdBy;
+
+// A pending activity due soon (or overdue) with the settings of the user it reminds
+export interface ReminderCandidate {
+  activity: Activity;
+  recipientSettings: unknown;
+}
+
+export interface ReminderPlan {
+  notifications: InsertNotification[];
+  remindedIds: number[]; // activities whose upcoming reminder is settled
+  overdueIds: number[]; // activities whose overdue notification is settled
+}
+
+const notificationFor = (activity: Activity, type: 'activity_due' | 'activity_overdue', title: string): InsertNotification => ({
+  userId: reminderRecipient(activity),
+  type,
+  title,
+  body: activity.subject,
+  entityType: 'activity',
+  entityId: activity.id,
+  organizationId: activity.organizationId,
+});
+
+// Decides which reminders are due at `now`. Each reminder is settled once, whether it is sent or
+// turned off in the recipient's preferences, so switching a preference on never sends a backlog.
+export const planActivityReminders = (candidates: ReminderCandidate[], now: Date): ReminderPlan => {
+  const plan: ReminderPlan = { notifications: [], remindedIds: [], overdueIds: [] };
+  for (const { activity, recipientSettings } of candidates) {
+    if (activity.status !== 'pending' || !activity.dueDate) continue;
+    const preferences = getReminderPreferences(recipientSettings);
+    const untilDue = activity.dueDate.getTime() - now.getTime();
+
+    if (untilDue <= 0) {
+      if (activity.overdueNotifiedAt) continue;
+      plan.overdueIds.push(activity.id);
+      if (preferences.overdueReminders && -untilDue <= OVERDUE_NOTIFICATION_WINDOW_MS) {
+        plan.notifications.push(notificationFor(activity, 'activity_overdue', `Overdue ${activity.type}`));
+      }
+    } else if (!activity.reminderSentAt && untilDue <= preferences.minutesBefore * 60 * 1000) {
+      plan.remindedIds.push(activity.id);
+      if (preferences.upcomingReminders) {
+        const minutes = Math.max(1, Math.round(untilDue / 60000));
+        const due = minutes < 120 ? `${minutes} minute${minutes === 1 ? '' : 's'}` : `${Math.round(minutes / 60)} hours`;
+        plan.notifications.push(notificationFor(activity, 'activity_due', `${activity.type.charAt(0).toUpperCase()}${activity.type.slice(1)} due in ${due}`));
+      }
+    }
+  }
+  return plan;
+};
+
+// Calendar date (YYYY-MM-DD) and hour of a moment in a time zone
+export const localTime = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', hourCycle: 'h23',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) };
+};
+
+// The digest is sent once per local day, on the first run after the preferred hour
+export const isDigestDue = (preferences: ReminderPreferences, now: Date, lastDigestAt?: Date | null) => {
+  if (!preferences.dailyDigest) return false;
+  const local = localTime(now, preferences.timezone);
+  if (local.hour < preferences.digestHour) return false;
+  return !lastDigestAt || localTime(lastDigestAt, preferences.timezone).date !== local.date;
+};
+
+export const digestWindowEnd = (now: Date) => new Date(now.getTime() + DIGEST_WINDOW_MS);
+
+// Summary of a user's overdue activities and those due within a day; nothing is sent without any
+export const buildDigest = (userId: number, organizationId: number, pending: Activity[], now: Date): InsertNotification | undefined => {
+  const dated = pending
+    .filter(activity => activity.status === 'pending' && activity.dueDate && activity.dueDate <= digestWindowEnd(now))
+    .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime());
+  if (dated.length === 0) return undefined;
+
+  const overdue = dated.filter(activity => activity.dueDate! <= now).length;
+  const summary = [
+    overdue > 0 ? `${overdue} overdue` : undefined,
+    dated.length > overdue ? `${dated.length - overdue} due in the next 24 hours` : undefined,
+  ].filter(Boolean).join(', ');
+  const listed = dated.slice(0, DIGEST_LISTED_ACTIVITIES).map(activity => `- ${activity.subject}`);
+  if (dated.length > DIGEST_LISTED_ACTIVITIES) {
+    listed.push(`and ${dated.length - DIGEST_LISTED_ACTIVITIES} more`);
+  }
+  return {
+    userId,
+    type: 'activity_digest',
+    title: `Your activities: ${summary}`,
+    body: listed.join('\n'),
+    entityType: null,
+    entityId: null,
+    organizationId,
+  };
+};
@@ -1,9 +1,10 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type CustomerListFilters } from "./storage";
 import commercialRoutes from "./commercial-routes";
-import { insertCustomerSchema, insertSalesDataSchema } from "@shared/schema";
-import { validateRequestBody, validateRequestParams } from "./middleware/validation";
+import { attachNotificationSocket } from "./notification-socket";
+import { insertCustomerSchema, insertSalesDataSchema, listQuerySchema } from "@shared/schema";
+import { validateRequestBody, validateRequestParams, validateRequestQuery } from "./middleware/validation";
 import { asyncHandler, CustomError } from "./middleware/errorHandler";
 import { apiLimiter } from "./middleware/rateLimiter";
 import { z } from "zod";
@@ -31,6 +32,12 @@ const idParamSchema = z.object({
   id: z.string().regex(/^\d+$/).transform(Number)
 });
 
+const customerListQuerySchema = listQuerySchema(['createdAt', 'name', 'value', 'lastContact']).extend({
+  status: z.string().transform(value => value.split(',')).optional(),
+  valueMin: z.coerce.number().optional(),
+  valueMax: z.coerce.number().optional(),
+});
+
 const updateBusinessMetrics = async () => {
   const customers = await storage.getCustomers();
   const salesData = await storage.getSalesData();
@@ -67,15 +74,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   // Customer routes
-  app.get("/api/customers", asyncHandler(async (req, res) => {
-    const end = requestDuration.startTimer({ method: 'GET', route: '/api/customers' });
-    
-    const customers = await storage.getCustomers();
-    await updateBusinessMetrics();
-    
-    end({ status_code: '200' });
-    res.json(customers);
-  }));
+  app.get("/api/customers",
+    validateRequestQuery(customerListQuerySchema),
+    asyncHandler(async (req, res) => {
+      const end = requestDuration.startTimer({ method: 'GET', route: '/api/customers' });
+      
+      const customers = await storage.listCustomers(req.query as unknown as CustomerListFilters);
+      await updateBusinessMetrics();
+      
+      end({ status_code: '200' });
+      res.json(customers);
+    })
+  );
 
   app.get("/api/customers/:id", 
     validateRequestParams(idParamSchema),
@@ -152,6 +162,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/commercial", commercialRoutes);
 
   const httpServer = createServer(app);
+  // Real-time notifications share the app's server
+  attachNotificationSocket(httpServer);
 
   return httpServer;
 }
@@ -0,0 +1,66 @@
+import { salesData, type ForecastPeriodType, type SalesData, type SalesDataRollup } from "@shared/schema";
+import { periodOf } from "./forecasting";
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The month a date falls in (UTC), with the labels kept for clients that chart by month name
+export const salesDataBucket = (date: Date) => {
+  const { start } = periodOf(date, 'month');
+  return { periodStart: start, month: MONTH_LABELS[start.getUTCMonth()], year: start.getUTCFullYear() };
+};
+
+// A deal as sales data needs it; `won` tells whether its stage is a won stage of its pipeline
+export interface SalesDataDeal {
+  id: number;
+  value: string;
+  actualCloseDate: Date | null;
+  assignedTo: number | null;
+  organizationId: number;
+  won: boolean;
+}
+
+// Won deals count once, in the month they closed; other deals have no sales data
+export const dealSalesData = (deal: SalesDataDeal): typeof salesData.$inferInsert | undefined => {
+  if (!deal.won || !deal.actualCloseDate) return undefined;
+  return {
+    ...salesDataBucket(deal.actualCloseDate),
+    source: 'deal',
+    revenue: deal.value,
+    deals: 1,
+    dealId: deal.id,
+    assignedTo: deal.assignedTo,
+    organizationId: deal.organizationId,
+  };
+};
+
+export type SalesDataTotals = Pick<SalesData, 'periodStart' | 'source' | 'revenue' | 'deals' | 'newCustomers'>;
+
+// Sums monthly totals into months or quarters, oldest first; periods without sales data are left out
+export const rollUpSalesData = (rows: SalesDataTotals[], period: ForecastPeriodType): SalesDataRollup[] => {
+  const rollups = new Map<string, SalesDataRollup>();
+  for (const row of rows) {
+    const bounds = periodOf(row.periodStart, period);
+    const rollup = rollups.get(bounds.key) ?? {
+      key: bounds.key,
+      start: bounds.start.toISOString(),
+      end: bounds.end.toISOString(),
+      revenue: 0,
+      deals: 0,
+      newCustomers: 0,
+      adjustments: 0,
+    };
+    const revenue = Number(row.revenue);
+    rollup.revenue += revenue;
+    rollup.deals += row.deals;
+    rollup.newCustomers += row.newCustomers ?? 0;
+    if (row.source === 'adjustment') rollup.adjustments += revenue;
+    rollups.set(bounds.key, rollup);
+  }
+  return Array.from(rollups.values())
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map(rollup => ({
+      ...rollup,
+      revenue: Math.round(rollup.revenue * 100) / 100,
+      adjustments: Math.round(rollup.adjustments * 100) / 100,
+    }));
+};
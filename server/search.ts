@@ -0,0 +1,59 @@
+import type { SearchEntityType, SearchResult, SearchResultGroup } from "@shared/schema";
+
+// Longer queries add little and make the tsquery expensive
+const MAX_TERMS = 8;
+
+// Runs of letters and digits, the words the 'simple' text search parser indexes
+const words = (text: string) => Array.from(text.matchAll(new RegExp('[\\p{L}\\p{N}]+', 'gu')));
+
+export const searchTerms = (query: string): string[] =>
+  Array.from(new Set(words(query.toLowerCase()).map(word => word[0]))).slice(0, MAX_TERMS);
+
+// Every word must match the start of an indexed word, so results narrow while typing:
+// "acme co" becomes "acme:* & co:*". Terms only contain letters and digits, so the
+// result is always valid tsquery syntax.
+export const toPrefixQuery = (query: string): string | null => {
+  const terms = searchTerms(query);
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+};
+
+// Character ranges of words in text that start with one of the terms
+export const findMatches = (text: string | null, terms: string[]): [number, number][] => {
+  if (!text) return [];
+  const ranges: [number, number][] = [];
+  for (const word of words(text)) {
+    const lower = word[0].toLowerCase();
+    const term = terms.filter(candidate => lower.startsWith(candidate)).sort((a, b) => b.length - a.length)[0];
+    if (term) {
+      ranges.push([word.index!, word.index! + term.length]);
+    }
+  }
+  return ranges;
+};
+
+export interface RankedRow {
+  id: number;
+  title: string;
+  subtitle: string | null;
+  rank: number;
+  total: number;
+}
+
+export const toResultGroup = (entityType: SearchEntityType, rows: RankedRow[], terms: string[]): SearchResultGroup => ({
+  entityType,
+  total: rows[0]?.total ?? 0,
+  results: rows.map((row): SearchResult => ({
+    id: row.id,
+    entityType,
+    title: row.title,
+    subtitle: row.subtitle,
+    rank: row.rank,
+    highlights: { title: findMatches(row.title, terms), subtitle: findMatches(row.subtitle, terms) },
+  })),
+});
+
+// Drops empty groups and puts the group holding the best match first
+export const orderGroups = (groups: SearchResultGroup[]): SearchResultGroup[] =>
+  groups
+    .filter(group => group.results.length > 0)
+    .sort((a, b) => b.results[0].rank - a.results[0].rank);
@@ -0,0 +1,121 @@
+import { CustomError } from "./middleware/errorHandler";
+import { readZip } from "./zip";
+
+// A parsed sheet: the first non-empty row is the header
+export interface Sheet {
+  headers: string[];
+  rows: { row: number; cells: string[] }[]; // 1-based row number in the file, for error messages
+}
+
+// RFC 4180 CSV: quoted fields may contain delimiters, quotes ("") and line breaks.
+// The delimiter (comma, semicolon or tab) is whichever appears most in the first line.
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+// Text of every <t> run inside an element, e.g. a shared or inline rich text string
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+
+const columnIndex = (reference: string) =>
+  reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Reads the first worksheet; dates come through as the serial numbers Excel stores
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  const entries = readZip(buffer);
+  const read = (name: string) => entries.get(name)?.toString('utf8');
+
+  const workbook = read('xl/workbook.xml') ?? '';
+  const relations = read('xl/_rels/workbook.xml.rels') ?? '';
+  const firstSheetId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = firstSheetId && relations.match(new RegExp(`<Relationship\\b[^>]*Id="${firstSheetId}"[^>]*Target="([^"]+)"`))?.[1];
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+  const sheet = read(sheetPath);
+  if (!sheet) throw new CustomError("The workbook has no worksheet", 400);
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g), match => textRuns(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cell[1];
+      const body = cell[2] ?? '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textRuns(body);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXml(value);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Parses an uploaded .csv or .xlsx file, trimming cells and dropping blank rows
+export const readSheet = (fileName: string, content: Buffer): Sheet => {
+  const rows = (/\.xlsx$/i.test(fileName) ? parseXlsx(content) : parseCsv(content.toString('utf8')))
+    .map((cells, index) => ({ row: index + 1, cells: cells.map(cell => cell.trim()) }))
+    .filter(({ cells }) => cells.some(cell => cell !== ''));
+  if (rows.length === 0) throw new CustomError("The file is empty", 400);
+  const [header, ...dataRows] = rows;
+  return { headers: header.cells, rows: dataRows };
+};
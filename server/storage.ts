@@ -1,4 +1,11 @@
-import { users, customers, salesData, type User, type InsertUser, type Customer, type InsertCustomer, type SalesData, type InsertSalesData } from "@shared/schema";
+import { users, customers, salesData, type User, type InsertUser, type Customer, type InsertCustomer, type SalesData, type InsertSalesData, type ListQuery, type Page } from "@shared/schema";
+import { paginateRecords } from "./list-query";
+
+export type CustomerListFilters = ListQuery & {
+  status?: string[];
+  valueMin?: number;
+  valueMax?: number;
+};
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -6,6 +13,7 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   
   getCustomers(): Promise<Customer[]>;
+  listCustomers(query: CustomerListFilters): Promise<Page<Customer>>;
   getCustomer(id: number): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
@@ -101,6 +109,15 @@ export class MemStorage implements IStorage {
     return Array.from(this.customers.values());
   }
 
+  async listCustomers(query: CustomerListFilters): Promise<Page<Customer>> {
+    const matching = Array.from(this.customers.values()).filter(customer =>
+      (!query.status || query.status.includes(customer.status)) &&
+      (query.valueMin === undefined || parseFloat(customer.value) >= query.valueMin) &&
+      (query.valueMax === undefined || parseFloat(customer.value) <= query.valueMax)
+    );
+    return paginateRecords(matching, query);
+  }
+
   async getCustomer(id: number): Promise<Customer | undefined> {
     return this.customers.get(id);
   }
@@ -124,9 +141,11 @@ export class MemStorage implements IStorage {
     const customer = this.customers.get(id);
     if (!customer) return undefined;
     
+    // Custom fields are only validated and stored by the database storage
+    const { customFields, ...fields } = updateData;
     const updatedCustomer: Customer = {
       ...customer,
-      ...updateData,
+      ...fields,
       lastContact: new Date()
     };
     this.customers.set(id, updatedCustomer);
@@ -0,0 +1,22 @@
+import { commercialStorage } from "./commercial-storage";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Purges the trash of every organization once an hour until stopped; a run that is still going is
+// never overlapped. Failures are logged and retried on the next tick.
+export const startTrashPurger = (intervalMs = PURGE_INTERVAL_MS) => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await commercialStorage.purgeExpiredTrash(new Date());
+    } catch (error) {
+      console.error("Trash purge failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+};
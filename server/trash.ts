@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Per-organization trash settings, stored under organizations.settings.trash
+export const trashSettingsSchema = z.object({
+  // Days a deleted lead, customer, deal or activity can be restored before it is purged
+  retentionDays: z.number().int().min(1).max(365).default(30),
+});
+
+export type TrashSettings = z.infer<typeof trashSettingsSchema>;
+
+export const DEFAULT_TRASH_SETTINGS: TrashSettings = trashSettingsSchema.parse({});
+
+export const getTrashSettings = (settings: unknown): TrashSettings => {
+  const stored = (settings as { trash?: unknown } | null)?.trash;
+  const parsed = trashSettingsSchema.safeParse(stored ?? {});
+  return parsed.success ? parsed.data : DEFAULT_TRASH_SETTINGS;
+};
+
+// Records deleted before this moment have outlived the retention period
+export const purgeCutoff = (settings: unknown, now = new Date()) =>
+  new Date(now.getTime() - getTrashSettings(settings).retentionDays * DAY_MS);
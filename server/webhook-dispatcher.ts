@@ -0,0 +1,39 @@
+import { commercialStorage, type DueWebhookDelivery } from "./commercial-storage";
+import { sendWebhook, type WebhookPayload } from "./webhooks";
+
+const DISPATCH_INTERVAL_MS = 5 * 1000;
+const DISPATCH_BATCH_SIZE = 20;
+
+// Sends one delivery and logs the outcome; failures are rescheduled unless `retry` is off
+export const deliverWebhook = async ({ delivery, subscription }: DueWebhookDelivery, retry = true) => {
+  const attemptedAt = new Date();
+  const attempt = await sendWebhook(subscription.url, subscription.secret, delivery.id, delivery.payload as WebhookPayload, attemptedAt);
+  return await commercialStorage.recordWebhookAttempt(delivery.id, attempt, attemptedAt, retry);
+};
+
+// Sends the deliveries that are due, one at a time so a slow receiver cannot flood the process
+export const runWebhookDeliveries = async (now = new Date()) => {
+  const due = await commercialStorage.claimDueWebhookDeliveries(now, DISPATCH_BATCH_SIZE);
+  for (const item of due) {
+    await deliverWebhook(item);
+  }
+  return due.length;
+};
+
+// Polls for due deliveries until stopped; a run that is still going is never overlapped
+export const startWebhookDispatcher = (intervalMs = DISPATCH_INTERVAL_MS) => {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runWebhookDeliveries();
+    } catch (error) {
+      console.error("Webhook deliveries failed:", error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,199 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup, type LookupAddress, type LookupOptions } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP } from "net";
+import type { WebhookEvent } from "@shared/schema";
+import { CustomError } from "./middleware/errorHandler";
+
+// Attempts per delivery, including the first; the delays in between double from a minute
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const FIRST_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+// The body every subscriber receives; `id` identifies the event across retries and replays
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | string;
+  createdAt: string;
+  organizationId: number;
+  data: unknown;
+}
+
+export const buildPayload = (event: WebhookEvent, organizationId: number, data: unknown, now = new Date()): WebhookPayload => ({
+  id: randomUUID(),
+  event,
+  createdAt: now.toISOString(),
+  organizationId,
+  // Round-trip through JSON so the stored payload matches what is sent (e.g. dates as strings)
+  data: JSON.parse(JSON.stringify(data)),
+});
+
+// Signs "<timestamp>.<body>" so a captured request cannot be replayed with a new timestamp.
+// Receivers recompute it with their secret and compare in constant time.
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  `t=${timestamp},v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// Delay before the next attempt after `attempts` failed ones, or undefined when none are left
+export const nextRetryDelay = (attempts: number): number | undefined => {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) return undefined;
+  return Math.min(FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+};
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges; webhooks
+// may only reach the public internet unless WEBHOOK_ALLOW_PRIVATE_NETWORKS=true (e.g. on premises).
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+const allowsPrivateNetworks = () => process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true';
+
+export const isPrivateAddress = (address: string) => {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const PRIVATE_TARGET_ERROR = "Webhook URLs must not point at private, loopback or link-local addresses";
+
+const urlHost = (url: string) => new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+
+// Checked when a subscription is saved. Sends check the addresses again as they connect, so a
+// host that resolves elsewhere later (DNS rebinding) is still refused.
+export const assertWebhookTarget = async (url: string) => {
+  if (allowsPrivateNetworks()) return;
+  const host = urlHost(url);
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await new Promise((resolve, reject) =>
+      lookup(host, { all: true }, (error, found) => error ? reject(error) : resolve(found)));
+  } catch {
+    throw new CustomError("Webhook URL host could not be resolved", 400);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new CustomError(PRIVATE_TARGET_ERROR, 400);
+  }
+};
+
+// DNS lookup for outgoing requests that fails when any address of the host is private
+const publicLookup = (
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(PRIVATE_TARGET_ERROR), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+export interface WebhookAttempt {
+  ok: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+}
+
+// Posts the payload once. Any 2xx response counts as delivered; redirects are not followed.
+export const sendWebhook = async (
+  url: string,
+  secret: string,
+  deliveryId: number,
+  payload: WebhookPayload,
+  now = new Date()
+): Promise<WebhookAttempt> => {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const signal = AbortSignal.timeout(WEBHOOK_TIMEOUT_MS);
+  try {
+    const target = new URL(url);
+    const host = urlHost(url);
+    const guarded = !allowsPrivateNetworks();
+    // Addresses in the URL itself are connected to without a lookup
+    if (guarded && isIP(host) && isPrivateAddress(host)) {
+      throw new Error(PRIVATE_TARGET_ERROR);
+    }
+    const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+    const { status, text } = await new Promise<{ status: number; text: string }>((resolve, reject) => {
+      const request = send(target, {
+        method: "POST",
+        signal,
+        lookup: guarded ? publicLookup : undefined,
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+          "User-Agent": "CRM-Webhooks/1.0",
+          "X-Webhook-Event": payload.event,
+          "X-Webhook-Delivery": String(deliveryId),
+          [SIGNATURE_HEADER]: signPayload(secret, timestamp, body),
+        },
+      }, (response) => {
+        let text = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk: string) => {
+          if (text.length < MAX_RESPONSE_BODY_LENGTH) text += chunk;
+        });
+        response.on("end", () => resolve({ status: response.statusCode ?? 0, text }));
+        response.on("error", reject);
+      });
+      request.on("error", reject);
+      request.end(body);
+    });
+    return {
+      ok: status >= 200 && status < 300,
+      responseStatus: status,
+      responseBody: text.slice(0, MAX_RESPONSE_BODY_LENGTH) || null,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: signal.aborted ? `No response within ${WEBHOOK_TIMEOUT_MS / 1000} seconds` : error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+// Example data for test deliveries, shaped like the real events
+export const SAMPLE_WEBHOOK_DATA: Record<WebhookEvent, unknown> = {
+  "lead.created": {
+    lead: { id: 0, firstName: "Jane", lastName: "Doe", email: "jane@example.com", company: "Example Inc", status: "new", source: "website" },
+  },
+  "lead.converted": {
+    lead: { id: 0, firstName: "Jane", lastName: "Doe", status: "converted" },
+    customer: { id: 0, firstName: "Jane", lastName: "Doe", email: "jane@example.com", convertedFromLead: 0 },
+    deal: null,
+  },
+  "deal.stage_changed": {
+    deal: { id: 0, title: "Example deal", value: "5000.00", stage: "proposal" },
+    fromStage: "qualification",
+    toStage: "proposal",
+  },
+  "deal.won": {
+    deal: { id: 0, title: "Example deal", value: "5000.00", stage: "closed_won" },
+  },
+  "customer.updated": {
+    customer: { id: 0, firstName: "Jane", lastName: "Doe", email: "jane@example.com", status: "active" },
+  },
+};
@@ -0,0 +1,157 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import { createDeflateRaw, inflateRawSync } from "zlib";
+import { CustomError } from "./middleware/errorHandler";
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+
+// Reads every entry of a ZIP package (e.g. an .xlsx workbook) through its central directory
+export const readZip = (buffer: Buffer): Map<string, Buffer> => {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new CustomError("The file is not a valid .xlsx workbook", 400);
+
+  const entries = new Map<string, Buffer>();
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let count = buffer.readUInt16LE(end + 10); count > 0; count--) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER) break;
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    if (method === 8) entries.set(name, inflateRawSync(data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+// Writes with backpressure; fails instead of waiting forever once the client has gone away
+export const writeChunk = async (output: Writable, chunk: string | Buffer): Promise<void> => {
+  if (output.destroyed) throw new Error("The download was closed");
+  if (output.write(chunk)) return;
+  await new Promise<void>(resolve => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (data: Buffer, previous = 0): number => {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface WrittenEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// Streams a ZIP archive: each entry is deflated as its content arrives and sizes follow in a
+// data descriptor, so nothing is buffered. Entries and the archive are limited to 4 GB (no ZIP64).
+export class ZipWriter {
+  private entries: WrittenEntry[] = [];
+  private offset = 0;
+
+  constructor(private output: Writable) {}
+
+  async addFile(fileName: string, content: string | AsyncIterable<string | Buffer>): Promise<void> {
+    const name = Buffer.from(fileName);
+    const entry: WrittenEntry = { name, crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(20, 4); // version needed to extract
+    header.writeUInt16LE(0x0808, 6); // sizes in data descriptor, UTF-8 names
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(name.length, 26);
+    await this.write(Buffer.concat([header, name]));
+
+    const deflate = createDeflateRaw();
+    const compressed = (async () => {
+      for await (const chunk of deflate) {
+        entry.compressedSize += chunk.length;
+        await this.write(chunk);
+      }
+    })();
+    // A failed write (e.g. the client went away) stops the input loop below as well
+    compressed.catch(error => deflate.destroy(error));
+    for await (const chunk of typeof content === 'string' ? [content] : content) {
+      if (deflate.destroyed) break;
+      const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+      if (!deflate.write(data)) await once(deflate, 'drain');
+    }
+    deflate.end();
+    await compressed;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+    this.entries.push(entry);
+  }
+
+  // Writes the central directory; the output is left open for the caller to end
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+  }
+
+  private async write(data: Buffer) {
+    this.offset += data.length;
+    await writeChunk(this.output, data);
+  }
+}
@@ -1,6 +1,6 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, uniqueIndex, index, type PgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql, type SQL } from "drizzle-orm";
 import { z } from "zod";
 
 // Organizations for multi-tenancy
@@ -27,11 +27,24 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("user"), // admin, manager, sales_rep, user
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  settings: jsonb("settings").default({}), // personal preferences, e.g. reminders
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Full-text search documents. The GIN indexes and the search queries must use the same
+// expression for Postgres to use the index; emails are split into words so "acme" finds jane@acme.com
+export const searchVector = (...parts: (PgColumn | SQL)[]) =>
+  sql`to_tsvector('simple', ${sql.join(parts.map(part => sql`coalesce(${part}, '')`), sql` || ' ' || `)})`;
+
+export const contactSearchVector = (table: { firstName: PgColumn; lastName: PgColumn; email: PgColumn; company: PgColumn }) =>
+  searchVector(table.firstName, table.lastName, sql`translate(${table.email}, '@.', '  ')`, table.company);
+
+// Values of an organization's custom fields, keyed by field key (see customFieldDefinitions)
+export type CustomFieldValue = string | number | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
 // Leads (prospects before conversion)
 export const leads = pgTable("leads", {
   id: serial("id").primaryKey(),
@@ -41,14 +54,36 @@ export const leads = pgTable("leads", {
   phone: text("phone"),
   company: text("company"),
   jobTitle: text("job_title"),
+  country: text("country"),
   source: text("source"), // website, referral, advertisement
   status: text("status").notNull().default("new"), // new, contacted, qualified, converted, lost
-  score: integer("score").default(0),
+  score: integer("score").default(0), // computed by the lead scoring engine
+  scoreBreakdown: jsonb("score_breakdown").default([]), // points awarded per rule
+  scoredAt: timestamp("scored_at"),
   notes: text("notes"),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
   assignedTo: integer("assigned_to").references(() => users.id),
+  createdBy: integer("created_by").references(() => users.id), // null for web form submissions
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  deletedAt: timestamp("deleted_at"), // in the trash until restored or purged
+  deletedBy: integer("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("leads_search_idx").using("gin", contactSearchVector(table)),
+]);
+
+// Every automatic routing decision, kept for auditing
+export const leadAssignments = pgTable("lead_assignments", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").references(() => leads.id).notNull(),
+  assignedTo: integer("assigned_to").references(() => users.id).notNull(),
+  previousAssignee: integer("previous_assignee").references(() => users.id),
+  method: text("method").notNull(), // round_robin, least_loaded, rule
+  reason: text("reason").notNull(),
+  assignedBy: integer("assigned_by").references(() => users.id), // null when routed on creation
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Enhanced customers
@@ -56,18 +91,65 @@ export const customers = pgTable("customers", {
   id: serial("id").primaryKey(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
-  email: text("email").notNull().unique(),
+  email: text("email").notNull(), // unique per organization, case-insensitively
   phone: text("phone"),
   company: text("company"),
   jobTitle: text("job_title"),
   status: text("status").notNull().default("prospect"),
   value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"),
   lastContact: timestamp("last_contact").defaultNow(),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
   assignedTo: integer("assigned_to").references(() => users.id),
+  createdBy: integer("created_by").references(() => users.id),
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   convertedFromLead: integer("converted_from_lead").references(() => leads.id),
+  deletedAt: timestamp("deleted_at"), // in the trash until restored or purged
+  deletedBy: integer("deleted_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Customers in the trash do not hold on to their email
+  uniqueIndex("customers_organization_email_idx").on(table.organizationId, sql`lower(${table.email})`).where(sql`${table.deletedAt} is null`),
+  index("customers_search_idx").using("gin", contactSearchVector(table)),
+]);
+
+// Sales pipelines (e.g. new business, renewals) and their ordered stages
+export const pipelines = pgTable("pipelines", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One default pipeline per organization
+  uniqueIndex("pipelines_organization_default_idx").on(table.organizationId).where(sql`${table.isDefault}`),
+]);
+
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  pipelineId: integer("pipeline_id").references(() => pipelines.id).notNull(),
+  key: text("key").notNull(), // stored in deals.stage, unique within the pipeline
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  probability: integer("probability").notNull().default(0), // default deal probability for the stage
+  isWon: boolean("is_won").notNull().default(false),
+  isLost: boolean("is_lost").notNull().default(false),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+});
+
+// Audit trail of merged duplicates; the merged record is kept as a snapshot
+export const recordMerges = pgTable("record_merges", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // customer
+  survivorId: integer("survivor_id").notNull(),
+  mergedId: integer("merged_id").notNull(),
+  mergedRecord: jsonb("merged_record").notNull(),
+  dealsMoved: integer("deals_moved").notNull().default(0),
+  activitiesMoved: integer("activities_moved").notNull().default(0),
+  mergedBy: integer("merged_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Deals/Opportunities
@@ -76,15 +158,44 @@ export const deals = pgTable("deals", {
   title: text("title").notNull(),
   description: text("description"),
   value: decimal("value", { precision: 10, scale: 2 }).notNull(),
-  stage: text("stage").notNull().default("prospecting"), // prospecting, qualification, proposal, negotiation, closed_won, closed_lost
+  pipelineId: integer("pipeline_id").references(() => pipelines.id),
+  stage: text("stage").notNull().default("prospecting"), // key of a stage in the deal's pipeline
   probability: integer("probability").default(50), // 0-100
   expectedCloseDate: timestamp("expected_close_date"),
   actualCloseDate: timestamp("actual_close_date"),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
   customerId: integer("customer_id").references(() => customers.id),
   assignedTo: integer("assigned_to").references(() => users.id),
+  createdBy: integer("created_by").references(() => users.id),
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  deletedAt: timestamp("deleted_at"), // in the trash until restored or purged
+  deletedBy: integer("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("deals_search_idx").using("gin", searchVector(table.title)),
+]);
+
+// Stages of the pipeline every organization starts with
+export const DEFAULT_PIPELINE_STAGES = [
+  { key: 'prospecting', name: 'Prospecting', probability: 10, isWon: false, isLost: false },
+  { key: 'qualification', name: 'Qualification', probability: 25, isWon: false, isLost: false },
+  { key: 'proposal', name: 'Proposal', probability: 50, isWon: false, isLost: false },
+  { key: 'negotiation', name: 'Negotiation', probability: 75, isWon: false, isLost: false },
+  { key: 'closed_won', name: 'Closed Won', probability: 100, isWon: true, isLost: false },
+  { key: 'closed_lost', name: 'Closed Lost', probability: 0, isWon: false, isLost: true },
+];
+
+// Every stage transition of a deal, including the stage it was created in
+export const dealStageHistory = pgTable("deal_stage_history", {
+  id: serial("id").primaryKey(),
+  dealId: integer("deal_id").references(() => deals.id).notNull(),
+  fromStage: text("from_stage"), // null for the initial stage
+  toStage: text("to_stage").notNull(),
+  reason: text("reason"),
+  changedBy: integer("changed_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
 });
 
 // Activities (calls, emails, meetings, tasks)
@@ -96,30 +207,259 @@ export const activities = pgTable("activities", {
   status: text("status").notNull().default("pending"), // pending, completed, cancelled
   dueDate: timestamp("due_date"),
   completedAt: timestamp("completed_at"),
+  reminderSentAt: timestamp("reminder_sent_at"), // upcoming reminder sent; cleared when the due date moves
+  overdueNotifiedAt: timestamp("overdue_notified_at"),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(), // completing an occurrence creates the next one
+  seriesId: integer("series_id"), // first activity of a recurring series; null for the first itself
+  occurrence: integer("occurrence").notNull().default(1), // position in the recurring series
+  enrollmentId: integer("enrollment_id").references(() => sequenceEnrollments.id), // sequence step this activity came from
   customerId: integer("customer_id").references(() => customers.id),
   leadId: integer("lead_id").references(() => leads.id),
   dealId: integer("deal_id").references(() => deals.id),
   assignedTo: integer("assigned_to").references(() => users.id),
   createdBy: integer("created_by").references(() => users.id).notNull(),
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  deletedAt: timestamp("deleted_at"), // in the trash until restored or purged
+  deletedBy: integer("deleted_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("activities_search_idx").using("gin", searchVector(table.subject)),
+]);
+
+// Named follow-up cadences; enrolling a lead or deal creates one activity per step
+export const sequences = pgTable("sequences", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true), // inactive sequences take no new enrollments
+  createdBy: integer("created_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Enhanced sales data
+export const sequenceSteps = pgTable("sequence_steps", {
+  id: serial("id").primaryKey(),
+  sequenceId: integer("sequence_id").references(() => sequences.id).notNull(),
+  position: integer("position").notNull(),
+  dayOffset: integer("day_offset").notNull().default(0), // days after enrollment the activity is due
+  type: text("type").notNull(), // activity type
+  subject: text("subject").notNull(),
+  description: text("description"),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+});
+
+// A lead or deal going through a sequence; stopped automatically when the lead converts or the deal closes
+export const sequenceEnrollments = pgTable("sequence_enrollments", {
+  id: serial("id").primaryKey(),
+  sequenceId: integer("sequence_id").references(() => sequences.id).notNull(),
+  leadId: integer("lead_id").references(() => leads.id),
+  dealId: integer("deal_id").references(() => deals.id),
+  status: text("status").notNull().default("active"), // active, completed, stopped
+  stopReason: text("stop_reason"), // lead_converted, deal_closed, record_deleted, manual
+  assignedTo: integer("assigned_to").references(() => users.id), // owner of the created activities
+  enrolledBy: integer("enrolled_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  enrolledAt: timestamp("enrolled_at").defaultNow(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Enhanced sales data: one row per won deal, kept in step with the deal, plus manual adjustments
 export const salesData = pgTable("sales_data", {
   id: serial("id").primaryKey(),
-  month: text("month").notNull(),
+  month: text("month").notNull(), // label of periodStart, e.g. "Jan"
   year: integer("year").notNull(),
+  periodStart: timestamp("period_start").notNull(), // first day of the month (UTC)
+  source: text("source").notNull().default("deal"), // SALES_DATA_SOURCES
   revenue: decimal("revenue", { precision: 10, scale: 2 }).notNull().default("0"),
   deals: integer("deals").notNull().default(0),
   newCustomers: integer("new_customers").default(0),
   dealId: integer("deal_id").references(() => deals.id),
   assignedTo: integer("assigned_to").references(() => users.id),
+  note: text("note"), // why an adjustment was made
+  createdBy: integer("created_by").references(() => users.id), // null for rows derived from deals
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("sales_data_organization_period_idx").on(table.organizationId, table.periodStart),
+  uniqueIndex("sales_data_deal_idx").on(table.dealId).where(sql`${table.source} = 'deal'`),
+]);
+
+// Refresh tokens for session rotation (only the SHA-256 hash is stored)
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  familyId: text("family_id").notNull(), // shared by every token issued from the same login
+  userId: integer("user_id").references(() => users.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  replacedBy: integer("replaced_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Spreadsheet imports of leads or customers, processed in the background
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // leads, customers
+  fileName: text("file_name").notNull(),
+  status: text("status").notNull().default("pending"), // pending, running, completed, failed
+  duplicateStrategy: text("duplicate_strategy").notNull().default("skip"), // skip, update
+  mapping: jsonb("mapping").notNull(), // column header -> field
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  errors: jsonb("errors").default([]), // first failed rows with their messages
+  failureReason: text("failure_reason"),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
 });
 
+// Organization-defined fields on leads, customers and deals; values live in each record's custom_fields
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // lead, customer, deal
+  key: text("key").notNull(), // key in custom_fields, unique per entity type
+  label: text("label").notNull(),
+  type: text("type").notNull(), // text, number, date, picklist, multiselect, currency
+  options: jsonb("options").$type<string[]>().notNull().default([]), // choices of picklist and multiselect fields
+  currency: text("currency"), // ISO 4217 code of currency fields
+  required: boolean("required").notNull().default(false),
+  position: integer("position").notNull().default(0),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("custom_field_definitions_key_idx").on(table.organizationId, table.entityType, table.key),
+]);
+
+// In-app notifications addressed to one user
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(), // one of NOTIFICATION_TYPES
+  title: text("title").notNull(),
+  body: text("body"),
+  entityType: text("entity_type"), // activity, lead, deal
+  entityId: integer("entity_id"),
+  readAt: timestamp("read_at"),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+]);
+
+// Outbound webhook subscriptions; payloads are signed with the secret (HMAC-SHA256)
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  url: text("url").notNull(),
+  events: jsonb("events").$type<string[]>().notNull(), // WEBHOOK_EVENTS
+  secret: text("secret").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One event sent to one subscription, retried until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => webhookSubscriptions.id).notNull(),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(), // the signed request body
+  status: text("status").notNull().default("pending"), // pending, succeeded, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  responseBody: text("response_body"), // truncated
+  error: text("error"), // network errors and timeouts
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  replayOf: integer("replay_of"), // the delivery this one re-sends
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  index("webhook_deliveries_subscription_idx").on(table.subscriptionId, table.createdAt),
+]);
+
+// Append-only record of every change to CRM data: who changed which fields of what, and when
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // AUDIT_ENTITY_TYPES
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete
+  changes: jsonb("changes").$type<AuditChanges>().notNull(), // field -> { from, to }
+  actorId: integer("actor_id").references(() => users.id), // null for changes made by the system
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_logs_organization_idx").on(table.organizationId, table.createdAt),
+  index("audit_logs_entity_idx").on(table.organizationId, table.entityType, table.entityId),
+]);
+
+// Embeddable web-to-lead forms; submissions are posted anonymously with the public key
+export const leadForms = pgTable("lead_forms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  publicKey: text("public_key").notNull(),
+  allowedOrigins: jsonb("allowed_origins").$type<string[]>().notNull(), // e.g. https://www.example.com, or *
+  fieldMapping: jsonb("field_mapping").$type<Record<string, string>>().notNull(), // form field -> lead field
+  source: text("source").notNull().default("website"), // source of the leads created
+  assignedTo: integer("assigned_to").references(() => users.id), // otherwise leads are routed
+  honeypotField: text("honeypot_field").notNull().default("website_url"), // hidden field only bots fill in
+  mergeDuplicates: boolean("merge_duplicates").notNull().default(false), // into an open lead with the same email
+  redirectUrl: text("redirect_url"), // where plain HTML form posts are sent afterwards
+  isActive: boolean("is_active").notNull().default(true),
+  submissionCount: integer("submission_count").notNull().default(0),
+  spamCount: integer("spam_count").notNull().default(0),
+  lastSubmissionAt: timestamp("last_submission_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("lead_forms_public_key_idx").on(table.publicKey),
+]);
+
+// A forecast as it stood when it was saved, so managers can see how it moves from week to week
+export const forecastSnapshots = pgTable("forecast_snapshots", {
+  id: serial("id").primaryKey(),
+  name: text("name"),
+  period: text("period").notNull(), // month, quarter
+  assignedTo: integer("assigned_to").references(() => users.id), // the rep the forecast is limited to, if any
+  pipelineId: integer("pipeline_id"), // the pipeline it is limited to, if any; kept when the pipeline is deleted
+  forecast: jsonb("forecast").$type<Forecast>().notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("forecast_snapshots_organization_idx").on(table.organizationId, table.period, table.createdAt),
+]);
+
+// Revenue targets of a rep, or of the whole team when userId is null, per month or quarter
+export const quotas = pgTable("quotas", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  period: text("period").notNull(), // month, quarter
+  periodStart: timestamp("period_start").notNull(), // first day of the month or quarter (UTC)
+  target: decimal("target", { precision: 12, scale: 2 }).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("quotas_period_idx").on(table.organizationId, table.period, table.periodStart, sql`coalesce(${table.userId}, 0)`),
+]);
+
 // Relations
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   users: many(users),
@@ -128,6 +468,18 @@ export const organizationsRelations = relations(organizations, ({ many }) => ({
   deals: many(deals),
   activities: many(activities),
   salesData: many(salesData),
+  pipelines: many(pipelines),
+}));
+
+export const dealStageHistoryRelations = relations(dealStageHistory, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealStageHistory.dealId],
+    references: [deals.id],
+  }),
+  changedBy: one(users, {
+    fields: [dealStageHistory.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -141,6 +493,8 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   assignedActivities: many(activities),
   createdActivities: many(activities),
   salesData: many(salesData),
+  refreshTokens: many(refreshTokens),
+  notifications: many(notifications),
 }));
 
 export const leadsRelations = relations(leads, ({ one, many }) => ({
@@ -153,6 +507,36 @@ export const leadsRelations = relations(leads, ({ one, many }) => ({
     references: [users.id],
   }),
   activities: many(activities),
+  assignments: many(leadAssignments),
+}));
+
+export const importJobsRelations = relations(importJobs, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [importJobs.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(users, {
+    fields: [importJobs.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const customFieldDefinitionsRelations = relations(customFieldDefinitions, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [customFieldDefinitions.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const leadAssignmentsRelations = relations(leadAssignments, ({ one }) => ({
+  lead: one(leads, {
+    fields: [leadAssignments.leadId],
+    references: [leads.id],
+  }),
+  assignedUser: one(users, {
+    fields: [leadAssignments.assignedTo],
+    references: [users.id],
+  }),
 }));
 
 export const customersRelations = relations(customers, ({ one, many }) => ({
@@ -172,11 +556,31 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
   activities: many(activities),
 }));
 
+export const pipelinesRelations = relations(pipelines, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [pipelines.organizationId],
+    references: [organizations.id],
+  }),
+  stages: many(pipelineStages),
+  deals: many(deals),
+}));
+
+export const pipelineStagesRelations = relations(pipelineStages, ({ one }) => ({
+  pipeline: one(pipelines, {
+    fields: [pipelineStages.pipelineId],
+    references: [pipelines.id],
+  }),
+}));
+
 export const dealsRelations = relations(deals, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [deals.organizationId],
     references: [organizations.id],
   }),
+  pipeline: one(pipelines, {
+    fields: [deals.pipelineId],
+    references: [pipelines.id],
+  }),
   customer: one(customers, {
     fields: [deals.customerId],
     references: [customers.id],
@@ -187,6 +591,7 @@ export const dealsRelations = relations(deals, ({ one, many }) => ({
   }),
   activities: many(activities),
   salesData: many(salesData),
+  stageHistory: many(dealStageHistory),
 }));
 
 export const activitiesRelations = relations(activities, ({ one }) => ({
@@ -214,6 +619,42 @@ export const activitiesRelations = relations(activities, ({ one }) => ({
     fields: [activities.createdBy],
     references: [users.id],
   }),
+  enrollment: one(sequenceEnrollments, {
+    fields: [activities.enrollmentId],
+    references: [sequenceEnrollments.id],
+  }),
+}));
+
+export const sequencesRelations = relations(sequences, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [sequences.organizationId],
+    references: [organizations.id],
+  }),
+  steps: many(sequenceSteps),
+  enrollments: many(sequenceEnrollments),
+}));
+
+export const sequenceStepsRelations = relations(sequenceSteps, ({ one }) => ({
+  sequence: one(sequences, {
+    fields: [sequenceSteps.sequenceId],
+    references: [sequences.id],
+  }),
+}));
+
+export const sequenceEnrollmentsRelations = relations(sequenceEnrollments, ({ one, many }) => ({
+  sequence: one(sequences, {
+    fields: [sequenceEnrollments.sequenceId],
+    references: [sequences.id],
+  }),
+  lead: one(leads, {
+    fields: [sequenceEnrollments.leadId],
+    references: [leads.id],
+  }),
+  deal: one(deals, {
+    fields: [sequenceEnrollments.dealId],
+    references: [deals.id],
+  }),
+  activities: many(activities),
 }));
 
 export const salesDataRelations = relations(salesData, ({ one }) => ({
@@ -231,7 +672,87 @@ export const salesDataRelations = relations(salesData, ({ one }) => ({
   }),
 }));
 
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  organization: one(organizations, {
+    fields: [notifications.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [webhookSubscriptions.organizationId],
+    references: [organizations.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  subscription: one(webhookSubscriptions, {
+    fields: [webhookDeliveries.subscriptionId],
+    references: [webhookSubscriptions.id],
+  }),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [auditLogs.organizationId],
+    references: [organizations.id],
+  }),
+  actor: one(users, {
+    fields: [auditLogs.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const leadFormsRelations = relations(leadForms, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [leadForms.organizationId],
+    references: [organizations.id],
+  }),
+  assignee: one(users, {
+    fields: [leadForms.assignedTo],
+    references: [users.id],
+  }),
+}));
+
+export const quotasRelations = relations(quotas, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [quotas.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [quotas.userId],
+    references: [users.id],
+  }),
+}));
+
+export const forecastSnapshotsRelations = relations(forecastSnapshots, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [forecastSnapshots.organizationId],
+    references: [organizations.id],
+  }),
+  createdBy: one(users, {
+    fields: [forecastSnapshots.createdBy],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
+const withStageKeyFormat = (schema: z.ZodString) =>
+  schema.regex(/^[a-z0-9_]+$/, "Stage keys may only contain lowercase letters, digits and underscores");
+
 export const insertOrganizationSchema = createInsertSchema(organizations).pick({
   name: true,
   slug: true,
@@ -249,22 +770,37 @@ export const insertUserSchema = createInsertSchema(users).pick({
   organizationId: true,
 });
 
-export const insertLeadSchema = createInsertSchema(leads).pick({
+// A new organization and its first user, who becomes its admin
+export const signupSchema = z.object({
+  organization: insertOrganizationSchema,
+  user: insertUserSchema.omit({ role: true, organizationId: true }),
+});
+
+// Custom field values as sent by clients, checked against the organization's definitions by storage.
+// On update a null value clears the field.
+export const customFieldValuesSchema = z.record(z.string(), z.union([z.string(), z.number(), z.array(z.string()), z.null()]));
+
+export const insertLeadSchema = createInsertSchema(leads, {
+  customFields: customFieldValuesSchema.optional(),
+}).pick({
   firstName: true,
   lastName: true,
   email: true,
   phone: true,
   company: true,
   jobTitle: true,
+  country: true,
   source: true,
   status: true,
-  score: true,
   notes: true,
+  customFields: true,
   assignedTo: true,
   organizationId: true,
 });
 
-export const insertCustomerSchema = createInsertSchema(customers).pick({
+export const insertCustomerSchema = createInsertSchema(customers, {
+  customFields: customFieldValuesSchema.optional(),
+}).pick({
   firstName: true,
   lastName: true,
   email: true,
@@ -273,29 +809,148 @@ export const insertCustomerSchema = createInsertSchema(customers).pick({
   jobTitle: true,
   status: true,
   value: true,
+  customFields: true,
   assignedTo: true,
   organizationId: true,
   convertedFromLead: true,
 });
 
-export const insertDealSchema = createInsertSchema(deals).pick({
+// `stage` must also exist in the deal's pipeline, which storage checks once the pipeline is resolved
+export const insertDealSchema = createInsertSchema(deals, {
+  stage: withStageKeyFormat,
+  customFields: customFieldValuesSchema.optional(),
+}).pick({
   title: true,
   description: true,
   value: true,
+  pipelineId: true,
   stage: true,
   probability: true,
   expectedCloseDate: true,
+  customFields: true,
   customerId: true,
   assignedTo: true,
   organizationId: true,
 });
 
-export const insertActivitySchema = createInsertSchema(activities).pick({
+export const pipelineStageInputSchema = createInsertSchema(pipelineStages, {
+  key: withStageKeyFormat,
+  name: (schema) => schema.min(1),
+  probability: (schema) => schema.min(0).max(100),
+}).pick({
+  key: true,
+  name: true,
+  probability: true,
+  isWon: true,
+  isLost: true,
+}).refine(stage => !(stage.isWon && stage.isLost), { message: "A stage cannot be both won and lost" });
+
+// Stages are given in pipeline order; their position is derived from the array index
+const pipelineStagesSchema = z.array(pipelineStageInputSchema)
+  .min(1)
+  .refine(stages => new Set(stages.map(stage => stage.key)).size === stages.length, { message: "Stage keys must be unique" })
+  .refine(stages => stages.some(stage => !stage.isWon && !stage.isLost), { message: "A pipeline needs at least one open stage" });
+
+export const insertPipelineSchema = createInsertSchema(pipelines).pick({
+  name: true,
+  isDefault: true,
+  organizationId: true,
+}).extend({
+  stages: pipelineStagesSchema,
+});
+
+export const updatePipelineSchema = insertPipelineSchema.omit({ organizationId: true }).partial();
+
+export const CUSTOM_FIELD_ENTITY_TYPES = ['lead', 'customer', 'deal'] as const;
+export type CustomFieldEntityType = typeof CUSTOM_FIELD_ENTITY_TYPES[number];
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'picklist', 'multiselect', 'currency'] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+// Options must suit the type (choices for picklists, a currency code for currency fields), which
+// storage checks against the stored definition since updates may change only one of them
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions, {
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES),
+  key: (schema) => schema.regex(/^[a-z][a-z0-9_]{0,39}$/, "Keys must start with a lowercase letter and may only contain lowercase letters, digits and underscores (40 at most)"),
+  label: (schema) => schema.trim().min(1).max(100),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be an ISO 4217 code such as USD").nullable().optional(),
+  position: (schema) => schema.int().min(0),
+}).pick({
+  entityType: true,
+  key: true,
+  label: true,
+  type: true,
+  options: true,
+  currency: true,
+  required: true,
+  position: true,
+  organizationId: true,
+});
+
+// The entity type, key and type of a field are fixed once values may have been stored
+export const updateCustomFieldDefinitionSchema = insertCustomFieldDefinitionSchema.pick({
+  label: true,
+  options: true,
+  currency: true,
+  required: true,
+  position: true,
+}).partial();
+
+export const customFieldDefinitionQuerySchema = z.object({
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES).optional(),
+});
+
+export const insertDealStageHistorySchema = createInsertSchema(dealStageHistory).pick({
+  dealId: true,
+  fromStage: true,
+  toStage: true,
+  reason: true,
+  changedBy: true,
+  organizationId: true,
+});
+
+export const insertImportJobSchema = createInsertSchema(importJobs).pick({
+  entityType: true,
+  fileName: true,
+  duplicateStrategy: true,
+  mapping: true,
+  totalRows: true,
+  createdBy: true,
+  organizationId: true,
+});
+
+export const ACTIVITY_TYPES = ['call', 'email', 'meeting', 'task', 'note'] as const;
+
+// RRULE-style recurrence, evaluated in UTC. Weekly rules repeat on the due date's weekday unless
+// `byWeekday` is given; monthly rules on the due date's day of the month (clamped to short months).
+// A series ends after `count` occurrences or after the `until` date (inclusive), if either is set.
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly'] as const;
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1).max(99).default(1),
+  byWeekday: z.array(z.enum(WEEKDAY_CODES)).min(1).optional(),
+  byMonthDay: z.number().int().min(1).max(31).optional(),
+  count: z.number().int().min(1).max(1000).optional(),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD").optional(),
+}).strict()
+  .refine(rule => rule.count === undefined || rule.until === undefined, { message: "Use either count or until to end a recurrence" })
+  .refine(rule => !rule.byWeekday || rule.frequency === 'weekly', { message: "byWeekday only applies to weekly recurrences" })
+  .refine(rule => !rule.byMonthDay || rule.frequency === 'monthly', { message: "byMonthDay only applies to monthly recurrences" });
+
+// Due dates arrive as ISO 8601 strings in JSON bodies; recurring activities need one
+export const insertActivitySchema = createInsertSchema(activities, {
+  dueDate: z.coerce.date().nullable().optional(),
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+}).pick({
   type: true,
   subject: true,
   description: true,
   status: true,
   dueDate: true,
+  recurrence: true,
   customerId: true,
   leadId: true,
   dealId: true,
@@ -304,6 +959,59 @@ export const insertActivitySchema = createInsertSchema(activities).pick({
   organizationId: true,
 });
 
+export const sequenceStepInputSchema = createInsertSchema(sequenceSteps, {
+  dayOffset: (schema) => schema.min(0).max(365),
+  type: z.enum(ACTIVITY_TYPES),
+  subject: (schema) => schema.trim().min(1),
+}).pick({
+  dayOffset: true,
+  type: true,
+  subject: true,
+  description: true,
+});
+
+// Steps are given in order; their position is derived from the array index
+const sequenceStepsSchema = z.array(sequenceStepInputSchema)
+  .min(1)
+  .max(50)
+  .refine(steps => steps.every((step, index) => index === 0 || (step.dayOffset ?? 0) >= (steps[index - 1].dayOffset ?? 0)), {
+    message: "Steps must be in order of their day offset"
+  });
+
+export const insertSequenceSchema = createInsertSchema(sequences, {
+  name: (schema) => schema.trim().min(1).max(100),
+}).pick({
+  name: true,
+  description: true,
+  isActive: true,
+  createdBy: true,
+  organizationId: true,
+}).extend({
+  steps: sequenceStepsSchema,
+});
+
+// Changing the steps only affects later enrollments
+export const updateSequenceSchema = insertSequenceSchema.omit({ organizationId: true, createdBy: true }).partial();
+
+// Enrolls exactly one lead or deal; the activities go to `assignedTo`, by default the record's owner
+export const enrollSequenceSchema = z.object({
+  leadId: z.number().int().optional(),
+  dealId: z.number().int().optional(),
+  assignedTo: z.number().int().nullable().optional(),
+}).strict().refine(enrollment => (enrollment.leadId === undefined) !== (enrollment.dealId === undefined), {
+  message: "Enroll either a leadId or a dealId"
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  type: true,
+  title: true,
+  body: true,
+  entityType: true,
+  entityId: true,
+  organizationId: true,
+});
+
 export const insertSalesDataSchema = createInsertSchema(salesData).pick({
   month: true,
   year: true,
@@ -315,18 +1023,688 @@ export const insertSalesDataSchema = createInsertSchema(salesData).pick({
   organizationId: true,
 });
 
+// Update schemas (a record can never be moved to another organization)
+export const updateLeadSchema = insertLeadSchema.omit({ organizationId: true }).partial();
+export const updateCustomerSchema = insertCustomerSchema.omit({ organizationId: true }).partial();
+export const updateDealSchema = insertDealSchema.omit({ organizationId: true }).partial();
+// Stage moves may carry a reason (required by the organization's rules for e.g. closed_lost)
+export const updateDealRequestSchema = updateDealSchema.extend({
+  stageReason: z.string().optional(),
+});
+export const updateActivitySchema = insertActivitySchema.omit({ organizationId: true, createdBy: true }).partial();
+
+// Bulk re-run of the assignment engine; without leadIds every open lead is considered
+export const assignLeadsSchema = z.object({
+  leadIds: z.array(z.number().int()).optional(),
+  onlyUnassigned: z.boolean().default(true),
+});
+
+// The survivor keeps its own values; blank fields are filled in from the merged record
+export const mergeCustomersSchema = z.object({
+  survivorId: z.number().int(),
+  mergedId: z.number().int(),
+}).refine(merge => merge.survivorId !== merge.mergedId, { message: "A customer cannot be merged into itself" });
+
+// Lead conversion: customer fields default to the lead's own, the opening deal is optional
+export const convertLeadSchema = z.object({
+  customer: insertCustomerSchema.omit({ organizationId: true, convertedFromLead: true }).partial().default({}),
+  deal: insertDealSchema.omit({ organizationId: true, customerId: true }).optional(),
+});
+
+// List query parameters. `sort` is a comma separated field list, "-" prefix for descending
+// (e.g. "-createdAt,lastName"); `cursor` is the opaque nextCursor of the previous page
+export const MAX_PAGE_SIZE = 100;
+
+export interface SortField {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+// Custom fields sort as "cf.<key>"; storage checks the key against the organization's definitions
+export const CUSTOM_FIELD_SORT_PREFIX = 'cf.';
+const CUSTOM_FIELD_SORT_PATTERN = /^cf\.[a-z][a-z0-9_]{0,39}$/;
+
+export const listQuerySchema = <F extends string>(
+  sortable: readonly [F, ...F[]],
+  defaultSort = '-createdAt',
+  { customFields = false } = {}
+) => z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(25),
+  cursor: z.string().min(1).optional(),
+  sort: z.string().default(defaultSort).transform((value, ctx) => {
+    const fields: SortField[] = [];
+    for (const token of value.split(',').map(part => part.trim()).filter(Boolean)) {
+      const field = token.replace(/^-/, '');
+      const known = (sortable as readonly string[]).includes(field) || (customFields && CUSTOM_FIELD_SORT_PATTERN.test(field));
+      if (!known || fields.some(sort => sort.field === field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Cannot sort by ${field}; expected one of ${sortable.join(', ')}${customFields ? ' or cf.<key>' : ''}` });
+        return z.NEVER;
+      }
+      fields.push({ field, direction: token.startsWith('-') ? 'desc' : 'asc' });
+    }
+    return fields;
+  }),
+});
+
+// Envelope returned by every list route
+export interface Page<T> {
+  data: T[];
+  page: {
+    limit: number;
+    total: number; // matching records across all pages
+    hasMore: boolean;
+    nextCursor: string | null;
+  };
+}
+
+const csvFilter = <T extends string>(values: readonly [T, ...T[]]) =>
+  z.string().transform(value => value.split(',').map(part => part.trim()).filter(Boolean)).pipe(z.array(z.enum(values)).min(1));
+const textCsvFilter = z.string().transform(value => value.split(',').map(part => part.trim()).filter(Boolean)).pipe(z.array(z.string()).min(1));
+// A user id, or "unassigned" for records without an owner
+const assigneeFilter = z.union([z.literal('unassigned'), z.coerce.number().int()]);
+const idFilter = z.coerce.number().int();
+const dateFilter = z.coerce.date();
+const amountFilter = z.coerce.number();
+// cf[key]=a,b matches any of the values (text fields: substring); cf[key][min]/cf[key][max] bound
+// number, currency and date fields. Values are parsed against the field definitions by storage.
+const customFieldFilter = z.record(
+  z.string(),
+  z.union([z.string().min(1), z.object({ min: z.string().min(1).optional(), max: z.string().min(1).optional() }).strict()])
+);
+export type CustomFieldFilters = z.infer<typeof customFieldFilter>;
+
+const rangeRefinement = <T extends Record<string, unknown>>(pairs: [keyof T & string, keyof T & string][]) =>
+  (query: T, ctx: z.RefinementCtx) => {
+    for (const [from, to] of pairs) {
+      const lower = query[from];
+      const upper = query[to];
+      if (lower !== undefined && upper !== undefined && Number(lower) > Number(upper)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [to], message: `${to} must not be before ${from}` });
+      }
+    }
+  };
+
+export const leadListQuerySchema = listQuerySchema(['createdAt', 'updatedAt', 'score', 'lastName', 'company', 'status'], '-createdAt', { customFields: true }).extend({
+  status: textCsvFilter.optional(),
+  source: textCsvFilter.optional(),
+  assignedTo: assigneeFilter.optional(),
+  createdFrom: dateFilter.optional(),
+  createdTo: dateFilter.optional(),
+  scoreMin: z.coerce.number().int().optional(),
+  scoreMax: z.coerce.number().int().optional(),
+  cf: customFieldFilter.optional(),
+}).superRefine(rangeRefinement([['createdFrom', 'createdTo'], ['scoreMin', 'scoreMax']]));
+
+export const customerListQuerySchema = listQuerySchema(['createdAt', 'updatedAt', 'value', 'lastName', 'company', 'lastContact'], '-createdAt', { customFields: true }).extend({
+  status: textCsvFilter.optional(),
+  assignedTo: assigneeFilter.optional(),
+  company: z.string().min(1).optional(), // case-insensitive substring match
+  createdFrom: dateFilter.optional(),
+  createdTo: dateFilter.optional(),
+  valueMin: amountFilter.optional(),
+  valueMax: amountFilter.optional(),
+  cf: customFieldFilter.optional(),
+}).superRefine(rangeRefinement([['createdFrom', 'createdTo'], ['valueMin', 'valueMax']]));
+
+export const dealListQuerySchema = listQuerySchema(['createdAt', 'updatedAt', 'value', 'expectedCloseDate', 'probability', 'title'], '-createdAt', { customFields: true }).extend({
+  stage: textCsvFilter.optional(),
+  pipelineId: idFilter.optional(),
+  customerId: idFilter.optional(),
+  assignedTo: assigneeFilter.optional(),
+  valueMin: amountFilter.optional(),
+  valueMax: amountFilter.optional(),
+  expectedCloseFrom: dateFilter.optional(),
+  expectedCloseTo: dateFilter.optional(),
+  createdFrom: dateFilter.optional(),
+  createdTo: dateFilter.optional(),
+  cf: customFieldFilter.optional(),
+}).superRefine(rangeRefinement([
+  ['valueMin', 'valueMax'], ['expectedCloseFrom', 'expectedCloseTo'], ['createdFrom', 'createdTo'],
+]));
+
+export const activityListQuerySchema = listQuerySchema(['createdAt', 'updatedAt', 'dueDate', 'completedAt', 'subject']).extend({
+  type: csvFilter(ACTIVITY_TYPES).optional(),
+  status: textCsvFilter.optional(),
+  assignedTo: assigneeFilter.optional(),
+  entityType: z.enum(['customer', 'lead', 'deal']).optional(),
+  entityId: idFilter.optional(),
+  leadId: idFilter.optional(),
+  customerId: idFilter.optional(),
+  dealId: idFilter.optional(),
+  dueFrom: dateFilter.optional(),
+  dueTo: dateFilter.optional(),
+}).superRefine(rangeRefinement([['dueFrom', 'dueTo']])).superRefine((query, ctx) => {
+  if ((query.entityType === undefined) !== (query.entityId === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entityId'], message: "entityType and entityId must be given together" });
+  }
+});
+
+// Exports take the same filters and sort as the list routes, without limit and cursor:
+// every matching record is streamed in the requested format
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'ndjson'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const exportFormatSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+});
+
+const exportQuerySchema = <T extends z.ZodTypeAny>(listSchema: T) => z.intersection(listSchema, exportFormatSchema);
+
+export const leadExportQuerySchema = exportQuerySchema(leadListQuerySchema);
+export const customerExportQuerySchema = exportQuerySchema(customerListQuerySchema);
+export const dealExportQuerySchema = exportQuerySchema(dealListQuerySchema);
+export const activityExportQuerySchema = exportQuerySchema(activityListQuerySchema);
+
+// The full export archive holds one file per table; spreadsheets are not offered there
+export const archiveExportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).default('ndjson'),
+});
+
+// Global search; `types` limits the entity types searched (comma separated)
+export const SEARCH_ENTITY_TYPES = ['lead', 'customer', 'deal', 'activity'] as const;
+export type SearchEntityType = typeof SEARCH_ENTITY_TYPES[number];
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  types: csvFilter(SEARCH_ENTITY_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5), // per entity type
+});
+
+export interface SearchResult {
+  id: number;
+  entityType: SearchEntityType;
+  title: string;
+  subtitle: string | null;
+  rank: number;
+  // [start, end) character ranges of matched words, for highlighting
+  highlights: { title: [number, number][]; subtitle: [number, number][] };
+}
+
+export interface SearchResultGroup {
+  entityType: SearchEntityType;
+  total: number; // matches in this group, including those beyond the limit
+  results: SearchResult[];
+}
+
+export interface SearchResponse {
+  query: string;
+  groups: SearchResultGroup[]; // best-ranked group first; types without matches are omitted
+}
+
+// Spreadsheet import request; the same body is sent for the dry-run preview and the real run
+export const IMPORT_ENTITY_TYPES = ['leads', 'customers'] as const;
+export type ImportEntityType = typeof IMPORT_ENTITY_TYPES[number];
+
+export const importRequestSchema = z.object({
+  entityType: z.enum(IMPORT_ENTITY_TYPES),
+  fileName: z.string().min(1).max(255).regex(/\.(csv|xlsx)$/i, "Only .csv and .xlsx files can be imported"),
+  content: z.string().min(1), // base64 encoded file
+  // Column header -> field; null ignores the column. Inferred from the headers when omitted
+  mapping: z.record(z.string(), z.string().nullable()).optional(),
+  duplicateStrategy: z.enum(['skip', 'update']).default('skip'), // rows whose email already exists
+});
+
+// Rows are validated as they would be by POST /leads and POST /customers, with a real email check
+export const importRowSchemas = {
+  leads: insertLeadSchema.omit({ organizationId: true, assignedTo: true, customFields: true }).extend({ email: z.string().email() }),
+  customers: insertCustomerSchema.omit({ organizationId: true, assignedTo: true, convertedFromLead: true, customFields: true }).extend({ email: z.string().email() }),
+};
+
+export const importJobListQuerySchema = listQuerySchema(['createdAt']);
+
+export const notificationListQuerySchema = listQuerySchema(['createdAt']).extend({
+  unread: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const WEBHOOK_EVENTS = ['lead.created', 'lead.converted', 'deal.stage_changed', 'deal.won', 'customer.updated'] as const;
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+const webhookUrlSchema = z.string().trim().url().max(2000)
+  .refine(url => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+// The secret is generated by the server and only returned when the subscription is created
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions, {
+  url: () => webhookUrlSchema,
+  events: () => z.array(z.enum(WEBHOOK_EVENTS)).min(1).refine(events => new Set(events).size === events.length, "Events must be unique"),
+}).pick({
+  url: true,
+  events: true,
+  description: true,
+  isActive: true,
+  createdBy: true,
+  organizationId: true,
+});
+
+export const updateWebhookSubscriptionSchema = insertWebhookSubscriptionSchema.omit({ organizationId: true, createdBy: true }).partial();
+
+export const webhookTestSchema = z.object({
+  event: z.enum(WEBHOOK_EVENTS).optional(), // defaults to the subscription's first event
+}).strict();
+
+export const webhookDeliveryQuerySchema = listQuerySchema(['createdAt']).extend({
+  subscriptionId: idFilter.optional(),
+  event: csvFilter(WEBHOOK_EVENTS).optional(),
+  status: csvFilter(WEBHOOK_DELIVERY_STATUSES).optional(),
+});
+
+export const AUDIT_ENTITY_TYPES = [
+  'organization', 'user', 'lead', 'customer', 'deal', 'activity', 'pipeline', 'custom_field',
+  'sequence', 'sequence_enrollment', 'webhook', 'lead_form', 'quota', 'sales_adjustment',
+] as const;
+// Deleting a lead, customer, deal or activity moves it to the trash; purging removes it for good
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+
+export const auditLogQuerySchema = listQuerySchema(['createdAt']).extend({
+  entityType: csvFilter(AUDIT_ENTITY_TYPES).optional(),
+  entityId: idFilter.optional(),
+  actorId: idFilter.optional(),
+  action: csvFilter(AUDIT_ACTIONS).optional(),
+  from: dateFilter.optional(),
+  to: dateFilter.optional(),
+}).superRefine(rangeRefinement([['from', 'to']]));
+
+export const auditLogExportQuerySchema = exportQuerySchema(auditLogQuerySchema);
+
+// Records that are soft-deleted into the trash
+export const TRASH_ENTITY_TYPES = ['lead', 'customer', 'deal', 'activity'] as const;
+
+export const trashQuerySchema = listQuerySchema(['deletedAt'], '-deletedAt').extend({
+  deletedBy: idFilter.optional(),
+});
+
+export const FORECAST_PERIODS = ['month', 'quarter'] as const;
+
+// Deals are forecast in the period of their expected close date, starting with the one `from` falls in
+export const forecastQuerySchema = z.object({
+  period: z.enum(FORECAST_PERIODS).default('month'),
+  from: dateFilter.optional(), // defaults to the current period
+  periods: z.coerce.number().int().min(1).max(24).default(6),
+  assignedTo: idFilter.optional(),
+  pipelineId: idFilter.optional(),
+});
+
+export const insertForecastSnapshotSchema = forecastQuerySchema.extend({
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const forecastSnapshotListQuerySchema = listQuerySchema(['createdAt']).extend({
+  period: z.enum(FORECAST_PERIODS).optional(),
+});
+
+// Without `against`, a snapshot is compared with the latest one saved at least a week before it
+export const forecastComparisonQuerySchema = z.object({
+  against: idFilter.optional(),
+});
+
+// Rows derived from won deals, or entered by hand to correct them
+export const SALES_DATA_SOURCES = ['deal', 'adjustment'] as const;
+
+// Adjustments may be negative, e.g. to take back revenue of a refunded deal
+export const insertSalesAdjustmentSchema = z.object({
+  periodStart: z.coerce.date(), // any day of the month
+  revenue: z.coerce.number().min(-99999999.99).max(99999999.99).transform(value => value.toFixed(2)),
+  deals: z.number().int().default(0),
+  newCustomers: z.number().int().default(0),
+  assignedTo: z.number().int().optional(),
+  dealId: z.number().int().optional(),
+  note: z.string().trim().min(1).max(500),
+});
+
+export const salesDataRollupQuerySchema = z.object({
+  period: z.enum(FORECAST_PERIODS).default('month'),
+  from: dateFilter.optional(), // periods starting on or after
+  to: dateFilter.optional(), // periods starting before
+  assignedTo: idFilter.optional(),
+}).superRefine(rangeRefinement([['from', 'to']]));
+
+// Sales data of one month or quarter; `adjustments` is the part of `revenue` entered by hand
+export interface SalesDataRollup {
+  key: string;
+  start: string;
+  end: string; // exclusive
+  revenue: number;
+  deals: number;
+  newCustomers: number;
+  adjustments: number;
+}
+
+// What a backfill changed: the rows derived from deals are replaced, adjustments are kept
+export interface SalesDataBackfill {
+  removed: number;
+  created: number;
+  adjustments: number;
+}
+
+// Deal values of one period (or of the whole range) for one rep or the whole team. Open deals
+// fall in exactly one of commit, bestCase and pipeline, by their probability.
+export interface ForecastAmounts {
+  closedWon: number; // deals won in the period
+  commit: number;
+  bestCase: number;
+  pipeline: number;
+  weighted: number; // open deals, each weighted by its probability
+  forecast: number; // closedWon + weighted
+  attainment: number; // revenue in sales data for the period, with adjustments
+  openDeals: number;
+}
+
+export type RepForecast = ForecastAmounts & { userId: number | null }; // null for unassigned deals
+
+export interface ForecastPeriod {
+  key: string; // e.g. 2026-03 or 2026-Q1
+  start: string;
+  end: string; // exclusive
+  team: ForecastAmounts;
+  reps: RepForecast[];
+}
+
+export interface Forecast {
+  period: ForecastPeriodType;
+  assignedTo: number | null; // the rep and pipeline the forecast was limited to, if any
+  pipelineId: number | null;
+  generatedAt: string;
+  commitProbability: number;
+  bestCaseProbability: number;
+  periods: ForecastPeriod[];
+  total: { team: ForecastAmounts; reps: RepForecast[] };
+  undated: { deals: number; value: number }; // open deals without an expected close date
+}
+
+// The period start may be any day of the period; storage moves it to the first day
+export const insertQuotaSchema = createInsertSchema(quotas, {
+  period: () => z.enum(FORECAST_PERIODS),
+  periodStart: () => z.coerce.date(),
+  target: () => z.coerce.number().positive().max(9999999999.99).transform(value => value.toFixed(2)),
+}).pick({
+  userId: true,
+  period: true,
+  periodStart: true,
+  target: true,
+  createdBy: true,
+  organizationId: true,
+});
+
+// Quotas move to another rep or period by deleting and creating them
+export const updateQuotaSchema = insertQuotaSchema.pick({ target: true });
+
+export const quotaQuerySchema = z.object({
+  period: z.enum(FORECAST_PERIODS).optional(),
+  userId: idFilter.optional(),
+  from: dateFilter.optional(), // periods starting on or after
+  to: dateFilter.optional(), // periods starting before
+}).superRefine(rangeRefinement([['from', 'to']]));
+
+export const LEADERBOARD_METRICS = ['revenue', 'dealsWon', 'winRate', 'activities'] as const;
+
+export const leaderboardQuerySchema = z.object({
+  period: z.enum(FORECAST_PERIODS).default('month'),
+  date: dateFilter.optional(), // any day of the period; defaults to today
+  sort: z.enum(LEADERBOARD_METRICS).default('revenue'),
+});
+
+// Attainment is the value of the deals won in the quota's period, as a percentage of the target
+export type QuotaWithAttainment = Quota & {
+  periodEnd: Date;
+  closedWon: number;
+  dealsWon: number;
+  attainment: number;
+};
+
+export interface LeaderboardEntry {
+  rank: number; // reps with the same value share a rank
+  userId: number;
+  name: string;
+  revenue: number; // value of the deals won
+  dealsWon: number;
+  dealsLost: number;
+  winRate: number | null; // percentage of the closed deals that were won; null when none closed
+  activities: number; // activities completed
+  quota: number | null;
+  attainment: number | null;
+}
+
+export interface Leaderboard {
+  period: ForecastPeriodType;
+  key: string;
+  start: string;
+  end: string;
+  sort: LeaderboardMetric;
+  team: { quota: number | null; revenue: number; attainment: number | null }; // unassigned deals count for the team
+  entries: LeaderboardEntry[];
+}
+
+export interface ForecastChange {
+  previous: ForecastAmounts;
+  current: ForecastAmounts;
+  change: ForecastAmounts;
+}
+
+export interface ForecastComparison {
+  previous: { id: number; createdAt: Date };
+  current: { id: number; createdAt: Date };
+  periods: { key: string; team: ForecastChange; reps: (ForecastChange & { userId: number | null })[] }[];
+  total: ForecastChange;
+}
+
+// Lead fields a form field can be mapped to, besides "customFields.<key>"
+export const LEAD_FORM_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'company', 'jobTitle', 'country', 'notes'] as const;
+
+// Origins are stored as scheme://host[:port], the form of the browser's Origin header
+const toOrigin = (value: string) => {
+  if (value === '*') return value;
+  try {
+    const url = new URL(value);
+    return /^https?:$/.test(url.protocol) && value.replace(/\/$/, '').toLowerCase() === url.origin.toLowerCase() ? url.origin : undefined;
+  } catch {
+    return undefined;
+  }
+};
+const formOriginSchema = z.string().trim()
+  .refine(origin => toOrigin(origin) !== undefined, "Origins must look like https://www.example.com (or * for any origin)")
+  .transform(origin => toOrigin(origin)!);
+
+// The public key is generated by the server; mapped custom fields are checked against their definitions
+export const insertLeadFormSchema = createInsertSchema(leadForms, {
+  name: (schema) => schema.trim().min(1).max(100),
+  allowedOrigins: () => z.array(formOriginSchema).min(1).max(20),
+  fieldMapping: () => z.record(z.string().trim().min(1).max(100), z.string().min(1))
+    .refine(mapping => Object.keys(mapping).length > 0, "Map at least one form field"),
+  source: (schema) => schema.trim().min(1).max(50),
+  honeypotField: (schema) => schema.regex(/^[A-Za-z0-9_-]{1,50}$/, "Use letters, digits, - and _ only"),
+  redirectUrl: () => z.string().trim().url().max(2000)
+    .refine(url => /^https?:\/\//i.test(url), "Redirect URLs must use http or https").nullable(),
+}).pick({
+  name: true,
+  allowedOrigins: true,
+  fieldMapping: true,
+  source: true,
+  assignedTo: true,
+  honeypotField: true,
+  mergeDuplicates: true,
+  redirectUrl: true,
+  isActive: true,
+  createdBy: true,
+  organizationId: true,
+});
+
+export const updateLeadFormSchema = insertLeadFormSchema.omit({ organizationId: true, createdBy: true }).partial();
+
+// Mapped submissions are validated like POST /leads, with a real email check
+export const leadFormSubmissionSchema = insertLeadSchema.pick({
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  company: true,
+  jobTitle: true,
+  country: true,
+  notes: true,
+}).extend({ email: z.string().trim().email() });
+
+export const NOTIFICATION_TYPES = ['lead_assigned', 'deal_stage_changed', 'activity_due', 'activity_overdue', 'activity_digest'] as const;
+
+// inApp keeps the notification in the notification center; realtime also pushes it to open sessions
+const notificationChannelsSchema = z.object({
+  inApp: z.boolean().default(true),
+  realtime: z.boolean().default(true),
+}).strict().default({});
+
+// A user's notification preferences per event type, stored under `notifications` in their settings
+export const notificationPreferencesSchema = z.object({
+  lead_assigned: notificationChannelsSchema,
+  deal_stage_changed: notificationChannelsSchema,
+  activity_due: notificationChannelsSchema,
+  activity_overdue: notificationChannelsSchema,
+  activity_digest: notificationChannelsSchema,
+}).strict();
+
+export const SEQUENCE_ENROLLMENT_STATUSES = ['active', 'completed', 'stopped'] as const;
+
+export const sequenceEnrollmentQuerySchema = z.object({
+  sequenceId: idFilter.optional(),
+  leadId: idFilter.optional(),
+  dealId: idFilter.optional(),
+  status: csvFilter(SEQUENCE_ENROLLMENT_STATUSES).optional(),
+});
+
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportRowResult {
+  row: number; // line in the spreadsheet, the header being line 1
+  action: ImportRowAction;
+  data: Record<string, unknown>;
+  errors: { field: string; message: string }[];
+  reason?: string; // why a row is skipped
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: Record<string, string | null>;
+  fields: { name: string; required: boolean }[];
+  totalRows: number;
+  summary: Record<ImportRowAction, number>;
+  rows: ImportRowResult[]; // the first rows only
+}
+
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).pick({
+  tokenHash: true,
+  familyId: true,
+  userId: true,
+  organizationId: true,
+  expiresAt: true,
+});
+
+// Auth request schemas
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
 // Types
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Organization = typeof organizations.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type Signup = z.infer<typeof signupSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type ConvertLead = z.infer<typeof convertLeadSchema>;
+export type AssignLeads = z.infer<typeof assignLeadsSchema>;
+export type MergeCustomers = z.infer<typeof mergeCustomersSchema>;
+export type RecordMerge = typeof recordMerges.$inferSelect;
+export type LeadAssignment = typeof leadAssignments.$inferSelect;
 export type Lead = typeof leads.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
 export type Customer = typeof customers.$inferSelect;
 export type InsertDeal = z.infer<typeof insertDealSchema>;
+export type UpdateDeal = z.infer<typeof updateDealSchema>;
 export type Deal = typeof deals.$inferSelect;
+export type PipelineStageInput = z.infer<typeof pipelineStageInputSchema>;
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type UpdatePipeline = z.infer<typeof updatePipelineSchema>;
+export type Pipeline = typeof pipelines.$inferSelect;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+export type InsertDealStageHistory = z.infer<typeof insertDealStageHistorySchema>;
+export type DealStageHistory = typeof dealStageHistory.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type UpdateActivity = z.infer<typeof updateActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
 export type InsertSalesData = z.infer<typeof insertSalesDataSchema>;
 export type SalesData = typeof salesData.$inferSelect;
+export type SalesDataSource = typeof SALES_DATA_SOURCES[number];
+export type InsertSalesAdjustment = z.infer<typeof insertSalesAdjustmentSchema>;
+export type SalesDataRollupQuery = z.infer<typeof salesDataRollupQuerySchema>;
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type Sequence = typeof sequences.$inferSelect;
+export type SequenceStep = typeof sequenceSteps.$inferSelect;
+export type SequenceWithSteps = Sequence & { steps: SequenceStep[] };
+export type SequenceStepInput = z.infer<typeof sequenceStepInputSchema>;
+export type InsertSequence = z.infer<typeof insertSequenceSchema>;
+export type UpdateSequence = z.infer<typeof updateSequenceSchema>;
+export type SequenceEnrollment = typeof sequenceEnrollments.$inferSelect;
+export type EnrollSequence = z.infer<typeof enrollSequenceSchema>;
+export type SequenceEnrollmentQuery = z.infer<typeof sequenceEnrollmentQuerySchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+// Pushed over the notification socket: a new notification, or notifications read in another session
+export type NotificationMessage =
+  | { type: 'notification'; notification: Notification }
+  | { type: 'read'; ids: number[] | 'all' };
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+// Subscriptions as listed; the secret is only shown once
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type UpdateWebhookSubscription = z.infer<typeof updateWebhookSubscriptionSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeliveryQuery = z.infer<typeof webhookDeliveryQuerySchema>;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+// Secrets are logged as "[redacted]"; JSON settings and custom fields per key, e.g. "customFields.budget"
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type TrashEntityType = typeof TRASH_ENTITY_TYPES[number];
+export type TrashQuery = z.infer<typeof trashQuerySchema>;
+export type TrashedRecord = Lead | Customer | Deal | Activity;
+export type ForecastPeriodType = typeof FORECAST_PERIODS[number];
+export type ForecastQuery = z.infer<typeof forecastQuerySchema>;
+export type InsertForecastSnapshot = z.infer<typeof insertForecastSnapshotSchema>;
+export type ForecastSnapshotListQuery = z.infer<typeof forecastSnapshotListQuerySchema>;
+export type ForecastSnapshot = typeof forecastSnapshots.$inferSelect;
+export type Quota = typeof quotas.$inferSelect;
+export type InsertQuota = z.infer<typeof insertQuotaSchema>;
+export type UpdateQuota = z.infer<typeof updateQuotaSchema>;
+export type QuotaQuery = z.infer<typeof quotaQuerySchema>;
+export type LeaderboardMetric = typeof LEADERBOARD_METRICS[number];
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type LeadForm = typeof leadForms.$inferSelect;
+export type InsertLeadForm = z.infer<typeof insertLeadFormSchema>;
+export type UpdateLeadForm = z.infer<typeof updateLeadFormSchema>;
+export type LeadFormField = typeof LEAD_FORM_FIELDS[number];
+export type LeadFormSubmission = z.infer<typeof leadFormSubmissionSchema>;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type UpdateCustomFieldDefinition = z.infer<typeof updateCustomFieldDefinitionSchema>;
+export type ListQuery = z.infer<ReturnType<typeof listQuerySchema>>;
+export type LeadListQuery = z.infer<typeof leadListQuerySchema>;
+export type CustomerListQuery = z.infer<typeof customerListQuerySchema>;
+export type DealListQuery = z.infer<typeof dealListQuerySchema>;
+export type ActivityListQuery = z.infer<typeof activityListQuerySchema>;
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+export type ImportJob = typeof importJobs.$inferSelect;
+export type InsertImportJob = z.infer<typeof insertImportJobSchema>;
+export type LoginRequest = z.infer<typeof loginSchema>;
\ No newline at end of file